@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { 
   Card, 
   CardHeader, 
@@ -14,7 +14,9 @@ import {
   DialogTitle,
   DialogContent,
   DialogActions,
-  Field
+  Field,
+  Dropdown,
+  Option
 } from '@fluentui/react-components'
 import { 
   Server24Regular, 
@@ -23,16 +25,183 @@ import {
   Delete24Regular,
   Play24Regular,
   CheckmarkCircle24Regular,
-  DismissCircle24Regular
+  DismissCircle24Regular,
+  Key24Regular,
+  Eye24Regular,
+  EyeOff24Regular,
+  Copy24Regular,
+  ArrowSync24Regular,
+  ArrowUndo24Regular,
+  ShieldCheckmark24Regular
 } from '@fluentui/react-icons'
 import { useAppStore } from '../../store/useAppStore'
-import type { MCPClientEndpoint } from '../../types'
+import { connectToBridge, disconnectFromBridge, getBridgeClient, addBridgeEventListener } from '../../mcp/bridge-client'
+import { mcpClientManager } from '../../mcp/client'
+import type { SchedulerStats } from '../../mcp/request-scheduler'
+import { getUndoJournal, type JournalEntry } from '../../mcp/undo-journal'
+import {
+  getApprovalQueue,
+  listApprovalTools,
+  DEFAULT_APPROVAL_POLICY,
+  type PendingApproval
+} from '../../mcp/approval'
+import type { MCPClientEndpoint, MCPClientStatus, MCPClientTransport, ApprovalDecision, ToolClass } from '../../types'
+
+const DECISION_LABELS: Record<ApprovalDecision, string> = {
+  allow: '自动允许',
+  ask: '询问',
+  deny: '拒绝'
+}
+
+const TRANSPORT_LABELS: Record<MCPClientTransport, string> = {
+  auto: '自动',
+  'streamable-http': 'Streamable HTTP',
+  sse: 'SSE',
+  websocket: 'WebSocket'
+}
+
+const STATUS_LABELS: Record<MCPClientStatus, string> = {
+  disconnected: '未连接',
+  connecting: '连接中',
+  connected: '已连接',
+  error: '连接失败'
+}
+
+const CLASS_LABELS: Record<ToolClass, string> = {
+  readOnly: '只读操作',
+  write: '编辑操作',
+  destructive: '删除/覆盖操作'
+}
+
+const APPROVAL_TOOLS = listApprovalTools()
+
+/**
+ * Generate a random bridge auth token (48 hex characters)
+ */
+function generateAuthToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
 
 export default function MCPPanel() {
   const { mcpServer, setMCPServer, mcpClients, addMCPClient, removeMCPClient, updateMCPClient } = useAppStore()
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
-  const [newEndpoint, setNewEndpoint] = useState({ name: '', url: '' })
+  const [newEndpoint, setNewEndpoint] = useState<{ name: string; url: string; transport: MCPClientTransport; authToken: string }>(
+    { name: '', url: '', transport: 'auto', authToken: '' }
+  )
   const [testingId, setTestingId] = useState<string | null>(null)
+  const [showToken, setShowToken] = useState(false)
+  const [activity, setActivity] = useState<JournalEntry[]>(() => getUndoJournal().list(10))
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+  const [revertError, setRevertError] = useState<string | null>(null)
+  const [pendingApprovals, setPendingApprovals] = useState<PendingApproval[]>(() => getApprovalQueue().list())
+  const [showToolPolicies, setShowToolPolicies] = useState(false)
+  const [queueStats, setQueueStats] = useState<SchedulerStats>(() => getBridgeClient().getQueueStats())
+  const approvalPolicy = mcpServer.approvalPolicy ?? DEFAULT_APPROVAL_POLICY
+
+  // Changes made by AI clients through the bridge
+  useEffect(() => {
+    return getUndoJournal().addListener((entries) => setActivity(entries.slice(0, 10)))
+  }, [])
+
+  // Requests waiting for the user's confirmation
+  useEffect(() => {
+    return getApprovalQueue().addListener(setPendingApprovals)
+  }, [])
+
+  useEffect(() => {
+    getApprovalQueue().setPolicy(approvalPolicy)
+  }, [approvalPolicy])
+
+  // Requests running and waiting in the bridge client's queue
+  useEffect(() => {
+    return addBridgeEventListener((event) => {
+      if (event.type === 'queue') setQueueStats(event.data as SchedulerStats)
+    })
+  }, [])
+
+  // Connect this add-in to the bridge server while the service is enabled
+  useEffect(() => {
+    if (mcpServer.enabled) {
+      connectToBridge(`ws://localhost:${mcpServer.port}/ws`, mcpServer.authToken || '')
+    } else {
+      disconnectFromBridge()
+    }
+  }, [mcpServer.enabled, mcpServer.port, mcpServer.authToken])
+
+  // Live status of the external MCP services
+  useEffect(() => {
+    return mcpClientManager.addListener((id, state) => {
+      updateMCPClient(id, {
+        status: state.status,
+        error: state.error,
+        toolCount: state.tools.length,
+        ...(state.status === 'connected' ? { lastConnected: new Date() } : {})
+      })
+    })
+  }, [updateMCPClient])
+
+  // Connect enabled endpoints and drop removed ones
+  useEffect(() => {
+    for (const endpoint of mcpClients) {
+      if (endpoint.enabled && !mcpClientManager.getClient(endpoint.id)) {
+        mcpClientManager.addEndpoint(endpoint)
+      }
+    }
+    for (const client of mcpClientManager.getAllClients()) {
+      const id = client.getEndpoint().id
+      if (!mcpClients.some(endpoint => endpoint.id === id)) {
+        mcpClientManager.removeEndpoint(id)
+      }
+    }
+  }, [mcpClients])
+
+  const startCommand = [
+    mcpServer.authToken ? `MCP_AUTH_TOKEN=${mcpServer.authToken}` : '',
+    `MCP_ALLOWED_ORIGINS=${window.location.origin}`,
+    `PORT=${mcpServer.port}`,
+    'npx tsx src/mcp/server/bridge-server.ts'
+  ].filter(Boolean).join(' ')
+
+  const handleRotateToken = () => {
+    setMCPServer({ authToken: generateAuthToken() })
+  }
+
+  const handleCopy = (text: string) => {
+    navigator.clipboard?.writeText(text).catch((e) => {
+      console.error('[MCPPanel] Failed to copy:', e)
+    })
+  }
+
+  const handleRevert = async (entry: JournalEntry) => {
+    setRevertingId(entry.id)
+    setRevertError(null)
+    try {
+      await getUndoJournal().revert(entry.id)
+    } catch (e) {
+      console.error('[MCPPanel] Failed to revert change:', e)
+      setRevertError(e instanceof Error ? e.message : '撤销失败')
+    } finally {
+      setRevertingId(null)
+    }
+  }
+
+  const handleClassDecision = (toolClass: ToolClass, decision: ApprovalDecision) => {
+    setMCPServer({
+      approvalPolicy: { ...approvalPolicy, classes: { ...approvalPolicy.classes, [toolClass]: decision } }
+    })
+  }
+
+  // `inherit` removes the tool's override so its class decides
+  const handleToolDecision = (toolName: string, decision: ApprovalDecision | 'inherit') => {
+    const tools = { ...approvalPolicy.tools }
+    if (decision === 'inherit') {
+      delete tools[toolName]
+    } else {
+      tools[toolName] = decision
+    }
+    setMCPServer({ approvalPolicy: { ...approvalPolicy, tools } })
+  }
 
   const handleAddEndpoint = () => {
     if (newEndpoint.name && newEndpoint.url) {
@@ -40,23 +209,57 @@ export default function MCPPanel() {
         id: Date.now().toString(),
         name: newEndpoint.name,
         url: newEndpoint.url,
+        transport: newEndpoint.transport,
+        authToken: newEndpoint.authToken || undefined,
         enabled: true,
       })
-      setNewEndpoint({ name: '', url: '' })
+      setNewEndpoint({ name: '', url: '', transport: 'auto', authToken: '' })
       setIsAddDialogOpen(false)
     }
   }
 
   const handleTestConnection = async (endpoint: MCPClientEndpoint) => {
     setTestingId(endpoint.id)
-    // Simulate connection test
-    await new Promise(resolve => setTimeout(resolve, 1500))
-    updateMCPClient(endpoint.id, { lastConnected: new Date() })
+    // Reconnects from scratch; the manager reports the result through its listener
+    await mcpClientManager.addEndpoint(endpoint)
     setTestingId(null)
   }
 
+  const handleRemoveEndpoint = (id: string) => {
+    mcpClientManager.removeEndpoint(id)
+    removeMCPClient(id)
+  }
+
   return (
     <div className="p-4 space-y-4 overflow-y-auto h-full">
+      {/* Requests waiting for confirmation */}
+      {pendingApprovals.map((request) => (
+        <Card key={request.id} className="animate-fade-in border border-warning">
+          <CardHeader
+            image={<ShieldCheckmark24Regular className="text-warning" />}
+            header={<Text weight="semibold">AI 请求确认</Text>}
+            description={`${request.toolTitle} (${request.tool})`}
+          />
+          <div className="p-4 space-y-2">
+            <Text className="block">{request.summary}</Text>
+            <pre className="p-2 bg-surface-secondary rounded font-mono text-xs max-h-40 overflow-auto whitespace-pre-wrap break-all">
+              {request.details}
+            </pre>
+            <div className="flex items-center justify-between">
+              <Text className="text-caption text-text-disabled">{request.requestedAt.toLocaleTimeString()}</Text>
+              <div className="flex items-center gap-2">
+                <Button size="small" onClick={() => getApprovalQueue().respond(request.id, false)}>
+                  拒绝
+                </Button>
+                <Button size="small" appearance="primary" onClick={() => getApprovalQueue().respond(request.id, true)}>
+                  允许
+                </Button>
+              </div>
+            </div>
+          </div>
+        </Card>
+      ))}
+
       {/* MCP Server Status */}
       <Card className="animate-fade-in">
         <CardHeader
@@ -94,22 +297,163 @@ export default function MCPPanel() {
                 <Text className="text-caption text-text-secondary">可用工具</Text>
                 <Text>5 个</Text>
               </div>
+              <div className="flex items-center justify-between">
+                <Text className="text-caption text-text-secondary">请求队列</Text>
+                <Text>执行中 {queueStats.running} · 等待 {queueStats.queued}</Text>
+              </div>
             </div>
           )}
 
           {mcpServer.enabled && (
             <div className="space-y-2">
-              <Text className="text-caption text-text-secondary">最近调用</Text>
-              <div className="space-y-1">
-                <div className="flex items-center justify-between p-2 bg-surface-secondary rounded text-xs">
-                  <span className="font-mono">create_slide</span>
-                  <span className="text-text-disabled">2 分钟前</span>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Key24Regular className="text-text-secondary" />
+                  <Text className="text-caption text-text-secondary">访问令牌</Text>
+                </div>
+                <Button
+                  icon={<ArrowSync24Regular />}
+                  appearance="subtle"
+                  size="small"
+                  onClick={handleRotateToken}
+                >
+                  {mcpServer.authToken ? '轮换' : '生成'}
+                </Button>
+              </div>
+              {mcpServer.authToken ? (
+                <div className="flex items-center gap-1">
+                  <Input
+                    className="flex-1 font-mono"
+                    size="small"
+                    readOnly
+                    type={showToken ? 'text' : 'password'}
+                    value={mcpServer.authToken}
+                  />
+                  <Button
+                    icon={showToken ? <EyeOff24Regular /> : <Eye24Regular />}
+                    appearance="subtle"
+                    size="small"
+                    onClick={() => setShowToken(!showToken)}
+                  />
+                  <Button
+                    icon={<Copy24Regular />}
+                    appearance="subtle"
+                    size="small"
+                    onClick={() => handleCopy(mcpServer.authToken!)}
+                  />
                 </div>
-                <div className="flex items-center justify-between p-2 bg-surface-secondary rounded text-xs">
-                  <span className="font-mono">add_content</span>
-                  <span className="text-text-disabled">5 分钟前</span>
+              ) : (
+                <Text className="text-caption text-warning block">
+                  未设置令牌：任何能访问桥接服务器的程序都可以控制此演示文稿
+                </Text>
+              )}
+              <div className="p-2 bg-surface-secondary rounded flex items-start gap-1">
+                <Text className="font-mono text-xs break-all flex-1">{startCommand}</Text>
+                <Button
+                  icon={<Copy24Regular />}
+                  appearance="subtle"
+                  size="small"
+                  onClick={() => handleCopy(startCommand)}
+                />
+              </div>
+              <Text className="text-caption text-text-disabled block">
+                使用此命令启动桥接服务器；AI 客户端需发送 Authorization: Bearer &lt;令牌&gt;
+              </Text>
+            </div>
+          )}
+
+          {mcpServer.enabled && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <ShieldCheckmark24Regular className="text-text-secondary" />
+                  <Text className="text-caption text-text-secondary">审批策略</Text>
                 </div>
+                <Button appearance="subtle" size="small" onClick={() => setShowToolPolicies(!showToolPolicies)}>
+                  {showToolPolicies ? '收起' : '按工具设置'}
+                </Button>
               </div>
+              {(Object.keys(CLASS_LABELS) as ToolClass[]).map((toolClass) => (
+                <div key={toolClass} className="flex items-center justify-between gap-2">
+                  <Text className="text-caption">{CLASS_LABELS[toolClass]}</Text>
+                  <Dropdown
+                    size="small"
+                    value={DECISION_LABELS[approvalPolicy.classes[toolClass]]}
+                    selectedOptions={[approvalPolicy.classes[toolClass]]}
+                    onOptionSelect={(_, data) => handleClassDecision(toolClass, data.optionValue as ApprovalDecision)}
+                  >
+                    {(Object.keys(DECISION_LABELS) as ApprovalDecision[]).map((decision) => (
+                      <Option key={decision} value={decision}>{DECISION_LABELS[decision]}</Option>
+                    ))}
+                  </Dropdown>
+                </div>
+              ))}
+              {showToolPolicies && (
+                <div className="p-2 bg-surface-secondary rounded space-y-1">
+                  {APPROVAL_TOOLS.map((tool) => {
+                    const override = approvalPolicy.tools[tool.name]
+                    return (
+                      <div key={tool.name} className="flex items-center justify-between gap-2">
+                        <Text className="text-caption truncate" title={tool.name}>{tool.title}</Text>
+                        <Dropdown
+                          size="small"
+                          value={override ? DECISION_LABELS[override] : `跟随类别（${DECISION_LABELS[approvalPolicy.classes[tool.toolClass]]}）`}
+                          selectedOptions={[override ?? 'inherit']}
+                          onOptionSelect={(_, data) => handleToolDecision(tool.name, data.optionValue as ApprovalDecision | 'inherit')}
+                        >
+                          <Option value="inherit">跟随类别</Option>
+                          {(Object.keys(DECISION_LABELS) as ApprovalDecision[]).map((decision) => (
+                            <Option key={decision} value={decision}>{DECISION_LABELS[decision]}</Option>
+                          ))}
+                        </Dropdown>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+              <Text className="text-caption text-text-disabled block">
+                “询问”的请求会在此面板等待确认；被拒绝的请求会向 AI 客户端返回错误
+              </Text>
+            </div>
+          )}
+
+          {mcpServer.enabled && (
+            <div className="space-y-2">
+              <Text className="text-caption text-text-secondary">AI 活动</Text>
+              {activity.length === 0 ? (
+                <Text className="text-caption text-text-disabled block">暂无 AI 修改</Text>
+              ) : (
+                <div className="space-y-1">
+                  {activity.map((entry) => (
+                    <div
+                      key={entry.id}
+                      className="flex items-center justify-between gap-2 p-2 bg-surface-secondary rounded text-xs"
+                    >
+                      <span className={`truncate ${entry.reverted ? 'line-through text-text-disabled' : ''}`}>
+                        {entry.summary}
+                      </span>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <span className="text-text-disabled">{entry.timestamp.toLocaleTimeString()}</span>
+                        {entry.reverted ? (
+                          <Badge appearance="outline" size="small">已撤销</Badge>
+                        ) : (
+                          <Button
+                            icon={revertingId === entry.id ? <Spinner size="tiny" /> : <ArrowUndo24Regular />}
+                            appearance="subtle"
+                            size="small"
+                            title="撤销此修改"
+                            onClick={() => handleRevert(entry)}
+                            disabled={revertingId !== null}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {revertError && (
+                <Text className="text-caption text-error block">{revertError}</Text>
+              )}
             </div>
           )}
         </div>
@@ -145,12 +489,17 @@ export default function MCPPanel() {
                 >
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center gap-2">
-                      {endpoint.enabled ? (
+                      {endpoint.status === 'connecting' ? (
+                        <Spinner size="tiny" />
+                      ) : endpoint.status === 'connected' ? (
                         <CheckmarkCircle24Regular className="text-success" />
                       ) : (
-                        <DismissCircle24Regular className="text-text-disabled" />
+                        <DismissCircle24Regular className={endpoint.status === 'error' ? 'text-error' : 'text-text-disabled'} />
                       )}
                       <Text weight="semibold">{endpoint.name}</Text>
+                      <Badge appearance="outline" size="small">
+                        {STATUS_LABELS[endpoint.status ?? 'disconnected']}
+                      </Badge>
                     </div>
                     <div className="flex items-center gap-1">
                       <Button
@@ -164,13 +513,21 @@ export default function MCPPanel() {
                         icon={<Delete24Regular />}
                         appearance="subtle"
                         size="small"
-                        onClick={() => removeMCPClient(endpoint.id)}
+                        onClick={() => handleRemoveEndpoint(endpoint.id)}
                       />
                     </div>
                   </div>
                   <Text className="text-caption text-text-secondary font-mono block truncate">
                     {endpoint.url}
                   </Text>
+                  {endpoint.status === 'connected' && (
+                    <Text className="text-caption text-text-secondary block mt-1">
+                      {endpoint.toolCount ?? 0} 个工具
+                    </Text>
+                  )}
+                  {endpoint.status === 'error' && endpoint.error && (
+                    <Text className="text-caption text-error block mt-1">{endpoint.error}</Text>
+                  )}
                   {endpoint.lastConnected && (
                     <Text className="text-caption text-text-disabled block mt-1">
                       上次连接: {new Date(endpoint.lastConnected).toLocaleString()}
@@ -201,7 +558,25 @@ export default function MCPPanel() {
                   <Input
                     value={newEndpoint.url}
                     onChange={(_, data) => setNewEndpoint({ ...newEndpoint, url: data.value })}
-                    placeholder="例如：ws://localhost:8080"
+                    placeholder="例如：http://localhost:8080/mcp"
+                  />
+                </Field>
+                <Field label="传输方式">
+                  <Dropdown
+                    value={TRANSPORT_LABELS[newEndpoint.transport]}
+                    selectedOptions={[newEndpoint.transport]}
+                    onOptionSelect={(_, data) => setNewEndpoint({ ...newEndpoint, transport: data.optionValue as MCPClientTransport })}
+                  >
+                    {(Object.keys(TRANSPORT_LABELS) as MCPClientTransport[]).map((transport) => (
+                      <Option key={transport} value={transport}>{TRANSPORT_LABELS[transport]}</Option>
+                    ))}
+                  </Dropdown>
+                </Field>
+                <Field label="访问令牌（可选）" hint="以 Authorization: Bearer 请求头发送；WebSocket 端点请将凭据放在 URL 中">
+                  <Input
+                    type="password"
+                    value={newEndpoint.authToken}
+                    onChange={(_, data) => setNewEndpoint({ ...newEndpoint, authToken: data.value })}
                   />
                 </Field>
               </div>
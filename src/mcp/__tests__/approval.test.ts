@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ApprovalQueue,
+  DEFAULT_APPROVAL_POLICY,
+  getApprovalDecision,
+  getToolClass,
+  listApprovalTools,
+  type ApprovalPolicy
+} from '../approval'
+
+describe('approval policy', () => {
+  it('classifies tools by their annotations', () => {
+    expect(getToolClass('ppt_get_info')).toBe('readOnly')
+    expect(getToolClass('ppt_create_slide')).toBe('write')
+    expect(getToolClass('ppt_delete_slide')).toBe('destructive')
+    // Overwrites text, fonts and geometry
+    expect(getToolClass('ppt_update_shape')).toBe('destructive')
+    expect(listApprovalTools().map(tool => tool.name)).not.toContain('ppt_list_documents')
+  })
+
+  it('lets a tool override win over its class', () => {
+    const policy: ApprovalPolicy = {
+      classes: { readOnly: 'allow', write: 'ask', destructive: 'deny' },
+      tools: { ppt_delete_shape: 'allow' }
+    }
+    expect(getApprovalDecision(policy, 'ppt_delete_shape')).toBe('allow')
+    expect(getApprovalDecision(policy, 'ppt_delete_slide')).toBe('deny')
+    expect(getApprovalDecision(policy, 'ppt_move_slide')).toBe('ask')
+    expect(getApprovalDecision(DEFAULT_APPROVAL_POLICY, 'ppt_add_content')).toBe('allow')
+  })
+
+  it('denies requests the policy blocks with a clear error', async () => {
+    const queue = new ApprovalQueue()
+    queue.setPolicy({ ...DEFAULT_APPROVAL_POLICY, tools: { ppt_create_slide: 'deny' } })
+
+    await expect(queue.check('createSlide', { title: 'Roadmap' })).rejects.toThrow(
+      "Denied by the add-in's approval policy: ppt_create_slide is not allowed (Create slide \"Roadmap\")"
+    )
+    // Methods without a tool, like slide lookups, always run
+    await expect(queue.check('resolveSlide', { ref: { type: 'number', number: 1 } })).resolves.toBeUndefined()
+  })
+
+  it('decides a change on the tool that made it', async () => {
+    const queue = new ApprovalQueue()
+    queue.setPolicy({ ...DEFAULT_APPROVAL_POLICY, tools: { ppt_add_content: 'deny' } })
+
+    // ppt_add_content adds code with the method ppt_add_code_block uses
+    const code = { slideId: '256', code: 'x = 1', language: 'python' }
+    await expect(queue.check('addCode', code, { tool: 'ppt_add_content' })).rejects.toThrow(
+      "Denied by the add-in's approval policy: ppt_add_content is not allowed (Add python code to slide 256)"
+    )
+    await expect(queue.check('addCode', code, { tool: 'ppt_add_code_block' })).resolves.toBeUndefined()
+    // Reads keep their own tool's rule, and unknown or missing tools fall back to the method
+    await expect(queue.check('getSlideShapes', { slideId: '256' }, { tool: 'ppt_add_content' })).resolves.toBeUndefined()
+    await expect(queue.check('addText', { slideId: '256' }, { tool: 'ppt_future_tool' })).rejects.toThrow('ppt_add_content is not allowed')
+    await expect(queue.check('addText', { slideId: '256' })).rejects.toThrow('ppt_add_content is not allowed')
+  })
+
+  it('waits for the user on "ask" and reports their answer', async () => {
+    const queue = new ApprovalQueue()
+    const seen: string[] = []
+    queue.addListener(pending => seen.push(pending.map(p => p.summary).join(',')))
+
+    const approved = queue.check('deleteSlide', { slideId: '256' })
+    const [request] = queue.list()
+    expect(request).toMatchObject({ tool: 'ppt_delete_slide', toolClass: 'destructive', summary: 'Delete slide 256' })
+    queue.respond(request.id, true)
+    await expect(approved).resolves.toBeUndefined()
+
+    const denied = queue.check('deleteShape', { slideId: '256', shapeId: '7' })
+    queue.respond(queue.list()[0].id, false)
+    await expect(denied).rejects.toThrow('Denied by the user in PowerPoint: Delete shape 7 on slide 256')
+
+    expect(queue.list()).toEqual([])
+    expect(seen).toEqual(['Delete slide 256', '', 'Delete shape 7 on slide 256', ''])
+  })
+
+  it('drops the confirmation when the server cancels the request', async () => {
+    const queue = new ApprovalQueue()
+    const controller = new AbortController()
+    let waiting = 0
+
+    const check = queue.check('deleteSlideRange', { startIndex: 0, count: 2, imageData: 'x'.repeat(500) }, {
+      signal: controller.signal,
+      onWaiting: () => waiting++
+    })
+    expect(queue.list()[0].summary).toBe('Delete 2 slide(s) from slide 1')
+    expect(queue.list()[0].details).toContain('(500 characters)')
+    expect(waiting).toBe(1)
+
+    controller.abort()
+    await expect(check).rejects.toThrow('Request cancelled')
+    expect(queue.list()).toEqual([])
+  })
+})
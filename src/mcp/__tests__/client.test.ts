@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { randomUUID } from 'crypto'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { MCPClient, type MCPClientState } from '../client'
+import { createPPTKitMCPServer, type PPTBackendCapabilities } from '../server'
+import { createInMemoryOperations } from '../server/memory'
+
+const TOKEN = 'secret-token'
+
+// Streamable HTTP server that only answers requests carrying the token
+async function startServer(capabilities: PPTBackendCapabilities): Promise<{ server: Server; url: string }> {
+  const transports = new Map<string, StreamableHTTPServerTransport>()
+  const server = createServer(async (req, res) => {
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+      res.writeHead(401).end()
+      return
+    }
+    const sessionId = req.headers['mcp-session-id'] as string | undefined
+    let transport = sessionId ? transports.get(sessionId) : undefined
+    if (!transport) {
+      transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: randomUUID,
+        onsessioninitialized: (id) => { transports.set(id, transport!) }
+      })
+      await createPPTKitMCPServer(createInMemoryOperations(), { capabilities }).connect(transport)
+    }
+    await transport.handleRequest(req, res)
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp` }
+}
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 20))
+  }
+}
+
+describe('MCP client', () => {
+  let server: Server | null = null
+
+  afterEach(async () => {
+    if (server) {
+      server.closeAllConnections()
+      await new Promise(resolve => server!.close(resolve))
+    }
+    server = null
+  })
+
+  it('connects over Streamable HTTP, calls tools and follows tool list changes', async () => {
+    let methods: ReadonlySet<string> | null = new Set(['getPresentationInfo', 'listSlides'])
+    const listeners = new Set<() => void>()
+    const started = await startServer({
+      getMethods: () => methods,
+      onChange(listener) {
+        listeners.add(listener)
+        return () => listeners.delete(listener)
+      }
+    })
+    server = started.server
+
+    const client = new MCPClient({
+      endpoint: { id: '1', name: 'PPT', url: started.url, enabled: true, authToken: TOKEN }
+    })
+    const states: MCPClientState['status'][] = []
+    client.addListener(state => states.push(state.status))
+
+    expect(await client.connect()).toBe(true)
+    expect(client.getState()).toMatchObject({ status: 'connected', transport: 'streamable-http' })
+    expect(client.getTools().map(tool => tool.name)).toEqual(['ppt_get_info', 'ppt_list_slides', 'ppt_list_documents'])
+    expect(states).toEqual(['connecting', 'connected'])
+
+    const info = await client.callTool('ppt_get_info', {})
+    expect(info.success).toBe(true)
+    expect(await client.callTool('ppt_create_slide', { title: 'Hidden' })).toMatchObject({ success: false })
+
+    methods = null
+    listeners.forEach(listener => listener())
+    await waitFor(() => client.getTools().length > 3)
+    expect(client.getTools().map(tool => tool.name)).toContain('ppt_create_slide')
+
+    await client.disconnect()
+    expect(client.getState()).toMatchObject({ status: 'disconnected', tools: [] })
+  })
+
+  it('reports a failed connection in its state', async () => {
+    const started = await startServer({ getMethods: () => null, onChange: () => () => {} })
+    server = started.server
+
+    const client = new MCPClient({
+      endpoint: { id: '1', name: 'PPT', url: started.url, enabled: true, transport: 'streamable-http' }
+    })
+
+    expect(await client.connect()).toBe(false)
+    expect(client.getState().status).toBe('error')
+    expect(client.getState().error).toBeTruthy()
+    expect(await client.callTool('ppt_get_info', {})).toEqual({ success: false, error: 'Not connected to MCP server' })
+  })
+
+  it('refuses WebSocket endpoints with credentials it cannot send', async () => {
+    const withToken = new MCPClient({
+      endpoint: { id: '1', name: 'WS', url: 'ws://127.0.0.1:1/mcp', enabled: true, transport: 'websocket', authToken: TOKEN }
+    })
+    expect(await withToken.connect()).toBe(false)
+    expect(withToken.getState().error).toContain('WebSocket endpoints cannot send an access token or headers')
+
+    // Auto mode picks WebSocket for ws:// URLs
+    const withHeaders = new MCPClient({
+      endpoint: { id: '2', name: 'WS', url: 'ws://127.0.0.1:1/mcp', enabled: true, headers: { 'X-Api-Key': TOKEN } }
+    })
+    expect(await withHeaders.connect()).toBe(false)
+    expect(withHeaders.getState().error).toContain('WebSocket endpoints cannot send an access token or headers')
+  })
+})
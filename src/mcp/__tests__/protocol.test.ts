@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { BRIDGE_PROTOCOL_VERSION, checkHello, parseClientMessage, parseServerMessage } from '../protocol'
+
+describe('bridge protocol', () => {
+  const hello = {
+    type: 'hello',
+    protocolVersion: BRIDGE_PROTOCOL_VERSION,
+    addinVersion: '1.1.0',
+    requirementSets: { PowerPointApi: '1.5' },
+    methods: ['listSlides', 'createSlide']
+  }
+
+  it('parses known messages and rejects the rest', () => {
+    expect(parseClientMessage(JSON.stringify(hello))).toEqual(hello)
+    expect(parseClientMessage('{"type":"register"}')).toEqual({ type: 'register', document: {} })
+    expect(parseServerMessage('{"type":"request","id":"req-1","method":"listSlides"}')).toEqual({
+      type: 'request', id: 'req-1', method: 'listSlides', params: {}
+    })
+    // Servers from before the handshake leave out protocolVersion
+    expect(parseServerMessage('{"type":"connected","message":"hi"}')).toEqual({ type: 'connected', message: 'hi' })
+
+    expect(parseServerMessage('{"type":"session","sessionId":"s-1","resumeToken":"abc","resumed":true}')).toMatchObject({ resumed: true })
+    expect(parseClientMessage(JSON.stringify({ ...hello, resume: { sessionId: 's-1', resumeToken: 'abc' } }))).toMatchObject({
+      resume: { sessionId: 's-1', resumeToken: 'abc' }
+    })
+
+    expect(() => parseClientMessage('{"type":"shout"}')).toThrow()
+    expect(() => parseClientMessage('{"type":"response"}')).toThrow()
+    expect(() => parseServerMessage('not json')).toThrow()
+  })
+
+  it('reports protocol version mismatches', () => {
+    const parsed = parseClientMessage(JSON.stringify(hello))
+    if (parsed.type !== 'hello') throw new Error('expected hello')
+
+    expect(checkHello(parsed)).toEqual([])
+    expect(checkHello({ ...parsed, protocolVersion: 0 })).toEqual([
+      `Add-in 1.1.0 speaks bridge protocol v0, this server speaks v${BRIDGE_PROTOCOL_VERSION}. Update the add-in.`
+    ])
+    expect(checkHello({ ...parsed, protocolVersion: BRIDGE_PROTOCOL_VERSION + 1 })[0]).toMatch(/Update the bridge server\.$/)
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { RequestScheduler, getRequestScope } from '../request-scheduler'
+
+// Request whose completion the test controls
+function deferred() {
+  let resolve!: () => void
+  const promise = new Promise<void>(r => { resolve = r })
+  return { promise, resolve }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('request scheduler', () => {
+  it('scopes requests by what they change', () => {
+    expect(getRequestScope('listSlides', {})).toEqual({ type: 'read' })
+    expect(getRequestScope('addText', { slideId: '256' })).toEqual({ type: 'slide', slideId: '256' })
+    expect(getRequestScope('moveSlide', { slideId: '256', index: 0 })).toEqual({ type: 'presentation' })
+    expect(getRequestScope('somethingNew', {})).toEqual({ type: 'presentation' })
+  })
+
+  it('serializes changes per slide and runs reads in parallel', async () => {
+    const scheduler = new RequestScheduler()
+    const log: string[] = []
+    const first = deferred()
+    const run = (name: string, gate?: Promise<void>) => async () => {
+      log.push(`start ${name}`)
+      await gate
+      log.push(`end ${name}`)
+    }
+
+    const a1 = scheduler.schedule('1', 'addText', { slideId: 'a' }, run('a1', first.promise))
+    const a2 = scheduler.schedule('2', 'updateShape', { slideId: 'a' }, run('a2'))
+    const b1 = scheduler.schedule('3', 'addImage', { slideId: 'b' }, run('b1'))
+    const read = scheduler.schedule('4', 'getSlideShapes', { slideId: 'a' }, run('read'))
+    await Promise.all([b1, read])
+
+    // a2 waits for a1; the other slide and the read do not
+    expect([...log].sort()).toEqual(['end b1', 'end read', 'start a1', 'start b1', 'start read'])
+    expect(scheduler.getStats()).toEqual({ running: 1, queued: 1, queuedBySlide: { a: 1 } })
+
+    first.resolve()
+    await Promise.all([a1, a2])
+    expect(log.slice(5)).toEqual(['end a1', 'start a2', 'end a2'])
+    expect(scheduler.getStats()).toEqual({ running: 0, queued: 0, queuedBySlide: {} })
+  })
+
+  it('runs slide list changes alone and drops cancelled requests from the queue', async () => {
+    const scheduler = new RequestScheduler()
+    const log: string[] = []
+    const gate = deferred()
+    let waiting = 0
+
+    const create = scheduler.schedule('1', 'createSlide', { title: 'New' }, async () => {
+      await gate.promise
+      log.push('create')
+    })
+    const controller = new AbortController()
+    const cancelled = scheduler.schedule('2', 'addText', { slideId: 'a' }, async () => { log.push('cancelled') }, {
+      signal: controller.signal,
+      onWaiting: () => waiting++
+    })
+    const text = scheduler.schedule('3', 'addText', { slideId: 'b' }, async () => { log.push('text') })
+
+    await tick()
+    expect(waiting).toBe(1)
+    expect(scheduler.getStats().queuedBySlide).toEqual({ a: 1, b: 1 })
+
+    controller.abort()
+    await expect(cancelled).rejects.toThrow('Request cancelled')
+    expect(scheduler.getStats().queued).toBe(1)
+
+    gate.resolve()
+    await Promise.all([create, text])
+    expect(log).toEqual(['create', 'text'])
+  })
+})
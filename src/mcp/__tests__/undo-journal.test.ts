@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import * as pptOps from '../../modules/ppt-bridge/operations'
+import { installPowerPointEmulator } from '../../test/powerpoint-emulator'
+import { UndoJournal, shapeUpdateUndo, shapeZOrderUndo } from '../undo-journal'
+
+// Two text boxes on one slide, and a journal of edits to them
+async function setUp() {
+  const emulator = installPowerPointEmulator({ slideCount: 1 })
+  const slideId = emulator.getSlide(0).id
+  const title = (await pptOps.addTextToSlide(0, 'Title')).data!.shapeId
+  const body = (await pptOps.addTextToSlide(0, 'Body')).data!.shapeId
+  const journal = new UndoJournal()
+
+  const update = async (shapeId: string, change: pptOps.ShapeUpdate) => {
+    const undo = await shapeUpdateUndo(slideId, shapeId, change)
+    await pptOps.updateShape(slideId, shapeId, change)
+    return journal.record('updateShape', `Updated shape ${shapeId}`, [undo!])!
+  }
+  const reorder = async (shapeId: string, position: pptOps.ShapeZOrder) => {
+    const undo = await shapeZOrderUndo(slideId, shapeId)
+    await pptOps.reorderShape(slideId, shapeId, position)
+    return journal.record('reorderShape', `Reordered shape ${shapeId}`, [undo!])!
+  }
+  const shapeOrder = async () => (await pptOps.getSlideShapes(slideId)).data!.map(shape => shape.id)
+
+  return { emulator, slideId, title, body, journal, update, reorder, shapeOrder }
+}
+
+describe('UndoJournal', () => {
+  it.each([
+    ['oldest first', [0, 1]],
+    ['newest first', [1, 0]]
+  ])('reverts edits to shapes on the same slide in place, %s', async (_, order) => {
+    const { emulator, slideId, title, body, update, reorder, journal, shapeOrder } = await setUp()
+    const before = await shapeOrder()
+    const { left } = emulator.findShape(title)!
+
+    const entries = [
+      await update(title, { text: 'Renamed', left: 200, fillColor: '#FFEEAA', horizontalAlignment: 'center' }),
+      await reorder(title, 'bringToFront')
+    ]
+    await update(body, { text: 'Kept', top: 300 })
+    expect(await shapeOrder()).not.toEqual(before)
+
+    for (const index of order) await journal.revert(entries[index].id)
+
+    expect(emulator.getSlide(0).id).toBe(slideId)
+    expect(await shapeOrder()).toEqual(before)
+    expect(emulator.findShape(title)).toMatchObject({ text: 'Title', left })
+    expect(emulator.findShape(title)!.fill.type).toBe('NoFill')
+    expect(emulator.findShape(title)!.paragraphFormat.horizontalAlignment).toBe('Left')
+    // The later edit to the other shape survives
+    expect(emulator.findShape(body)).toMatchObject({ text: 'Kept', top: 300 })
+  })
+
+  it('refuses to put back a slide copy over later changes, and follows the copy afterwards', async () => {
+    const { emulator, slideId, title, body, update, journal } = await setUp()
+    const exported = await pptOps.exportSlideById(slideId)
+    await pptOps.deleteShape(slideId, body)
+    const deletion = journal.record('deleteShape', `Deleted shape ${body}`, [
+      { type: 'replaceSlide', slideId, base64: exported.data!.base64 }
+    ])!
+    const edit = await update(title, { text: 'Edited' })
+
+    await expect(journal.revert(deletion.id)).rejects.toThrow(`Revert ${edit.id} first`)
+
+    await journal.revert(edit.id)
+    await journal.revert(deletion.id)
+    const copyId = emulator.getSlide(0).id
+    expect(copyId).not.toBe(slideId)
+    expect(emulator.findShape(body)).toMatchObject({ text: 'Body' })
+    // Entries recorded against the old slide now point at the copy
+    expect(journal.list().find(entry => entry.id === edit.id)!.actions[0]).toMatchObject({ slideId: copyId })
+  })
+})
@@ -0,0 +1,337 @@
+/**
+ * Approval Policy
+ *
+ * Decides whether a request from an AI client runs right away, waits for the
+ * user to confirm it in the add-in's MCP panel, or is refused. Decisions are
+ * set per annotation class (read-only, write, destructive) and can be
+ * overridden per tool.
+ */
+
+import { PPT_TOOLS } from './server/tools'
+import { BRIDGE_READ_METHODS } from './protocol'
+import type { ApprovalDecision, ApprovalPolicy, ToolClass } from '../types'
+
+export type { ApprovalDecision, ApprovalPolicy, ToolClass }
+
+// How long a request waits for the user before it times out
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000
+
+// How often a waiting request tells the server it is still alive
+const APPROVAL_HEARTBEAT_MS = 10 * 1000
+
+// Longest parameter string shown on a confirmation card
+const MAX_DETAIL_LENGTH = 200
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  classes: { readOnly: 'allow', write: 'allow', destructive: 'ask' },
+  tools: {}
+}
+
+// Request waiting for the user
+export interface PendingApproval {
+  id: string
+  method: string
+  tool: string
+  toolTitle: string
+  toolClass: ToolClass
+  summary: string
+  // Request parameters as JSON, long strings shortened
+  details: string
+  requestedAt: Date
+}
+
+export interface ApprovalOptions {
+  // MCP tool the request was made for, when the server sends it
+  tool?: string
+  // Aborted when the server cancels the request
+  signal?: AbortSignal
+  // Called while the request waits for the user
+  onWaiting?: () => void
+}
+
+type ApprovalListener = (pending: PendingApproval[]) => void
+
+// Tool each bridge method runs for; methods not listed (e.g. resolveSlide) are always allowed.
+// Changes are decided on the tool the server names, and on this map for servers that name none.
+const METHOD_TOOLS: Record<string, string> = {
+  getPresentationInfo: 'ppt_get_info',
+  listSlides: 'ppt_list_slides',
+  getSlideShapes: 'ppt_get_slide',
+  getHistory: 'ppt_history',
+  createSlide: 'ppt_create_slide',
+  addText: 'ppt_add_content',
+  addImage: 'ppt_add_content',
+  addCode: 'ppt_add_code_block',
+  addMermaid: 'ppt_add_mermaid_diagram',
+  addTable: 'ppt_add_table',
+  generateFromMarkdown: 'ppt_from_markdown',
+  deleteSlide: 'ppt_delete_slide',
+  deleteSlideRange: 'ppt_delete_slides',
+  duplicateSlide: 'ppt_duplicate_slide',
+  moveSlide: 'ppt_move_slide',
+  updateShape: 'ppt_update_shape',
+  deleteShape: 'ppt_delete_shape',
+  reorderShape: 'ppt_reorder_shape',
+  groupShapes: 'ppt_group_shapes',
+  runBatch: 'ppt_batch',
+  undo: 'ppt_undo'
+}
+
+/**
+ * Tools the add-in executes, in tools/list order
+ */
+export function listApprovalTools(): Array<{ name: string; title: string; toolClass: ToolClass }> {
+  const names = new Set(Object.values(METHOD_TOOLS))
+  return PPT_TOOLS
+    .filter(tool => names.has(tool.name))
+    .map(tool => ({ name: tool.name, title: tool.title, toolClass: getToolClass(tool.name) }))
+}
+
+/**
+ * Tool whose rule decides a request, or undefined when the request needs no approval
+ * Reads keep the rule of their own tool, so a change that first reads the
+ * slide is asked about once.
+ */
+export function getRequestTool(method: string, tool?: string): string | undefined {
+  const methodTool = getMethodTool(method)
+  if (!methodTool || !tool || (BRIDGE_READ_METHODS as ReadonlyArray<string>).includes(method)) return methodTool
+  return PPT_TOOLS.some(t => t.name === tool) ? tool : methodTool
+}
+
+/**
+ * Annotation class of a tool
+ */
+export function getToolClass(toolName: string): ToolClass {
+  const annotations = PPT_TOOLS.find(tool => tool.name === toolName)?.annotations
+  if (annotations?.readOnlyHint) return 'readOnly'
+  if (annotations?.destructiveHint) return 'destructive'
+  return 'write'
+}
+
+/**
+ * Tool a bridge method runs for, or undefined when the method needs no approval
+ */
+export function getMethodTool(method: string): string | undefined {
+  return METHOD_TOOLS[method]
+}
+
+/**
+ * Decision of a policy for a tool; a tool override wins over its class
+ */
+export function getApprovalDecision(policy: ApprovalPolicy, toolName: string): ApprovalDecision {
+  return policy.tools[toolName] ?? policy.classes[getToolClass(toolName)]
+}
+
+/**
+ * 1-based position of a 0-based index parameter
+ */
+function formatPosition(index: unknown): string {
+  return typeof index === 'number' ? String(index + 1) : '?'
+}
+
+/**
+ * Number of items in an array parameter
+ */
+function countItems(value: unknown): number {
+  return Array.isArray(value) ? value.length : 0
+}
+
+/**
+ * One-line description of a bridge request
+ */
+export function describeRequest(method: string, params: Record<string, unknown>): string {
+  const { slideId, shapeId } = params
+  switch (method) {
+    case 'createSlide':
+      return `Create slide "${params.title}"${typeof params.index === 'number' ? ` at position ${params.index + 1}` : ''}`
+    case 'deleteSlide':
+      return `Delete slide ${slideId}`
+    case 'deleteSlideRange':
+      return `Delete ${params.count} slide(s) from slide ${formatPosition(params.startIndex)}`
+    case 'duplicateSlide':
+      return `Duplicate slide ${slideId}`
+    case 'moveSlide':
+      return `Move slide ${slideId} to position ${formatPosition(params.index)}`
+    case 'addText':
+      return `Add text to slide ${slideId}`
+    case 'addCode':
+      return `Add ${params.language} code to slide ${slideId}`
+    case 'addMermaid':
+      return `Add a Mermaid diagram to slide ${slideId}`
+    case 'addImage':
+      return `Add an image to slide ${slideId}`
+    case 'addTable':
+      return `Add a ${countItems(params.headers)}-column table to slide ${slideId}`
+    case 'updateShape':
+      return `Update shape ${shapeId} on slide ${slideId}`
+    case 'deleteShape':
+      return `Delete shape ${shapeId} on slide ${slideId}`
+    case 'reorderShape':
+      return `Reorder shape ${shapeId} on slide ${slideId} (${params.position})`
+    case 'groupShapes':
+      return `Group ${countItems(params.shapeIds)} shapes on slide ${slideId}`
+    case 'runBatch':
+      return `Run ${countItems(params.steps)} batch step(s)`
+    case 'undo':
+      return params.entryId ? `Revert change ${params.entryId}` : 'Revert the latest change'
+    case 'generateFromMarkdown':
+      return `Generate slides from Markdown (${typeof params.markdown === 'string' ? params.markdown.length : 0} characters)`
+    case 'getSlideShapes':
+      return `Read the shapes of slide ${slideId}`
+    default:
+      return `Run ${method}`
+  }
+}
+
+/**
+ * Request parameters as JSON, with long strings (e.g. base64 images) shortened
+ */
+function formatDetails(params: Record<string, unknown>): string {
+  return JSON.stringify(params, (_key, value) =>
+    typeof value === 'string' && value.length > MAX_DETAIL_LENGTH
+      ? `${value.substring(0, MAX_DETAIL_LENGTH)}… (${value.length} characters)`
+      : value,
+  2)
+}
+
+/**
+ * Approval queue shared by the bridge client and the MCP panel
+ */
+export class ApprovalQueue {
+  private policy: ApprovalPolicy = DEFAULT_APPROVAL_POLICY
+  private pending: PendingApproval[] = []
+  private resolvers = new Map<string, (outcome: boolean | Error) => void>()
+  private nextId = 1
+  private listeners: ApprovalListener[] = []
+
+  /**
+   * Replace the policy; requests already waiting keep waiting
+   */
+  setPolicy(policy: ApprovalPolicy): void {
+    this.policy = policy
+  }
+
+  getPolicy(): ApprovalPolicy {
+    return this.policy
+  }
+
+  /**
+   * Check a bridge request against the policy
+   * Resolves when the request may run; throws when the policy or the user denies it.
+   */
+  async check(method: string, params: Record<string, unknown>, options: ApprovalOptions = {}): Promise<void> {
+    const tool = getRequestTool(method, options.tool)
+    if (!tool) return
+
+    const decision = getApprovalDecision(this.policy, tool)
+    if (decision === 'allow') return
+
+    const summary = describeRequest(method, params)
+    if (decision === 'deny') {
+      throw new Error(`Denied by the add-in's approval policy: ${tool} is not allowed (${summary}). Ask the user to allow it in the MCP panel.`)
+    }
+
+    const approved = await this.ask({
+      id: `approval-${this.nextId++}`,
+      method,
+      tool,
+      toolTitle: PPT_TOOLS.find(t => t.name === tool)?.title ?? tool,
+      toolClass: getToolClass(tool),
+      summary,
+      details: formatDetails(params),
+      requestedAt: new Date()
+    }, options)
+    if (!approved) {
+      throw new Error(`Denied by the user in PowerPoint: ${summary}`)
+    }
+  }
+
+  /**
+   * Wait for the user to answer a request
+   * Rejects when the request is cancelled or nobody answers in time.
+   */
+  private ask(request: PendingApproval, { signal, onWaiting }: ApprovalOptions): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Request cancelled'))
+        return
+      }
+
+      const heartbeat = onWaiting ? setInterval(onWaiting, APPROVAL_HEARTBEAT_MS) : null
+      const timeout = setTimeout(
+        () => finish(new Error(`Approval timed out in PowerPoint: ${request.summary}`)),
+        APPROVAL_TIMEOUT_MS
+      )
+      const onAbort = () => finish(new Error('Request cancelled'))
+
+      const finish = (outcome: boolean | Error) => {
+        if (!this.resolvers.delete(request.id)) return
+        if (heartbeat) clearInterval(heartbeat)
+        clearTimeout(timeout)
+        signal?.removeEventListener('abort', onAbort)
+        this.pending = this.pending.filter(p => p.id !== request.id)
+        this.emit()
+        if (outcome instanceof Error) {
+          reject(outcome)
+        } else {
+          resolve(outcome)
+        }
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.resolvers.set(request.id, finish)
+      this.pending.push(request)
+      this.emit()
+      onWaiting?.()
+    })
+  }
+
+  /**
+   * Answer a waiting request
+   */
+  respond(id: string, approved: boolean): void {
+    this.resolvers.get(id)?.(approved)
+  }
+
+  /**
+   * Requests waiting for the user, oldest first
+   */
+  list(): PendingApproval[] {
+    return this.pending.slice()
+  }
+
+  /**
+   * Listen for changes to the waiting requests
+   */
+  addListener(listener: ApprovalListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index >= 0) this.listeners.splice(index, 1)
+    }
+  }
+
+  private emit(): void {
+    const pending = this.list()
+    for (const listener of this.listeners) {
+      try {
+        listener(pending)
+      } catch (e) {
+        console.error('[ApprovalQueue] Listener error:', e)
+      }
+    }
+  }
+}
+
+// Singleton instance
+let approvalQueueInstance: ApprovalQueue | null = null
+
+/**
+ * Get the approval queue shared by the bridge client and the add-in UI
+ */
+export function getApprovalQueue(): ApprovalQueue {
+  if (!approvalQueueInstance) {
+    approvalQueueInstance = new ApprovalQueue()
+  }
+  return approvalQueueInstance
+}
@@ -12,37 +12,126 @@
  */
 
 import * as pptOps from '../modules/ppt-bridge/operations'
+import { addSyncEventListener } from '../modules/ppt-bridge/sync'
 import { parseMarkdown } from '../modules/markdown/parser'
+import { getUndoJournal, shapeUpdateUndo, shapeZOrderUndo, type JournalEntry, type UndoAction } from './undo-journal'
+import { getApprovalQueue } from './approval'
+import { RequestScheduler, type SchedulerStats } from './request-scheduler'
+import {
+  BRIDGE_METHODS,
+  BRIDGE_PROTOCOL_VERSION,
+  parseServerMessage,
+  type BridgeMethod,
+  type ServerMessage
+} from './protocol'
 import type { SlideContent } from '../types'
 
+// Subprotocol negotiated with the bridge server; the token is sent as `bearer.<token>`
+const BRIDGE_SUBPROTOCOL = 'ppt-kit-bridge'
+
+// Add-in version announced in the hello message (keep in sync with package.json)
+const ADDIN_VERSION = '1.1.0'
+
+// Methods that work without PowerPoint (e.g. in a plain browser tab)
+const OFFLINE_METHODS: BridgeMethod[] = ['generateFromMarkdown', 'getHistory']
+
+// Reconnect backoff: doubles per attempt up to the maximum, with jitter
+const RECONNECT_BASE_DELAY_MS = 1000
+const RECONNECT_MAX_DELAY_MS = 30000
+
+// The server pings every 15s; this long without any message means the connection is stale
+const STALE_CONNECTION_MS = 40000
+
+// Recent responses kept to answer requests the server resends after a reconnect
+const RESPONSE_CACHE_SIZE = 100
+
+// Methods that need PowerPointApi 1.8 (Slide.moveTo, exportAsBase64, z-order and groups)
+const API_1_8_METHODS: BridgeMethod[] = ['duplicateSlide', 'moveSlide', 'reorderShape', 'groupShapes']
+
 // Connection state
 type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error'
 
 // Event types
 export interface BridgeClientEvent {
-  type: 'state_change' | 'request' | 'error' | 'connected' | 'disconnected'
+  type: 'state_change' | 'request' | 'queue' | 'error' | 'connected' | 'disconnected'
   data?: unknown
 }
 
 type BridgeClientEventListener = (event: BridgeClientEvent) => void
 
+// How long a request waited and ran in the add-in, reported with its response
+interface RequestTiming {
+  durationMs: number
+  waitMs: number
+}
+
+// Per-request context passed to executeMethod
+interface RequestContext {
+  // Aborted when the server cancels the request
+  signal: AbortSignal
+  onProgress: (progress: number, total: number, message: string) => void
+}
+
+/**
+ * Stop a request the server cancelled before its next change to the document
+ */
+function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new Error('Request cancelled')
+  }
+}
+
+/**
+ * Serialize a journal entry for the server
+ */
+function toHistoryEntry(entry: JournalEntry) {
+  return {
+    id: entry.id,
+    method: entry.method,
+    summary: entry.summary,
+    timestamp: entry.timestamp.toISOString(),
+    reverted: entry.reverted
+  }
+}
+
 /**
  * MCP Bridge Client
  */
 export class MCPBridgeClient {
   private ws: WebSocket | null = null
   private serverUrl: string
+  private authToken: string | undefined
   private state: ConnectionState = 'disconnected'
   private reconnectTimer: number | null = null
   private reconnectAttempts = 0
   private maxReconnectAttempts = 10
-  private reconnectDelay = 2000
+  private staleTimer: number | null = null
+  private lastMessageAt = 0
+  // Session the server assigned; sent in the hello to resume after a reconnect
+  private session: { sessionId: string; resumeToken: string } | null = null
+  // Serialized responses by request ID, oldest first
+  private responseCache = new Map<string, string>()
   private listeners: BridgeClientEventListener[] = []
   private officeAvailable = false
+  private unsubscribeSync: (() => void) | null = null
+  private stopFocusTracking: (() => void) | null = null
+  private journal = getUndoJournal()
+  private approvals = getApprovalQueue()
+  // Serializes changes per slide so parallel requests do not interleave
+  private scheduler = new RequestScheduler()
+  // Queued and in-flight requests by ID, so the server can cancel them
+  private activeRequests = new Map<string, AbortController>()
+  // Identifies this document to the server across reconnects
+  private readonly documentId = `doc-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`
 
-  constructor(serverUrl = 'ws://localhost:3100/ws') {
+  constructor(serverUrl = 'ws://localhost:3100/ws', authToken?: string) {
     this.serverUrl = serverUrl
+    this.authToken = authToken
     this.officeAvailable = pptOps.isOfficeAvailable()
+    this.scheduler.addListener((stats) => {
+      this.emitEvent({ type: 'queue', data: stats })
+      this.sendEvent('queue', stats)
+    })
   }
 
   /**
@@ -57,18 +146,27 @@ export class MCPBridgeClient {
     console.log('[BridgeClient] Connecting to', this.serverUrl)
 
     try {
-      this.ws = new WebSocket(this.serverUrl)
+      // Browsers cannot set headers on WebSocket, so the token travels as a subprotocol
+      this.ws = this.authToken
+        ? new WebSocket(this.serverUrl, [BRIDGE_SUBPROTOCOL, `bearer.${this.authToken}`])
+        : new WebSocket(this.serverUrl)
 
       this.ws.onopen = () => {
         console.log('[BridgeClient] Connected to bridge server')
+        this.lastMessageAt = Date.now()
         this.setState('connected')
         this.reconnectAttempts = 0
         this.emitEvent({ type: 'connected' })
+        this.sendHello()
+        this.registerDocument()
+        this.startSyncForwarding()
+        this.startFocusTracking()
       }
 
       this.ws.onmessage = async (event) => {
+        this.lastMessageAt = Date.now()
         try {
-          const message = JSON.parse(event.data)
+          const message = parseServerMessage(event.data)
           await this.handleMessage(message)
         } catch (e) {
           console.error('[BridgeClient] Failed to handle message:', e)
@@ -77,10 +175,7 @@ export class MCPBridgeClient {
 
       this.ws.onclose = (event) => {
         console.log('[BridgeClient] Disconnected:', event.code, event.reason)
-        this.ws = null
-        this.setState('disconnected')
-        this.emitEvent({ type: 'disconnected' })
-        this.scheduleReconnect()
+        this.handleClose()
       }
 
       this.ws.onerror = (error) => {
@@ -95,20 +190,53 @@ export class MCPBridgeClient {
     }
   }
 
+  /**
+   * Clean up after the socket closed and schedule a reconnect
+   */
+  private handleClose(): void {
+    this.ws = null
+    this.stopStaleCheck()
+    this.stopSyncForwarding()
+    this.stopFocusTracking?.()
+    this.stopFocusTracking = null
+    this.setState('disconnected')
+    this.emitEvent({ type: 'disconnected' })
+    this.scheduleReconnect()
+  }
+
+  /**
+   * Close the socket without triggering its handlers
+   */
+  private closeSocket(code: number, reason: string): void {
+    if (this.ws) {
+      this.ws.onclose = null
+      this.ws.onerror = null
+      this.ws.onmessage = null
+      this.ws.close(code, reason)
+      this.ws = null
+    }
+  }
+
   /**
    * Disconnect from the bridge server
+   * The session ends, so requests the server still waits for are not answered.
    */
   disconnect(): void {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer)
       this.reconnectTimer = null
     }
-    
-    if (this.ws) {
-      this.ws.close(1000, 'Client disconnect')
-      this.ws = null
-    }
-    
+
+    // Detach handlers so the old socket does not trigger a reconnect
+    this.closeSocket(1000, 'Client disconnect')
+    this.reconnectAttempts = 0
+    this.session = null
+    this.responseCache.clear()
+
+    this.stopStaleCheck()
+    this.stopSyncForwarding()
+    this.stopFocusTracking?.()
+    this.stopFocusTracking = null
     this.setState('disconnected')
   }
 
@@ -141,6 +269,7 @@ export class MCPBridgeClient {
    * Update server URL
    */
   setServerUrl(url: string): void {
+    if (url === this.serverUrl) return
     this.serverUrl = url
     if (this.isConnected()) {
       this.disconnect()
@@ -148,24 +277,100 @@ export class MCPBridgeClient {
     }
   }
 
+  /**
+   * Update auth token (reconnects when connected)
+   */
+  setAuthToken(token: string | undefined): void {
+    if (token === this.authToken) return
+    this.authToken = token
+    if (this.state !== 'disconnected') {
+      this.disconnect()
+      this.connect()
+    }
+  }
+
   /**
    * Handle incoming message from server
    */
-  private async handleMessage(message: { type: string; id?: string; method?: string; params?: unknown }): Promise<void> {
+  private async handleMessage(message: ServerMessage): Promise<void> {
     if (message.type === 'connected') {
       console.log('[BridgeClient] Server acknowledged connection')
+      if (message.protocolVersion !== BRIDGE_PROTOCOL_VERSION) {
+        console.warn(`[BridgeClient] Server speaks bridge protocol v${message.protocolVersion ?? 0}, this add-in speaks v${BRIDGE_PROTOCOL_VERSION}`)
+      }
+      return
+    }
+
+    if (message.type === 'session') {
+      console.log(`[BridgeClient] Session ${message.resumed ? 'resumed' : 'started'}: ${message.sessionId}`)
+      // A new session means the server forgot earlier requests
+      if (!message.resumed) this.responseCache.clear()
+      this.session = { sessionId: message.sessionId, resumeToken: message.resumeToken }
+      this.startStaleCheck()
+      return
+    }
+
+    if (message.type === 'ping') {
+      // Only keeps the connection alive (see lastMessageAt)
+      return
+    }
+
+    if (message.type === 'cancel') {
+      // Queued requests are dropped; running ones stop before their next change
+      console.log('[BridgeClient] Request cancelled by server:', message.id)
+      this.activeRequests.get(message.id)?.abort()
       return
     }
 
-    if (message.type === 'request' && message.id && message.method) {
+    if (message.type === 'request') {
+      const id = message.id
+
+      // After a resume the server resends requests it has no answer for
+      if (this.activeRequests.has(id)) return
+      const cached = this.responseCache.get(id)
+      if (cached) {
+        if (this.ws?.readyState === WebSocket.OPEN) this.ws.send(cached)
+        return
+      }
       this.emitEvent({ type: 'request', data: { method: message.method, params: message.params } })
+
+      const controller = new AbortController()
+      this.activeRequests.set(id, controller)
+      const context: RequestContext = {
+        signal: controller.signal,
+        onProgress: (progress, total, text) => this.sendProgress(id, progress, total, text)
+      }
       
+      const receivedAt = Date.now()
+      let startedAt: number | null = null
+      const timing = (): RequestTiming => {
+        const now = Date.now()
+        return { durationMs: startedAt ? now - startedAt : 0, waitMs: (startedAt ?? now) - receivedAt }
+      }
+
       try {
-        const result = await this.executeMethod(message.method, message.params as Record<string, unknown>)
-        this.sendResponse(message.id, result)
+        // Requests the policy asks about wait here until the user answers in the MCP panel
+        const params = message.params
+        await this.approvals.check(message.method, params, {
+          tool: message.tool,
+          signal: controller.signal,
+          onWaiting: () => this.sendWaiting(id)
+        })
+        // Changes wait here for earlier changes to the same slide
+        const result = await this.scheduler.schedule(id, message.method, params,
+          () => {
+            startedAt = Date.now()
+            return this.executeMethod(message.method, params, context)
+          }, {
+            signal: controller.signal,
+            onWaiting: () => this.sendWaiting(id)
+          })
+        this.sendResponse(id, result, timing())
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error'
-        this.sendError(message.id, errorMsg)
+        this.sendError(id, errorMsg, timing())
+      } finally {
+        this.activeRequests.delete(id)
       }
     }
   }
@@ -174,25 +379,112 @@ export class MCPBridgeClient {
    * Find slide index by ID
    */
   private async findSlideIndexById(slideId: string): Promise<number> {
-    const result = await pptOps.listSlides(100, 0)
+    const result = await pptOps.resolveSlideRef({ type: 'id', id: slideId })
     if (!result.success || !result.data) {
-      throw new Error('Failed to list slides')
+      throw new Error(result.error || `Slide not found: ${slideId}`)
+    }
+    return result.data.index
+  }
+
+  /**
+   * Get the IDs of the shapes on a slide (null when they cannot be read)
+   */
+  private async getShapeIds(slideId: string): Promise<Set<string> | null> {
+    const result = await pptOps.getSlideShapes(slideId)
+    if (!result.success || !result.data) {
+      console.warn('[BridgeClient] Cannot read shapes for undo journal:', result.error)
+      return null
+    }
+    return new Set(result.data.map(shape => shape.id))
+  }
+
+  /**
+   * Run a change that adds shapes to a slide and journal the new shapes
+   */
+  private async journalShapes<T>(
+    method: string,
+    slideId: string,
+    summary: string,
+    signal: AbortSignal,
+    run: () => Promise<T>
+  ): Promise<T> {
+    const before = await this.getShapeIds(slideId)
+    throwIfCancelled(signal)
+    const result = await run()
+
+    const after = before && await this.getShapeIds(slideId)
+    if (before && after) {
+      const shapeIds = [...after].filter(id => !before.has(id))
+      this.journal.record(method, summary, [{ type: 'deleteShapes', slideId, shapeIds }])
+    }
+    return result
+  }
+
+  /**
+   * Export a range of slides as restore actions (null when they cannot be exported)
+   * All copies go back after the slide before the range; applied last to first,
+   * they come back in their original order.
+   */
+  private async exportSlideRange(startIndex: number, count: number): Promise<UndoAction[] | null> {
+    const page = await pptOps.listSlides(count, startIndex)
+    if (!page.success || !page.data) {
+      console.warn('[BridgeClient] Cannot list slides for undo journal:', page.error)
+      return null
+    }
+
+    const actions: UndoAction[] = []
+    let afterSlideId: string | null = null
+    for (const slide of page.data.slides) {
+      const exported = await pptOps.exportSlideById(slide.id)
+      if (!exported.success || !exported.data) {
+        console.warn('[BridgeClient] Cannot export slide for undo journal:', exported.error)
+        return null
+      }
+      if (actions.length === 0) afterSlideId = exported.data.previousSlideId
+      actions.push({ type: 'restoreSlide', base64: exported.data.base64, afterSlideId })
+    }
+    return actions
+  }
+
+  /**
+   * Run a change to an existing slide and journal how to undo it
+   * Uses the in-place inverse from capture when there is one, otherwise a
+   * copy of the slide from before the change.
+   */
+  private async journalSlideEdit<T extends { success: boolean }>(
+    method: string,
+    slideId: string,
+    summary: string,
+    signal: AbortSignal,
+    run: () => Promise<T>,
+    capture?: () => Promise<UndoAction | null>
+  ): Promise<T> {
+    let undo = capture ? await capture() : null
+    if (!undo) {
+      const exported = await pptOps.exportSlideById(slideId)
+      if (exported.success && exported.data) {
+        undo = { type: 'replaceSlide', slideId, base64: exported.data.base64 }
+      } else {
+        console.warn('[BridgeClient] Cannot export slide for undo journal:', exported.error)
+      }
     }
-    const slide = result.data.slides.find(s => s.id === slideId)
-    if (!slide) {
-      throw new Error(`Slide not found: ${slideId}`)
+    throwIfCancelled(signal)
+    const result = await run()
+    if (result.success && undo) {
+      this.journal.record(method, summary, [undo])
     }
-    return slide.index
+    return result
   }
 
   /**
    * Execute a method using Office.js
    */
-  private async executeMethod(method: string, params: Record<string, unknown>): Promise<unknown> {
+  private async executeMethod(method: string, params: Record<string, unknown>, context: RequestContext): Promise<unknown> {
     // Check if Office.js is available
-    if (!this.officeAvailable && method !== 'generateFromMarkdown') {
+    if (!this.officeAvailable && !OFFLINE_METHODS.includes(method as BridgeMethod)) {
       throw new Error('Office.js not available. Please open this in PowerPoint.')
     }
+    throwIfCancelled(context.signal)
 
     switch (method) {
       case 'getPresentationInfo': {
@@ -210,24 +502,75 @@ export class MCPBridgeClient {
       }
 
       case 'createSlide': {
-        const { title, layout } = params as { title: string; layout?: string }
-        const result = await pptOps.createSlide(title, layout as pptOps.LayoutType)
+        const { title, layout, index } = params as { title: string; layout?: string; index?: number }
+        const result = await pptOps.createSlide(title, layout as pptOps.LayoutType, index)
         if (!result.success || !result.data) {
           throw new Error(result.error || 'Failed to create slide')
         }
+        this.journal.record(method, `Created slide "${title}"`, [{ type: 'deleteSlides', slideIds: [result.data.slideId] }])
         return { slideId: result.data.slideId, index: result.data.index }
       }
 
       case 'deleteSlide': {
         const { slideId } = params as { slideId: string }
+        // Keep a copy of the slide so the deletion can be undone
+        const exported = await pptOps.exportSlideById(slideId)
+        if (!exported.success) {
+          console.warn('[BridgeClient] Cannot export slide for undo journal:', exported.error)
+        }
+        throwIfCancelled(context.signal)
         // Use deleteSlideById which accepts string ID
         const result = await pptOps.deleteSlideById(slideId)
         if (!result.success) {
           throw new Error(result.error || 'Failed to delete slide')
         }
+        if (exported.data) {
+          this.journal.record(method, `Deleted slide ${slideId}`, [
+            { type: 'restoreSlide', base64: exported.data.base64, afterSlideId: exported.data.previousSlideId }
+          ])
+        }
         return { success: true }
       }
 
+      case 'deleteSlideRange': {
+        const { startIndex, count } = params as { startIndex: number; count: number }
+        // Keep copies of the slides so the deletion can be undone
+        const restore = await this.exportSlideRange(startIndex, count)
+        throwIfCancelled(context.signal)
+        const result = await pptOps.deleteSlideRange(startIndex, count)
+        if (!result.success || !result.data) {
+          throw new Error(result.error || 'Failed to delete slides')
+        }
+        if (restore) {
+          this.journal.record(method, `Deleted ${count} slide(s) from slide ${startIndex + 1}`, restore)
+        }
+        return result.data
+      }
+
+      case 'duplicateSlide': {
+        const { slideId, index } = params as { slideId: string; index?: number }
+        const result = await pptOps.duplicateSlide(slideId, index)
+        if (!result.success || !result.data) {
+          throw new Error(result.error || 'Failed to duplicate slide')
+        }
+        this.journal.record(method, `Duplicated slide ${slideId}`, [{ type: 'deleteSlides', slideIds: [result.data.slideId] }])
+        return result.data
+      }
+
+      case 'moveSlide': {
+        const { slideId, index } = params as { slideId: string; index: number }
+        const result = await pptOps.moveSlide(slideId, index)
+        if (!result.success || !result.data) {
+          throw new Error(result.error || 'Failed to move slide')
+        }
+        if (result.data.fromIndex !== index) {
+          this.journal.record(method, `Moved slide ${slideId} to position ${index + 1}`, [
+            { type: 'moveSlide', slideId, index: result.data.fromIndex }
+          ])
+        }
+        return result.data
+      }
+
       case 'addText': {
         const { slideId, content, position } = params as { 
           slideId: string
@@ -236,7 +579,8 @@ export class MCPBridgeClient {
         }
         // Find slide index by ID
         const slideIndex = await this.findSlideIndexById(slideId)
-        const result = await pptOps.addTextToSlide(slideIndex, content, position)
+        const result = await this.journalShapes(method, slideId, `Added text to slide ${slideIndex + 1}`, context.signal,
+          () => pptOps.addTextToSlide(slideIndex, content, position))
         if (!result.success) {
           throw new Error(result.error || 'Failed to add text')
         }
@@ -251,7 +595,8 @@ export class MCPBridgeClient {
           position?: { x: number; y: number; width: number; height: number }
         }
         const slideIndex = await this.findSlideIndexById(slideId)
-        const result = await pptOps.addCodeToSlide(slideIndex, code, language, position)
+        const result = await this.journalShapes(method, slideId, `Added ${language} code to slide ${slideIndex + 1}`, context.signal,
+          () => pptOps.addCodeToSlide(slideIndex, code, language, position))
         if (!result.success || !result.data) {
           throw new Error(result.error || 'Failed to add code')
         }
@@ -265,7 +610,8 @@ export class MCPBridgeClient {
           position?: { x: number; y: number; width: number; height: number }
         }
         const slideIndex = await this.findSlideIndexById(slideId)
-        const result = await pptOps.addMermaidToSlide(slideIndex, mermaidCode, position)
+        const result = await this.journalShapes(method, slideId, `Added diagram to slide ${slideIndex + 1}`, context.signal,
+          () => pptOps.addMermaidToSlide(slideIndex, mermaidCode, position))
         if (!result.success || !result.data) {
           throw new Error(result.error || 'Failed to add mermaid diagram')
         }
@@ -279,13 +625,114 @@ export class MCPBridgeClient {
           position?: { x: number; y: number; width: number; height: number }
         }
         const slideIndex = await this.findSlideIndexById(slideId)
-        const result = await pptOps.addImageToSlide(slideIndex, imageData, position)
+        const result = await this.journalShapes(method, slideId, `Added image to slide ${slideIndex + 1}`, context.signal,
+          () => pptOps.addImageToSlide(slideIndex, imageData, position))
         if (!result.success) {
           throw new Error(result.error || 'Failed to add image')
         }
         return { success: true }
       }
 
+      case 'addTable': {
+        const { slideId, headers, rows, position } = params as {
+          slideId: string
+          headers: string[]
+          rows: string[][]
+          position?: { x: number; y: number; width: number; height: number }
+        }
+        const slideIndex = await this.findSlideIndexById(slideId)
+        const result = await this.journalShapes(method, slideId, `Added table to slide ${slideIndex + 1}`, context.signal,
+          () => pptOps.addTableToSlide(slideIndex, headers, rows, position))
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to add table')
+        }
+        return { success: true }
+      }
+
+      case 'resolveSlide': {
+        const { ref } = params as { ref: pptOps.SlideRef }
+        const result = await pptOps.resolveSlideRef(ref)
+        if (!result.success || !result.data) {
+          throw new Error(result.error || 'Failed to resolve slide')
+        }
+        return result.data
+      }
+
+      case 'getSlideShapes': {
+        const { slideId, includeFormatting } = params as { slideId: string; includeFormatting?: boolean }
+        const result = await pptOps.getSlideShapes(slideId, { includeFormatting })
+        if (!result.success || !result.data) {
+          throw new Error(result.error || 'Failed to get slide shapes')
+        }
+        return result.data
+      }
+
+      case 'updateShape': {
+        const { slideId, shapeId, update } = params as { slideId: string; shapeId: string; update: pptOps.ShapeUpdate }
+        const result = await this.journalSlideEdit(method, slideId, `Updated shape ${shapeId}`, context.signal,
+          () => pptOps.updateShape(slideId, shapeId, update),
+          () => shapeUpdateUndo(slideId, shapeId, update))
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to update shape')
+        }
+        return { success: true }
+      }
+
+      case 'deleteShape': {
+        const { slideId, shapeId } = params as { slideId: string; shapeId: string }
+        const result = await this.journalSlideEdit(method, slideId, `Deleted shape ${shapeId}`, context.signal,
+          () => pptOps.deleteShape(slideId, shapeId))
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to delete shape')
+        }
+        return { success: true }
+      }
+
+      case 'reorderShape': {
+        const { slideId, shapeId, position } = params as { slideId: string; shapeId: string; position: pptOps.ShapeZOrder }
+        const result = await this.journalSlideEdit(method, slideId, `Reordered shape ${shapeId}`, context.signal,
+          () => pptOps.reorderShape(slideId, shapeId, position),
+          () => shapeZOrderUndo(slideId, shapeId))
+        if (!result.success || !result.data) {
+          throw new Error(result.error || 'Failed to reorder shape')
+        }
+        return result.data
+      }
+
+      case 'groupShapes': {
+        const { slideId, shapeIds, name } = params as { slideId: string; shapeIds: string[]; name?: string }
+        const result = await this.journalSlideEdit(method, slideId, `Grouped ${shapeIds.length} shapes`, context.signal,
+          () => pptOps.groupShapes(slideId, shapeIds, name))
+        if (!result.success || !result.data) {
+          throw new Error(result.error || 'Failed to group shapes')
+        }
+        return result.data
+      }
+
+      case 'runBatch': {
+        const { steps } = params as { steps: pptOps.BatchStep[] }
+        const result = await pptOps.runBatch(steps, { signal: context.signal })
+        // Step failures come back as data; only a missing result is an error
+        if (!result.data) {
+          throw new Error(result.error || 'Failed to run batch')
+        }
+        if (result.data.success) {
+          this.journal.record(method, `Ran batch of ${steps.length} step(s)`, this.batchUndoActions(result.data))
+        }
+        return result.data
+      }
+
+      case 'getHistory': {
+        const { limit } = params as { limit: number }
+        return this.journal.list(limit).map(toHistoryEntry)
+      }
+
+      case 'undo': {
+        const { entryId } = params as { entryId?: string }
+        const entry = entryId ? await this.journal.revert(entryId) : await this.journal.undoLast()
+        return toHistoryEntry(entry)
+      }
+
       case 'listSlides': {
         const { limit, offset } = params as { limit: number; offset: number }
         const result = await pptOps.listSlides(limit, offset)
@@ -304,7 +751,16 @@ export class MCPBridgeClient {
         const slides: SlideContent[] = await parseMarkdown(markdown)
         
         if (this.officeAvailable) {
-          const result = await pptOps.generateSlides(slides)
+          const result = await pptOps.generateSlides(slides, {
+            signal: context.signal,
+            onProgress: (p) => context.onProgress(p.current, p.total, `Generated slide ${p.current}/${p.total}: ${p.title || 'Untitled'}`)
+          })
+          // Journal whatever was generated, even when cancelled or failed midway
+          if (result.data) {
+            this.journal.record(method, `Generated ${result.data.createdCount} slide(s) from Markdown`, [
+              { type: 'deleteSlides', slideIds: result.data.slideIds }
+            ])
+          }
           if (!result.success || !result.data) {
             throw new Error(result.error || 'Failed to generate slides')
           }
@@ -336,32 +792,92 @@ export class MCPBridgeClient {
     }
   }
 
+  /**
+   * Build the inverse actions of a successful batch
+   */
+  private batchUndoActions(batch: pptOps.BatchResult): UndoAction[] {
+    const createdSlideIds = batch.steps
+      .filter(step => step.op === 'createSlide' && step.slideId)
+      .map(step => step.slideId!)
+
+    // Shapes on slides the batch created go away with the slide
+    const shapeIdsBySlide = new Map<string, string[]>()
+    for (const step of batch.steps) {
+      if (step.op === 'createSlide' || !step.slideId || createdSlideIds.includes(step.slideId)) continue
+      shapeIdsBySlide.set(step.slideId, [...(shapeIdsBySlide.get(step.slideId) || []), ...(step.shapeIds || [])])
+    }
+
+    return [
+      ...[...shapeIdsBySlide].map(([slideId, shapeIds]): UndoAction => ({ type: 'deleteShapes', slideId, shapeIds })),
+      { type: 'deleteSlides', slideIds: createdSlideIds }
+    ]
+  }
+
   /**
    * Send response to server
    */
-  private sendResponse(id: string, result: unknown): void {
+  private sendResponse(id: string, result: unknown, timing: RequestTiming): void {
+    this.sendCachedResponse(id, JSON.stringify({
+      type: 'response',
+      id,
+      result,
+      ...timing
+    }))
+  }
+
+  /**
+   * Send a response, keeping it for when the server resends the request
+   * While disconnected the response is only cached.
+   */
+  private sendCachedResponse(id: string, message: string): void {
+    this.responseCache.set(id, message)
+    if (this.responseCache.size > RESPONSE_CACHE_SIZE) {
+      this.responseCache.delete(this.responseCache.keys().next().value!)
+    }
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(message)
+    }
+  }
+
+  /**
+   * Send progress of a long-running request to server
+   */
+  private sendProgress(id: string, progress: number, total: number, message: string): void {
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify({
-        type: 'response',
+        type: 'progress',
         id,
-        result
+        progress,
+        total,
+        message
       }))
     }
   }
 
   /**
-   * Send error to server
+   * Tell the server a request is waiting for the user's approval
    */
-  private sendError(id: string, error: string): void {
+  private sendWaiting(id: string): void {
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify({
-        type: 'response',
-        id,
-        error
+        type: 'waiting',
+        id
       }))
     }
   }
 
+  /**
+   * Send error to server
+   */
+  private sendError(id: string, error: string, timing: RequestTiming): void {
+    this.sendCachedResponse(id, JSON.stringify({
+      type: 'response',
+      id,
+      error,
+      ...timing
+    }))
+  }
+
   /**
    * Send event to server
    */
@@ -375,6 +891,132 @@ export class MCPBridgeClient {
     }
   }
 
+  /**
+   * Number of running and queued requests
+   */
+  getQueueStats(): SchedulerStats {
+    return this.scheduler.getStats()
+  }
+
+  /**
+   * Get the ID this add-in registers its document under
+   */
+  getDocumentId(): string {
+    return this.documentId
+  }
+
+  /**
+   * Methods this add-in can run in the current host
+   */
+  getSupportedMethods(): BridgeMethod[] {
+    if (!this.officeAvailable) {
+      return [...OFFLINE_METHODS]
+    }
+    const api18 = pptOps.isPowerPointApiSupported('1.8')
+    return BRIDGE_METHODS.filter(method => api18 || !API_1_8_METHODS.includes(method))
+  }
+
+  /**
+   * Announce the protocol version, requirement sets and supported methods
+   */
+  private sendHello(): void {
+    const powerPointApi = pptOps.getPowerPointApiVersion()
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({
+        type: 'hello',
+        protocolVersion: BRIDGE_PROTOCOL_VERSION,
+        addinVersion: ADDIN_VERSION,
+        requirementSets: powerPointApi ? { PowerPointApi: powerPointApi } : {},
+        methods: this.getSupportedMethods(),
+        resume: this.session ?? undefined
+      }))
+    }
+  }
+
+  /**
+   * Register this document's identity with the server
+   */
+  private registerDocument(): void {
+    const url = typeof Office !== 'undefined' ? Office.context?.document?.url || '' : ''
+    // Use the file name as title, e.g. ".../Roadmap.pptx" -> "Roadmap"
+    let fileName = url.split(/[\\/]/).pop() || ''
+    try {
+      fileName = decodeURIComponent(fileName)
+    } catch {
+      // Keep the raw name if it is not valid percent-encoding
+    }
+    const title = fileName.replace(/\.pptx?$/i, '') || document.title || 'Untitled'
+
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({
+        type: 'register',
+        document: { id: this.documentId, title, url }
+      }))
+    }
+  }
+
+  /**
+   * Tell the server this document is focused whenever the user interacts with it,
+   * so requests without a document_id go here
+   */
+  private startFocusTracking(): void {
+    this.stopFocusTracking?.()
+
+    const onFocus = () => this.sendEvent('focus', {})
+    window.addEventListener('focus', onFocus)
+
+    const officeDocument = this.officeAvailable ? Office.context?.document : undefined
+    officeDocument?.addHandlerAsync(Office.EventType.DocumentSelectionChanged, onFocus)
+
+    this.stopFocusTracking = () => {
+      window.removeEventListener('focus', onFocus)
+      officeDocument?.removeHandlerAsync(Office.EventType.DocumentSelectionChanged, { handler: onFocus })
+    }
+  }
+
+  /**
+   * Forward PowerPoint sync events so the server can notify resource subscribers
+   */
+  private startSyncForwarding(): void {
+    this.stopSyncForwarding()
+    this.unsubscribeSync = addSyncEventListener((event) => {
+      if (event.type === 'slide_changed' || event.type === 'presentation_changed') {
+        this.sendEvent('sync', { type: event.type, data: event.data })
+      }
+    })
+  }
+
+  /**
+   * Stop forwarding sync events
+   */
+  private stopSyncForwarding(): void {
+    if (this.unsubscribeSync) {
+      this.unsubscribeSync()
+      this.unsubscribeSync = null
+    }
+  }
+
+  /**
+   * Reconnect when the server has been silent for too long
+   * Only runs once the server opened a session, since older servers do not ping.
+   */
+  private startStaleCheck(): void {
+    this.stopStaleCheck()
+    this.staleTimer = window.setInterval(() => {
+      if (Date.now() - this.lastMessageAt < STALE_CONNECTION_MS) return
+      console.warn(`[BridgeClient] No message from the server for ${STALE_CONNECTION_MS / 1000}s, reconnecting`)
+      this.closeSocket(4000, 'Stale connection')
+      this.handleClose()
+    }, STALE_CONNECTION_MS / 4)
+  }
+
+  private stopStaleCheck(): void {
+    if (this.staleTimer) {
+      clearInterval(this.staleTimer)
+      this.staleTimer = null
+    }
+  }
+
   /**
    * Set connection state
    */
@@ -407,7 +1049,9 @@ export class MCPBridgeClient {
       return
     }
 
-    const delay = this.reconnectDelay * Math.pow(1.5, this.reconnectAttempts)
+    // Equal jitter, so add-ins dropped together do not reconnect in lockstep
+    const ceiling = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts)
+    const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2)
     console.log(`[BridgeClient] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts + 1})`)
 
     this.reconnectTimer = window.setTimeout(() => {
@@ -423,11 +1067,12 @@ let bridgeClientInstance: MCPBridgeClient | null = null
 /**
  * Get or create the bridge client instance
  */
-export function getBridgeClient(serverUrl?: string): MCPBridgeClient {
+export function getBridgeClient(serverUrl?: string, authToken?: string): MCPBridgeClient {
   if (!bridgeClientInstance) {
-    bridgeClientInstance = new MCPBridgeClient(serverUrl)
-  } else if (serverUrl) {
-    bridgeClientInstance.setServerUrl(serverUrl)
+    bridgeClientInstance = new MCPBridgeClient(serverUrl, authToken)
+  } else {
+    if (serverUrl) bridgeClientInstance.setServerUrl(serverUrl)
+    if (authToken !== undefined) bridgeClientInstance.setAuthToken(authToken)
   }
   return bridgeClientInstance
 }
@@ -435,8 +1080,8 @@ export function getBridgeClient(serverUrl?: string): MCPBridgeClient {
 /**
  * Connect to the bridge server
  */
-export function connectToBridge(serverUrl?: string): void {
-  const client = getBridgeClient(serverUrl)
+export function connectToBridge(serverUrl?: string, authToken?: string): void {
+  const client = getBridgeClient(serverUrl, authToken)
   client.connect()
 }
 
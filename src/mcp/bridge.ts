@@ -8,7 +8,7 @@
  * and bridges it with the Office.js PowerPoint API.
  */
 
-import type { PPTOperations } from './server'
+import type { PPTOperations, PPTOperationOptions, PPTShapeQueryOptions, PPTShapeUpdate, PPTShapeZOrder, PPTSlideRef } from './server'
 import { getBrowserMCPServer, createMockOperations, type MCPServerEvent } from './server/browser'
 import * as pptOps from '../modules/ppt-bridge/operations'
 import { parseMarkdown } from '../modules/markdown/parser'
@@ -50,6 +50,17 @@ function emitEvent(event: MCPEvent): void {
   }
 }
 
+/**
+ * Get the 0-based index of a slide, for operations that address slides by index
+ */
+async function findSlideIndex(slideId: string): Promise<number> {
+  const result = await pptOps.resolveSlideRef({ type: 'id', id: slideId })
+  if (!result.success || !result.data) {
+    throw new Error(result.error || `Slide not found: ${slideId}`)
+  }
+  return result.data.index
+}
+
 /**
  * Create Office.js PPT operations adapter
  */
@@ -69,8 +80,8 @@ function createOfficePPTOperations(): PPTOperations {
       }
     },
 
-    async createSlide(title: string, layout = 'content') {
-      const result = await pptOps.createSlide(title, layout as pptOps.LayoutType)
+    async createSlide(title: string, layout = 'content', index?: number) {
+      const result = await pptOps.createSlide(title, layout as pptOps.LayoutType, index)
       if (!result.success || !result.data) {
         throw new Error(result.error || 'Failed to create slide')
       }
@@ -78,21 +89,45 @@ function createOfficePPTOperations(): PPTOperations {
     },
 
     async deleteSlide(slideId: string) {
-      const result = await pptOps.deleteSlide(slideId)
+      const result = await pptOps.deleteSlideById(slideId)
       if (!result.success) {
         throw new Error(result.error || 'Failed to delete slide')
       }
     },
 
+    async deleteSlideRange(startIndex: number, count: number) {
+      const result = await pptOps.deleteSlideRange(startIndex, count)
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to delete slides')
+      }
+      return result.data
+    },
+
+    async duplicateSlide(slideId: string, index?: number) {
+      const result = await pptOps.duplicateSlide(slideId, index)
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to duplicate slide')
+      }
+      return result.data
+    },
+
+    async moveSlide(slideId: string, index: number) {
+      const result = await pptOps.moveSlide(slideId, index)
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to move slide')
+      }
+      return result.data
+    },
+
     async addText(slideId: string, content: string, position?) {
-      const result = await pptOps.addTextToSlide(slideId, content, position)
+      const result = await pptOps.addTextToSlide(await findSlideIndex(slideId), content, position)
       if (!result.success) {
         throw new Error(result.error || 'Failed to add text')
       }
     },
 
     async addCode(slideId: string, code: string, language: string, position?) {
-      const result = await pptOps.addCodeToSlide(slideId, code, language, position)
+      const result = await pptOps.addCodeToSlide(await findSlideIndex(slideId), code, language, position)
       if (!result.success || !result.data) {
         throw new Error(result.error || 'Failed to add code')
       }
@@ -100,7 +135,7 @@ function createOfficePPTOperations(): PPTOperations {
     },
 
     async addMermaid(slideId: string, mermaidCode: string, position?) {
-      const result = await pptOps.addMermaidToSlide(slideId, mermaidCode, position)
+      const result = await pptOps.addMermaidToSlide(await findSlideIndex(slideId), mermaidCode, position)
       if (!result.success || !result.data) {
         throw new Error(result.error || 'Failed to add mermaid diagram')
       }
@@ -108,12 +143,65 @@ function createOfficePPTOperations(): PPTOperations {
     },
 
     async addImage(slideId: string, imageData: string, position?) {
-      const result = await pptOps.addImageToSlide(slideId, imageData, position)
+      const result = await pptOps.addImageToSlide(await findSlideIndex(slideId), imageData, position)
       if (!result.success) {
         throw new Error(result.error || 'Failed to add image')
       }
     },
 
+    async addTable(slideId: string, headers: string[], rows: string[][], position?) {
+      const result = await pptOps.addTableToSlide(await findSlideIndex(slideId), headers, rows, position)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to add table')
+      }
+    },
+
+    async resolveSlide(ref: PPTSlideRef) {
+      const result = await pptOps.resolveSlideRef(ref)
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to resolve slide')
+      }
+      return result.data
+    },
+
+    async getSlideShapes(slideId: string, options?: PPTShapeQueryOptions) {
+      const result = await pptOps.getSlideShapes(slideId, options)
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to get slide shapes')
+      }
+      return result.data
+    },
+
+    async updateShape(slideId: string, shapeId: string, update: PPTShapeUpdate) {
+      const result = await pptOps.updateShape(slideId, shapeId, update)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update shape')
+      }
+    },
+
+    async deleteShape(slideId: string, shapeId: string) {
+      const result = await pptOps.deleteShape(slideId, shapeId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete shape')
+      }
+    },
+
+    async reorderShape(slideId: string, shapeId: string, position: PPTShapeZOrder) {
+      const result = await pptOps.reorderShape(slideId, shapeId, position)
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to reorder shape')
+      }
+      return result.data
+    },
+
+    async groupShapes(slideId: string, shapeIds: string[], name?: string) {
+      const result = await pptOps.groupShapes(slideId, shapeIds, name)
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to group shapes')
+      }
+      return result.data
+    },
+
     async listSlides(limit: number, offset: number) {
       const result = await pptOps.listSlides(limit, offset)
       if (!result.success || !result.data) {
@@ -126,9 +214,16 @@ function createOfficePPTOperations(): PPTOperations {
       }
     },
 
-    async generateFromMarkdown(markdown: string) {
-      const slides = parseMarkdown(markdown)
-      const result = await pptOps.generateSlides(slides)
+    async generateFromMarkdown(markdown: string, options?: PPTOperationOptions) {
+      const slides = await parseMarkdown(markdown)
+      const result = await pptOps.generateSlides(slides, {
+        signal: options?.signal,
+        onProgress: options?.onProgress && ((p) => options.onProgress!({
+          progress: p.current,
+          total: p.total,
+          message: `Generated slide ${p.current}/${p.total}: ${p.title || 'Untitled'}`
+        }))
+      })
       if (!result.success || !result.data) {
         throw new Error(result.error || 'Failed to generate slides')
       }
@@ -141,6 +236,15 @@ function createOfficePPTOperations(): PPTOperations {
           blockCount: s.blocks.length
         }))
       }
+    },
+
+    async runBatch(steps) {
+      // Step failures come back as data; only a missing result is an error
+      const result = await pptOps.runBatch(steps as pptOps.BatchStep[])
+      if (!result.data) {
+        throw new Error(result.error || 'Failed to run batch')
+      }
+      return result.data
     }
   }
 }
@@ -1,44 +1,63 @@
 /**
  * PPT-KIT MCP Client
- * 
+ *
  * Connects to external MCP services to extend PPT-KIT capabilities.
- * Supports WebSocket and HTTP transports.
+ * Supports Streamable HTTP, legacy SSE and WebSocket transports.
  */
 
-import type { MCPClientEndpoint, MCPToolDefinition, MCPToolResult } from '../../types'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { WebSocketClientTransport } from '@modelcontextprotocol/sdk/client/websocket.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js'
+import type {
+  MCPClientEndpoint,
+  MCPClientStatus,
+  MCPClientTransport,
+  MCPToolDefinition,
+  MCPToolResult
+} from '../../types'
 
 export interface MCPClientConfig {
   endpoint: MCPClientEndpoint
   timeout?: number
 }
 
-export interface MCPRequest {
-  jsonrpc: '2.0'
-  id: string | number
-  method: string
-  params?: unknown
+// Connection state reported to listeners
+export interface MCPClientState {
+  status: MCPClientStatus
+  error?: string
+  // Transport that connected, once known
+  transport?: Exclude<MCPClientTransport, 'auto'>
+  tools: MCPToolDefinition[]
 }
 
-export interface MCPResponse {
-  jsonrpc: '2.0'
-  id: string | number
-  result?: unknown
-  error?: {
-    code: number
-    message: string
-    data?: unknown
+export type MCPClientListener = (state: MCPClientState) => void
+
+function toToolDefinition(tool: Tool): MCPToolDefinition {
+  return {
+    name: tool.name,
+    title: tool.title,
+    description: tool.description ?? '',
+    inputSchema: tool.inputSchema,
+    annotations: tool.annotations
   }
 }
 
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e)
+}
+
 /**
  * MCP Client for connecting to external services
  */
 export class MCPClient {
   private endpoint: MCPClientEndpoint
   private timeout: number
-  private requestId: number = 0
-  private tools: MCPToolDefinition[] = []
-  private connected: boolean = false
+  private client: Client | null = null
+  private state: MCPClientState = { status: 'disconnected', tools: [] }
+  private listeners: MCPClientListener[] = []
 
   constructor(config: MCPClientConfig) {
     this.endpoint = config.endpoint
@@ -47,89 +66,172 @@ export class MCPClient {
 
   /**
    * Connect to the MCP server
+   * Runs the initialize handshake and loads the tool list; resolves to false
+   * and reports the error through the state when that fails.
    */
   async connect(): Promise<boolean> {
-    const response = await this.sendRequest('initialize', {
-      protocolVersion: '2024-11-05',
-      capabilities: {
-        tools: {}
-      },
-      clientInfo: {
-        name: 'ppt-kit',
-        version: '1.0.0'
+    await this.close()
+    this.setState({ status: 'connecting', error: undefined, transport: undefined, tools: [] })
+
+    try {
+      const { client, transport } = await this.open()
+      this.client = client
+      const { tools } = await client.listTools(undefined, { timeout: this.timeout })
+      this.setState({ status: 'connected', transport, tools: tools.map(toToolDefinition) })
+      return true
+    } catch (e) {
+      console.error(`[MCPClient] Failed to connect to ${this.endpoint.url}:`, e)
+      await this.close()
+      this.setState({ status: 'error', error: errorMessage(e), tools: [] })
+      return false
+    }
+  }
+
+  /**
+   * Connect with the endpoint's transport
+   * `auto` tries Streamable HTTP first and falls back to SSE for servers that
+   * predate it.
+   */
+  private async open(): Promise<{ client: Client; transport: Exclude<MCPClientTransport, 'auto'> }> {
+    const url = new URL(this.endpoint.url)
+    const preferred = this.endpoint.transport ?? 'auto'
+
+    if (preferred !== 'auto') {
+      return { client: await this.openWith(preferred, url), transport: preferred }
+    }
+    if (url.protocol === 'ws:' || url.protocol === 'wss:') {
+      return { client: await this.openWith('websocket', url), transport: 'websocket' }
+    }
+    if (url.pathname.endsWith('/sse')) {
+      return { client: await this.openWith('sse', url), transport: 'sse' }
+    }
+
+    try {
+      return { client: await this.openWith('streamable-http', url), transport: 'streamable-http' }
+    } catch (streamableError) {
+      console.warn(`[MCPClient] Streamable HTTP failed for ${url}, trying SSE:`, streamableError)
+      try {
+        return { client: await this.openWith('sse', url), transport: 'sse' }
+      } catch (sseError) {
+        throw new Error(`Streamable HTTP: ${errorMessage(streamableError)}; SSE: ${errorMessage(sseError)}`)
       }
-    })
+    }
+  }
 
-    if (response.error) {
-      console.error('Failed to connect:', response.error)
-      return false
+  private async openWith(type: Exclude<MCPClientTransport, 'auto'>, url: URL): Promise<Client> {
+    const client = new Client(
+      { name: 'ppt-kit', version: '1.0.0' },
+      {
+        capabilities: {},
+        listChanged: {
+          tools: {
+            onChanged: (error, tools) => {
+              if (error) {
+                console.error(`[MCPClient] Failed to refresh tools from ${this.endpoint.url}:`, error)
+                return
+              }
+              if (client !== this.client || !tools) return
+              this.setState({ tools: tools.map(toToolDefinition) })
+            }
+          }
+        }
+      }
+    )
+
+    client.onclose = () => {
+      // Ignore clients replaced by a reconnect or closed by disconnect()
+      if (client !== this.client) return
+      this.client = null
+      this.setState({ status: 'error', error: 'Connection closed', tools: [] })
+    }
+
+    try {
+      await client.connect(this.createTransport(type, url), { timeout: this.timeout })
+    } catch (e) {
+      await client.close().catch(() => {})
+      throw e
+    }
+    return client
+  }
+
+  private createTransport(type: Exclude<MCPClientTransport, 'auto'>, url: URL): Transport {
+    // Browsers cannot set headers on a WebSocket, so credentials must be part of its URL;
+    // refuse rather than connect without the ones the endpoint asked for
+    if (type === 'websocket') {
+      if (this.endpoint.authToken || Object.keys(this.endpoint.headers ?? {}).length > 0) {
+        throw new Error('WebSocket endpoints cannot send an access token or headers; put the credentials in the URL or use an HTTP transport')
+      }
+      return new WebSocketClientTransport(url)
     }
 
-    await this.refreshTools()
-    this.connected = true
-    return true
+    const headers: Record<string, string> = { ...this.endpoint.headers }
+    if (this.endpoint.authToken) headers.Authorization = `Bearer ${this.endpoint.authToken}`
+    const requestInit: RequestInit = { headers }
+    return type === 'sse'
+      ? new SSEClientTransport(url, { requestInit })
+      : new StreamableHTTPClientTransport(url, { requestInit })
+  }
+
+  /**
+   * Close the connection without reporting it as an error
+   */
+  private async close(): Promise<void> {
+    const client = this.client
+    this.client = null
+    await client?.close().catch((e) => console.error('[MCPClient] Failed to close connection:', e))
   }
 
   /**
    * Disconnect from the MCP server
    */
   async disconnect(): Promise<void> {
-    this.connected = false
-    this.tools = []
+    await this.close()
+    this.setState({ status: 'disconnected', error: undefined, tools: [] })
   }
 
   /**
    * Refresh the list of available tools
    */
   async refreshTools(): Promise<MCPToolDefinition[]> {
-    const response = await this.sendRequest('tools/list', {})
-    
-    if (response.result) {
-      const result = response.result as { tools: MCPToolDefinition[] }
-      this.tools = result.tools || []
-    }
-    
-    return this.tools
+    if (!this.client) return this.state.tools
+    const { tools } = await this.client.listTools(undefined, { timeout: this.timeout })
+    this.setState({ tools: tools.map(toToolDefinition) })
+    return this.state.tools
   }
 
   /**
    * Get available tools
    */
   getTools(): MCPToolDefinition[] {
-    return this.tools
+    return this.state.tools
   }
 
   /**
    * Call a tool on the remote MCP server
    */
   async callTool(name: string, args: unknown): Promise<MCPToolResult> {
-    if (!this.connected) {
+    let result: CallToolResult
+    try {
+      result = await this.callToolResult(name, args as Record<string, unknown> | undefined)
+    } catch (e) {
       return {
         success: false,
-        error: 'Not connected to MCP server'
+        error: errorMessage(e)
       }
     }
 
-    const response = await this.sendRequest('tools/call', {
-      name,
-      arguments: args
-    })
+    const textContent = result.content.find(c => c.type === 'text')
 
-    if (response.error) {
+    if (result.isError) {
       return {
         success: false,
-        error: response.error.message
+        error: textContent?.text || `Tool ${name} failed`
       }
     }
 
-    const result = response.result as {
-      content: Array<{ type: string; text?: string }>
-    }
+    let data: unknown = result.structuredContent
 
-    const textContent = result.content?.find(c => c.type === 'text')
-    let data: unknown = undefined
-    
-    if (textContent?.text) {
+    if (data === undefined && textContent?.text) {
       try {
         data = JSON.parse(textContent.text)
       } catch {
@@ -144,94 +246,51 @@ export class MCPClient {
   }
 
   /**
-   * Send a JSON-RPC request to the MCP server
+   * Call a tool and return the server's result as is
+   * Throws when not connected, or when the request fails, times out or is aborted.
    */
-  private async sendRequest(method: string, params?: unknown): Promise<MCPResponse> {
-    const request: MCPRequest = {
-      jsonrpc: '2.0',
-      id: ++this.requestId,
-      method,
-      params
-    }
-
-    if (this.endpoint.url.startsWith('ws://') || this.endpoint.url.startsWith('wss://')) {
-      return this.sendWebSocketRequest(request)
-    } else {
-      return this.sendHttpRequest(request)
+  async callToolResult(name: string, args?: Record<string, unknown>, signal?: AbortSignal): Promise<CallToolResult> {
+    if (!this.client) {
+      throw new Error('Not connected to MCP server')
     }
+    const result = await this.client.callTool({ name, arguments: args }, undefined, { timeout: this.timeout, signal })
+    return result as CallToolResult
   }
 
   /**
-   * Send request via WebSocket
+   * Check if connected
    */
-  private async sendWebSocketRequest(request: MCPRequest): Promise<MCPResponse> {
-    return new Promise((resolve, reject) => {
-      const ws = new WebSocket(this.endpoint.url)
-      const timeoutId = setTimeout(() => {
-        ws.close()
-        reject(new Error('Request timeout'))
-      }, this.timeout)
-
-      ws.onopen = () => {
-        ws.send(JSON.stringify(request))
-      }
-
-      ws.onmessage = (event) => {
-        clearTimeout(timeoutId)
-        try {
-          const response = JSON.parse(event.data) as MCPResponse
-          ws.close()
-          resolve(response)
-        } catch {
-          ws.close()
-          reject(new Error('Invalid response format'))
-        }
-      }
-
-      ws.onerror = (error) => {
-        clearTimeout(timeoutId)
-        reject(error)
-      }
-    })
+  isConnected(): boolean {
+    return this.state.status === 'connected'
   }
 
   /**
-   * Send request via HTTP
+   * Current connection state
    */
-  private async sendHttpRequest(request: MCPRequest): Promise<MCPResponse> {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout)
-
-    const response = await fetch(this.endpoint.url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(request),
-      signal: controller.signal
-    })
-
-    clearTimeout(timeoutId)
-
-    if (!response.ok) {
-      return {
-        jsonrpc: '2.0',
-        id: request.id,
-        error: {
-          code: response.status,
-          message: `HTTP error: ${response.statusText}`
-        }
-      }
-    }
-
-    return response.json()
+  getState(): MCPClientState {
+    return this.state
   }
 
   /**
-   * Check if connected
+   * Listen for status and tool list changes
    */
-  isConnected(): boolean {
-    return this.connected
+  addListener(listener: MCPClientListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index >= 0) this.listeners.splice(index, 1)
+    }
+  }
+
+  private setState(updates: Partial<MCPClientState>): void {
+    this.state = { ...this.state, ...updates }
+    for (const listener of this.listeners) {
+      try {
+        listener(this.state)
+      } catch (e) {
+        console.error('[MCPClient] Listener error:', e)
+      }
+    }
   }
 
   /**
@@ -242,24 +301,28 @@ export class MCPClient {
   }
 }
 
+export type MCPClientManagerListener = (endpointId: string, state: MCPClientState) => void
+
 /**
  * MCP Client Manager for handling multiple connections
  */
 export class MCPClientManager {
   private clients: Map<string, MCPClient> = new Map()
+  private unsubscribers: Map<string, () => void> = new Map()
+  private listeners: MCPClientManagerListener[] = []
 
   /**
    * Add and connect to a new endpoint
+   * Replaces any client for the same endpoint ID. The client is kept when
+   * the connection fails, so its error stays visible and it can be retried.
    */
   async addEndpoint(endpoint: MCPClientEndpoint): Promise<boolean> {
+    await this.removeEndpoint(endpoint.id)
+
     const client = new MCPClient({ endpoint })
-    const connected = await client.connect()
-    
-    if (connected) {
-      this.clients.set(endpoint.id, client)
-    }
-    
-    return connected
+    this.clients.set(endpoint.id, client)
+    this.unsubscribers.set(endpoint.id, client.addListener((state) => this.emit(endpoint.id, state)))
+    return client.connect()
   }
 
   /**
@@ -268,8 +331,10 @@ export class MCPClientManager {
   async removeEndpoint(id: string): Promise<void> {
     const client = this.clients.get(id)
     if (client) {
-      await client.disconnect()
+      this.unsubscribers.get(id)?.()
+      this.unsubscribers.delete(id)
       this.clients.delete(id)
+      await client.disconnect()
     }
   }
 
@@ -281,7 +346,7 @@ export class MCPClientManager {
   }
 
   /**
-   * Get all connected clients
+   * Get all clients
    */
   getAllClients(): MCPClient[] {
     return Array.from(this.clients.values())
@@ -292,13 +357,13 @@ export class MCPClientManager {
    */
   getAllTools(): Array<{ endpoint: string; tool: MCPToolDefinition }> {
     const tools: Array<{ endpoint: string; tool: MCPToolDefinition }> = []
-    
+
     for (const [id, client] of this.clients) {
       for (const tool of client.getTools()) {
         tools.push({ endpoint: id, tool })
       }
     }
-    
+
     return tools
   }
 
@@ -307,25 +372,45 @@ export class MCPClientManager {
    */
   async callTool(endpointId: string, toolName: string, args: unknown): Promise<MCPToolResult> {
     const client = this.clients.get(endpointId)
-    
+
     if (!client) {
       return {
         success: false,
         error: `Endpoint ${endpointId} not found`
       }
     }
-    
+
     return client.callTool(toolName, args)
   }
 
+  /**
+   * Listen for status and tool list changes of every endpoint
+   */
+  addListener(listener: MCPClientManagerListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index >= 0) this.listeners.splice(index, 1)
+    }
+  }
+
+  private emit(endpointId: string, state: MCPClientState): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(endpointId, state)
+      } catch (e) {
+        console.error('[MCPClientManager] Listener error:', e)
+      }
+    }
+  }
+
   /**
    * Disconnect all clients
    */
   async disconnectAll(): Promise<void> {
-    for (const client of this.clients.values()) {
-      await client.disconnect()
+    for (const id of Array.from(this.clients.keys())) {
+      await this.removeEndpoint(id)
     }
-    this.clients.clear()
   }
 }
 
@@ -7,7 +7,8 @@
  * Client: Connects to external MCP services for enhanced capabilities
  */
 
-export { createPPTKitMCPServer } from './server'
+export { createPPTKitMCPServer, setPPTOperations, getPPTOperations, setPPTDocumentRegistry } from './server'
+export type { PPTOperations, PPTDocumentRegistry, PPTDocumentSummary } from './server'
 export { MCPClient, MCPClientManager, mcpClientManager } from './client'
-export type { MCPClientConfig, MCPRequest, MCPResponse } from './client'
+export type { MCPClientConfig, MCPClientState, MCPClientListener, MCPClientManagerListener } from './client'
 export * from './schemas'
@@ -0,0 +1,205 @@
+/**
+ * MCP Bridge Protocol
+ *
+ * Messages exchanged over the WebSocket between the bridge server
+ * (server/bridge-server.ts) and the Office Add-in (MCPBridgeClient). Both
+ * sides import this module so message shapes and the protocol version stay
+ * in sync.
+ *
+ * Handshake: the server sends `connected`; the add-in answers with `hello`
+ * (protocol version, Office requirement sets, supported methods) and
+ * `register` (document identity). The server only routes methods the
+ * add-in announced and hides tools that need anything else.
+ *
+ * Sessions: the server answers the hello with a `session` whose token lets a
+ * reconnecting add-in resume it. The server then resends the requests it is
+ * still waiting for, including changes queued while the add-in was away; the
+ * add-in answers requests it already ran from its response cache.
+ *
+ * Heartbeats: the server sends `ping` regularly, so an add-in that hears
+ * nothing for a while knows the connection is stale.
+ */
+
+import { z } from 'zod'
+import type { PPTOperations } from './server/types'
+
+// Bumped on any incompatible change to the messages below
+export const BRIDGE_PROTOCOL_VERSION = 2
+
+// Methods the server can request, named after PPTOperations
+export const BRIDGE_METHODS = [
+  'getPresentationInfo',
+  'listSlides',
+  'resolveSlide',
+  'getSlideShapes',
+  'createSlide',
+  'deleteSlide',
+  'deleteSlideRange',
+  'duplicateSlide',
+  'moveSlide',
+  'addText',
+  'addCode',
+  'addMermaid',
+  'addImage',
+  'addTable',
+  'updateShape',
+  'deleteShape',
+  'reorderShape',
+  'groupShapes',
+  'generateFromMarkdown',
+  'runBatch',
+  'getHistory',
+  'undo'
+] as const satisfies ReadonlyArray<keyof PPTOperations>
+
+export type BridgeMethod = typeof BRIDGE_METHODS[number]
+
+// Methods that only read the presentation; the rest change it
+export const BRIDGE_READ_METHODS: ReadonlyArray<BridgeMethod> = [
+  'getPresentationInfo',
+  'listSlides',
+  'resolveSlide',
+  'getSlideShapes',
+  'getHistory'
+]
+
+// Server -> add-in
+
+export const ConnectedMessageSchema = z.object({
+  type: z.literal('connected'),
+  message: z.string(),
+  // Missing on servers that predate the handshake
+  protocolVersion: z.number().int().optional()
+})
+
+export const RequestMessageSchema = z.object({
+  type: z.literal('request'),
+  id: z.string(),
+  method: z.string(),
+  params: z.record(z.unknown()).default({}),
+  // MCP tool the request was made for
+  tool: z.string().optional()
+})
+
+export const CancelMessageSchema = z.object({
+  type: z.literal('cancel'),
+  id: z.string()
+})
+
+// Answer to the hello; `resumed` is false when a new session started
+export const SessionMessageSchema = z.object({
+  type: z.literal('session'),
+  sessionId: z.string(),
+  resumeToken: z.string(),
+  resumed: z.boolean()
+})
+
+export const PingMessageSchema = z.object({
+  type: z.literal('ping')
+})
+
+export const ServerMessageSchema = z.discriminatedUnion('type', [
+  ConnectedMessageSchema,
+  RequestMessageSchema,
+  CancelMessageSchema,
+  SessionMessageSchema,
+  PingMessageSchema
+])
+
+// Add-in -> server
+
+export const HelloMessageSchema = z.object({
+  type: z.literal('hello'),
+  protocolVersion: z.number().int(),
+  // Version of the add-in build
+  addinVersion: z.string(),
+  // Highest supported version of each Office requirement set, e.g. { PowerPointApi: '1.8' }
+  requirementSets: z.record(z.string()),
+  // Methods this add-in can run in the current host
+  methods: z.array(z.string()),
+  // Session to resume after a reconnect
+  resume: z.object({
+    sessionId: z.string(),
+    resumeToken: z.string()
+  }).optional()
+})
+
+export const RegisterMessageSchema = z.object({
+  type: z.literal('register'),
+  document: z.object({
+    id: z.string().optional(),
+    title: z.string().optional(),
+    url: z.string().optional()
+  }).default({})
+})
+
+export const ResponseMessageSchema = z.object({
+  type: z.literal('response'),
+  id: z.string(),
+  result: z.unknown().optional(),
+  error: z.string().optional(),
+  // Time spent running the method in Office, and waiting for approval or the queue before that
+  durationMs: z.number().optional(),
+  waitMs: z.number().optional()
+})
+
+export const ProgressMessageSchema = z.object({
+  type: z.literal('progress'),
+  id: z.string(),
+  progress: z.number(),
+  total: z.number().optional(),
+  message: z.string().optional()
+})
+
+// The request is waiting for the user's approval or behind other changes in the add-in
+export const WaitingMessageSchema = z.object({
+  type: z.literal('waiting'),
+  id: z.string()
+})
+
+export const EventMessageSchema = z.object({
+  type: z.literal('event'),
+  event: z.string(),
+  data: z.unknown().optional()
+})
+
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+  HelloMessageSchema,
+  RegisterMessageSchema,
+  ResponseMessageSchema,
+  ProgressMessageSchema,
+  WaitingMessageSchema,
+  EventMessageSchema
+])
+
+export type ServerMessage = z.infer<typeof ServerMessageSchema>
+export type ClientMessage = z.infer<typeof ClientMessageSchema>
+export type HelloMessage = z.infer<typeof HelloMessageSchema>
+
+/**
+ * Parse a message from the add-in
+ * Throws when it is not JSON or not a known message.
+ */
+export function parseClientMessage(data: string): ClientMessage {
+  return ClientMessageSchema.parse(JSON.parse(data))
+}
+
+/**
+ * Parse a message from the server
+ * Throws when it is not JSON or not a known message.
+ */
+export function parseServerMessage(data: string): ServerMessage {
+  return ServerMessageSchema.parse(JSON.parse(data))
+}
+
+/**
+ * Problems with an add-in's hello that stop it from working with this server
+ */
+export function checkHello(hello: HelloMessage): string[] {
+  if (hello.protocolVersion === BRIDGE_PROTOCOL_VERSION) return []
+
+  const outdated = hello.protocolVersion < BRIDGE_PROTOCOL_VERSION ? 'add-in' : 'bridge server'
+  return [
+    `Add-in ${hello.addinVersion} speaks bridge protocol v${hello.protocolVersion}, this server speaks v${BRIDGE_PROTOCOL_VERSION}. Update the ${outdated}.`
+  ]
+}
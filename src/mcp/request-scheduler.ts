@@ -0,0 +1,220 @@
+/**
+ * Request Scheduler
+ *
+ * Orders the bridge requests the add-in runs so concurrent AI clients do not
+ * interleave PowerPoint.run batches. Reads run right away and in parallel;
+ * changes to a slide wait for earlier changes to the same slide; changes to
+ * the slide list (create, delete, move, ...) shift slide indexes, so they wait
+ * for every earlier change and hold back every later one.
+ */
+
+import { BRIDGE_READ_METHODS } from './protocol'
+
+// How often a queued request tells the server it is still alive
+const QUEUE_HEARTBEAT_MS = 10 * 1000
+
+// Methods that change shapes on one slide, given by `params.slideId`
+const SLIDE_METHODS = new Set([
+  'addText',
+  'addCode',
+  'addMermaid',
+  'addImage',
+  'addTable',
+  'updateShape',
+  'deleteShape',
+  'reorderShape',
+  'groupShapes'
+])
+
+// What a request locks: nothing, one slide, or the whole presentation
+export type RequestScope =
+  | { type: 'read' }
+  | { type: 'slide'; slideId: string }
+  | { type: 'presentation' }
+
+// Queue depth, shown in the MCP panel and reported to the server
+export interface SchedulerStats {
+  running: number
+  queued: number
+  // Queued requests per slide ID; `*` for changes to the slide list
+  queuedBySlide: Record<string, number>
+}
+
+export interface ScheduleOptions {
+  // Aborted when the server cancels the request: dropped while queued
+  signal?: AbortSignal
+  // Called while the request waits behind others
+  onWaiting?: () => void
+}
+
+interface ScheduledRequest {
+  id: string
+  scope: RequestScope
+  state: 'queued' | 'running'
+  start: () => void
+  drop: (error: Error) => void
+}
+
+type SchedulerListener = (stats: SchedulerStats) => void
+
+/**
+ * Scope of a bridge request
+ * Unknown methods lock the whole presentation.
+ */
+export function getRequestScope(method: string, params: Record<string, unknown>): RequestScope {
+  if ((BRIDGE_READ_METHODS as ReadonlyArray<string>).includes(method)) return { type: 'read' }
+  if (SLIDE_METHODS.has(method) && typeof params.slideId === 'string') {
+    return { type: 'slide', slideId: params.slideId }
+  }
+  return { type: 'presentation' }
+}
+
+/**
+ * Whether two changes must not run at the same time
+ */
+function conflicts(a: RequestScope, b: RequestScope): boolean {
+  if (a.type === 'read' || b.type === 'read') return false
+  if (a.type === 'presentation' || b.type === 'presentation') return true
+  return a.slideId === b.slideId
+}
+
+/**
+ * Scheduler for the requests of one bridge connection
+ */
+export class RequestScheduler {
+  // Changes in arrival order, queued and running
+  private requests: ScheduledRequest[] = []
+  private runningReads = 0
+  private listeners: SchedulerListener[] = []
+
+  /**
+   * Run a request once every earlier conflicting change has finished
+   * Rejects with "Request cancelled" when the signal aborts while queued;
+   * once running, `run` receives the signal and stops at its next check.
+   */
+  async schedule<T>(
+    id: string,
+    method: string,
+    params: Record<string, unknown>,
+    run: () => Promise<T>,
+    options: ScheduleOptions = {}
+  ): Promise<T> {
+    const scope = getRequestScope(method, params)
+    if (scope.type === 'read') {
+      this.runningReads++
+      this.emit()
+      try {
+        return await run()
+      } finally {
+        this.runningReads--
+        this.emit()
+      }
+    }
+
+    await this.enqueue(id, method, scope, options)
+    try {
+      return await run()
+    } finally {
+      this.requests = this.requests.filter(request => request.id !== id)
+      this.startReady()
+    }
+  }
+
+  /**
+   * Wait for a change's turn
+   */
+  private enqueue(id: string, method: string, scope: RequestScope, { signal, onWaiting }: ScheduleOptions): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Request cancelled'))
+        return
+      }
+
+      let heartbeat: ReturnType<typeof setInterval> | null = null
+      const onAbort = () => request.drop(new Error('Request cancelled'))
+      const settle = () => {
+        if (heartbeat) clearInterval(heartbeat)
+        signal?.removeEventListener('abort', onAbort)
+      }
+
+      const request: ScheduledRequest = {
+        id,
+        scope,
+        state: 'queued',
+        start: () => {
+          settle()
+          request.state = 'running'
+          resolve()
+        },
+        drop: (error) => {
+          if (request.state !== 'queued') return
+          settle()
+          this.requests = this.requests.filter(r => r !== request)
+          this.startReady()
+          reject(error)
+        }
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.requests.push(request)
+      this.startReady()
+
+      if (request.state === 'queued') {
+        console.log(`[Scheduler] Queued ${method} (${id}) behind earlier changes`)
+        onWaiting?.()
+        if (onWaiting) heartbeat = setInterval(onWaiting, QUEUE_HEARTBEAT_MS)
+      }
+    })
+  }
+
+  /**
+   * Start every queued change with no conflicting change ahead of it
+   */
+  private startReady(): void {
+    this.requests.forEach((request, index) => {
+      if (request.state !== 'queued') return
+      const blocked = this.requests.slice(0, index).some(earlier => conflicts(earlier.scope, request.scope))
+      if (!blocked) request.start()
+    })
+    this.emit()
+  }
+
+  /**
+   * Current queue depth
+   */
+  getStats(): SchedulerStats {
+    const stats: SchedulerStats = { running: this.runningReads, queued: 0, queuedBySlide: {} }
+    for (const request of this.requests) {
+      if (request.state === 'running') {
+        stats.running++
+        continue
+      }
+      const key = request.scope.type === 'slide' ? request.scope.slideId : '*'
+      stats.queued++
+      stats.queuedBySlide[key] = (stats.queuedBySlide[key] ?? 0) + 1
+    }
+    return stats
+  }
+
+  /**
+   * Listen for queue depth changes
+   */
+  addListener(listener: SchedulerListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index >= 0) this.listeners.splice(index, 1)
+    }
+  }
+
+  private emit(): void {
+    const stats = this.getStats()
+    for (const listener of this.listeners) {
+      try {
+        listener(stats)
+      } catch (e) {
+        console.error('[Scheduler] Listener error:', e)
+      }
+    }
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * PPT-KIT MCP Zod Schemas
  * 
- * Runtime validation schemas for MCP tool inputs using Zod.
+ * Runtime validation schemas for MCP tool inputs, tool outputs and prompt arguments using Zod.
  */
 
 import { z } from 'zod'
@@ -34,6 +34,32 @@ export const PositionSchema = z.object({
 
 export type Position = z.infer<typeof PositionSchema>
 
+// Target document schema (multi-document bridge routing)
+export const DocumentIdSchema = z.string()
+  .min(1, 'Document ID must not be empty')
+  .optional()
+  .describe('Target document ID from ppt_list_documents. Default: last-focused document')
+
+// Dry-run flag schema (mutating tools)
+const DryRunSchema = z.boolean()
+  .optional()
+  .describe('Return the change set the call would make without modifying the presentation. Default: false')
+
+// 0-based slide position schema
+const SlideIndexSchema = z.number()
+  .int('Index must be an integer')
+  .min(0, 'Index must not be negative')
+
+// Slide reference schema: every tool that targets a slide accepts the same forms
+const SLIDE_REF_FORMS = 'slide ID, slide number (1 = first slide), "title:<text>", "tag:<value>" or "tag:<name>=<value>"'
+const SlideRefSchema = z.union([
+  z.number()
+    .int('Slide number must be an integer')
+    .min(1, 'Slide numbers start at 1'),
+  z.string()
+    .min(1, 'Slide ID is required')
+])
+
 // Create slide input schema
 export const CreateSlideInputSchema = z.object({
   title: z.string()
@@ -44,6 +70,11 @@ export const CreateSlideInputSchema = z.object({
     .optional()
     .default('content')
     .describe('Layout type for the slide'),
+  index: SlideIndexSchema
+    .optional()
+    .describe('0-based position of the new slide. Default: after the last slide'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .optional()
     .default(ResponseFormat.JSON)
@@ -54,9 +85,8 @@ export type CreateSlideInput = z.infer<typeof CreateSlideInputSchema>
 
 // Add content input schema
 export const AddContentInputSchema = z.object({
-  slide_id: z.string()
-    .min(1, 'Slide ID is required')
-    .describe('The ID of the slide to add content to'),
+  slide_id: SlideRefSchema
+    .describe(`The slide to add content to: ${SLIDE_REF_FORMS}`),
   content: z.string()
     .min(1, 'Content is required')
     .describe('The content to add (text, code, or base64 image data)'),
@@ -65,6 +95,8 @@ export const AddContentInputSchema = z.object({
   position: PositionSchema
     .optional()
     .describe('Optional position and size for the content'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .optional()
     .default(ResponseFormat.JSON)
@@ -75,6 +107,7 @@ export type AddContentInput = z.infer<typeof AddContentInputSchema>
 
 // Get presentation info input schema
 export const GetPresentationInfoInputSchema = z.object({
+  document_id: DocumentIdSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .optional()
     .default(ResponseFormat.JSON)
@@ -89,6 +122,8 @@ export const MarkdownToSlidesInputSchema = z.object({
     .min(1, 'Markdown content is required')
     .max(100000, 'Markdown content must not exceed 100000 characters')
     .describe('Markdown content to convert to slides. Use # or ## headings to create new slides.'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .optional()
     .default(ResponseFormat.JSON)
@@ -99,9 +134,8 @@ export type MarkdownToSlidesInput = z.infer<typeof MarkdownToSlidesInputSchema>
 
 // Add code block input schema
 export const AddCodeBlockInputSchema = z.object({
-  slide_id: z.string()
-    .min(1, 'Slide ID is required')
-    .describe('The ID of the slide to add the code block to'),
+  slide_id: SlideRefSchema
+    .describe(`The slide to add the code block to: ${SLIDE_REF_FORMS}`),
   code: z.string()
     .min(1, 'Code content is required')
     .max(50000, 'Code must not exceed 50000 characters')
@@ -112,6 +146,8 @@ export const AddCodeBlockInputSchema = z.object({
   position: PositionSchema
     .optional()
     .describe('Optional position and size for the code block'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .optional()
     .default(ResponseFormat.JSON)
@@ -122,9 +158,8 @@ export type AddCodeBlockInput = z.infer<typeof AddCodeBlockInputSchema>
 
 // Add mermaid diagram input schema
 export const AddMermaidDiagramInputSchema = z.object({
-  slide_id: z.string()
-    .min(1, 'Slide ID is required')
-    .describe('The ID of the slide to add the diagram to'),
+  slide_id: SlideRefSchema
+    .describe(`The slide to add the diagram to: ${SLIDE_REF_FORMS}`),
   mermaid_code: z.string()
     .min(1, 'Mermaid code is required')
     .max(20000, 'Mermaid code must not exceed 20000 characters')
@@ -132,6 +167,8 @@ export const AddMermaidDiagramInputSchema = z.object({
   position: PositionSchema
     .optional()
     .describe('Optional position and size for the diagram'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .optional()
     .default(ResponseFormat.JSON)
@@ -140,6 +177,31 @@ export const AddMermaidDiagramInputSchema = z.object({
 
 export type AddMermaidDiagramInput = z.infer<typeof AddMermaidDiagramInputSchema>
 
+// Add table input schema
+export const AddTableInputSchema = z.object({
+  slide_id: SlideRefSchema
+    .describe(`The slide to add the table to: ${SLIDE_REF_FORMS}`),
+  headers: z.array(z.string())
+    .min(1, 'At least one column header is required')
+    .max(20, 'A table must not exceed 20 columns')
+    .describe('Column headers, shown in the first row'),
+  rows: z.array(z.array(z.string()))
+    .max(100, 'A table must not exceed 100 rows')
+    .default([])
+    .describe('Data rows; each row has at most one cell per header, missing cells are left empty'),
+  position: PositionSchema
+    .optional()
+    .describe('Optional position and size for the table'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type AddTableInput = z.infer<typeof AddTableInputSchema>
+
 // List slides input schema
 export const ListSlidesInputSchema = z.object({
   limit: z.number()
@@ -155,6 +217,7 @@ export const ListSlidesInputSchema = z.object({
     .optional()
     .default(0)
     .describe('Number of slides to skip for pagination'),
+  document_id: DocumentIdSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .optional()
     .default(ResponseFormat.JSON)
@@ -163,11 +226,25 @@ export const ListSlidesInputSchema = z.object({
 
 export type ListSlidesInput = z.infer<typeof ListSlidesInputSchema>
 
+// Get slide input schema
+export const GetSlideInputSchema = z.object({
+  slide_id: SlideRefSchema
+    .describe(`The slide to read: ${SLIDE_REF_FORMS}`),
+  document_id: DocumentIdSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type GetSlideInput = z.infer<typeof GetSlideInputSchema>
+
 // Delete slide input schema
 export const DeleteSlideInputSchema = z.object({
-  slide_id: z.string()
-    .min(1, 'Slide ID is required')
-    .describe('The ID of the slide to delete'),
+  slide_id: SlideRefSchema
+    .describe(`The slide to delete: ${SLIDE_REF_FORMS}`),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .optional()
     .default(ResponseFormat.JSON)
@@ -175,3 +252,762 @@ export const DeleteSlideInputSchema = z.object({
 }).strict()
 
 export type DeleteSlideInput = z.infer<typeof DeleteSlideInputSchema>
+
+// Delete slides input schema
+export const DeleteSlidesInputSchema = z.object({
+  start_index: SlideIndexSchema
+    .describe('0-based index of the first slide to delete'),
+  count: z.number()
+    .int()
+    .min(1, 'Count must be at least 1')
+    .describe('Number of consecutive slides to delete'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type DeleteSlidesInput = z.infer<typeof DeleteSlidesInputSchema>
+
+// Duplicate slide input schema
+export const DuplicateSlideInputSchema = z.object({
+  slide_id: SlideRefSchema
+    .describe(`The slide to copy: ${SLIDE_REF_FORMS}`),
+  index: SlideIndexSchema
+    .optional()
+    .describe('0-based position of the copy. Default: right after the original'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type DuplicateSlideInput = z.infer<typeof DuplicateSlideInputSchema>
+
+// Move slide input schema
+export const MoveSlideInputSchema = z.object({
+  slide_id: SlideRefSchema
+    .describe(`The slide to move: ${SLIDE_REF_FORMS}`),
+  index: SlideIndexSchema
+    .describe('0-based position of the slide after the move'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type MoveSlideInput = z.infer<typeof MoveSlideInputSchema>
+
+// Shape target schemas
+const ShapeSlideIdSchema = SlideRefSchema
+  .describe(`The slide holding the shape: ${SLIDE_REF_FORMS}`)
+
+const ShapeIdSchema = z.string()
+  .min(1, 'Shape ID is required')
+  .describe('The ID of the shape (from ppt_get_slide)')
+
+// Hex color schema
+const HexColorSchema = z.string()
+  .regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a hex value like #1F4E79')
+
+// Update shape input schema
+export const UpdateShapeInputSchema = z.object({
+  slide_id: ShapeSlideIdSchema,
+  shape_id: ShapeIdSchema,
+  text: z.string()
+    .optional()
+    .describe('New text; replaces all text in the shape'),
+  name: z.string()
+    .min(1, 'Name must not be empty')
+    .optional()
+    .describe('New shape name'),
+  position: PositionSchema.partial()
+    .optional()
+    .describe('New position and/or size in points; omitted fields are kept'),
+  fill_color: z.union([HexColorSchema, z.literal('none')])
+    .optional()
+    .describe('Solid fill color like #FFF2CC, or "none" to remove the fill'),
+  font: z.object({
+    name: z.string().min(1).optional().describe('Font family, e.g. Segoe UI'),
+    size: z.number().min(1).max(400).optional().describe('Font size in points'),
+    bold: z.boolean().optional(),
+    italic: z.boolean().optional(),
+    underline: z.boolean().optional(),
+    color: HexColorSchema.optional().describe('Text color like #1F4E79')
+  }).strict()
+    .optional()
+    .describe('Font changes applied to all text in the shape'),
+  horizontal_alignment: z.enum(['left', 'center', 'right', 'justify'])
+    .optional()
+    .describe('Paragraph alignment for all text in the shape'),
+  vertical_alignment: z.enum(['top', 'middle', 'bottom'])
+    .optional()
+    .describe('Vertical anchoring of the text in the shape'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type UpdateShapeInput = z.infer<typeof UpdateShapeInputSchema>
+
+// Delete shape input schema
+export const DeleteShapeInputSchema = z.object({
+  slide_id: ShapeSlideIdSchema,
+  shape_id: ShapeIdSchema,
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type DeleteShapeInput = z.infer<typeof DeleteShapeInputSchema>
+
+// Reorder shape input schema
+export const ReorderShapeInputSchema = z.object({
+  slide_id: ShapeSlideIdSchema,
+  shape_id: ShapeIdSchema,
+  position: z.enum(['bring_to_front', 'bring_forward', 'send_backward', 'send_to_back'])
+    .describe('Z-order move: to the very front/back, or one step forward/backward'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type ReorderShapeInput = z.infer<typeof ReorderShapeInputSchema>
+
+// Group shapes input schema
+export const GroupShapesInputSchema = z.object({
+  slide_id: ShapeSlideIdSchema,
+  shape_ids: z.array(ShapeIdSchema)
+    .min(2, 'At least two shapes are required')
+    .describe('IDs of the shapes to group (from ppt_get_slide)'),
+  name: z.string()
+    .min(1, 'Name must not be empty')
+    .optional()
+    .describe('Name of the group shape'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type GroupShapesInput = z.infer<typeof GroupShapesInputSchema>
+
+// Save presentation input schema
+export const SavePresentationInputSchema = z.object({
+  file_path: z.string()
+    .min(1, 'File path is required')
+    .regex(/\.pptx$/i, 'File path must end with .pptx')
+    .describe('Destination path of the .pptx file, relative to the server output directory'),
+  overwrite: z.boolean()
+    .optional()
+    .default(false)
+    .describe('Replace the file if it already exists'),
+  document_id: DocumentIdSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type SavePresentationInput = z.infer<typeof SavePresentationInputSchema>
+
+// List documents input schema
+export const ListDocumentsInputSchema = z.object({
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type ListDocumentsInput = z.infer<typeof ListDocumentsInputSchema>
+
+// Undo input schema
+export const UndoInputSchema = z.object({
+  entry_id: z.string()
+    .min(1, 'Entry ID must not be empty')
+    .optional()
+    .describe('ID of the change to revert (from ppt_history). Default: the most recent change'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type UndoInput = z.infer<typeof UndoInputSchema>
+
+// History input schema
+export const HistoryInputSchema = z.object({
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .default(20)
+    .describe('Maximum number of changes to return'),
+  document_id: DocumentIdSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type HistoryInput = z.infer<typeof HistoryInputSchema>
+
+// Slide target inside a batch: a slide reference or `$<index>` of an earlier create_slide step
+const BatchSlideRefSchema = SlideRefSchema
+  .describe(`A ${SLIDE_REF_FORMS}, or "$<step index>" to target the slide created by an earlier create_slide step (e.g. "$0")`)
+
+// Single batch step schema
+export const BatchStepSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('create_slide'),
+    title: z.string()
+      .min(1, 'Title is required')
+      .max(200, 'Title must not exceed 200 characters')
+      .describe('Title text for the new slide'),
+    layout: LayoutTypeSchema
+      .optional()
+      .describe('Layout type for the slide. Default: content')
+  }).strict(),
+  z.object({
+    op: z.literal('add_text'),
+    slide_id: BatchSlideRefSchema,
+    content: z.string()
+      .min(1, 'Content is required')
+      .describe('Text to add'),
+    position: PositionSchema.optional()
+  }).strict(),
+  z.object({
+    op: z.literal('add_code'),
+    slide_id: BatchSlideRefSchema,
+    code: z.string()
+      .min(1, 'Code content is required')
+      .max(50000, 'Code must not exceed 50000 characters')
+      .describe('The source code to display'),
+    language: z.string()
+      .min(1, 'Language is required')
+      .describe('Programming language for syntax highlighting'),
+    position: PositionSchema.optional()
+  }).strict(),
+  z.object({
+    op: z.literal('add_mermaid'),
+    slide_id: BatchSlideRefSchema,
+    mermaid_code: z.string()
+      .min(1, 'Mermaid code is required')
+      .max(20000, 'Mermaid code must not exceed 20000 characters')
+      .describe('Mermaid diagram syntax'),
+    position: PositionSchema.optional()
+  }).strict(),
+  z.object({
+    op: z.literal('add_image'),
+    slide_id: BatchSlideRefSchema,
+    image_data: z.string()
+      .min(1, 'Image data is required')
+      .describe('Base64 image data (data URL prefix allowed)'),
+    position: PositionSchema.optional()
+  }).strict()
+])
+
+export type BatchStepInput = z.infer<typeof BatchStepSchema>
+
+// Batch input schema
+export const BatchInputSchema = z.object({
+  steps: z.array(BatchStepSchema)
+    .min(1, 'At least one step is required')
+    .max(50, 'A batch must not exceed 50 steps')
+    .describe('Operations to run in order'),
+  document_id: DocumentIdSchema,
+  dry_run: DryRunSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .optional()
+    .default(ResponseFormat.JSON)
+    .describe('Output format: json or markdown')
+}).strict()
+
+export type BatchInput = z.infer<typeof BatchInputSchema>
+
+// Tool output schemas (structuredContent of successful tool calls)
+
+// Change a dry run would make; IDs of slides and shapes that do not exist yet are "$" placeholders
+export const PlannedChangeSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('create_slide'),
+    slide_id: z.string().describe('Placeholder ID of the new slide, e.g. "$0"'),
+    title: z.string(),
+    layout: z.string(),
+    index: z.number().optional().describe('0-based position; omitted when the slide is appended')
+  }),
+  z.object({
+    action: z.literal('duplicate_slide'),
+    slide_id: z.string().describe('Placeholder ID of the copy'),
+    source_slide_id: z.string(),
+    index: z.number()
+  }),
+  z.object({
+    action: z.literal('delete_slide'),
+    slide_id: z.string(),
+    index: z.number()
+  }),
+  z.object({
+    action: z.literal('move_slide'),
+    slide_id: z.string(),
+    from_index: z.number(),
+    index: z.number()
+  }),
+  z.object({
+    action: z.literal('create_shape'),
+    slide_id: z.string(),
+    name: z.string(),
+    type: z.string().describe('Shape type: TextBox, GeometricShape or Table'),
+    left: z.number().describe('Position and size in points'),
+    top: z.number(),
+    width: z.number(),
+    height: z.number(),
+    text: z.string().optional()
+  }),
+  z.object({
+    action: z.literal('update_shape'),
+    slide_id: z.string(),
+    shape_id: z.string(),
+    fields: z.array(z.string()).describe('Input fields that would be applied')
+  }),
+  z.object({
+    action: z.literal('delete_shape'),
+    slide_id: z.string(),
+    shape_id: z.string()
+  }),
+  z.object({
+    action: z.literal('reorder_shape'),
+    slide_id: z.string(),
+    shape_id: z.string(),
+    z_order_position: z.number()
+  }),
+  z.object({
+    action: z.literal('group_shapes'),
+    slide_id: z.string(),
+    shape_ids: z.array(z.string()),
+    group_id: z.string().describe('Placeholder ID of the group')
+  }),
+  z.object({
+    action: z.literal('revert_change'),
+    entry_id: z.string(),
+    summary: z.string()
+  })
+])
+
+export type PlannedChange = z.infer<typeof PlannedChangeSchema>
+
+// Change set returned by a dry run
+export const ChangeSetSchema = z.object({
+  tool: z.string().describe('Tool that applies the change set'),
+  arguments: z.record(z.unknown()).describe('Arguments that apply the change set: call the tool with them (slide references pinned to slide IDs)'),
+  changes: z.array(PlannedChangeSchema)
+})
+
+export type ChangeSet = z.infer<typeof ChangeSetSchema>
+
+// Output fields set by a dry run (mutating tools)
+const DryRunOutputFields = {
+  dry_run: z.boolean().optional().describe('Set when nothing was changed; the other fields describe the planned result'),
+  change_set: ChangeSetSchema.optional()
+}
+
+// Create slide output schema
+export const CreateSlideOutputSchema = z.object({
+  slide_id: z.string().describe('Unique identifier of the created slide'),
+  title: z.string().describe('Title text that was set'),
+  layout: z.string().describe('Layout type applied'),
+  index: z.number().describe('0-based position of the slide'),
+  success: z.boolean(),
+  ...DryRunOutputFields
+})
+
+export type CreateSlideOutput = z.infer<typeof CreateSlideOutputSchema>
+
+// Add content output schema
+export const AddContentOutputSchema = z.object({
+  slide_id: z.string().describe('ID of the modified slide'),
+  content_type: z.enum(['text', 'code', 'image']).describe('Type of content added'),
+  success: z.boolean(),
+  message: z.string().describe('Status message'),
+  ...DryRunOutputFields
+})
+
+export type AddContentOutput = z.infer<typeof AddContentOutputSchema>
+
+// Presentation info output schema
+export const PresentationInfoOutputSchema = z.object({
+  slide_count: z.number().describe('Total number of slides'),
+  current_slide_index: z.number().describe('Index of the currently selected slide (0-based)'),
+  title: z.string().describe('Presentation title (if available)'),
+  author: z.string().describe('Author name (if available)')
+})
+
+export type PresentationInfoOutput = z.infer<typeof PresentationInfoOutputSchema>
+
+// Markdown to slides output schema
+export const MarkdownToSlidesOutputSchema = z.object({
+  slide_count: z.number().describe('Number of slides created'),
+  slides: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    layout: z.string(),
+    block_count: z.number().describe('Number of content blocks')
+  })),
+  success: z.boolean(),
+  truncated: z.boolean().optional().describe('Set when the slide list was shortened to fit the response'),
+  truncation_message: z.string().optional(),
+  ...DryRunOutputFields
+})
+
+export type MarkdownToSlidesOutput = z.infer<typeof MarkdownToSlidesOutputSchema>
+
+// Add code block output schema
+export const AddCodeBlockOutputSchema = z.object({
+  slide_id: z.string(),
+  language: z.string(),
+  line_count: z.number(),
+  success: z.boolean(),
+  ...DryRunOutputFields
+})
+
+export type AddCodeBlockOutput = z.infer<typeof AddCodeBlockOutputSchema>
+
+// Add mermaid diagram output schema
+export const AddMermaidDiagramOutputSchema = z.object({
+  slide_id: z.string(),
+  diagram_type: z.string().describe('Detected diagram type (flowchart, sequence, etc.)'),
+  success: z.boolean(),
+  ...DryRunOutputFields
+})
+
+export type AddMermaidDiagramOutput = z.infer<typeof AddMermaidDiagramOutputSchema>
+
+// Add table output schema
+export const AddTableOutputSchema = z.object({
+  slide_id: z.string(),
+  column_count: z.number(),
+  row_count: z.number().describe('Data rows, not counting the header row'),
+  success: z.boolean(),
+  ...DryRunOutputFields
+})
+
+export type AddTableOutput = z.infer<typeof AddTableOutputSchema>
+
+// List slides output schema
+export const ListSlidesOutputSchema = z.object({
+  total: z.number().describe('Total number of slides'),
+  count: z.number().describe('Number of slides in this response'),
+  offset: z.number().describe('Current offset'),
+  slides: z.array(z.object({
+    id: z.string(),
+    index: z.number(),
+    title: z.string(),
+    layout: z.string()
+  })),
+  has_more: z.boolean().describe('Whether more slides are available'),
+  next_offset: z.number().optional().describe('Offset for the next page (if has_more)')
+})
+
+export type ListSlidesOutput = z.infer<typeof ListSlidesOutputSchema>
+
+// Font of a text run; properties the host reports as mixed are omitted
+const TextRunFontOutputSchema = z.object({
+  name: z.string().optional(),
+  size: z.number().optional().describe('Font size in points'),
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  underline: z.string().optional().describe('Underline style, e.g. None or Single'),
+  color: z.string().optional().describe('Hex color, e.g. #FF0000')
+})
+
+// Paragraph output schema
+const ParagraphOutputSchema = z.object({
+  text: z.string(),
+  horizontal_alignment: z.string().optional(),
+  indent_level: z.number().optional(),
+  bulleted: z.boolean().optional(),
+  runs: z.array(z.object({
+    text: z.string(),
+    font: TextRunFontOutputSchema
+  })).describe('Runs of text sharing one font')
+})
+
+// Slide shape output schema; group members are nested under `shapes`
+export interface SlideShapeOutput {
+  id: string
+  name: string
+  type: string
+  left: number
+  top: number
+  width: number
+  height: number
+  text?: string
+  is_title?: boolean
+  placeholder_type?: string
+  paragraphs?: z.infer<typeof ParagraphOutputSchema>[]
+  fill?: { type: string; foreground_color?: string; transparency?: number }
+  line?: { visible: boolean; color?: string; weight?: number; dash_style?: string }
+  tags?: Record<string, string>
+  shapes?: SlideShapeOutput[]
+}
+
+export const SlideShapeOutputSchema: z.ZodType<SlideShapeOutput> = z.lazy(() => z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string().describe('Shape type, e.g. TextBox, GeometricShape, Placeholder, Group'),
+  left: z.number().describe('Position and size in points'),
+  top: z.number(),
+  width: z.number(),
+  height: z.number(),
+  text: z.string().optional(),
+  is_title: z.boolean().optional().describe('Set on the shape holding the slide title'),
+  placeholder_type: z.string().optional(),
+  paragraphs: z.array(ParagraphOutputSchema).optional(),
+  fill: z.object({
+    type: z.string(),
+    foreground_color: z.string().optional(),
+    transparency: z.number().optional()
+  }).optional(),
+  line: z.object({
+    visible: z.boolean(),
+    color: z.string().optional(),
+    weight: z.number().optional(),
+    dash_style: z.string().optional()
+  }).optional(),
+  tags: z.record(z.string()).optional(),
+  shapes: z.array(SlideShapeOutputSchema).optional().describe('Members of a group')
+}))
+
+// Get slide output schema
+export const GetSlideOutputSchema = z.object({
+  slide_id: z.string(),
+  title: z.string().describe('Text of the detected title shape (empty if none)'),
+  shape_count: z.number(),
+  shapes: z.array(SlideShapeOutputSchema)
+})
+
+export type GetSlideOutput = z.infer<typeof GetSlideOutputSchema>
+
+// Delete slide output schema
+export const DeleteSlideOutputSchema = z.object({
+  slide_id: z.string(),
+  success: z.boolean(),
+  message: z.string(),
+  ...DryRunOutputFields
+})
+
+export type DeleteSlideOutput = z.infer<typeof DeleteSlideOutputSchema>
+
+// Delete slides output schema
+export const DeleteSlidesOutputSchema = z.object({
+  slide_ids: z.array(z.string()).describe('IDs of the deleted slides'),
+  count: z.number(),
+  success: z.boolean(),
+  message: z.string(),
+  ...DryRunOutputFields
+})
+
+export type DeleteSlidesOutput = z.infer<typeof DeleteSlidesOutputSchema>
+
+// Duplicate slide output schema
+export const DuplicateSlideOutputSchema = z.object({
+  source_slide_id: z.string(),
+  slide_id: z.string().describe('ID of the copy'),
+  index: z.number().describe('0-based position of the copy'),
+  success: z.boolean(),
+  ...DryRunOutputFields
+})
+
+export type DuplicateSlideOutput = z.infer<typeof DuplicateSlideOutputSchema>
+
+// Move slide output schema
+export const MoveSlideOutputSchema = z.object({
+  slide_id: z.string(),
+  from_index: z.number().describe('0-based position before the move'),
+  index: z.number().describe('0-based position after the move'),
+  success: z.boolean(),
+  ...DryRunOutputFields
+})
+
+export type MoveSlideOutput = z.infer<typeof MoveSlideOutputSchema>
+
+// Update shape output schema
+export const UpdateShapeOutputSchema = z.object({
+  slide_id: z.string(),
+  shape_id: z.string(),
+  updated: z.array(z.string()).describe('Input fields that were applied'),
+  success: z.boolean(),
+  ...DryRunOutputFields
+})
+
+export type UpdateShapeOutput = z.infer<typeof UpdateShapeOutputSchema>
+
+// Delete shape output schema
+export const DeleteShapeOutputSchema = z.object({
+  slide_id: z.string(),
+  shape_id: z.string(),
+  success: z.boolean(),
+  message: z.string(),
+  ...DryRunOutputFields
+})
+
+export type DeleteShapeOutput = z.infer<typeof DeleteShapeOutputSchema>
+
+// Reorder shape output schema
+export const ReorderShapeOutputSchema = z.object({
+  slide_id: z.string(),
+  shape_id: z.string(),
+  z_order_position: z.number().describe('New 1-based position in the z-order (1 = backmost)'),
+  success: z.boolean(),
+  ...DryRunOutputFields
+})
+
+export type ReorderShapeOutput = z.infer<typeof ReorderShapeOutputSchema>
+
+// Group shapes output schema
+export const GroupShapesOutputSchema = z.object({
+  slide_id: z.string(),
+  group_id: z.string().describe('ID of the new group shape'),
+  shape_ids: z.array(z.string()).describe('Grouped shapes; they keep their IDs'),
+  success: z.boolean(),
+  ...DryRunOutputFields
+})
+
+export type GroupShapesOutput = z.infer<typeof GroupShapesOutputSchema>
+
+// Batch output schema
+export const BatchOutputSchema = z.object({
+  success: z.boolean().describe('Whether every step succeeded'),
+  rolled_back: z.boolean().describe('Whether changes were undone after a failure'),
+  error: z.string().optional().describe('First failure (if any)'),
+  rollback_error: z.string().optional().describe('Set when the rollback itself failed'),
+  steps: z.array(z.object({
+    index: z.number(),
+    op: z.string(),
+    status: z.enum(['ok', 'failed', 'skipped', 'rolled_back', 'planned']).describe("'planned' in a dry run"),
+    slide_id: z.string().optional(),
+    shape_ids: z.array(z.string()).optional(),
+    error: z.string().optional()
+  })),
+  ...DryRunOutputFields
+})
+
+export type BatchOutput = z.infer<typeof BatchOutputSchema>
+
+// Change history entry output schema
+export const HistoryEntryOutputSchema = z.object({
+  id: z.string().describe('Pass as entry_id to ppt_undo'),
+  method: z.string().describe('Operation that made the change'),
+  summary: z.string(),
+  timestamp: z.string(),
+  reverted: z.boolean()
+})
+
+// History output schema
+export const HistoryOutputSchema = z.object({
+  count: z.number(),
+  entries: z.array(HistoryEntryOutputSchema)
+})
+
+export type HistoryOutput = z.infer<typeof HistoryOutputSchema>
+
+// Undo output schema
+export const UndoOutputSchema = HistoryEntryOutputSchema.extend({
+  success: z.boolean(),
+  ...DryRunOutputFields
+})
+
+export type UndoOutput = z.infer<typeof UndoOutputSchema>
+
+// Save presentation output schema
+export const SavePresentationOutputSchema = z.object({
+  file_path: z.string().describe('Absolute path of the saved file'),
+  slide_count: z.number().describe('Number of slides written'),
+  bytes: z.number().describe('File size in bytes'),
+  success: z.boolean()
+})
+
+export type SavePresentationOutput = z.infer<typeof SavePresentationOutputSchema>
+
+// List documents output schema
+export const ListDocumentsOutputSchema = z.object({
+  count: z.number(),
+  documents: z.array(z.object({
+    id: z.string().describe('Pass as document_id to other tools'),
+    title: z.string(),
+    url: z.string(),
+    active: z.boolean().describe('Receives requests without a document_id'),
+    connected_at: z.string(),
+    last_focused_at: z.string()
+  }))
+})
+
+export type ListDocumentsOutput = z.infer<typeof ListDocumentsOutputSchema>
+
+// Prompt argument schemas (MCP prompt arguments are always strings)
+
+// Outline to deck prompt arguments
+export const OutlineToDeckPromptSchema = z.object({
+  outline: z.string()
+    .min(1, 'Outline is required')
+    .describe('Outline to turn into slides (bullets, headings or free text)'),
+  audience: z.string()
+    .optional()
+    .describe('Target audience, e.g. "engineers new to the codebase"')
+})
+
+export type OutlineToDeckPromptArgs = z.infer<typeof OutlineToDeckPromptSchema>
+
+// Code walkthrough prompt arguments
+export const CodeWalkthroughPromptSchema = z.object({
+  code: z.string()
+    .min(1, 'Code is required')
+    .describe('Code snippet to walk through'),
+  language: z.string()
+    .optional()
+    .describe('Programming language of the snippet (e.g., typescript, python)')
+})
+
+export type CodeWalkthroughPromptArgs = z.infer<typeof CodeWalkthroughPromptSchema>
+
+// Speaker notes prompt arguments
+export const SpeakerNotesPromptSchema = z.object({
+  slide_id: z.string()
+    .min(1, 'Slide is required')
+    .describe('Slide to summarize: slide number (1 = first slide), "id:<slide ID>", "title:<text>", "tag:<value>" or "tag:<name>=<value>"')
+})
+
+export type SpeakerNotesPromptArgs = z.infer<typeof SpeakerNotesPromptSchema>
+
+// Document to talk prompt arguments
+export const DocumentToTalkPromptSchema = z.object({
+  document: z.string()
+    .min(1, 'Document is required')
+    .describe('Document to convert into a talk'),
+  minutes: z.string()
+    .regex(/^[1-9]\d*$/, 'Minutes must be a positive whole number')
+    .optional()
+    .describe('Talk length in minutes. Default: 10')
+})
+
+export type DocumentToTalkPromptArgs = z.infer<typeof DocumentToTalkPromptSchema>
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { mkdtempSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { createPPTKitMCPServer, type PPTServerOptions } from '../index'
+import { createInMemoryOperations } from '../memory'
+import { AuditLog, readAuditLog, redactBase64, replayAuditLog } from '../audit'
+import type { PPTOperations } from '../types'
+
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg=='
+
+async function connect(operations: PPTOperations, options?: PPTServerOptions) {
+  const server = createPPTKitMCPServer(operations, options)
+  const client = new Client({ name: 'test-client', version: '1.0.0' })
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+  return client
+}
+
+describe('audit log', () => {
+  it('redacts base64 payloads', () => {
+    const base64 = 'QUJD'.repeat(100)
+
+    expect(redactBase64({ image: PNG, nested: [{ data: base64 }], text: 'Hello', count: 3 })).toEqual({
+      image: `[redacted base64: image/png, ${PNG.length} characters]`,
+      nested: [{ data: '[redacted base64: 400 characters]' }],
+      text: 'Hello',
+      count: 3
+    })
+  })
+
+  it('records tool calls and replays them against another backend', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'ppt-kit-audit-')), 'logs', 'audit.jsonl')
+    const log = new AuditLog(file)
+    const recorded = createInMemoryOperations()
+    await recorded.createSlide('Existing')
+    const client = await connect(recorded, { onToolCall: log.listener('session-1', 'viewer') })
+
+    const created = await client.callTool({ name: 'ppt_create_slide', arguments: { title: 'Roadmap' } })
+    const slideId = (created.structuredContent as { slide_id: string }).slide_id
+    await client.callTool({ name: 'ppt_add_content', arguments: { slide_id: slideId, content: 'Q3 goals', content_type: 'text' } })
+    await client.callTool({ name: 'ppt_add_content', arguments: { slide_id: slideId, content: PNG, content_type: 'image' } })
+    await client.callTool({ name: 'ppt_delete_slide', arguments: { slide_id: 'missing' } })
+    await log.flush()
+
+    const entries = readAuditLog(file)
+    expect(entries.map(entry => [entry.session, entry.client, entry.tool, entry.isError])).toEqual([
+      ['session-1', 'viewer', 'ppt_create_slide', false],
+      ['session-1', 'viewer', 'ppt_add_content', false],
+      ['session-1', 'viewer', 'ppt_add_content', false],
+      ['session-1', 'viewer', 'ppt_delete_slide', true]
+    ])
+    expect(entries[0]).toMatchObject({ arguments: { title: 'Roadmap' }, result: { slide_id: slideId }, durationMs: expect.any(Number) })
+    expect(entries[2].arguments.content).toMatch(/^\[redacted base64: image\/png/)
+    expect(entries[3].error).toMatch(/^Error: Slide not found/)
+
+    // The replay deck starts empty, so the new slide gets a different ID
+    const replayed = createInMemoryOperations()
+    const steps = await replayAuditLog(entries, await connect(replayed))
+
+    expect(steps.map(step => [step.tool, step.status, step.placeholders])).toEqual([
+      ['ppt_create_slide', 'ok', false],
+      ['ppt_add_content', 'ok', false],
+      ['ppt_add_content', 'ok', true],
+      ['ppt_delete_slide', 'error', false]
+    ])
+    const slides = (await replayed.listSlides(10, 0)).slides
+    expect(slides.map(slide => slide.title)).toEqual(['Roadmap'])
+    expect(slides[0].id).not.toBe(slideId)
+    expect(await replayed.getSlideShapes(slides[0].id)).toHaveLength(3)
+  })
+})
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import type { IncomingMessage, Server } from 'http'
+import type { AddressInfo } from 'net'
+import express from 'express'
+import {
+  createAuthMiddleware,
+  isLoopbackHost,
+  isOriginAllowed,
+  selectWebSocketProtocol,
+  tokensMatch,
+  verifyWebSocketRequest,
+  type BridgeAuthConfig
+} from '../auth'
+
+const TOKEN = 'main-token'
+const ORIGIN = 'https://localhost:3000'
+
+const config: BridgeAuthConfig = {
+  token: TOKEN,
+  allowedOrigins: [ORIGIN],
+  clients: [{ name: 'viewer', token: 'viewer-token' }]
+}
+
+// Protected route that echoes the client the middleware identified
+async function startServer(auth: BridgeAuthConfig): Promise<{ server: Server; url: string }> {
+  const app = express()
+  app.get('/tools', createAuthMiddleware(auth), (_req, res) => {
+    res.json({ client: res.locals.client })
+  })
+  const server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening))
+  })
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/tools` }
+}
+
+function upgradeRequest(url: string, headers: Record<string, string> = {}): IncomingMessage {
+  return { url, headers } as unknown as IncomingMessage
+}
+
+describe('bridge auth', () => {
+  let server: Server | null = null
+
+  afterEach(async () => {
+    if (server) {
+      server.closeAllConnections()
+      await new Promise(resolve => server!.close(resolve))
+    }
+    server = null
+  })
+
+  it('compares tokens and origins', () => {
+    expect(tokensMatch(TOKEN, TOKEN)).toBe(true)
+    expect(tokensMatch(TOKEN, 'main-tokem')).toBe(false)
+    expect(tokensMatch(TOKEN, 'main')).toBe(false)
+    expect(tokensMatch(TOKEN, null)).toBe(false)
+
+    // No Origin header: a non-browser client such as Claude Desktop or curl
+    expect(isOriginAllowed(undefined, [ORIGIN])).toBe(true)
+    expect(isOriginAllowed(ORIGIN, [ORIGIN])).toBe(true)
+    expect(isOriginAllowed('https://evil.example', [ORIGIN])).toBe(false)
+    expect(isOriginAllowed('https://evil.example', ['*'])).toBe(true)
+
+    expect(isLoopbackHost('127.0.0.1')).toBe(true)
+    expect(isLoopbackHost('::1')).toBe(true)
+    expect(isLoopbackHost('0.0.0.0')).toBe(false)
+  })
+
+  it('requires a known bearer token and an allowed origin on HTTP', async () => {
+    const started = await startServer(config)
+    server = started.server
+    const get = (headers: Record<string, string>) => fetch(started.url, { headers })
+
+    const missing = await get({})
+    expect(missing.status).toBe(401)
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer realm="ppt-kit"')
+    expect((await get({ Authorization: 'Bearer wrong' })).status).toBe(401)
+
+    expect(await (await get({ Authorization: `Bearer ${TOKEN}` })).json()).toEqual({ client: null })
+    expect(await (await get({ Authorization: 'Bearer viewer-token' })).json()).toEqual({ client: 'viewer' })
+    expect((await get({ Authorization: `Bearer ${TOKEN}`, Origin: ORIGIN })).status).toBe(200)
+
+    // A valid token does not let another site's page in
+    const foreign = await get({ Authorization: `Bearer ${TOKEN}`, Origin: 'https://evil.example' })
+    expect(foreign.status).toBe(403)
+  })
+
+  it('lets every request through when no token is configured', async () => {
+    const started = await startServer({ token: null, allowedOrigins: [ORIGIN] })
+    server = started.server
+
+    expect(await (await fetch(started.url)).json()).toEqual({ client: null })
+    expect((await fetch(started.url, { headers: { Origin: 'https://evil.example' } })).status).toBe(403)
+  })
+
+  it('checks the token of WebSocket upgrades', () => {
+    expect(verifyWebSocketRequest(upgradeRequest(`/ws?token=${TOKEN}`), config)).toEqual({ ok: true })
+    expect(verifyWebSocketRequest(
+      upgradeRequest('/ws', { 'sec-websocket-protocol': `ppt-kit-bridge, bearer.${TOKEN}`, origin: ORIGIN }),
+      config
+    )).toEqual({ ok: true })
+    expect(verifyWebSocketRequest(upgradeRequest('/ws'), config)).toMatchObject({ ok: false, code: 401 })
+    // Client tokens are for MCP clients, not the add-in
+    expect(verifyWebSocketRequest(upgradeRequest('/ws?token=viewer-token'), config)).toMatchObject({ ok: false, code: 401 })
+    expect(verifyWebSocketRequest(
+      upgradeRequest(`/ws?token=${TOKEN}`, { origin: 'https://evil.example' }),
+      config
+    )).toMatchObject({ ok: false, code: 403 })
+
+    expect(selectWebSocketProtocol(new Set(['ppt-kit-bridge', `bearer.${TOKEN}`]))).toBe('ppt-kit-bridge')
+    expect(selectWebSocketProtocol(new Set([`bearer.${TOKEN}`]))).toBe(false)
+  })
+})
@@ -0,0 +1,220 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { spawn, type ChildProcess } from 'child_process'
+import { createServer } from 'net'
+import type { AddressInfo } from 'net'
+import { resolve } from 'path'
+import { WebSocket } from 'ws'
+import { MCPClient } from '../../client'
+import {
+  BRIDGE_METHODS,
+  BRIDGE_PROTOCOL_VERSION,
+  parseServerMessage,
+  type ClientMessage,
+  type ServerMessage
+} from '../../protocol'
+
+const TOKEN = 'bridge-test-token'
+const BRIDGE_SERVER = resolve(__dirname, '../bridge-server.ts')
+
+type MessageOfType<T extends ServerMessage['type']> = Extract<ServerMessage, { type: T }>
+
+const isMessageOfType = <T extends ServerMessage['type']>(message: ServerMessage, type: T): message is MessageOfType<T> =>
+  message.type === type
+
+// Stand-in for the Office Add-in that records what the bridge sends it
+interface FakeAddin {
+  ws: WebSocket
+  received: ServerMessage[]
+  next<T extends ServerMessage['type']>(type: T): Promise<MessageOfType<T>>
+  send(message: ClientMessage): Promise<void>
+}
+
+async function getFreePort(): Promise<number> {
+  const server = createServer()
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  await new Promise(resolve => server.close(resolve))
+  return port
+}
+
+async function connectAddin(port: number, documentId: string, resume?: { sessionId: string; resumeToken: string }): Promise<FakeAddin> {
+  const ws = new WebSocket(`ws://127.0.0.1:${port}/ws?token=${TOKEN}`)
+  const received: ServerMessage[] = []
+  // Each waiter takes its message when it has arrived and reports whether it did
+  const waiters = new Set<() => boolean>()
+  let read = 0
+
+  const take = <T extends ServerMessage['type']>(type: T): MessageOfType<T> | undefined => {
+    for (let i = read; i < received.length; i++) {
+      const message = received[i]
+      if (isMessageOfType(message, type)) {
+        read = i + 1
+        return message
+      }
+    }
+    return undefined
+  }
+
+  ws.on('message', (data) => {
+    received.push(parseServerMessage(data.toString()))
+    for (const waiter of [...waiters]) {
+      if (waiter()) waiters.delete(waiter)
+    }
+  })
+  await new Promise((resolve, reject) => ws.once('open', resolve).once('error', reject))
+
+  const addin: FakeAddin = {
+    ws,
+    received,
+    next: (type) => new Promise((resolve, reject) => {
+      const waiter = () => {
+        const message = take(type)
+        if (message) resolve(message)
+        return message !== undefined
+      }
+      if (waiter()) return
+      waiters.add(waiter)
+      setTimeout(() => reject(new Error(`No ${type} message for ${documentId}`)), 5000).unref()
+    }),
+    // The bridge answers a ping once it has handled every earlier message
+    send: async (message) => {
+      ws.send(JSON.stringify(message))
+      await new Promise(resolve => { ws.once('pong', resolve); ws.ping() })
+    }
+  }
+
+  await addin.send({
+    type: 'hello',
+    protocolVersion: BRIDGE_PROTOCOL_VERSION,
+    addinVersion: '1.1.0',
+    requirementSets: { PowerPointApi: '1.8' },
+    methods: [...BRIDGE_METHODS],
+    resume
+  })
+  await addin.send({ type: 'register', document: { id: documentId, title: documentId, url: '' } })
+  return addin
+}
+
+async function closeAddin(addin: FakeAddin): Promise<void> {
+  if (addin.ws.readyState === WebSocket.CLOSED) return
+  await new Promise(resolve => { addin.ws.once('close', resolve); addin.ws.close() })
+}
+
+describe('bridge server', () => {
+  let bridge: ChildProcess
+  let port: number
+  let client: MCPClient
+  let output = ''
+
+  beforeAll(async () => {
+    port = await getFreePort()
+    bridge = spawn(process.execPath, ['--import', 'tsx', BRIDGE_SERVER], {
+      env: { ...process.env, PORT: String(port), HOST: '127.0.0.1', MCP_AUTH_TOKEN: TOKEN, MCP_AUDIT_LOG: 'off' },
+      stdio: ['ignore', 'ignore', 'pipe']
+    })
+    bridge.stderr!.on('data', (data) => { output += data })
+
+    for (let i = 0; i < 150; i++) {
+      const up = await fetch(`http://127.0.0.1:${port}/health`).then(res => res.ok, () => false)
+      if (up) break
+      await new Promise(resolve => setTimeout(resolve, 200))
+    }
+
+    client = new MCPClient({
+      endpoint: { id: 'bridge', name: 'Bridge', url: `http://127.0.0.1:${port}/sse`, enabled: true, transport: 'sse', authToken: TOKEN }
+    })
+    if (!(await client.connect())) {
+      throw new Error(`Bridge server did not start:\n${output}`)
+    }
+  }, 60000)
+
+  afterAll(async () => {
+    await client?.disconnect()
+    if (bridge && bridge.exitCode === null) {
+      await new Promise(resolve => { bridge.once('exit', resolve); bridge.kill() })
+    }
+  })
+
+  it('routes requests by document_id and to the focused document otherwise', async () => {
+    const roadmap = await connectAddin(port, 'doc-roadmap')
+    const budget = await connectAddin(port, 'doc-budget')
+
+    const listed = await client.callToolResult('ppt_list_documents', {})
+    const documents = (listed.structuredContent as { documents: Array<{ id: string; active: boolean }> }).documents
+    expect(documents.map(doc => [doc.id, doc.active])).toEqual([['doc-roadmap', false], ['doc-budget', true]])
+
+    // Each call is answered by the add-in that received it
+    const createSlide = async (addin: FakeAddin, args: { title: string; document_id?: string }) => {
+      const call = client.callToolResult('ppt_create_slide', args)
+      const request = await addin.next('request')
+      expect(request).toMatchObject({ method: 'createSlide', params: { title: args.title } })
+      await addin.send({ type: 'response', id: request.id, result: { slideId: `${addin === roadmap ? 'r' : 'b'}-1`, index: 0 } })
+      return (await call).structuredContent
+    }
+
+    expect(await createSlide(roadmap, { title: 'Milestones', document_id: 'doc-roadmap' })).toMatchObject({ slide_id: 'r-1' })
+    expect(await createSlide(budget, { title: 'Costs' })).toMatchObject({ slide_id: 'b-1' })
+
+    await roadmap.send({ type: 'event', event: 'focus', data: {} })
+    expect(await createSlide(roadmap, { title: 'Risks' })).toMatchObject({ slide_id: 'r-1' })
+    expect(budget.received.filter(message => message.type === 'request')).toHaveLength(1)
+
+    const unknown = await client.callToolResult('ppt_create_slide', { title: 'Lost', document_id: 'doc-missing' })
+    expect(unknown.isError).toBe(true)
+    expect(unknown.content).toEqual([{ type: 'text', text: expect.stringContaining('Document not found: doc-missing') }])
+
+    await closeAddin(roadmap)
+    await closeAddin(budget)
+  })
+
+  it('resends requests in flight to an add-in that resumes its session', async () => {
+    const first = await connectAddin(port, 'doc-resume')
+    const session = await first.next('session')
+    expect(session).toMatchObject({ resumed: false })
+
+    // The connection drops before the add-in answers
+    const call = client.callToolResult('ppt_create_slide', { title: 'Agenda', document_id: 'doc-resume' })
+    const request = await first.next('request')
+    await closeAddin(first)
+
+    // A wrong token starts a new session instead of taking over the document
+    const impostor = await connectAddin(port, 'doc-impostor', { sessionId: session.sessionId, resumeToken: 'guess' })
+    expect(await impostor.next('session')).toMatchObject({ resumed: false })
+    expect(impostor.received.some(message => message.type === 'request')).toBe(false)
+    await closeAddin(impostor)
+
+    const resumed = await connectAddin(port, 'doc-resume', { sessionId: session.sessionId, resumeToken: session.resumeToken })
+    expect(await resumed.next('session')).toMatchObject({ sessionId: session.sessionId, resumed: true })
+    expect(await resumed.next('request')).toEqual(request)
+
+    await resumed.send({ type: 'response', id: request.id, result: { slideId: 'agenda', index: 0 } })
+    expect((await call).structuredContent).toMatchObject({ slide_id: 'agenda', title: 'Agenda', success: true })
+
+    await closeAddin(resumed)
+  })
+
+  it('queues changes that arrive while the add-in is reconnecting', async () => {
+    const first = await connectAddin(port, 'doc-offline')
+    const session = await first.next('session')
+    await closeAddin(first)
+
+    // The slide reference is resolved once the add-in is back, right before the change
+    const call = client.callToolResult('ppt_add_content', {
+      slide_id: 2, content: 'Queued', content_type: 'text', document_id: 'doc-offline'
+    })
+    const read = await client.callToolResult('ppt_list_slides', { document_id: 'doc-offline' })
+    expect(read.content).toEqual([{ type: 'text', text: expect.stringContaining('is reconnecting') }])
+
+    const resumed = await connectAddin(port, 'doc-offline', { sessionId: session.sessionId, resumeToken: session.resumeToken })
+    const resolveSlide = await resumed.next('request')
+    expect(resolveSlide).toMatchObject({ method: 'resolveSlide', params: { ref: { type: 'number', number: 2 } } })
+    await resumed.send({ type: 'response', id: resolveSlide.id, result: { slideId: 'slide-2', index: 1 } })
+
+    const addText = await resumed.next('request')
+    expect(addText).toMatchObject({ method: 'addText', tool: 'ppt_add_content', params: { slideId: 'slide-2', content: 'Queued' } })
+    await resumed.send({ type: 'response', id: addText.id })
+    expect((await call).structuredContent).toMatchObject({ slide_id: 'slide-2', success: true })
+
+    await closeAddin(resumed)
+  })
+})
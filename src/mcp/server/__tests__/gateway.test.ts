@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { z } from 'zod'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { createPPTKitMCPServer, ToolGuard, type PPTExternalTool, type PPTToolCall, type PPTToolGateway } from '../index'
+import { createInMemoryOperations } from '../memory'
+import { MCPGateway, getUpstreamPrefix } from '../gateway'
+
+// Stateless Streamable HTTP server with a data lookup and a tool that never answers in time
+async function startDataServer(): Promise<{ server: Server; url: string }> {
+  const server = createServer(async (req, res) => {
+    const mcp = new McpServer({ name: 'data', version: '1.0.0' })
+    mcp.registerTool('query', {
+      description: 'Look up a metric',
+      inputSchema: { metric: z.string() },
+      annotations: { readOnlyHint: true }
+    }, async ({ metric }) => ({ content: [{ type: 'text', text: `${metric}: 42` }] }))
+    mcp.registerTool('slow', { description: 'Never answers in time' }, async () => {
+      await new Promise(resolve => setTimeout(resolve, 2000))
+      return { content: [{ type: 'text', text: 'late' }] }
+    })
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined, enableJsonResponse: true })
+    res.on('close', () => { transport.close() })
+    await mcp.connect(transport)
+    await transport.handleRequest(req, res)
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp` }
+}
+
+describe('MCP gateway', () => {
+  let server: Server | null = null
+  let gateway: MCPGateway | null = null
+
+  afterEach(async () => {
+    await gateway?.close()
+    if (server) {
+      server.closeAllConnections()
+      await new Promise(resolve => server!.close(resolve))
+    }
+    server = null
+    gateway = null
+  })
+
+  it('names tools after their server', () => {
+    expect(getUpstreamPrefix('Data Warehouse')).toBe('ext_data_warehouse_')
+    expect(() => new MCPGateway({
+      mcpClients: [{ name: 'data', url: 'http://a/mcp' }, { name: 'Data!', url: 'http://b/mcp' }]
+    })).toThrow('rename one')
+    // ext_data_x_foo would be ambiguous between x_foo on "data" and foo on "data x"
+    expect(() => new MCPGateway({
+      mcpClients: [{ name: 'data x', url: 'http://a/mcp' }, { name: 'data', url: 'http://b/mcp' }]
+    })).toThrow('overlapping tool prefixes')
+    expect(() => new MCPGateway({
+      mcpClients: [{ name: 'data', url: 'http://a/mcp' }, { name: 'database', url: 'http://b/mcp' }]
+    })).not.toThrow()
+  })
+
+  it('republishes external tools and keeps failures per server', async () => {
+    const started = await startDataServer()
+    server = started.server
+    gateway = new MCPGateway({
+      mcpClients: [
+        { name: 'data', url: started.url, transport: 'streamable-http', timeout: 300 },
+        { name: 'offline', url: 'http://127.0.0.1:1/mcp', transport: 'streamable-http' },
+        { name: 'disabled', url: 'http://127.0.0.1:1/mcp', enabled: false }
+      ]
+    })
+    await gateway.start()
+
+    expect(gateway.getStatus().map(upstream => [upstream.name, upstream.status])).toEqual([
+      ['data', 'connected'],
+      ['offline', 'error']
+    ])
+
+    const calls: PPTToolCall[] = []
+    const ppt = createPPTKitMCPServer(createInMemoryOperations(), {
+      gateway,
+      guard: new ToolGuard({ readOnly: true }),
+      onToolCall: call => calls.push(call)
+    })
+    const client = new Client({ name: 'test-client', version: '1.0.0' })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await Promise.all([ppt.connect(serverTransport), client.connect(clientTransport)])
+
+    const { tools } = await client.listTools()
+    const query = tools.find(tool => tool.name === 'ext_data_query')
+    expect(query?.inputSchema).toMatchObject({ properties: { metric: { type: 'string' } }, required: ['metric'] })
+    // Read-only policies hide external tools without readOnlyHint too
+    expect(tools.some(tool => tool.name === 'ext_data_slow')).toBe(false)
+
+    const result = await client.callTool({ name: 'ext_data_query', arguments: { metric: 'revenue' } })
+    expect(result.content).toEqual([{ type: 'text', text: 'revenue: 42' }])
+    expect(calls.map(call => call.tool)).toEqual(['ext_data_query'])
+
+    await expect(gateway.callTool('ext_data_slow', {})).rejects.toThrow(/^data: .*timed out/)
+    await expect(gateway.callTool('ext_offline_query', {})).rejects.toThrow(/^offline is unavailable/)
+
+    await client.close()
+  })
+
+  it('skips gateway tools whose names are taken', async () => {
+    const tool = (name: string, description: string): PPTExternalTool => ({
+      name, title: name, description, inputSchema: { type: 'object' }, annotations: {}
+    })
+    let tools = [tool('ext_a_query', 'first'), tool('ext_a_query', 'second'), tool('ppt_get_info', 'impostor')]
+    const listeners = new Set<() => void>()
+    const fake: PPTToolGateway = {
+      listTools: () => tools,
+      callTool: async () => ({ content: [] }),
+      onChange(listener) {
+        listeners.add(listener)
+        return () => listeners.delete(listener)
+      }
+    }
+
+    const ppt = createPPTKitMCPServer(createInMemoryOperations(), { gateway: fake })
+    const client = new Client({ name: 'test-client', version: '1.0.0' })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await Promise.all([ppt.connect(serverTransport), client.connect(clientTransport)])
+
+    const listed = (await client.listTools()).tools
+    expect(listed.filter(entry => entry.name === 'ext_a_query').map(entry => entry.description)).toEqual(['first'])
+    expect(listed.find(entry => entry.name === 'ppt_get_info')?.description).not.toBe('impostor')
+
+    // Changes go through the same checks instead of throwing in the listener
+    tools = [...tools, tool('ext_a_query', 'third')]
+    expect(() => listeners.forEach(listener => listener())).not.toThrow()
+
+    await client.close()
+  })
+})
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { createPPTKitMCPServer } from '../index'
+import { InMemoryPresentation, createInMemoryOperations, writePptx } from '../memory'
+
+describe('in-memory backend', () => {
+  let root: string
+  let outputDir: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'ppt-kit-'))
+    outputDir = join(root, 'out')
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('saves inside the output directory only', async () => {
+    writeFileSync(join(root, 'other.pptx'), 'keep')
+    const ops = createInMemoryOperations(new InMemoryPresentation(), { outputDir: root })
+    await ops.createSlide('Title')
+
+    const saved = await ops.savePresentation!('deck.pptx')
+    expect(saved).toMatchObject({ filePath: join(root, 'deck.pptx'), slideCount: 1 })
+    expect(readFileSync(saved.filePath).length).toBe(saved.bytes)
+
+    const confined = createInMemoryOperations(new InMemoryPresentation(), { outputDir })
+    await expect(confined.savePresentation!('../other.pptx', { overwrite: true })).rejects.toThrow('inside the output directory')
+    await expect(confined.savePresentation!(join(root, 'other.pptx'), { overwrite: true })).rejects.toThrow('inside the output directory')
+    expect(readFileSync(join(root, 'other.pptx'), 'utf8')).toBe('keep')
+  })
+
+  it('replaces existing files only with overwrite', async () => {
+    const ops = createInMemoryOperations(new InMemoryPresentation(), { outputDir: root })
+    const first = await ops.savePresentation!('deck.pptx')
+
+    await ops.createSlide('Title')
+    await expect(ops.savePresentation!('deck.pptx')).rejects.toThrow('File already exists: deck.pptx')
+    expect(readFileSync(first.filePath).length).toBe(first.bytes)
+
+    const second = await ops.savePresentation!('deck.pptx', { overwrite: true })
+    expect(second.slideCount).toBe(1)
+  })
+
+  it('adds tables with ppt_add_table', async () => {
+    const presentation = new InMemoryPresentation()
+    const server = createPPTKitMCPServer(createInMemoryOperations(presentation))
+    const client = new Client({ name: 'test-client', version: '1.0.0' })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+    await client.callTool({ name: 'ppt_create_slide', arguments: { title: 'Pricing' } })
+
+    const result = await client.callTool({
+      name: 'ppt_add_table',
+      arguments: { slide_id: 1, headers: ['Plan', 'Price'], rows: [['Free', '$0'], ['Pro']] }
+    })
+    expect(result.structuredContent).toMatchObject({ column_count: 2, row_count: 2, success: true })
+    expect(presentation.slides[0].shapes.find(shape => shape.kind === 'table')).toMatchObject({
+      headers: ['Plan', 'Price'],
+      rows: [['Free', '$0'], ['Pro', '']]
+    })
+    expect(writePptx(presentation).length).toBeGreaterThan(0)
+
+    const tooWide = await client.callTool({
+      name: 'ppt_add_table',
+      arguments: { slide_id: 1, headers: ['Plan'], rows: [['Free', '$0']] }
+    })
+    expect(tooWide.isError).toBe(true)
+    expect(tooWide.content).toEqual([{ type: 'text', text: expect.stringContaining('Row 1 has 2 cells') }])
+
+    await client.close()
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { BridgeMetrics, Histogram, PrometheusWriter } from '../metrics'
+
+const gauges = { pendingRequests: 0, connectedAddins: 1, reconnectingAddins: 0, queues: [] }
+
+describe('metrics', () => {
+  it('writes cumulative histogram buckets and escaped labels', () => {
+    const histogram = new Histogram([1, 5])
+    histogram.observe(0.5)
+    histogram.observe(3)
+    histogram.observe(10)
+
+    const text = new PrometheusWriter()
+      .counter('calls_total', 'Calls', [{ labels: { tool: 'say "hi"' }, value: 2 }])
+      .histogram('latency_seconds', 'Latency', [{ histogram }])
+      .toString()
+
+    expect(text).toBe([
+      '# HELP calls_total Calls',
+      '# TYPE calls_total counter',
+      'calls_total{tool="say \\"hi\\""} 2',
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{le="1"} 1',
+      'latency_seconds_bucket{le="5"} 2',
+      'latency_seconds_bucket{le="+Inf"} 3',
+      'latency_seconds_sum 13.5',
+      'latency_seconds_count 3',
+      ''
+    ].join('\n'))
+  })
+
+  it('records bridge requests once and keeps the newest traffic', () => {
+    const metrics = new BridgeMetrics(['ppt_list_slides'], 2)
+    const first = metrics.startRequest('1', 'doc', 'listSlides', 100)
+    metrics.markSent(first)
+    metrics.finishRequest(first, 'ok', { responseBytes: 300, officeMs: 40, waitMs: 0 })
+    // A late timeout after the response must not count twice
+    metrics.finishRequest(first, 'timeout')
+
+    const second = metrics.startRequest('2', 'doc', 'addText', 200)
+    metrics.finishRequest(second, 'cancelled')
+    metrics.startRequest('3', 'doc', 'addText', 200)
+    metrics.tools.record('ppt_list_slides', 120, false)
+
+    expect(first.status).toBe('ok')
+    expect(first.roundTripMs).toBeGreaterThanOrEqual(0)
+    expect(metrics.recentTraffic().map(entry => entry.id)).toEqual(['3', '2'])
+
+    const text = metrics.toPrometheus(gauges)
+    expect(text).toContain('ppt_kit_tool_calls_total{tool="ppt_list_slides"} 1')
+    expect(text).toContain('ppt_kit_bridge_requests_total{method="listSlides",status="ok"} 1')
+    expect(text).not.toContain('status="timeout"')
+    expect(text).toContain('ppt_kit_bridge_requests_total{method="addText",status="cancelled"} 1')
+    expect(text).toContain('ppt_kit_office_duration_seconds_count{method="listSlides"} 1')
+    expect(text).toContain('ppt_kit_bridge_payload_bytes_count{direction="sent"} 1')
+    expect(text).toContain('ppt_kit_bridge_addins{state="connected"} 1')
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js'
+import { createPPTKitMCPServer } from '../index'
+import { InMemoryPresentation, createInMemoryOperations } from '../memory'
+
+describe('MCP prompts', () => {
+  it('resolves the slide of ppt_speaker_notes like the tools do', async () => {
+    const presentation = new InMemoryPresentation()
+    const ops = createInMemoryOperations(presentation)
+    await ops.createSlide('Intro')
+    await ops.createSlide('Pricing')
+    await ops.createSlide('Roadmap')
+    // Slide IDs no longer follow slide numbers once a slide is deleted
+    await ops.deleteSlide(presentation.slides[0].id)
+
+    const server = createPPTKitMCPServer(ops)
+    const client = new Client({ name: 'test-client', version: '1.0.0' })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+    const notes = async (slide_id: string) => {
+      const { description } = await client.getPrompt({ name: 'ppt_speaker_notes', arguments: { slide_id } })
+      return description
+    }
+
+    expect(await notes('1')).toBe('Summarize slide 1 into speaker notes')
+    expect(await notes('title:roadmap')).toBe('Summarize slide 2 into speaker notes')
+    expect(await notes(`id:${presentation.slides[1].id}`)).toBe('Summarize slide 2 into speaker notes')
+
+    await expect(notes('5')).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('Slide not found: slide number 5 (the presentation has 2 slides)')
+    })
+
+    await client.close()
+  })
+})
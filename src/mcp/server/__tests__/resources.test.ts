@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js'
+import { createPPTKitMCPServer } from '../index'
+import { InMemoryPresentation, createInMemoryOperations } from '../memory'
+import { PRESENTATION_RESOURCE_URI, slideResourceUri, slideShapesResourceUri } from '../resources'
+
+describe('MCP resources', () => {
+  it('reads the presentation and notifies subscribers of changes', async () => {
+    const presentation = new InMemoryPresentation()
+    const server = createPPTKitMCPServer(createInMemoryOperations(presentation))
+    const client = new Client({ name: 'test-client', version: '1.0.0' })
+    const updated: string[] = []
+    let listChanged = 0
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri)
+    })
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged++
+    })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+    const readJson = async (uri: string) => {
+      const [contents] = (await client.readResource({ uri })).contents
+      return 'text' in contents ? JSON.parse(contents.text) : undefined
+    }
+
+    expect(client.getServerCapabilities()?.resources).toMatchObject({ subscribe: true, listChanged: true })
+    await client.subscribeResource({ uri: PRESENTATION_RESOURCE_URI })
+
+    // Adding a slide changes the slide list
+    await client.callTool({ name: 'ppt_create_slide', arguments: { title: 'Intro' } })
+    const slideId = presentation.slides[0].id
+    expect(listChanged).toBe(1)
+    expect(updated).toEqual([PRESENTATION_RESOURCE_URI])
+
+    const { resources } = await client.listResources()
+    expect(resources.map(resource => resource.uri)).toEqual([
+      PRESENTATION_RESOURCE_URI,
+      slideResourceUri(slideId),
+      slideShapesResourceUri(slideId)
+    ])
+    expect(await readJson(PRESENTATION_RESOURCE_URI)).toMatchObject({
+      slide_count: 1,
+      slides: [{ id: slideId, title: 'Intro', uri: slideResourceUri(slideId) }]
+    })
+
+    // Content changes update the slide's resources but not the slide list
+    await client.subscribeResource({ uri: slideShapesResourceUri(slideId) })
+    await client.unsubscribeResource({ uri: PRESENTATION_RESOURCE_URI })
+    updated.length = 0
+    await client.callTool({ name: 'ppt_add_content', arguments: { slide_id: 1, content: 'Hello', content_type: 'text' } })
+    expect(updated).toEqual([slideShapesResourceUri(slideId)])
+    expect(listChanged).toBe(1)
+
+    expect((await readJson(slideShapesResourceUri(slideId))).shapes).toContainEqual(expect.objectContaining({ text: 'Hello' }))
+
+    await client.close()
+  })
+})
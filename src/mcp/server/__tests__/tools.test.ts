@@ -0,0 +1,390 @@
+import { describe, expect, it } from 'vitest'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js'
+import { createPPTKitMCPServer } from '../index'
+import { BrowserMCPServer, createMockOperations } from '../browser'
+import { PPT_TOOLS, listToolDefinitions } from '../tools'
+import { createInMemoryOperations } from '../memory'
+import { ToolGuard, mergeToolPolicies, validateToolPolicy } from '../policy'
+import { RequestScheduler } from '../../request-scheduler'
+import type { PPTBackendCapabilities, PPTOperations } from '../types'
+
+async function connectClient() {
+  const server = createPPTKitMCPServer(createMockOperations())
+  const client = new Client({ name: 'test-client', version: '1.0.0' })
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+  return client
+}
+
+function startBrowserServer() {
+  const server = new BrowserMCPServer(createMockOperations())
+  server.start()
+  return server
+}
+
+describe('tool registry', () => {
+  it('has unique tool names', () => {
+    const names = PPT_TOOLS.map(tool => tool.name)
+    expect(new Set(names).size).toBe(names.length)
+  })
+
+  it('advertises the same schemas over the SDK server and the browser server', async () => {
+    const client = await connectClient()
+    const { tools: sdkTools } = await client.listTools()
+
+    const browser = await startBrowserServer().handleRequest({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    const browserTools = (browser.result as { tools: unknown[] }).tools
+
+    const comparable = (tools: unknown[]) => (tools as Array<Record<string, unknown>>).map(tool => ({
+      name: tool.name,
+      title: tool.title,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      outputSchema: tool.outputSchema,
+      annotations: tool.annotations
+    }))
+    expect(comparable(browserTools)).toEqual(comparable(sdkTools))
+    expect(comparable(browserTools)).toEqual(listToolDefinitions())
+  })
+
+  it('exposes response_format and pagination in the browser server', () => {
+    const listSlides = startBrowserServer().getTools().find(tool => tool.name === 'ppt_list_slides')
+
+    expect(Object.keys(listSlides?.inputSchema.properties as object)).toEqual(
+      expect.arrayContaining(['limit', 'offset', 'response_format'])
+    )
+  })
+
+  it('returns the same result from both servers', async () => {
+    const args = { limit: 2, response_format: 'markdown' }
+    const client = await connectClient()
+    const sdkResult = await client.callTool({ name: 'ppt_list_slides', arguments: args })
+
+    const browser = await startBrowserServer().handleRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'ppt_list_slides', arguments: args }
+    })
+
+    expect(browser.result).toEqual(sdkResult)
+    expect(sdkResult.structuredContent).toMatchObject({ total: 3, count: 2, has_more: true, next_offset: 2 })
+  })
+
+  it('rejects invalid arguments in the browser server', async () => {
+    const server = startBrowserServer()
+
+    const response = await server.handleRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'ppt_create_slide', arguments: { layout: 'poster' } }
+    })
+
+    expect(response.error?.code).toBe(-32602)
+    expect(response.error?.message).toContain('Invalid arguments for tool ppt_create_slide')
+    expect(server.getToolStats().find(stats => stats.name === 'ppt_create_slide')?.calls).toBe(0)
+  })
+
+  it('reports backend errors as tool results', async () => {
+    const server = startBrowserServer()
+
+    const response = await server.handleRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'ppt_undo', arguments: {} }
+    })
+
+    expect(response.result).toEqual({
+      content: [{ type: 'text', text: 'Error: Undo is only available when connected to the Office Add-in.' }],
+      isError: true
+    })
+    expect(server.getToolStats().find(stats => stats.name === 'ppt_undo')).toMatchObject({ calls: 1, errors: 1 })
+  })
+
+  it('reads a slide with its title and formatting', async () => {
+    const operations = createInMemoryOperations()
+    const { slides } = await operations.generateFromMarkdown('# Roadmap\n\nShip the beta')
+    const server = new BrowserMCPServer(operations)
+    server.start()
+
+    const response = await server.handleRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'ppt_get_slide', arguments: { slide_id: slides[0].id } }
+    })
+
+    const output = (response.result as { structuredContent: Record<string, unknown> }).structuredContent
+    expect(output).toMatchObject({ slide_id: slides[0].id, title: 'Roadmap', shape_count: 2 })
+    expect((output.shapes as unknown[])[0]).toMatchObject({
+      name: 'Title',
+      is_title: true,
+      paragraphs: [{ text: 'Roadmap', horizontal_alignment: 'Center', runs: [{ text: 'Roadmap', font: { size: 32, bold: true } }] }]
+    })
+  })
+
+  it('edits shapes by ID', async () => {
+    const operations = createInMemoryOperations()
+    const { slideId } = await operations.createSlide('Plan')
+    await operations.addText(slideId, 'Draft')
+    const [title, body] = await operations.getSlideShapes(slideId)
+    const server = new BrowserMCPServer(operations)
+    server.start()
+    const call = (name: string, args: Record<string, unknown>) => server.handleRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name, arguments: { slide_id: slideId, ...args } }
+    })
+
+    const update = await call('ppt_update_shape', {
+      shape_id: body.id,
+      text: 'Final',
+      position: { y: 200 },
+      font: { bold: true }
+    })
+    const reorder = await call('ppt_reorder_shape', { shape_id: body.id, position: 'send_to_back' })
+    await call('ppt_delete_shape', { shape_id: title.id })
+    const empty = await call('ppt_update_shape', { shape_id: body.id })
+    const group = await call('ppt_group_shapes', { shape_ids: [title.id, body.id] })
+
+    expect(update.result).toMatchObject({ structuredContent: { updated: ['text', 'position', 'font'], success: true } })
+    expect(reorder.result).toMatchObject({ structuredContent: { z_order_position: 1 } })
+    expect(await operations.getSlideShapes(slideId)).toEqual([
+      expect.objectContaining({ id: body.id, text: 'Final', left: 40, top: 200 })
+    ])
+    expect(empty.result).toMatchObject({ isError: true })
+    expect(group.result).toEqual({
+      content: [{ type: 'text', text: 'Error: Grouping shapes is only available when connected to the Office Add-in.' }],
+      isError: true
+    })
+  })
+
+  it('inserts, duplicates, moves and deletes slides', async () => {
+    const operations = createInMemoryOperations()
+    const server = new BrowserMCPServer(operations)
+    server.start()
+    const call = async (name: string, args: Record<string, unknown>) => {
+      const response = await server.handleRequest({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } })
+      return (response.result as { structuredContent: Record<string, unknown> }).structuredContent
+    }
+    const titles = async () => (await operations.listSlides(10, 0)).slides.map(slide => slide.title)
+
+    await call('ppt_create_slide', { title: 'Summary' })
+    const intro = await call('ppt_create_slide', { title: 'Intro', index: 0 })
+    const copy = await call('ppt_duplicate_slide', { slide_id: intro.slide_id })
+    expect(copy).toMatchObject({ source_slide_id: intro.slide_id, index: 1 })
+    expect(await titles()).toEqual(['Intro', 'Intro', 'Summary'])
+
+    expect(await call('ppt_move_slide', { slide_id: copy.slide_id, index: 2 })).toMatchObject({ from_index: 1, index: 2 })
+    expect(await call('ppt_delete_slides', { start_index: 1, count: 2 })).toMatchObject({ count: 2, success: true })
+    expect(await titles()).toEqual(['Intro'])
+  })
+
+  it('accepts slide numbers, titles and ppt-kit IDs wherever a slide is targeted', async () => {
+    const operations = createInMemoryOperations()
+    await operations.generateFromMarkdown('# Intro\n\n# Q1 Results\n\n# Q2 Results')
+    const server = new BrowserMCPServer(operations)
+    server.start()
+    const call = async (name: string, args: Record<string, unknown>) => {
+      const response = await server.handleRequest({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } })
+      return response.result as { structuredContent?: Record<string, unknown>; content: Array<{ text: string }>; isError?: boolean }
+    }
+    const [intro, q1, q2] = (await operations.listSlides(10, 0)).slides
+
+    expect((await call('ppt_get_slide', { slide_id: 2 })).structuredContent).toMatchObject({ slide_id: q1.id, title: 'Q1 Results' })
+    expect((await call('ppt_get_slide', { slide_id: 'title:q2 results' })).structuredContent).toMatchObject({ slide_id: q2.id })
+    expect((await call('ppt_move_slide', { slide_id: 'tag:slide-0', index: 2 })).structuredContent).toMatchObject({
+      slide_id: intro.id,
+      from_index: 0
+    })
+    expect(await call('ppt_add_content', { slide_id: 'title:Results', content: 'Hi', content_type: 'text' })).toMatchObject({
+      content: [{ text: expect.stringContaining('Ambiguous slide reference title "Results": matches slides 1 (ID') }],
+      isError: true
+    })
+    expect(await call('ppt_delete_slide', { slide_id: 4 })).toMatchObject({
+      content: [{ text: 'Error: Slide not found: slide number 4 (the presentation has 3 slides)' }],
+      isError: true
+    })
+  })
+
+  it('previews mutating tools with dry_run and applies the returned change set', async () => {
+    const operations = createInMemoryOperations()
+    const server = createPPTKitMCPServer(operations)
+    const client = new Client({ name: 'test-client', version: '1.0.0' })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+    const markdown = '# Demo\n\nHello\n\n```python\nprint(1)\n```'
+
+    const preview = await client.callTool({ name: 'ppt_from_markdown', arguments: { markdown, dry_run: true } })
+
+    expect(preview.isError).toBeUndefined()
+    expect((await operations.listSlides(10, 0)).total).toBe(0)
+    const { change_set: changeSet } = preview.structuredContent as { change_set: { tool: string; arguments: Record<string, unknown>; changes: Array<Record<string, unknown>> } }
+    expect(preview.structuredContent).toMatchObject({ dry_run: true, slide_count: 1, slides: [{ id: '$0', title: 'Demo' }] })
+    expect(changeSet.arguments).toEqual({ markdown, response_format: 'json' })
+    expect(changeSet.changes.map(change => [change.action, change.slide_id, change.type])).toEqual([
+      ['create_slide', '$0', undefined],
+      ['create_shape', '$0', 'TextBox'],
+      ['create_shape', '$0', 'TextBox'],
+      ['create_shape', '$0', 'GeometricShape'],
+      ['create_shape', '$0', 'TextBox']
+    ])
+    expect(changeSet.changes[1]).toMatchObject({ text: 'Demo', left: expect.any(Number), width: expect.any(Number) })
+
+    const applied = await client.callTool({ name: changeSet.tool, arguments: changeSet.arguments })
+    expect(applied.structuredContent).toMatchObject({ slide_count: 1, success: true })
+    expect(applied.structuredContent).not.toHaveProperty('dry_run')
+  })
+
+  it('pins slide references and leaves the deck untouched in dry runs', async () => {
+    const operations = createInMemoryOperations()
+    const { slideId } = await operations.createSlide('Roadmap')
+    await operations.createSlide('Summary')
+    const server = new BrowserMCPServer(operations)
+    server.start()
+    const call = async (name: string, args: Record<string, unknown>) => {
+      const response = await server.handleRequest({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } })
+      return response.result as { structuredContent: Record<string, unknown>; content: Array<{ text: string }>; isError?: boolean }
+    }
+
+    const addText = await call('ppt_add_content', { slide_id: 'title:roadmap', content: 'Q3', content_type: 'text', dry_run: true })
+    const deleteSlide = await call('ppt_delete_slide', { slide_id: 1, dry_run: true, response_format: 'markdown' })
+    const move = await call('ppt_move_slide', { slide_id: 1, index: 5, dry_run: true })
+
+    expect(addText.structuredContent.change_set).toEqual({
+      tool: 'ppt_add_content',
+      arguments: { slide_id: slideId, content: 'Q3', content_type: 'text', response_format: 'json' },
+      changes: [{ action: 'create_shape', slide_id: slideId, name: 'TextBox', type: 'TextBox', left: 40, top: 140, width: 880, height: 360, text: 'Q3' }]
+    })
+    expect(deleteSlide.content[0].text).toBe(`# Dry Run: ppt_delete_slide\n\nNothing was changed. Call ppt_delete_slide with the change set's arguments to apply:\n\n- Delete slide ${slideId} (index 0)`)
+    expect(move).toMatchObject({ content: [{ text: 'Error: Slide index 5 out of range (0-1)' }], isError: true })
+    expect(await operations.getSlideShapes(slideId)).toHaveLength(1)
+    expect((await operations.listSlides(10, 0)).total).toBe(2)
+  })
+
+  it('drops a cancelled shape update from the add-in queue', async () => {
+    // Stands in for the add-in: requests wait in its scheduler behind a change to the same slide
+    const scheduler = new RequestScheduler()
+    const busy = new Promise<void>(resolve => setTimeout(resolve, 200))
+    const running = scheduler.schedule('1', 'addText', { slideId: 'slide-1' }, () => busy)
+    let updated = false
+    const operations: PPTOperations = {
+      ...createMockOperations(),
+      async updateShape(slideId, _shapeId, _update, options) {
+        await scheduler.schedule('2', 'updateShape', { slideId }, async () => { updated = true }, { signal: options?.signal })
+      }
+    }
+    const server = createPPTKitMCPServer(operations)
+    const client = new Client({ name: 'test-client', version: '1.0.0' })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+
+    const controller = new AbortController()
+    const call = client.callTool(
+      { name: 'ppt_update_shape', arguments: { slide_id: 'slide-1', shape_id: 'shape-1', text: 'Late' } },
+      undefined,
+      { signal: controller.signal }
+    )
+    for (let i = 0; i < 50 && scheduler.getStats().queued === 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 5))
+    }
+    expect(scheduler.getStats().queuedBySlide).toEqual({ 'slide-1': 1 })
+
+    controller.abort()
+    await expect(call).rejects.toThrow()
+    for (let i = 0; i < 50 && scheduler.getStats().queued > 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 5))
+    }
+    expect(scheduler.getStats().queued).toBe(0)
+
+    await running
+    expect(updated).toBe(false)
+    await client.close()
+  })
+})
+
+describe('client policies', () => {
+  async function connectWithPolicy(guard: ToolGuard) {
+    const server = createPPTKitMCPServer(createInMemoryOperations(), { guard })
+    const client = new Client({ name: 'test-client', version: '1.0.0' })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+    return client
+  }
+
+  it('only lists the tools a policy permits', async () => {
+    const readOnly = await connectWithPolicy(new ToolGuard({ readOnly: true, denyTools: ['ppt_history'] }))
+    const { tools } = await readOnly.listTools()
+
+    expect(tools.length).toBeGreaterThan(0)
+    expect(tools.every(tool => tool.annotations?.readOnlyHint)).toBe(true)
+    expect(tools.map(tool => tool.name)).not.toContain('ppt_history')
+    expect(listToolDefinitions(tool => tool.name === 'ppt_get_info').map(tool => tool.name)).toEqual(['ppt_get_info'])
+
+    const allowList = await connectWithPolicy(new ToolGuard({ allowTools: ['ppt_create_slide', 'ppt_list_slides'] }))
+    expect((await allowList.listTools()).tools.map(tool => tool.name)).toEqual(['ppt_create_slide', 'ppt_list_slides'])
+    expect(await allowList.callTool({ name: 'ppt_delete_slide', arguments: { slide_id: 1 } })).toMatchObject({ isError: true })
+  })
+
+  it('rate-limits tool calls per session', async () => {
+    const client = await connectWithPolicy(new ToolGuard({ rateLimit: { requests: 2, windowSeconds: 60 } }))
+
+    await client.callTool({ name: 'ppt_create_slide', arguments: { title: 'One' } })
+    await client.callTool({ name: 'ppt_list_slides', arguments: {} })
+    const limited = await client.callTool({ name: 'ppt_create_slide', arguments: { title: 'Two' } })
+
+    expect(limited).toMatchObject({
+      content: [{ text: expect.stringMatching(/^Error: Rate limit exceeded: at most 2 tool calls every 60s for this session\. Retry in \d+s\.$/) }],
+      isError: true
+    })
+    const guard = new ToolGuard({ rateLimit: { requests: 1, windowSeconds: 1 } })
+    guard.take(0)
+    expect(() => guard.take(500)).toThrow('Retry in 1s')
+    expect(() => guard.take(1000)).not.toThrow()
+  })
+
+  it('validates policies and keeps read-only mode global', () => {
+    expect(() => validateToolPolicy({ denyTools: ['ppt_nope'] }, 'the default policy')).toThrow('Unknown tool "ppt_nope" in the default policy')
+    expect(() => validateToolPolicy({ rateLimit: { requests: 0, windowSeconds: 60 } }, 'test')).toThrow('Invalid rateLimit in test')
+    expect(mergeToolPolicies({ readOnly: true, denyTools: ['ppt_history'] }, { readOnly: false, denyTools: [] })).toEqual({ readOnly: true, denyTools: [] })
+  })
+})
+
+describe('backend capabilities', () => {
+  it('hides tools the connected add-in cannot run and announces changes', async () => {
+    let methods: ReadonlySet<string> | null = new Set(['getPresentationInfo', 'listSlides', 'resolveSlide', 'getSlideShapes'])
+    const listeners = new Set<() => void>()
+    const capabilities: PPTBackendCapabilities = {
+      getMethods: () => methods,
+      onChange(listener) {
+        listeners.add(listener)
+        return () => listeners.delete(listener)
+      }
+    }
+
+    const server = createPPTKitMCPServer(createInMemoryOperations(), { capabilities })
+    const client = new Client({ name: 'test-client', version: '1.0.0' })
+    let changes = 0
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => { changes++ })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+
+    const names = async () => (await client.listTools()).tools.map(tool => tool.name)
+    expect(await names()).toEqual(['ppt_get_info', 'ppt_list_slides', 'ppt_get_slide', 'ppt_list_documents'])
+    expect(await client.callTool({ name: 'ppt_create_slide', arguments: { title: 'Hidden' } })).toMatchObject({ isError: true })
+
+    methods = null
+    listeners.forEach(listener => listener())
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(changes).toBeGreaterThan(0)
+    expect(await names()).toHaveLength(PPT_TOOLS.length)
+
+    await client.close()
+    expect(listeners.size).toBe(0)
+  })
+})
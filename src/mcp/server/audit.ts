@@ -0,0 +1,236 @@
+/**
+ * PPT-KIT MCP Server - Audit Log
+ *
+ * Appends every tool call to a JSONL file (one JSON object per line) so an
+ * agent session can be inspected afterwards and replayed against another
+ * backend (see replay.ts). Base64 payloads such as image data are replaced
+ * by a short description before they are written.
+ */
+
+import { appendFile, mkdir } from 'fs/promises'
+import { readFileSync } from 'fs'
+import { dirname } from 'path'
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import type { PPTToolCall } from './index.js'
+
+// Strings at least this long that look like base64 are redacted
+const BASE64_MIN_LENGTH = 256
+
+const DATA_URL_REGEX = /^data:([\w.+/-]+);base64,/
+const BASE64_REGEX = /^[A-Za-z0-9+/\r\n]+={0,2}$/
+const REDACTED_PREFIX = '[redacted base64'
+
+// Keys whose string values are slide, shape, change or document IDs
+const ID_KEY_REGEX = /(^|_)ids?$|Ids?$/
+
+// 1x1 gray PNG used in place of redacted images when replaying
+const PLACEHOLDER_PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mN8/x8AAwMCAO+ip1sAAAAASUVORK5CYII='
+
+// Recorded tool call (one line of the audit log)
+export interface AuditEntry {
+  timestamp: string
+  // MCP session the call came from
+  session: string
+  // Client name from MCP_POLICY_FILE, null for the main token
+  client: string | null
+  tool: string
+  arguments: Record<string, unknown>
+  // structuredContent of the result
+  result?: Record<string, unknown>
+  isError: boolean
+  error?: string
+  durationMs: number
+}
+
+// Outcome of one replayed call
+export interface ReplayStep {
+  index: number
+  tool: string
+  status: 'ok' | 'error'
+  error?: string
+  // Whether the recorded call failed too
+  recordedError: boolean
+  // Whether redacted images were replaced by a placeholder
+  placeholders: boolean
+}
+
+export interface ReplayOptions {
+  // Calls to leave out, e.g. reads
+  skip?: (entry: AuditEntry) => boolean
+  onStep?: (step: ReplayStep) => void
+}
+
+/**
+ * Replace base64 payloads (data URLs and long base64 strings) with a description
+ */
+export function redactBase64<T>(value: T): T {
+  if (typeof value === 'string') {
+    const dataUrl = value.match(DATA_URL_REGEX)
+    if (dataUrl) {
+      return `${REDACTED_PREFIX}: ${dataUrl[1]}, ${value.length} characters]` as T
+    }
+    if (value.length >= BASE64_MIN_LENGTH && BASE64_REGEX.test(value)) {
+      return `${REDACTED_PREFIX}: ${value.length} characters]` as T
+    }
+    return value
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactBase64(item)) as T
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactBase64(item)])
+    ) as T
+  }
+  return value
+}
+
+/**
+ * Build the audit entry of a tool call
+ */
+export function toAuditEntry(call: PPTToolCall, session: string, client: string | null): AuditEntry {
+  const { result } = call
+  return {
+    timestamp: call.startedAt.toISOString(),
+    session,
+    client,
+    tool: call.tool,
+    arguments: redactBase64(call.arguments),
+    ...(result.structuredContent ? { result: redactBase64(result.structuredContent) } : {}),
+    isError: Boolean(result.isError),
+    ...(result.isError ? { error: result.content.map(item => item.text).join('\n') } : {}),
+    durationMs: call.durationMs
+  }
+}
+
+/**
+ * JSONL audit log file
+ */
+export class AuditLog {
+  // Appends run one after another so lines never interleave
+  private queue: Promise<void>
+
+  constructor(readonly filePath: string) {
+    this.queue = mkdir(dirname(filePath), { recursive: true }).then(() => undefined)
+  }
+
+  /**
+   * Listener for createPPTKitMCPServer's onToolCall
+   */
+  listener(session: string, client: string | null): (call: PPTToolCall) => void {
+    return (call) => this.append(toAuditEntry(call, session, client))
+  }
+
+  append(entry: AuditEntry): void {
+    const line = `${JSON.stringify(entry)}\n`
+    this.queue = this.queue
+      .then(() => appendFile(this.filePath, line, 'utf-8'))
+      .catch((e) => console.error('[Audit] Failed to write audit log:', e))
+  }
+
+  /**
+   * Wait until every entry is written
+   */
+  flush(): Promise<void> {
+    return this.queue
+  }
+}
+
+/**
+ * Read an audit log
+ */
+export function readAuditLog(filePath: string): AuditEntry[] {
+  const lines = readFileSync(filePath, 'utf-8').split('\n')
+  const entries: AuditEntry[] = []
+  lines.forEach((line, i) => {
+    if (!line.trim()) return
+    try {
+      entries.push(JSON.parse(line))
+    } catch {
+      throw new Error(`Invalid audit log entry on line ${i + 1} of ${filePath}`)
+    }
+  })
+  return entries
+}
+
+/**
+ * Record IDs that differ between a recorded result and its replay
+ */
+function collectIds(recorded: unknown, replayed: unknown, ids: Map<string, string>, key = ''): void {
+  if (typeof recorded === 'string' && typeof replayed === 'string') {
+    if (ID_KEY_REGEX.test(key) && recorded !== replayed) ids.set(recorded, replayed)
+    return
+  }
+  if (Array.isArray(recorded) && Array.isArray(replayed)) {
+    recorded.forEach((item, i) => collectIds(item, replayed[i], ids, key))
+    return
+  }
+  if (recorded && replayed && typeof recorded === 'object' && typeof replayed === 'object') {
+    for (const [childKey, item] of Object.entries(recorded)) {
+      collectIds(item, (replayed as Record<string, unknown>)[childKey], ids, childKey)
+    }
+  }
+}
+
+/**
+ * Prepare recorded arguments for replay
+ * Maps recorded IDs to the replayed ones, swaps redacted images for a
+ * placeholder and drops `document_id` (a replay targets one document).
+ */
+function prepareArguments(value: unknown, ids: Map<string, string>, state: { placeholders: boolean }, key = ''): unknown {
+  if (typeof value === 'string') {
+    if (value.startsWith(REDACTED_PREFIX)) {
+      state.placeholders = true
+      return PLACEHOLDER_PNG
+    }
+    return ID_KEY_REGEX.test(key) ? ids.get(value) ?? value : value
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => prepareArguments(item, ids, state, key))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([childKey]) => childKey !== 'document_id')
+        .map(([childKey, item]) => [childKey, prepareArguments(item, ids, state, childKey)])
+    )
+  }
+  return value
+}
+
+/**
+ * Re-execute recorded tool calls through an MCP client, in order
+ *
+ * Slides and shapes get new IDs on the replay backend; IDs returned by
+ * earlier calls are mapped so later calls target the replayed objects.
+ * Failed calls are reported and the replay continues.
+ */
+export async function replayAuditLog(entries: AuditEntry[], client: Client, options: ReplayOptions = {}): Promise<ReplayStep[]> {
+  const ids = new Map<string, string>()
+  const steps: ReplayStep[] = []
+
+  for (const [index, entry] of entries.entries()) {
+    if (options.skip?.(entry)) continue
+
+    const state = { placeholders: false }
+    const args = prepareArguments(entry.arguments, ids, state) as Record<string, unknown>
+    let step: ReplayStep
+    try {
+      const result = await client.callTool({ name: entry.tool, arguments: args })
+      if (result.isError) {
+        const content = result.content as Array<{ type: string; text?: string }>
+        step = { index, tool: entry.tool, status: 'error', error: content.map(item => item.text ?? '').join('\n'), recordedError: entry.isError, placeholders: state.placeholders }
+      } else {
+        collectIds(entry.result, result.structuredContent, ids)
+        step = { index, tool: entry.tool, status: 'ok', recordedError: entry.isError, placeholders: state.placeholders }
+      }
+    } catch (error) {
+      step = { index, tool: entry.tool, status: 'error', error: error instanceof Error ? error.message : String(error), recordedError: entry.isError, placeholders: state.placeholders }
+    }
+
+    steps.push(step)
+    options.onStep?.(step)
+  }
+
+  return steps
+}
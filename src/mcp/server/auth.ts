@@ -0,0 +1,152 @@
+/**
+ * Bridge Server Authentication
+ *
+ * Token and origin checks for the bridge server:
+ * - HTTP (/mcp, /sse, /messages): `Authorization: Bearer <token>`
+ * - WebSocket (/ws): `?token=<token>` or the `bearer.<token>` subprotocol
+ * - Browser requests must come from an allowed Origin
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto'
+import type { IncomingMessage } from 'http'
+import type { Request, Response, NextFunction } from 'express'
+
+// Subprotocol the bridge client negotiates; the token rides along as `bearer.<token>`
+export const BRIDGE_SUBPROTOCOL = 'ppt-kit-bridge'
+const TOKEN_SUBPROTOCOL_PREFIX = 'bearer.'
+
+// Origins of the add-in dev server
+export const DEFAULT_ALLOWED_ORIGINS = ['https://localhost:3000', 'http://localhost:3000']
+
+// MCP client with its own token (see MCP_POLICY_FILE in bridge-server.ts)
+export interface BridgeClientToken {
+  name: string
+  token: string
+}
+
+export interface BridgeAuthConfig {
+  // Required token; null disables token checks unless client tokens are set
+  token: string | null
+  allowedOrigins: string[]
+  // Extra tokens accepted on HTTP; the add-in WebSocket only accepts `token`
+  clients?: BridgeClientToken[]
+}
+
+/**
+ * Check whether a listen address is only reachable from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.')
+}
+
+/**
+ * Generate a random auth token (hex, safe for headers, URLs and subprotocols)
+ */
+export function generateAuthToken(): string {
+  return randomBytes(24).toString('hex')
+}
+
+/**
+ * Compare tokens in constant time
+ */
+export function tokensMatch(expected: string, actual: string | null | undefined): boolean {
+  if (!actual) return false
+  const a = Buffer.from(expected)
+  const b = Buffer.from(actual)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/**
+ * Check whether a request origin is allowed
+ * Requests without an Origin header come from non-browser clients (Claude Desktop, curl).
+ */
+export function isOriginAllowed(origin: string | undefined, allowedOrigins: string[]): boolean {
+  if (!origin) return true
+  return allowedOrigins.includes('*') || allowedOrigins.includes(origin)
+}
+
+/**
+ * Read the bearer token from an Authorization header
+ */
+function getBearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(.+)$/i)
+  return match ? match[1].trim() : null
+}
+
+/**
+ * Read the token from a WebSocket upgrade request (query param or subprotocol)
+ */
+function getWebSocketToken(req: IncomingMessage): string | null {
+  const url = new URL(req.url || '/', 'http://localhost')
+  const queryToken = url.searchParams.get('token')
+  if (queryToken) return queryToken
+
+  const protocols = (req.headers['sec-websocket-protocol'] || '').split(',').map(p => p.trim())
+  const tokenProtocol = protocols.find(p => p.startsWith(TOKEN_SUBPROTOCOL_PREFIX))
+  return tokenProtocol ? tokenProtocol.substring(TOKEN_SUBPROTOCOL_PREFIX.length) : null
+}
+
+/**
+ * Identify the client of an HTTP request by its bearer token
+ * Returns the client name, null for the main token (or when no tokens are
+ * configured), or undefined when the token matches nothing.
+ */
+export function identifyClient(req: Request, config: BridgeAuthConfig): string | null | undefined {
+  const token = getBearerToken(req.headers.authorization)
+  const clients = config.clients ?? []
+  if (!config.token && clients.length === 0) return null
+
+  if (config.token && tokensMatch(config.token, token)) return null
+  return clients.find(client => tokensMatch(client.token, token))?.name
+}
+
+/**
+ * Express middleware enforcing origin and bearer token
+ * Sets `res.locals.client` to the client name (null for the main token).
+ */
+export function createAuthMiddleware(config: BridgeAuthConfig) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!isOriginAllowed(req.headers.origin, config.allowedOrigins)) {
+      res.status(403).json({ error: 'Origin not allowed' })
+      return
+    }
+
+    const client = identifyClient(req, config)
+    if (client === undefined) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="ppt-kit"')
+      res.status(401).json({ error: 'Unauthorized: missing or invalid bearer token' })
+      return
+    }
+
+    res.locals.client = client
+    next()
+  }
+}
+
+/**
+ * Verify a WebSocket upgrade request
+ * Returns an HTTP status and message when the connection must be rejected.
+ */
+export function verifyWebSocketRequest(
+  req: IncomingMessage,
+  config: BridgeAuthConfig
+): { ok: true } | { ok: false; code: number; message: string } {
+  if (!isOriginAllowed(req.headers.origin, config.allowedOrigins)) {
+    return { ok: false, code: 403, message: 'Origin not allowed' }
+  }
+
+  if (config.token && !tokensMatch(config.token, getWebSocketToken(req))) {
+    return { ok: false, code: 401, message: 'Unauthorized' }
+  }
+
+  return { ok: true }
+}
+
+/**
+ * Pick the subprotocol to accept; never echo the token protocol back
+ */
+export function selectWebSocketProtocol(protocols: Set<string>): string | false {
+  if (protocols.has(BRIDGE_SUBPROTOCOL)) return BRIDGE_SUBPROTOCOL
+  const other = [...protocols].find(p => !p.startsWith(TOKEN_SUBPROTOCOL_PREFIX))
+  return other ?? false
+}
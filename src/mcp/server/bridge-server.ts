@@ -9,8 +9,48 @@
  * Architecture:
  *   AI Client (Claude) <--MCP--> Bridge Server <--WebSocket--> Office Add-in
  *                                                              (Office.js API)
+ *
+ * Security:
+ *   MCP_AUTH_TOKEN       - Required bearer token (generated per run when HOST is not loopback)
+ *   MCP_ALLOWED_ORIGINS  - Comma-separated browser origins allowed to connect
+ *
+ * Client policies (enforced before requests reach the add-in):
+ *   MCP_READ_ONLY        - Set to 1 to expose only read-only tools to every client
+ *   MCP_ALLOWED_TOOLS    - Comma-separated tools clients may use
+ *   MCP_DENIED_TOOLS     - Comma-separated tools clients may not use
+ *   MCP_RATE_LIMIT       - Tool calls per minute per MCP session
+ *   MCP_POLICY_FILE      - JSON file with the default policy and extra client tokens:
+ *                          { "readOnly": false, "denyTools": [...], "rateLimit": { "requests": 60, "windowSeconds": 60 },
+ *                            "clients": [{ "name": "viewer", "token": "...", "readOnly": true }] }
+ *
+ * Gateway:
+ *   MCP_GATEWAY_FILE     - JSON file listing external MCP servers whose tools are republished
+ *                          as ext_<name>_<tool>, in the add-in's format:
+ *                          { "mcpClients": [{ "name": "data", "url": "http://localhost:9000/mcp", "authToken": "..." }] }
+ *
+ * Protocol:
+ *   The add-in announces its bridge protocol version and supported methods in a
+ *   `hello` message (see ../protocol.ts). Tools it cannot run are hidden, and
+ *   mismatches are reported in /health. A dropped add-in keeps its session for
+ *   a minute: requests in flight are answered once it resumes, and changes that
+ *   arrive in the meantime are queued and sent when it is back.
+ *
+ * Diagnostics:
+ *   /metrics             - Prometheus metrics: tool calls, bridge round trips vs. Office time,
+ *                          reconnects, pending requests and payload sizes
+ *   /debug/requests      - Recent bridge traffic (HTML, or JSON with ?format=json)
+ *
+ * Offline mode (TRANSPORT=stdio):
+ *   MCP_OUTPUT_DIR       - Directory ppt_save_presentation writes into (default: working directory)
+ *
+ * Audit log:
+ *   MCP_AUDIT_LOG        - JSONL file every tool call is appended to (default: logs/mcp-audit.jsonl,
+ *                          "off" disables it). Replay with: npx tsx src/mcp/server/replay.ts <file>
  */
 
+import { readFileSync } from 'fs'
+import { randomUUID } from 'crypto'
+
 import { WebSocketServer, WebSocket, type RawData } from 'ws'
 import type { IncomingMessage } from 'http'
 import express, { Request, Response } from 'express'
@@ -18,97 +58,667 @@ import cors from 'cors'
 import { createServer } from 'http'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
-import { createPPTKitMCPServer, setPPTOperations, type PPTOperations } from './index.js'
+import {
+  createPPTKitMCPServer,
+  setPPTOperations,
+  setPPTDocumentRegistry,
+  notifyPresentationChanged,
+  listToolDefinitions,
+  PPT_TOOLS,
+  ToolGuard,
+  validateToolPolicy,
+  mergeToolPolicies,
+  type ToolPolicy,
+  type PPTOperations,
+  type PPTBatchStep,
+  type PPTOperationOptions,
+  type PPTShapeQueryOptions,
+  type PPTShapeUpdate,
+  type PPTShapeZOrder,
+  type PPTSlideRef,
+  type PPTDocumentRegistry,
+  type PPTBackendCapabilities,
+  type PPTToolCall
+} from './index.js'
+import { InMemoryPresentation, createInMemoryOperations } from './memory/index.js'
+import {
+  createAuthMiddleware,
+  verifyWebSocketRequest,
+  selectWebSocketProtocol,
+  isOriginAllowed,
+  identifyClient,
+  generateAuthToken,
+  isLoopbackHost,
+  tokensMatch,
+  DEFAULT_ALLOWED_ORIGINS,
+  type BridgeAuthConfig,
+  type BridgeClientToken
+} from './auth.js'
+import { AuditLog } from './audit.js'
+import { MCPGateway } from './gateway.js'
+import { BridgeMetrics, type BridgeGauges, type BridgeTrafficEntry } from './metrics.js'
+import {
+  BRIDGE_METHODS,
+  BRIDGE_READ_METHODS,
+  BRIDGE_PROTOCOL_VERSION,
+  parseClientMessage,
+  checkHello,
+  type HelloMessage
+} from '../protocol.js'
 import { parseMarkdown } from '../../modules/markdown/parser.js'
 import type { SlideContent } from '../../types/index.js'
 
 const PORT = parseInt(process.env.PORT || '3100', 10)
-const HOST = process.env.HOST || '0.0.0.0'
+const HOST = process.env.HOST || '127.0.0.1'
 const TRANSPORT = process.env.TRANSPORT || 'sse'
+const AUTH_TOKEN = process.env.MCP_AUTH_TOKEN || null
+const ALLOWED_ORIGINS = process.env.MCP_ALLOWED_ORIGINS
+  ? process.env.MCP_ALLOWED_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+  : DEFAULT_ALLOWED_ORIGINS
+const AUDIT_LOG_PATH = process.env.MCP_AUDIT_LOG || 'logs/mcp-audit.jsonl'
+
+// Policy file format: the default policy plus clients with their own token
+interface PolicyFile extends ToolPolicy {
+  clients?: Array<BridgeClientToken & ToolPolicy>
+}
+
+// Client policies, keyed by client name (null for the main token)
+interface ToolPolicies {
+  default: ToolPolicy
+  clients: Map<string, ToolPolicy>
+  tokens: BridgeClientToken[]
+}
+
+/**
+ * Split a comma-separated environment variable
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined
+}
+
+/**
+ * Load client policies from MCP_POLICY_FILE and the MCP_* policy variables
+ * Environment variables override the file's default policy.
+ */
+function loadToolPolicies(): ToolPolicies {
+  const file: PolicyFile = process.env.MCP_POLICY_FILE
+    ? JSON.parse(readFileSync(process.env.MCP_POLICY_FILE, 'utf-8'))
+    : {}
+  const { clients = [], ...filePolicy } = file
+
+  const rateLimit = process.env.MCP_RATE_LIMIT
+    ? { requests: parseInt(process.env.MCP_RATE_LIMIT, 10), windowSeconds: 60 }
+    : filePolicy.rateLimit
+  const defaultPolicy: ToolPolicy = {
+    ...filePolicy,
+    readOnly: process.env.MCP_READ_ONLY === '1' || process.env.MCP_READ_ONLY === 'true' || filePolicy.readOnly,
+    allowTools: parseList(process.env.MCP_ALLOWED_TOOLS) ?? filePolicy.allowTools,
+    denyTools: parseList(process.env.MCP_DENIED_TOOLS) ?? filePolicy.denyTools,
+    rateLimit
+  }
+  validateToolPolicy(defaultPolicy, 'the default policy')
+
+  const policies: ToolPolicies = { default: defaultPolicy, clients: new Map(), tokens: [] }
+  for (const { name, token, ...policy } of clients) {
+    if (!name || !token) {
+      throw new Error('Every client in MCP_POLICY_FILE needs a name and a token')
+    }
+    validateToolPolicy(policy, `the policy of client "${name}"`)
+    policies.clients.set(name, mergeToolPolicies(defaultPolicy, policy))
+    policies.tokens.push({ name, token })
+  }
+  return policies
+}
+
+/**
+ * Open the audit log unless MCP_AUDIT_LOG is "off"
+ */
+function openAuditLog(): AuditLog | null {
+  if (AUDIT_LOG_PATH === 'off') {
+    console.error('[Bridge] Audit log disabled')
+    return null
+  }
+  console.error(`[Bridge] Audit log: ${AUDIT_LOG_PATH}`)
+  return new AuditLog(AUDIT_LOG_PATH)
+}
+
+/**
+ * Start the gateway to the servers in MCP_GATEWAY_FILE, if set
+ */
+function openGateway(): MCPGateway | null {
+  const path = process.env.MCP_GATEWAY_FILE
+  if (!path) return null
+
+  const gateway = new MCPGateway(JSON.parse(readFileSync(path, 'utf-8')))
+  const servers = gateway.getStatus()
+  console.error(`[Bridge] Gateway: ${servers.map(server => `${server.name} (${server.prefix}*)`).join(', ') || 'no enabled servers'}`)
+  // Servers connect in the background; each one's tools appear once it is up
+  gateway.start()
+  return gateway
+}
+
+/**
+ * Policy of a client (null or unknown: the default policy)
+ */
+function getClientPolicy(policies: ToolPolicies, client: string | null | undefined): ToolPolicy {
+  return (client && policies.clients.get(client)) || policies.default
+}
+
+// Time a request may go without a response or progress update
+const REQUEST_IDLE_TIMEOUT_MS = 30000
+
+// How often add-ins are pinged; one missed pong marks the connection stale
+const HEARTBEAT_INTERVAL_MS = 15000
+
+// How long a dropped add-in's session (and its pending requests) is kept for it to resume
+const RESUME_WINDOW_MS = 60000
 
 // Request/Response tracking
 interface PendingRequest {
+  documentId: string
+  // Serialized request, resent when the add-in resumes its session
+  message: string
+  traffic: BridgeTrafficEntry
   resolve: (result: unknown) => void
   reject: (error: Error) => void
-  timeout: NodeJS.Timeout
+  // Paused while the add-in is disconnected
+  timeout?: NodeJS.Timeout
+  onTimeout: () => void
+  onProgress?: PPTOperationOptions['onProgress']
+}
+
+// Connected Office Add-in, one per open document
+interface DocumentConnection {
+  id: string
+  title: string
+  url: string
+  ws: WebSocket
+  connectedAt: Date
+  lastFocusedAt: Date
+  // Handshake; missing for add-ins that predate it
+  hello?: HelloMessage
+  // Problems that stop the add-in from running requests (e.g. protocol mismatch)
+  issues: string[]
+  // Latest queue depth the add-in reported
+  queue: { running: number; queued: number; queuedBySlide: Record<string, number> } | null
+  // Lets a reconnecting add-in resume; missing for add-ins without a hello
+  session?: { id: string; token: string }
+  // Set while a dropped add-in may still resume its session
+  disconnectedAt?: Date
+  resumeTimer?: NodeJS.Timeout
+  // Cleared on every heartbeat, set by pongs and messages
+  alive: boolean
 }
 
 // Bridge state
-let browserConnection: WebSocket | null = null
+const documents = new Map<string, DocumentConnection>()
+let activeDocumentId: string | null = null
 const pendingRequests = new Map<string, PendingRequest>()
 let requestId = 0
+let documentCounter = 0
+// Document IDs seen so far, to count add-ins that come back with a new session
+const seenDocumentIds = new Set<string>()
+const metrics = new BridgeMetrics(PPT_TOOLS.map(tool => tool.name))
+const capabilityListeners = new Set<() => void>()
+
+/**
+ * Methods a document's add-in can run
+ * Add-ins without a hello are assumed to run every method.
+ */
+function getDocumentMethods(doc: DocumentConnection): ReadonlySet<string> {
+  if (doc.issues.length > 0) return new Set()
+  return new Set(doc.hello ? doc.hello.methods : BRIDGE_METHODS)
+}
+
+/**
+ * Tell MCP servers that the set of runnable methods changed
+ */
+function notifyCapabilitiesChanged(): void {
+  for (const listener of capabilityListeners) {
+    try {
+      listener()
+    } catch (e) {
+      console.error('[Bridge] Capability listener failed:', e)
+    }
+  }
+}
+
+/**
+ * Methods any connected add-in can run, shared by every MCP server
+ * With no add-in connected every tool stays listed and fails with a connection error.
+ */
+const backendCapabilities: PPTBackendCapabilities = {
+  getMethods() {
+    if (documents.size === 0) return null
+    const methods = new Set<string>()
+    for (const doc of documents.values()) {
+      getDocumentMethods(doc).forEach(method => methods.add(method))
+    }
+    return methods
+  },
+
+  onChange(listener) {
+    capabilityListeners.add(listener)
+    return () => capabilityListeners.delete(listener)
+  }
+}
+
+/**
+ * Get the document a request should go to
+ * Falls back to the last-focused document when no ID is given.
+ */
+function getDocument(documentId?: string): DocumentConnection {
+  if (documentId) {
+    const doc = documents.get(documentId)
+    if (!doc) {
+      throw new Error(`Document not found: ${documentId}. Use ppt_list_documents to see connected documents.`)
+    }
+    return doc
+  }
+
+  const doc = activeDocumentId ? documents.get(activeDocumentId) : undefined
+  if (!doc) {
+    throw new Error('Browser not connected. Please open the Office Add-in.')
+  }
+  return doc
+}
+
+/**
+ * Mark a document as the default target for requests
+ */
+function focusDocument(doc: DocumentConnection): void {
+  doc.lastFocusedAt = new Date()
+  if (activeDocumentId !== doc.id) {
+    activeDocumentId = doc.id
+    console.error(`[Bridge] Active document: ${doc.title || doc.id}`)
+  }
+}
+
+/**
+ * Remove a document and pick the most recently focused remaining one
+ */
+function removeDocument(doc: DocumentConnection): void {
+  clearTimeout(doc.resumeTimer)
+  documents.delete(doc.id)
+  notifyCapabilitiesChanged()
+
+  for (const [id, pending] of pendingRequests) {
+    if (pending.documentId === doc.id) {
+      clearTimeout(pending.timeout)
+      pendingRequests.delete(id)
+      const error = `Document disconnected: ${doc.title || doc.id}`
+      metrics.finishRequest(pending.traffic, 'error', { error })
+      pending.reject(new Error(error))
+    }
+  }
+
+  if (activeDocumentId === doc.id) {
+    const next = [...documents.values()].sort((a, b) => b.lastFocusedAt.getTime() - a.lastFocusedAt.getTime())[0]
+    activeDocumentId = next ? next.id : null
+  }
+}
+
+/**
+ * Apply the identity an add-in reports for its document
+ * A known ID means the same add-in reconnected, so the stale socket is dropped.
+ */
+function registerDocument(doc: DocumentConnection, identity: { id?: string; title?: string; url?: string }): void {
+  doc.title = identity.title || doc.title
+  doc.url = identity.url || doc.url
+
+  if (identity.id && identity.id !== doc.id) {
+    if (seenDocumentIds.has(identity.id)) metrics.reconnects.newSession++
+    seenDocumentIds.add(identity.id)
+    const stale = documents.get(identity.id)
+    if (stale) {
+      removeDocument(stale)
+      stale.ws.close(1000, 'Replaced by new connection')
+    }
+
+    const previousId = doc.id
+    documents.delete(previousId)
+    doc.id = identity.id
+    documents.set(doc.id, doc)
+    for (const pending of pendingRequests.values()) {
+      if (pending.documentId === previousId) pending.documentId = doc.id
+    }
+    const wasActive = activeDocumentId === previousId
+    if (wasActive || !activeDocumentId) {
+      activeDocumentId = doc.id
+    }
+  }
+
+  console.error(`[Bridge] Document registered: ${doc.title || 'Untitled'} (${doc.id})`)
+}
+
+/**
+ * Apply the protocol version and methods an add-in announces
+ */
+function applyHello(doc: DocumentConnection, hello: HelloMessage): void {
+  doc.hello = hello
+  doc.issues = checkHello(hello)
+  for (const issue of doc.issues) {
+    console.error(`[Bridge] ${issue}`)
+  }
+  const powerPointApi = hello.requirementSets.PowerPointApi ?? 'unknown'
+  console.error(`[Bridge] Add-in ${hello.addinVersion} (PowerPointApi ${powerPointApi}): ${hello.methods.length} method(s)`)
+  notifyCapabilitiesChanged()
+}
+
+/**
+ * Restart a request's idle timeout
+ */
+function armTimeout(pending: PendingRequest): void {
+  clearTimeout(pending.timeout)
+  pending.timeout = setTimeout(pending.onTimeout, REQUEST_IDLE_TIMEOUT_MS)
+}
+
+/**
+ * Keep a dropped add-in's document and pending requests until it resumes
+ *
+ * @param onExpire - Called when the add-in does not come back in time
+ */
+function suspendDocument(doc: DocumentConnection, onExpire: () => void): void {
+  doc.disconnectedAt = new Date()
+  for (const pending of pendingRequests.values()) {
+    if (pending.documentId === doc.id) clearTimeout(pending.timeout)
+  }
+  doc.resumeTimer = setTimeout(() => {
+    console.error(`[Bridge] Session of ${doc.title || doc.id} expired`)
+    onExpire()
+  }, RESUME_WINDOW_MS)
+  console.error(`[Bridge] Keeping ${doc.title || doc.id} for ${RESUME_WINDOW_MS / 1000}s so the add-in can resume`)
+}
+
+/**
+ * Start or resume the session of a connection that sent its hello
+ * On resume the connection takes over the suspended document, and the
+ * requests still pending for it are sent again.
+ *
+ * @returns The document the connection now serves
+ */
+function startSession(doc: DocumentConnection, hello: HelloMessage): DocumentConnection {
+  const { resume } = hello
+  const previous = resume && [...documents.values()].find(d => d !== doc && d.session?.id === resume.sessionId)
+
+  if (previous?.session && resume && tokensMatch(previous.session.token, resume.resumeToken)) {
+    const staleWs = previous.ws
+    documents.delete(doc.id)
+    if (activeDocumentId === doc.id) activeDocumentId = previous.id
+    clearTimeout(previous.resumeTimer)
+    previous.ws = doc.ws
+    previous.disconnectedAt = undefined
+    previous.alive = true
+    if (staleWs !== previous.ws && staleWs.readyState === WebSocket.OPEN) {
+      staleWs.close(1000, 'Session resumed by new connection')
+    }
+    applyHello(previous, hello)
+
+    const session = previous.session
+    previous.ws.send(JSON.stringify({ type: 'session', sessionId: session.id, resumeToken: session.token, resumed: true }))
+    let resent = 0
+    for (const pending of pendingRequests.values()) {
+      if (pending.documentId !== previous.id) continue
+      metrics.markSent(pending.traffic)
+      previous.ws.send(pending.message)
+      armTimeout(pending)
+      resent++
+    }
+    metrics.reconnects.resumed++
+    console.error(`[Bridge] Session resumed: ${previous.title || previous.id} (${resent} pending request(s) resent)`)
+    return previous
+  }
+
+  doc.session = { id: randomUUID(), token: generateAuthToken() }
+  applyHello(doc, hello)
+  doc.ws.send(JSON.stringify({ type: 'session', sessionId: doc.session.id, resumeToken: doc.session.token, resumed: false }))
+  return doc
+}
+
+/**
+ * Tools a set of methods cannot run
+ */
+function getUnavailableTools(methods: ReadonlySet<string>): string[] {
+  return PPT_TOOLS.filter(tool => !tool.methods.every(method => methods.has(method))).map(tool => tool.name)
+}
 
 /**
  * Send request to browser and wait for response
+ * The timeout restarts whenever the add-in reports progress, so long-running
+ * requests stay alive as long as they make progress.
  */
-function sendToBrowser<T>(method: string, params: unknown): Promise<T> {
+function sendToBrowser<T>(
+  method: string,
+  params: unknown,
+  documentId?: string,
+  options: PPTOperationOptions = {}
+): Promise<T> {
   return new Promise((resolve, reject) => {
-    if (!browserConnection || browserConnection.readyState !== WebSocket.OPEN) {
-      reject(new Error('Browser not connected. Please open the Office Add-in.'))
+    let doc: DocumentConnection
+    try {
+      doc = getDocument(documentId)
+    } catch (error) {
+      reject(error)
+      return
+    }
+
+    // Changes (and the reads they start with) wait for a dropped add-in to resume;
+    // other reads would only see a stale answer later
+    const offline = doc.ws.readyState !== WebSocket.OPEN
+    const read = (BRIDGE_READ_METHODS as ReadonlyArray<string>).includes(method) && !options.mutation
+    if (offline && (!doc.disconnectedAt || read)) {
+      reject(new Error(
+        doc.disconnectedAt
+          ? `Document ${doc.title || doc.id} is reconnecting. Retry in a few seconds.`
+          : `Document not connected: ${doc.title || doc.id}. Please reopen the Office Add-in.`
+      ))
+      return
+    }
+
+    if (doc.issues.length > 0) {
+      reject(new Error(`The add-in in ${doc.title || doc.id} cannot run requests: ${doc.issues.join(' ')}`))
+      return
+    }
+    if (!getDocumentMethods(doc).has(method)) {
+      const powerPointApi = doc.hello?.requirementSets.PowerPointApi
+      reject(new Error(
+        `${method} is not supported by the add-in in ${doc.title || doc.id}${powerPointApi ? ` (PowerPointApi ${powerPointApi})` : ''}. Update PowerPoint or use another document.`
+      ))
+      return
+    }
+
+    const { signal } = options
+    if (signal?.aborted) {
+      reject(new Error('Request cancelled'))
       return
     }
 
     const id = `req-${++requestId}-${Date.now()}`
-    const timeout = setTimeout(() => {
+
+    // Stop the add-in when the MCP client cancels
+    const onAbort = () => {
+      const pending = pendingRequests.get(id)
+      if (!pending) return
+      clearTimeout(pending.timeout)
+      pendingRequests.delete(id)
+      metrics.finishRequest(traffic, 'cancelled')
+      if (doc.ws.readyState === WebSocket.OPEN) {
+        doc.ws.send(JSON.stringify({ type: 'cancel', id }))
+      }
+      reject(new Error('Request cancelled'))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    const message = JSON.stringify({ type: 'request', id, method, params, tool: options.tool })
+    const traffic = metrics.startRequest(id, doc.id, method, Buffer.byteLength(message))
+
+    const onTimeout = () => {
       pendingRequests.delete(id)
+      metrics.finishRequest(traffic, 'timeout')
+      signal?.removeEventListener('abort', onAbort)
+      // Drop the request from the add-in's queue, or stop it before its next change
+      if (doc.ws.readyState === WebSocket.OPEN) {
+        doc.ws.send(JSON.stringify({ type: 'cancel', id }))
+      }
       reject(new Error('Request timeout: Browser did not respond in time'))
-    }, 30000)
+    }
 
-    pendingRequests.set(id, {
-      resolve: resolve as (result: unknown) => void,
-      reject,
-      timeout
-    })
+    const pending: PendingRequest = {
+      documentId: doc.id,
+      message,
+      traffic,
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve(result as T)
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort)
+        reject(error)
+      },
+      onTimeout,
+      onProgress: options.onProgress
+    }
+    pendingRequests.set(id, pending)
 
-    browserConnection.send(JSON.stringify({
-      type: 'request',
-      id,
-      method,
-      params
-    }))
+    if (offline) {
+      console.error(`[Bridge] Queued ${method} until ${doc.title || doc.id} reconnects`)
+      return
+    }
+    armTimeout(pending)
+    metrics.markSent(traffic)
+    doc.ws.send(message)
   })
 }
 
+/**
+ * Registry exposing connected documents to the MCP server
+ */
+const documentRegistry: PPTDocumentRegistry = {
+  listDocuments() {
+    return [...documents.values()].map(doc => ({
+      id: doc.id,
+      title: doc.title,
+      url: doc.url,
+      active: doc.id === activeDocumentId,
+      connectedAt: doc.connectedAt.toISOString(),
+      lastFocusedAt: doc.lastFocusedAt.toISOString()
+    }))
+  },
+
+  getOperations(documentId: string) {
+    getDocument(documentId)
+    return createBridgedOperations(documentId)
+  }
+}
+
+/**
+ * Forward add-in sync events to subscribed MCP clients
+ */
+function handleSyncEvent(type: string | undefined): void {
+  switch (type) {
+    case 'slide_changed':
+      notifyPresentationChanged({ kind: 'selection' })
+      break
+    case 'presentation_changed':
+      notifyPresentationChanged({ kind: 'structure' })
+      break
+  }
+}
+
 /**
  * Create browser-bridged PPT operations
  * These operations forward calls to the browser via WebSocket
+ *
+ * @param documentId - Target document. Defaults to the last-focused document at call time.
  */
-function createBridgedOperations(): PPTOperations {
+function createBridgedOperations(documentId?: string): PPTOperations {
   return {
-    async getPresentationInfo() {
-      return sendToBrowser('getPresentationInfo', {})
+    async getPresentationInfo(options?: PPTOperationOptions) {
+      return sendToBrowser('getPresentationInfo', {}, documentId, options)
     },
 
-    async createSlide(title: string, layout = 'content') {
-      return sendToBrowser('createSlide', { title, layout })
+    async createSlide(title: string, layout = 'content', index?: number, options?: PPTOperationOptions) {
+      return sendToBrowser('createSlide', { title, layout, index }, documentId, options)
     },
 
-    async deleteSlide(slideId: string) {
-      return sendToBrowser('deleteSlide', { slideId })
+    async deleteSlide(slideId: string, options?: PPTOperationOptions) {
+      return sendToBrowser('deleteSlide', { slideId }, documentId, options)
     },
 
-    async addText(slideId: string, content: string, position?) {
-      return sendToBrowser('addText', { slideId, content, position })
+    async deleteSlideRange(startIndex: number, count: number, options?: PPTOperationOptions) {
+      return sendToBrowser('deleteSlideRange', { startIndex, count }, documentId, options)
     },
 
-    async addCode(slideId: string, code: string, language: string, position?) {
-      return sendToBrowser('addCode', { slideId, code, language, position })
+    async duplicateSlide(slideId: string, index?: number, options?: PPTOperationOptions) {
+      return sendToBrowser('duplicateSlide', { slideId, index }, documentId, options)
     },
 
-    async addMermaid(slideId: string, mermaidCode: string, position?) {
-      return sendToBrowser('addMermaid', { slideId, mermaidCode, position })
+    async moveSlide(slideId: string, index: number, options?: PPTOperationOptions) {
+      return sendToBrowser('moveSlide', { slideId, index }, documentId, options)
     },
 
-    async addImage(slideId: string, imageData: string, position?) {
-      return sendToBrowser('addImage', { slideId, imageData, position })
+    async addText(slideId: string, content: string, position?, options?: PPTOperationOptions) {
+      return sendToBrowser('addText', { slideId, content, position }, documentId, options)
     },
 
-    async listSlides(limit: number, offset: number) {
-      return sendToBrowser('listSlides', { limit, offset })
+    async addCode(slideId: string, code: string, language: string, position?, options?: PPTOperationOptions) {
+      return sendToBrowser('addCode', { slideId, code, language, position }, documentId, options)
     },
 
-    async generateFromMarkdown(markdown: string) {
-      return sendToBrowser('generateFromMarkdown', { markdown })
+    async addMermaid(slideId: string, mermaidCode: string, position?, options?: PPTOperationOptions) {
+      return sendToBrowser('addMermaid', { slideId, mermaidCode, position }, documentId, options)
+    },
+
+    async addImage(slideId: string, imageData: string, position?, options?: PPTOperationOptions) {
+      return sendToBrowser('addImage', { slideId, imageData, position }, documentId, options)
+    },
+
+    async addTable(slideId: string, headers: string[], rows: string[][], position?, options?: PPTOperationOptions) {
+      return sendToBrowser('addTable', { slideId, headers, rows, position }, documentId, options)
+    },
+
+    async resolveSlide(ref: PPTSlideRef, options?: PPTOperationOptions) {
+      return sendToBrowser('resolveSlide', { ref }, documentId, options)
+    },
+
+    async getSlideShapes(slideId: string, options?: PPTShapeQueryOptions) {
+      return sendToBrowser('getSlideShapes', { slideId, includeFormatting: options?.includeFormatting }, documentId, options)
+    },
+
+    async updateShape(slideId: string, shapeId: string, update: PPTShapeUpdate, options?: PPTOperationOptions) {
+      await sendToBrowser('updateShape', { slideId, shapeId, update }, documentId, options)
+    },
+
+    async deleteShape(slideId: string, shapeId: string, options?: PPTOperationOptions) {
+      await sendToBrowser('deleteShape', { slideId, shapeId }, documentId, options)
+    },
+
+    async reorderShape(slideId: string, shapeId: string, position: PPTShapeZOrder, options?: PPTOperationOptions) {
+      return sendToBrowser('reorderShape', { slideId, shapeId, position }, documentId, options)
+    },
+
+    async groupShapes(slideId: string, shapeIds: string[], name?: string, options?: PPTOperationOptions) {
+      return sendToBrowser('groupShapes', { slideId, shapeIds, name }, documentId, options)
+    },
+
+    async listSlides(limit: number, offset: number, options?: PPTOperationOptions) {
+      return sendToBrowser('listSlides', { limit, offset }, documentId, options)
+    },
+
+    async generateFromMarkdown(markdown: string, options?: PPTOperationOptions) {
+      return sendToBrowser('generateFromMarkdown', { markdown }, documentId, options)
+    },
+
+    async runBatch(steps: PPTBatchStep[], options?: PPTOperationOptions) {
+      return sendToBrowser('runBatch', { steps }, documentId, options)
+    },
+
+    async getHistory(limit: number, options?: PPTOperationOptions) {
+      return sendToBrowser('getHistory', { limit }, documentId, options)
+    },
+
+    async undo(entryId?: string, options?: PPTOperationOptions) {
+      return sendToBrowser('undo', { entryId }, documentId, options)
     }
   }
 }
@@ -133,6 +743,15 @@ async function createMockOperations(): Promise<PPTOperations> {
     async deleteSlide(_slideId: string) {
       throw new Error('Browser not connected. Please open the Office Add-in.')
     },
+    async deleteSlideRange(_startIndex: number, _count: number) {
+      throw new Error('Browser not connected. Please open the Office Add-in.')
+    },
+    async duplicateSlide(_slideId: string) {
+      throw new Error('Browser not connected. Please open the Office Add-in.')
+    },
+    async moveSlide(_slideId: string, _index: number) {
+      throw new Error('Browser not connected. Please open the Office Add-in.')
+    },
     async addText(_slideId: string, _content: string) {
       throw new Error('Browser not connected. Please open the Office Add-in.')
     },
@@ -145,6 +764,24 @@ async function createMockOperations(): Promise<PPTOperations> {
     async addImage(_slideId: string, _imageData: string) {
       throw new Error('Browser not connected. Please open the Office Add-in.')
     },
+    async addTable(_slideId: string, _headers: string[], _rows: string[][]) {
+      throw new Error('Browser not connected. Please open the Office Add-in.')
+    },
+    async resolveSlide(_ref: PPTSlideRef) {
+      throw new Error('Browser not connected. Please open the Office Add-in.')
+    },
+    async getSlideShapes(_slideId: string) {
+      throw new Error('Browser not connected. Please open the Office Add-in.')
+    },
+    async updateShape(_slideId: string, _shapeId: string) {
+      throw new Error('Browser not connected. Please open the Office Add-in.')
+    },
+    async deleteShape(_slideId: string, _shapeId: string) {
+      throw new Error('Browser not connected. Please open the Office Add-in.')
+    },
+    async reorderShape(_slideId: string, _shapeId: string) {
+      throw new Error('Browser not connected. Please open the Office Add-in.')
+    },
     async listSlides(_limit: number, _offset: number) {
       return { total: 0, slides: [], hasMore: false }
     },
@@ -160,6 +797,9 @@ async function createMockOperations(): Promise<PPTOperations> {
           blockCount: s.blocks.length
         }))
       }
+    },
+    async runBatch(_steps: PPTBatchStep[]) {
+      throw new Error('Browser not connected. Please open the Office Add-in.')
     }
   }
 }
@@ -171,9 +811,42 @@ export async function startBridgeServer(): Promise<void> {
   const app = express()
   const httpServer = createServer(app)
 
-  // Enable CORS
+  // Client policies: tool allow/deny lists, read-only mode and rate limits
+  const policies = loadToolPolicies()
+  if (policies.default.readOnly) {
+    console.error('[Bridge] Read-only mode: only tools with readOnlyHint are exposed')
+  }
+  if (policies.tokens.length > 0) {
+    console.error(`[Bridge] Client tokens: ${policies.tokens.map(client => client.name).join(', ')}`)
+  }
+
+  const auditLog = openAuditLog()
+  const gateway = openGateway() ?? undefined
+
+  // Every tool call feeds the metrics and, when enabled, the audit log
+  const toolCallListener = (session: string, client: string | null) => {
+    const audit = auditLog?.listener(session, client)
+    return (call: PPTToolCall) => {
+      metrics.tools.record(call.tool, call.durationMs, Boolean(call.result.isError))
+      audit?.(call)
+    }
+  }
+
+  // Authentication: never expose an unauthenticated bridge beyond localhost
+  const auth: BridgeAuthConfig = { token: AUTH_TOKEN, allowedOrigins: ALLOWED_ORIGINS, clients: policies.tokens }
+  if (!auth.token && !isLoopbackHost(HOST)) {
+    auth.token = generateAuthToken()
+    console.error(`[Bridge] HOST=${HOST} is reachable from the network and MCP_AUTH_TOKEN is not set`)
+    console.error(`[Bridge] Generated auth token for this run: ${auth.token}`)
+  } else if (!auth.token) {
+    console.error('[Bridge] MCP_AUTH_TOKEN is not set: token authentication disabled (localhost only)')
+  }
+  console.error(`[Bridge] Allowed origins: ${auth.allowedOrigins.join(', ')}`)
+  const requireAuth = createAuthMiddleware(auth)
+
+  // Enable CORS for allowed origins only
   app.use(cors({
-    origin: '*',
+    origin: (origin, callback) => callback(null, isOriginAllowed(origin, auth.allowedOrigins)),
     methods: ['GET', 'POST', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization']
   }))
@@ -182,59 +855,153 @@ export async function startBridgeServer(): Promise<void> {
   // WebSocket server for browser connection
   const wss = new WebSocketServer({ 
     server: httpServer, 
-    path: '/ws'
+    path: '/ws',
+    handleProtocols: selectWebSocketProtocol,
+    verifyClient: (info, callback) => {
+      const result = verifyWebSocketRequest(info.req, auth)
+      if (result.ok) {
+        callback(true)
+      } else {
+        console.error(`[Bridge] Rejected browser connection from ${info.req.socket.remoteAddress}: ${result.message}`)
+        callback(false, result.code, result.message)
+      }
+    }
   })
 
   // Initialize with mock operations
-  let currentOperations = await createMockOperations()
-  setPPTOperations(currentOperations)
+  const mockOperations = await createMockOperations()
+  const bridgedOperations = createBridgedOperations()
+  setPPTOperations(mockOperations)
+  setPPTDocumentRegistry(documentRegistry)
+
+  const dropDocument = (doc: DocumentConnection) => {
+    removeDocument(doc)
+    if (documents.size === 0) {
+      // Switch back to mock operations
+      setPPTOperations(mockOperations)
+    }
+  }
+
+  // Heartbeat: terminate add-ins that missed a pong; the ping message lets add-ins spot a stale server
+  const heartbeat = setInterval(() => {
+    for (const doc of documents.values()) {
+      if (doc.ws.readyState !== WebSocket.OPEN) continue
+      if (!doc.alive) {
+        console.error(`[Bridge] No heartbeat from ${doc.title || doc.id}, closing stale connection`)
+        metrics.staleConnections++
+        doc.ws.terminate()
+        continue
+      }
+      doc.alive = false
+      doc.ws.ping()
+      if (doc.hello) doc.ws.send(JSON.stringify({ type: 'ping' }))
+    }
+  }, HEARTBEAT_INTERVAL_MS)
+  httpServer.on('close', () => clearInterval(heartbeat))
 
   wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
     const clientIp = req.socket.remoteAddress
     console.error(`[Bridge] Browser connected from ${clientIp}`)
-    
-    // Only allow one browser connection
-    if (browserConnection) {
-      browserConnection.close(1000, 'Replaced by new connection')
+    metrics.connections++
+
+    // Track the add-in under a provisional ID until it registers its document or resumes a session
+    const now = new Date()
+    let doc: DocumentConnection = {
+      id: `doc-${++documentCounter}`,
+      title: '',
+      url: '',
+      ws,
+      connectedAt: now,
+      lastFocusedAt: now,
+      issues: [],
+      queue: null,
+      alive: true
     }
-    browserConnection = ws
+    documents.set(doc.id, doc)
+    focusDocument(doc)
+    notifyCapabilitiesChanged()
 
     // Switch to bridged operations
-    currentOperations = createBridgedOperations()
-    setPPTOperations(currentOperations)
+    setPPTOperations(bridgedOperations)
+
+    ws.on('pong', () => {
+      doc.alive = true
+    })
 
     ws.on('message', (data: RawData) => {
+      doc.alive = true
       try {
-        const message = JSON.parse(data.toString())
-        
+        const text = data.toString()
+        metrics.payloadBytes.received.observe(Buffer.byteLength(text))
+        const message = parseClientMessage(text)
+
         if (message.type === 'response') {
           const pending = pendingRequests.get(message.id)
           if (pending) {
             clearTimeout(pending.timeout)
             pendingRequests.delete(message.id)
-            
+            metrics.finishRequest(pending.traffic, message.error ? 'error' : 'ok', {
+              responseBytes: Buffer.byteLength(text),
+              officeMs: message.durationMs,
+              waitMs: message.waitMs,
+              error: message.error
+            })
+
             if (message.error) {
               pending.reject(new Error(message.error))
             } else {
               pending.resolve(message.result)
             }
           }
+        } else if (message.type === 'progress') {
+          const pending = pendingRequests.get(message.id)
+          if (pending) {
+            // Progress keeps the request alive
+            armTimeout(pending)
+            pending.onProgress?.({
+              progress: message.progress,
+              total: message.total,
+              message: message.message
+            })
+          }
+        } else if (message.type === 'waiting') {
+          // Requests waiting for the user's approval or behind other changes stay alive too
+          const pending = pendingRequests.get(message.id)
+          if (pending) {
+            armTimeout(pending)
+          }
+        } else if (message.type === 'hello') {
+          doc = startSession(doc, message)
+        } else if (message.type === 'register') {
+          registerDocument(doc, message.document)
         } else if (message.type === 'event') {
+          // Queue depth changes with every request, so it is not logged
+          if (message.event === 'queue') {
+            doc.queue = message.data as DocumentConnection['queue']
+            return
+          }
           // Handle browser events (e.g., slide changed)
           console.error(`[Bridge] Browser event: ${message.event}`, message.data)
+          if (message.event === 'focus') {
+            focusDocument(doc)
+          } else if (message.event === 'sync') {
+            handleSyncEvent((message.data as { type?: string } | undefined)?.type)
+          }
         }
       } catch (e) {
         console.error('[Bridge] Failed to parse message:', e)
       }
     })
 
-    ws.on('close', async (code: number, reason: Buffer) => {
+    ws.on('close', (code: number, reason: Buffer) => {
       console.error(`[Bridge] Browser disconnected: ${code} ${reason.toString()}`)
-      if (browserConnection === ws) {
-        browserConnection = null
-        // Switch back to mock operations
-        currentOperations = await createMockOperations()
-        setPPTOperations(currentOperations)
+      if (documents.get(doc.id)?.ws === ws) {
+        const closed = doc
+        if (closed.session) {
+          suspendDocument(closed, () => dropDocument(closed))
+        } else {
+          dropDocument(closed)
+        }
       }
     })
 
@@ -245,17 +1012,53 @@ export async function startBridgeServer(): Promise<void> {
     // Send welcome message
     ws.send(JSON.stringify({
       type: 'connected',
-      message: 'Connected to MCP Bridge Server'
+      message: 'Connected to MCP Bridge Server',
+      protocolVersion: BRIDGE_PROTOCOL_VERSION
     }))
   })
 
   // Health check endpoint
-  app.get('/health', (_req: Request, res: Response) => {
+  app.get('/health', (req: Request, res: Response) => {
+    // Callers without the token only learn that the server is up
+    if (!isOriginAllowed(req.headers.origin, auth.allowedOrigins) || identifyClient(req, auth) === undefined) {
+      res.json({ status: 'ok', server: 'ppt-kit-mcp-bridge', version: '1.0.0' })
+      return
+    }
+
+    const addins = [...documents.values()].map(doc => {
+      const methods = getDocumentMethods(doc)
+      const issues = doc.hello
+        ? doc.issues
+        : ['No hello received: the add-in predates the protocol handshake, so every tool is assumed to work. Update the add-in.']
+      return {
+        documentId: doc.id,
+        title: doc.title,
+        protocolVersion: doc.hello?.protocolVersion ?? null,
+        addinVersion: doc.hello?.addinVersion ?? null,
+        requirementSets: doc.hello?.requirementSets ?? {},
+        missingMethods: BRIDGE_METHODS.filter(method => !methods.has(method)),
+        unavailableTools: getUnavailableTools(methods),
+        connected: !doc.disconnectedAt,
+        disconnectedAt: doc.disconnectedAt?.toISOString() ?? null,
+        pendingRequests: [...pendingRequests.values()].filter(pending => pending.documentId === doc.id).length,
+        queue: doc.queue,
+        issues
+      }
+    })
+
+    const upstreams = gateway?.getStatus() ?? []
+    const degraded = addins.some(addin => addin.issues.length > 0) || upstreams.some(upstream => upstream.status === 'error')
+
     res.json({
-      status: 'ok',
+      status: degraded ? 'degraded' : 'ok',
       server: 'ppt-kit-mcp-bridge',
       version: '1.0.0',
-      browserConnected: browserConnection !== null && browserConnection.readyState === WebSocket.OPEN,
+      protocolVersion: BRIDGE_PROTOCOL_VERSION,
+      browserConnected: documents.size > 0,
+      documents: documents.size,
+      activeDocument: activeDocumentId,
+      addins,
+      upstreams,
       transport: TRANSPORT
     })
   })
@@ -263,13 +1066,21 @@ export async function startBridgeServer(): Promise<void> {
   // SSE endpoint for MCP clients (supports both /sse and /mcp paths)
   const sseTransports = new Map<string, SSEServerTransport>()
 
+  // Sessionless POSTs share one guard per client so rate limits still apply
+  const sessionlessGuards = new Map<string | null, ToolGuard>()
+
   const handleSSEConnection = async (_req: Request, res: Response) => {
-    console.error('[Bridge] New MCP SSE connection')
+    const client: string | null = res.locals.client
+    console.error(`[Bridge] New MCP SSE connection${client ? ` (client: ${client})` : ''}`)
     
-    const server = createPPTKitMCPServer()
     const transport = new SSEServerTransport('/messages', res)
-    
-    const sessionId = `session-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`
+    const sessionId = transport.sessionId
+    const server = createPPTKitMCPServer(undefined, {
+      guard: new ToolGuard(getClientPolicy(policies, client)),
+      onToolCall: toolCallListener(sessionId, client),
+      capabilities: backendCapabilities,
+      gateway
+    })
     sseTransports.set(sessionId, transport)
 
     res.on('close', () => {
@@ -281,17 +1092,28 @@ export async function startBridgeServer(): Promise<void> {
   }
 
   // Both /sse and /mcp endpoints for MCP clients
-  app.get('/sse', handleSSEConnection)
-  app.get('/mcp', handleSSEConnection)
+  app.get('/sse', requireAuth, handleSSEConnection)
+  app.get('/mcp', requireAuth, handleSSEConnection)
 
-  app.post('/messages', async (req: Request, res: Response) => {
+  app.post('/messages', requireAuth, async (req: Request, res: Response) => {
     const sessionId = req.query.sessionId as string
     
     if (!sessionId) {
-      const server = createPPTKitMCPServer()
+      const client: string | null = res.locals.client
+      let guard = sessionlessGuards.get(client)
+      if (!guard) {
+        guard = new ToolGuard(getClientPolicy(policies, client))
+        sessionlessGuards.set(client, guard)
+      }
+      const server = createPPTKitMCPServer(undefined, {
+        guard,
+        onToolCall: toolCallListener('sessionless', client),
+        capabilities: backendCapabilities,
+        gateway
+      })
       const transport = new SSEServerTransport('/messages', res)
       await server.connect(transport)
-      await transport.handlePostMessage(req, res)
+      await transport.handlePostMessage(req, res, req.body)
       return
     }
 
@@ -301,26 +1123,61 @@ export async function startBridgeServer(): Promise<void> {
       return
     }
 
-    await transport.handlePostMessage(req, res)
+    await transport.handlePostMessage(req, res, req.body)
   })
 
-  // Tools list endpoint
-  app.get('/tools', (_req: Request, res: Response) => {
+  // Tools list endpoint (same definitions as MCP tools/list for the caller's token)
+  app.get('/tools', requireAuth, (_req: Request, res: Response) => {
+    const guard = new ToolGuard(getClientPolicy(policies, res.locals.client))
+    const methods = backendCapabilities.getMethods()
     res.json({
       tools: [
-        { name: 'ppt_create_slide', description: 'Create a new slide' },
-        { name: 'ppt_add_content', description: 'Add content to a slide' },
-        { name: 'ppt_get_info', description: 'Get presentation info' },
-        { name: 'ppt_from_markdown', description: 'Generate slides from markdown' },
-        { name: 'ppt_add_code_block', description: 'Add code block to slide' },
-        { name: 'ppt_add_mermaid_diagram', description: 'Add mermaid diagram' },
-        { name: 'ppt_list_slides', description: 'List all slides' },
-        { name: 'ppt_delete_slide', description: 'Delete a slide' }
+        ...listToolDefinitions(tool =>
+          guard.permits(tool) && (!methods || tool.methods.every(method => methods.has(method)))
+        ),
+        ...(gateway?.listTools().filter(tool => guard.permits(tool)) ?? [])
       ],
-      browserConnected: browserConnection !== null && browserConnection.readyState === WebSocket.OPEN
+      browserConnected: documents.size > 0
     })
   })
 
+  const bridgeGauges = (): BridgeGauges => {
+    const addins = [...documents.values()]
+    return {
+      pendingRequests: pendingRequests.size,
+      connectedAddins: addins.filter(doc => !doc.disconnectedAt).length,
+      reconnectingAddins: addins.filter(doc => doc.disconnectedAt).length,
+      queues: addins
+        .filter(doc => doc.queue)
+        .map(doc => ({ document: doc.id, running: doc.queue!.running, queued: doc.queue!.queued }))
+    }
+  }
+
+  // Prometheus metrics
+  app.get('/metrics', requireAuth, (_req: Request, res: Response) => {
+    res.type('text/plain; version=0.0.4').send(metrics.toPrometheus(bridgeGauges()))
+  })
+
+  // Recent bridge traffic and tool latencies, to tell a slow bridge from a slow Office
+  app.get('/debug/requests', requireAuth, (req: Request, res: Response) => {
+    const traffic = metrics.recentTraffic()
+    const tools = metrics.tools.list()
+      .filter(tool => tool.calls > 0)
+      .map(tool => ({
+        name: tool.name,
+        calls: tool.calls,
+        errors: tool.errors,
+        averageMs: Math.round(tool.totalMs / tool.calls),
+        lastCalled: tool.lastCalled?.toISOString() ?? null
+      }))
+
+    if (req.query.format === 'json') {
+      res.json({ traffic, tools, gauges: bridgeGauges() })
+      return
+    }
+    res.type('html').send(renderDebugPage(traffic, tools))
+  })
+
   // Start server
   httpServer.listen(PORT, HOST, () => {
     console.error(`
@@ -335,6 +1192,7 @@ export async function startBridgeServer(): Promise<void> {
 ║    MCP (SSE):   http://${HOST}:${PORT}/sse                           ║
 ║    WebSocket:   ws://${HOST}:${PORT}/ws                              ║
 ║    Health:      http://${HOST}:${PORT}/health                        ║
+║    Metrics:     http://${HOST}:${PORT}/metrics                       ║
 ║                                                              ║
 ║  Browser Status: Waiting for connection...                   ║
 ║                                                              ║
@@ -347,16 +1205,84 @@ export async function startBridgeServer(): Promise<void> {
   })
 }
 
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function renderTable(headers: string[], rows: unknown[][]): string {
+  const head = headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')
+  const body = rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n')
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`
+}
+
+/**
+ * HTML page for /debug/requests
+ * Round trip minus Office time is what the bridge itself costs.
+ */
+function renderDebugPage(
+  traffic: BridgeTrafficEntry[],
+  tools: Array<{ name: string; calls: number; errors: number; averageMs: number; lastCalled: string | null }>
+): string {
+  const requests = renderTable(
+    ['Started', 'Document', 'Method', 'Status', 'Round trip (ms)', 'Office (ms)', 'Waited (ms)', 'Sent (B)', 'Received (B)', 'Error'],
+    traffic.map(entry => [
+      entry.startedAt.toISOString(),
+      entry.documentId,
+      entry.method,
+      entry.status,
+      entry.roundTripMs,
+      entry.officeMs,
+      entry.waitMs,
+      entry.requestBytes,
+      entry.responseBytes,
+      entry.error
+    ])
+  )
+  const toolTable = renderTable(
+    ['Tool', 'Calls', 'Errors', 'Average (ms)', 'Last called'],
+    tools.map(tool => [tool.name, tool.calls, tool.errors, tool.averageMs, tool.lastCalled])
+  )
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>PPT-KIT Bridge Requests</title>
+<style>
+body { font-family: sans-serif; margin: 24px; }
+table { border-collapse: collapse; margin-bottom: 24px; font-size: 13px; }
+th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; }
+th { background: #f5f5f5; }
+</style>
+</head>
+<body>
+<h2>Bridge requests (${traffic.length}, newest first)</h2>
+${requests}
+<h2>Tools</h2>
+${toolTable}
+</body>
+</html>
+`
+}
+
 /**
  * Run with stdio transport (for Claude Desktop direct integration)
  */
 export async function runStdio(): Promise<void> {
-  const server = createPPTKitMCPServer()
+  // Note: stdio mode doesn't support browser bridging
+  // It builds an in-memory presentation that can be saved with ppt_save_presentation
+  const operations = createInMemoryOperations(new InMemoryPresentation(), { outputDir: process.env.MCP_OUTPUT_DIR })
+  const server = createPPTKitMCPServer(operations, {
+    guard: new ToolGuard(loadToolPolicies().default),
+    onToolCall: openAuditLog()?.listener('stdio', null),
+    gateway: openGateway() ?? undefined
+  })
   const transport = new StdioServerTransport()
   
-  // Note: stdio mode doesn't support browser bridging
-  // It uses mock operations
-  console.error('[Bridge] Running in stdio mode (mock operations only)')
+  console.error('[Bridge] Running in stdio mode (offline in-memory presentation)')
   console.error('[Bridge] For browser integration, use SSE mode with TRANSPORT=sse')
   
   await server.connect(transport)
@@ -8,8 +8,11 @@
  * without requiring a separate Node.js process.
  */
 
-import type { PPTOperations } from './index'
+import type { PPTOperations, PPTBatchStep, PPTShapeUpdate, PPTShapeZOrder, PPTSlideRef } from './index'
+import { PPT_TOOLS, getTool, executeTool, listToolDefinitions, type ToolListing } from './tools'
+import { ToolStats } from './metrics'
 import { parseMarkdown } from '../../modules/markdown/parser'
+import { findSlideByRef } from '../../modules/ppt-bridge/operations/references'
 import type { SlideContent } from '../../types'
 
 // MCP Protocol types
@@ -37,17 +40,6 @@ interface MCPNotification {
   params?: Record<string, unknown>
 }
 
-// Tool definition
-interface ToolDefinition {
-  name: string
-  description: string
-  inputSchema: {
-    type: 'object'
-    properties: Record<string, unknown>
-    required?: string[]
-  }
-}
-
 // Event types
 export interface MCPServerEvent {
   type: 'started' | 'stopped' | 'tool_call' | 'error' | 'client_connected' | 'client_disconnected'
@@ -65,281 +57,14 @@ type MCPServerEventListener = (event: MCPServerEvent) => void
 export class BrowserMCPServer {
   private running = false
   private operations: PPTOperations
-  private tools: Map<string, ToolDefinition> = new Map()
-  private toolHandlers: Map<string, (params: Record<string, unknown>) => Promise<unknown>> = new Map()
   private eventListeners: MCPServerEventListener[] = []
-  private toolStats: Map<string, { calls: number; errors: number; lastCalled?: Date }> = new Map()
+  private toolStats = new ToolStats(PPT_TOOLS.map(tool => tool.name))
   
   // Connected clients (for SSE simulation)
   private clients: Map<string, { send: (data: string) => void }> = new Map()
 
   constructor(operations: PPTOperations) {
     this.operations = operations
-    this.registerTools()
-  }
-
-  /**
-   * Register all PPT tools
-   */
-  private registerTools(): void {
-    // ppt_create_slide
-    this.registerTool(
-      'ppt_create_slide',
-      'Create a new slide in the PowerPoint presentation',
-      {
-        type: 'object',
-        properties: {
-          title: { type: 'string', description: 'Title text for the slide' },
-          layout: { 
-            type: 'string', 
-            enum: ['title', 'content', 'two-column', 'comparison', 'image-focus', 'code-focus'],
-            description: 'Slide layout type'
-          }
-        },
-        required: ['title']
-      },
-      async (params) => {
-        const result = await this.operations.createSlide(
-          params.title as string,
-          params.layout as string
-        )
-        return {
-          slide_id: result.slideId,
-          title: params.title,
-          layout: params.layout || 'content',
-          index: result.index,
-          success: true
-        }
-      }
-    )
-
-    // ppt_add_content
-    this.registerTool(
-      'ppt_add_content',
-      'Add content (text, code, or image) to an existing slide',
-      {
-        type: 'object',
-        properties: {
-          slide_id: { type: 'string', description: 'ID of the target slide' },
-          content: { type: 'string', description: 'Content to add' },
-          content_type: { 
-            type: 'string', 
-            enum: ['text', 'code', 'image'],
-            description: 'Type of content'
-          },
-          position: {
-            type: 'object',
-            properties: {
-              x: { type: 'number' },
-              y: { type: 'number' },
-              width: { type: 'number' },
-              height: { type: 'number' }
-            }
-          }
-        },
-        required: ['slide_id', 'content', 'content_type']
-      },
-      async (params) => {
-        const slideId = params.slide_id as string
-        const content = params.content as string
-        const contentType = params.content_type as string
-        const position = params.position as { x: number; y: number; width: number; height: number } | undefined
-
-        switch (contentType) {
-          case 'text':
-            await this.operations.addText(slideId, content, position)
-            break
-          case 'code':
-            await this.operations.addCode(slideId, content, 'plaintext', position)
-            break
-          case 'image':
-            await this.operations.addImage(slideId, content, position)
-            break
-        }
-
-        return {
-          slide_id: slideId,
-          content_type: contentType,
-          success: true,
-          message: `${contentType} content added successfully`
-        }
-      }
-    )
-
-    // ppt_get_info
-    this.registerTool(
-      'ppt_get_info',
-      'Get information about the current PowerPoint presentation',
-      {
-        type: 'object',
-        properties: {}
-      },
-      async () => {
-        const info = await this.operations.getPresentationInfo()
-        return {
-          slide_count: info.slideCount,
-          current_slide_index: info.currentSlideIndex,
-          title: info.title,
-          author: info.author,
-          slides: info.slides
-        }
-      }
-    )
-
-    // ppt_from_markdown
-    this.registerTool(
-      'ppt_from_markdown',
-      'Generate PowerPoint slides from Markdown content',
-      {
-        type: 'object',
-        properties: {
-          markdown: { type: 'string', description: 'Markdown content to convert' }
-        },
-        required: ['markdown']
-      },
-      async (params) => {
-        const result = await this.operations.generateFromMarkdown(params.markdown as string)
-        return {
-          slide_count: result.slideCount,
-          slides: result.slides,
-          success: true
-        }
-      }
-    )
-
-    // ppt_add_code_block
-    this.registerTool(
-      'ppt_add_code_block',
-      'Add a syntax-highlighted code block to a slide',
-      {
-        type: 'object',
-        properties: {
-          slide_id: { type: 'string', description: 'ID of the target slide' },
-          code: { type: 'string', description: 'Source code to display' },
-          language: { type: 'string', description: 'Programming language' },
-          position: {
-            type: 'object',
-            properties: {
-              x: { type: 'number' },
-              y: { type: 'number' },
-              width: { type: 'number' },
-              height: { type: 'number' }
-            }
-          }
-        },
-        required: ['slide_id', 'code', 'language']
-      },
-      async (params) => {
-        const result = await this.operations.addCode(
-          params.slide_id as string,
-          params.code as string,
-          params.language as string,
-          params.position as { x: number; y: number; width: number; height: number } | undefined
-        )
-        return {
-          slide_id: params.slide_id,
-          language: params.language,
-          line_count: result.lineCount,
-          success: true
-        }
-      }
-    )
-
-    // ppt_add_mermaid_diagram
-    this.registerTool(
-      'ppt_add_mermaid_diagram',
-      'Add a Mermaid diagram to a slide',
-      {
-        type: 'object',
-        properties: {
-          slide_id: { type: 'string', description: 'ID of the target slide' },
-          mermaid_code: { type: 'string', description: 'Mermaid diagram syntax' },
-          position: {
-            type: 'object',
-            properties: {
-              x: { type: 'number' },
-              y: { type: 'number' },
-              width: { type: 'number' },
-              height: { type: 'number' }
-            }
-          }
-        },
-        required: ['slide_id', 'mermaid_code']
-      },
-      async (params) => {
-        const result = await this.operations.addMermaid(
-          params.slide_id as string,
-          params.mermaid_code as string,
-          params.position as { x: number; y: number; width: number; height: number } | undefined
-        )
-        return {
-          slide_id: params.slide_id,
-          diagram_type: result.diagramType,
-          success: true
-        }
-      }
-    )
-
-    // ppt_list_slides
-    this.registerTool(
-      'ppt_list_slides',
-      'List all slides in the current presentation',
-      {
-        type: 'object',
-        properties: {
-          limit: { type: 'number', description: 'Maximum slides to return (default: 20)' },
-          offset: { type: 'number', description: 'Number of slides to skip (default: 0)' }
-        }
-      },
-      async (params) => {
-        const limit = (params.limit as number) || 20
-        const offset = (params.offset as number) || 0
-        const result = await this.operations.listSlides(limit, offset)
-        return {
-          total: result.total,
-          count: result.slides.length,
-          offset,
-          slides: result.slides,
-          has_more: result.hasMore,
-          ...(result.hasMore ? { next_offset: offset + result.slides.length } : {})
-        }
-      }
-    )
-
-    // ppt_delete_slide
-    this.registerTool(
-      'ppt_delete_slide',
-      'Delete a slide from the presentation',
-      {
-        type: 'object',
-        properties: {
-          slide_id: { type: 'string', description: 'ID of the slide to delete' }
-        },
-        required: ['slide_id']
-      },
-      async (params) => {
-        await this.operations.deleteSlide(params.slide_id as string)
-        return {
-          slide_id: params.slide_id,
-          success: true,
-          message: 'Slide deleted successfully'
-        }
-      }
-    )
-  }
-
-  /**
-   * Register a tool
-   */
-  private registerTool(
-    name: string,
-    description: string,
-    inputSchema: ToolDefinition['inputSchema'],
-    handler: (params: Record<string, unknown>) => Promise<unknown>
-  ): void {
-    this.tools.set(name, { name, description, inputSchema })
-    this.toolHandlers.set(name, handler)
-    this.toolStats.set(name, { calls: 0, errors: 0 })
   }
 
   /**
@@ -442,16 +167,10 @@ export class BrowserMCPServer {
    * Handle tools/list request
    */
   private handleToolsList(request: MCPRequest): MCPResponse {
-    const tools = Array.from(this.tools.values()).map(tool => ({
-      name: tool.name,
-      description: tool.description,
-      inputSchema: tool.inputSchema
-    }))
-
     return {
       jsonrpc: '2.0',
       id: request.id,
-      result: { tools }
+      result: { tools: listToolDefinitions() }
     }
   }
 
@@ -463,8 +182,8 @@ export class BrowserMCPServer {
     const toolName = params.name
     const toolArgs = params.arguments || {}
 
-    const handler = this.toolHandlers.get(toolName)
-    if (!handler) {
+    const tool = getTool(toolName)
+    if (!tool) {
       return {
         jsonrpc: '2.0',
         id: request.id,
@@ -472,56 +191,61 @@ export class BrowserMCPServer {
       }
     }
 
-    const stats = this.toolStats.get(toolName)!
-    stats.calls++
-    stats.lastCalled = new Date()
+    const parsed = tool.inputSchema.safeParse(toolArgs)
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`)
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32602, message: `Invalid arguments for tool ${toolName}: ${issues.join('; ')}` }
+      }
+    }
 
-    try {
-      const startTime = Date.now()
-      const result = await handler(toolArgs)
-      const duration = Date.now() - startTime
+    const startTime = Date.now()
+    const result = await executeTool(tool, parsed.data, {
+      resolveOperations: (documentId) => {
+        if (documentId) {
+          throw new Error('This server has a single document; omit document_id.')
+        }
+        return this.operations
+      },
+      listDocuments: () => []
+    })
+    const duration = Date.now() - startTime
+    const success = !result.isError
+    this.toolStats.record(toolName, duration, !success)
 
+    if (success) {
       this.emitEvent({
         type: 'tool_call',
         timestamp: new Date(),
         data: {
           toolName,
           params: toolArgs,
-          result,
-          success: true,
+          result: result.structuredContent,
+          success,
           duration
         }
       })
-
-      // Broadcast to connected clients
-      this.broadcastNotification({
-        jsonrpc: '2.0',
-        method: 'notifications/tools/call_result',
-        params: { toolName, result, success: true }
-      })
-
-      return {
-        jsonrpc: '2.0',
-        id: request.id,
-        result: {
-          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-        }
-      }
-    } catch (error) {
-      stats.errors++
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
-
+    } else {
       this.emitEvent({
         type: 'error',
         timestamp: new Date(),
-        data: { toolName, error: errorMsg }
+        data: { toolName, error: result.content[0].text }
       })
+    }
 
-      return {
-        jsonrpc: '2.0',
-        id: request.id,
-        error: { code: -32000, message: errorMsg }
-      }
+    // Broadcast to connected clients
+    this.broadcastNotification({
+      jsonrpc: '2.0',
+      method: 'notifications/tools/call_result',
+      params: { toolName, result: result.structuredContent, success }
+    })
+
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result
     }
   }
 
@@ -566,18 +290,21 @@ export class BrowserMCPServer {
   /**
    * Get tool statistics
    */
-  getToolStats(): Array<{ name: string; calls: number; errors: number; lastCalled?: Date }> {
-    return Array.from(this.toolStats.entries()).map(([name, stats]) => ({
+  getToolStats(): Array<{ name: string; calls: number; errors: number; lastCalled?: Date; averageMs: number }> {
+    return this.toolStats.list().map(({ name, calls, errors, lastCalled, totalMs }) => ({
       name,
-      ...stats
+      calls,
+      errors,
+      lastCalled,
+      averageMs: calls ? Math.round(totalMs / calls) : 0
     }))
   }
 
   /**
    * Get tool definitions
    */
-  getTools(): ToolDefinition[] {
-    return Array.from(this.tools.values())
+  getTools(): ToolListing[] {
+    return listToolDefinitions()
   }
 
   /**
@@ -612,6 +339,13 @@ export class BrowserMCPServer {
   }
 }
 
+// Slides of the demo deck served by the mock operations
+const MOCK_SLIDES = [
+  { id: 'slide-1', index: 0, title: 'Introduction', layout: 'title' },
+  { id: 'slide-2', index: 1, title: 'Content', layout: 'content' },
+  { id: 'slide-3', index: 2, title: 'Summary', layout: 'content' }
+]
+
 /**
  * Create mock operations for standalone/development mode
  */
@@ -623,20 +357,36 @@ export function createMockOperations(): PPTOperations {
         currentSlideIndex: 0,
         title: 'Demo Presentation',
         author: 'PPT-Kit',
-        slides: [
-          { id: 'slide-1', index: 0, title: 'Introduction', layout: 'title' },
-          { id: 'slide-2', index: 1, title: 'Content', layout: 'content' },
-          { id: 'slide-3', index: 2, title: 'Summary', layout: 'content' }
-        ]
+        slides: MOCK_SLIDES
       }
     },
-    async createSlide(title: string, layout = 'content') {
+    async createSlide(title: string, layout = 'content', index?: number) {
       console.log('[Mock] Creating slide:', title, layout)
-      return { slideId: `slide-${Date.now()}`, index: 3 }
+      return { slideId: `slide-${Date.now()}`, index: index ?? 3 }
     },
     async deleteSlide(slideId: string) {
       console.log('[Mock] Deleting slide:', slideId)
     },
+    async deleteSlideRange(startIndex: number, count: number) {
+      console.log('[Mock] Deleting slides:', startIndex, count)
+      return { slideIds: Array.from({ length: count }, (_, i) => `slide-${startIndex + i + 1}`) }
+    },
+    async duplicateSlide(slideId: string, index?: number) {
+      console.log('[Mock] Duplicating slide:', slideId)
+      return { slideId: `slide-${Date.now()}`, index: index ?? 3 }
+    },
+    async moveSlide(slideId: string, index: number) {
+      console.log('[Mock] Moving slide:', slideId, index)
+      return { fromIndex: 0, index }
+    },
+    async resolveSlide(ref: PPTSlideRef) {
+      // Slides created by the mock are not tracked, so unknown IDs resolve to themselves
+      if (ref.type === 'id' && !MOCK_SLIDES.some(slide => slide.id === ref.id)) {
+        return { slideId: ref.id, index: MOCK_SLIDES.length }
+      }
+      const index = findSlideByRef(ref, MOCK_SLIDES)
+      return { slideId: MOCK_SLIDES[index].id, index }
+    },
     async addText(slideId: string, content: string) {
       console.log('[Mock] Adding text to slide:', slideId, content.substring(0, 50))
     },
@@ -652,12 +402,30 @@ export function createMockOperations(): PPTOperations {
     async addImage(slideId: string, imageData: string) {
       console.log('[Mock] Adding image to slide:', slideId, 'data length:', imageData.length)
     },
-    async listSlides(limit: number, offset: number) {
-      const allSlides = [
-        { id: 'slide-1', index: 0, title: 'Introduction', layout: 'title' },
-        { id: 'slide-2', index: 1, title: 'Content', layout: 'content' },
-        { id: 'slide-3', index: 2, title: 'Summary', layout: 'content' }
+    async addTable(slideId: string, headers: string[], rows: string[][]) {
+      console.log('[Mock] Adding table to slide:', slideId, `${headers.length}x${rows.length + 1}`)
+    },
+    async getSlideShapes(slideId: string) {
+      return [
+        { id: `${slideId}-title`, name: 'Title', type: 'TextBox', left: 40, top: 40, width: 880, height: 80, text: 'Demo Slide', isTitle: true }
       ]
+    },
+    async updateShape(slideId: string, shapeId: string, update: PPTShapeUpdate) {
+      console.log('[Mock] Updating shape:', slideId, shapeId, Object.keys(update))
+    },
+    async deleteShape(slideId: string, shapeId: string) {
+      console.log('[Mock] Deleting shape:', slideId, shapeId)
+    },
+    async reorderShape(slideId: string, shapeId: string, position: PPTShapeZOrder) {
+      console.log('[Mock] Reordering shape:', slideId, shapeId, position)
+      return { zOrderPosition: position === 'sendToBack' ? 1 : 2 }
+    },
+    async groupShapes(slideId: string, shapeIds: string[]) {
+      console.log('[Mock] Grouping shapes:', slideId, shapeIds)
+      return { groupId: `${slideId}-group` }
+    },
+    async listSlides(limit: number, offset: number) {
+      const allSlides = MOCK_SLIDES
       const slides = allSlides.slice(offset, offset + limit)
       return {
         total: allSlides.length,
@@ -666,7 +434,7 @@ export function createMockOperations(): PPTOperations {
       }
     },
     async generateFromMarkdown(markdown: string) {
-      const slides = parseMarkdown(markdown)
+      const slides = await parseMarkdown(markdown)
       return {
         slideCount: slides.length,
         slides: slides.map((s: SlideContent, i: number) => ({
@@ -676,6 +444,20 @@ export function createMockOperations(): PPTOperations {
           blockCount: s.blocks.length
         }))
       }
+    },
+    async runBatch(steps: PPTBatchStep[]) {
+      const createdSlides = new Map<string, string>()
+      return {
+        success: true,
+        rolledBack: false,
+        steps: steps.map((step, index) => {
+          const slideId = step.op === 'createSlide'
+            ? `slide-batch-${index}`
+            : createdSlides.get(step.slideId) || step.slideId
+          if (step.op === 'createSlide') createdSlides.set(`$${index}`, slideId)
+          return { index, op: step.op, status: 'ok' as const, slideId, shapeIds: [`${slideId}-shape-${index}`] }
+        })
+      }
     }
   }
 }
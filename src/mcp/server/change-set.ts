@@ -0,0 +1,179 @@
+/**
+ * PPT-KIT MCP Server - Dry-Run Change Sets
+ *
+ * Computes the slides and shapes a mutating tool would create, without a
+ * PowerPoint backend: Markdown goes through parseMarkdown and calculateLayout
+ * and the rectangles mirror the ppt-bridge operations (insertSlideTitle,
+ * insertTextBox, insertCodeBlock, insertDiagram, insertImage and the
+ * Markdown generator).
+ */
+
+import type { Position, PlannedChange } from '../schemas'
+import type { ContentBlock, LayoutType, SlideContent } from '../../types'
+import { parseMarkdown } from '../../modules/markdown/parser'
+import { calculateLayout } from '../../modules/layout/engine'
+
+// Planned shape creation
+type PlannedShape = Extract<PlannedChange, { action: 'create_shape' }>
+
+// Default rectangles used by the ppt-bridge operations when no position is given
+const DEFAULT_TEXT_RECT: Position = { x: 40, y: 140, width: 880, height: 360 }
+const DEFAULT_CODE_RECT: Position = { x: 40, y: 140, width: 880, height: 400 }
+const DEFAULT_DIAGRAM_RECT: Position = { x: 100, y: 140, width: 760, height: 400 }
+const DEFAULT_IMAGE_RECT: Position = { x: 100, y: 100, width: 760, height: 400 }
+const DEFAULT_TABLE_RECT: Position = { x: 40, y: 140, width: 880, height: 360 }
+
+const MERMAID_TYPE_REGEX = /^(flowchart|graph|sequenceDiagram|gantt|classDiagram|stateDiagram|erDiagram|journey|pie|quadrantChart|requirementDiagram|gitGraph|mindmap|timeline)/m
+
+/**
+ * Placeholder ID of the nth slide (or group) a change set creates
+ */
+export function placeholderId(n: number): string {
+  return `$${n}`
+}
+
+/**
+ * Whether an ID is a change-set placeholder rather than an existing slide or shape
+ */
+export function isPlaceholderId(id: string): boolean {
+  return /^\$\d+$/.test(id)
+}
+
+/**
+ * Detect the Mermaid diagram type (mirrors ppt-bridge detectDiagramType)
+ */
+export function detectMermaidType(mermaidCode: string): string {
+  const typeMatch = mermaidCode.match(MERMAID_TYPE_REGEX)
+  return typeMatch ? typeMatch[1] : 'unknown'
+}
+
+/**
+ * Planned shape at a rectangle
+ */
+function shape(slideId: string, name: string, type: 'TextBox' | 'GeometricShape' | 'Table', rect: Position, text?: string): PlannedShape {
+  return {
+    action: 'create_shape',
+    slide_id: slideId,
+    name,
+    type,
+    left: rect.x,
+    top: rect.y,
+    width: rect.width,
+    height: rect.height,
+    ...(text !== undefined ? { text } : {})
+  }
+}
+
+/**
+ * Grow a rectangle by a margin on every side
+ */
+function inflate(rect: Position, margin: number): Position {
+  return { x: rect.x - margin, y: rect.y - margin, width: rect.width + margin * 2, height: rect.height + margin * 2 }
+}
+
+/**
+ * Title box added by createSlide (mirrors ppt-bridge getTitleRect)
+ */
+export function planSlideTitle(slideId: string, title: string, layout: LayoutType): PlannedShape[] {
+  if (!title) return []
+
+  const rect: Position = layout === 'title'
+    ? { x: 40, y: 200, width: 880, height: 120 }
+    : layout === 'code-focus'
+      ? { x: 40, y: 20, width: 880, height: 60 }
+      : { x: 40, y: 40, width: 880, height: 80 }
+  return [shape(slideId, 'Title', 'TextBox', rect, title)]
+}
+
+/**
+ * Text box added by addText
+ */
+export function planText(slideId: string, text: string, position?: Position): PlannedShape[] {
+  return [shape(slideId, 'TextBox', 'TextBox', position || DEFAULT_TEXT_RECT, text)]
+}
+
+/**
+ * Background and text box added by addCode
+ */
+export function planCode(slideId: string, code: string, position?: Position): PlannedShape[] {
+  const rect = position || DEFAULT_CODE_RECT
+  return [
+    shape(slideId, 'CodeBackground', 'GeometricShape', inflate(rect, 10)),
+    shape(slideId, 'CodeBlock', 'TextBox', rect, code)
+  ]
+}
+
+/**
+ * Image-filled rectangle added by addMermaid
+ */
+export function planDiagram(slideId: string, mermaidCode: string, position?: Position): PlannedShape[] {
+  return [shape(slideId, `MermaidDiagram_${detectMermaidType(mermaidCode)}`, 'GeometricShape', position || DEFAULT_DIAGRAM_RECT)]
+}
+
+/**
+ * Image-filled rectangle added by addImage
+ */
+export function planImage(slideId: string, position?: Position): PlannedShape[] {
+  return [shape(slideId, 'Image', 'GeometricShape', position || DEFAULT_IMAGE_RECT)]
+}
+
+/**
+ * Table added by addTable
+ */
+export function planTable(slideId: string, position?: Position): PlannedShape[] {
+  return [shape(slideId, 'Table', 'Table', position || DEFAULT_TABLE_RECT)]
+}
+
+/**
+ * Shapes the Markdown generator adds for one content block
+ */
+function planBlock(slideId: string, block: ContentBlock, rect: Position): PlannedShape[] {
+  switch (block.type) {
+    case 'text':
+      return [shape(slideId, 'TextBox', 'TextBox', rect, block.content)]
+    case 'list': {
+      const bulletText = block.content
+        .split('\n')
+        .map(item => `• ${item.trim()}`)
+        .join('\n')
+      return [shape(slideId, 'TextBox', 'TextBox', rect, bulletText)]
+    }
+    case 'code':
+      return [
+        shape(slideId, 'Rectangle', 'GeometricShape', inflate(rect, 5)),
+        shape(slideId, 'TextBox', 'TextBox', rect, block.content)
+      ]
+    case 'mermaid':
+      return [shape(slideId, 'TextBox', 'TextBox', rect, `[Mermaid Diagram]\n${block.content.substring(0, 200)}...`)]
+    case 'image':
+      return [shape(slideId, 'TextBox', 'TextBox', rect, '[Image Placeholder]')]
+    default:
+      return []
+  }
+}
+
+/**
+ * Slides and shapes generateFromMarkdown would append
+ *
+ * @returns The parsed slides (placeholder IDs `$0`, `$1`, ... in order) and the planned changes
+ */
+export async function planMarkdown(markdown: string): Promise<{ slides: SlideContent[]; changes: PlannedChange[] }> {
+  const slides = await parseMarkdown(markdown)
+  const changes: PlannedChange[] = []
+
+  slides.forEach((slideContent, i) => {
+    const slideId = placeholderId(i)
+    const layout = calculateLayout(slideContent)
+    changes.push({ action: 'create_slide', slide_id: slideId, title: slideContent.title, layout: slideContent.layout })
+
+    if (slideContent.title) {
+      changes.push(shape(slideId, 'TextBox', 'TextBox', layout.title, slideContent.title))
+    }
+    slideContent.blocks.forEach((block, b) => {
+      const rect = layout.blocks[b]
+      if (rect) changes.push(...planBlock(slideId, block, rect))
+    })
+  })
+
+  return { slides, changes }
+}
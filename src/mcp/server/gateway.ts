@@ -0,0 +1,198 @@
+/**
+ * PPT-KIT MCP Server - Gateway
+ *
+ * Connects to external MCP servers and republishes their tools as
+ * `ext_<server>_<tool>`, so an AI client that connects to the bridge server
+ * gets the deck and, say, a data server through one MCP URL. Calls are
+ * proxied to the server that owns the tool.
+ *
+ * Each server has its own connection, timeout and reconnect timer: one that
+ * is down only hides its own tools, and its errors name it.
+ */
+
+import { z } from 'zod'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { MCPClient, type MCPClientState } from '../client/index.js'
+import { EXTERNAL_TOOL_PREFIX, type PPTExternalTool, type PPTToolGateway } from './index.js'
+import type { MCPClientEndpoint } from '../../types/index.js'
+
+// Delay before reconnecting to a server that failed or dropped
+const RECONNECT_DELAY_MS = 30000
+
+// External servers, in the shape the add-in stores its `mcpClients`
+export const GatewayConfigSchema = z.object({
+  mcpClients: z.array(z.object({
+    id: z.string().optional(),
+    name: z.string().min(1),
+    url: z.string().url(),
+    enabled: z.boolean().default(true),
+    transport: z.enum(['auto', 'streamable-http', 'sse', 'websocket']).optional(),
+    authToken: z.string().optional(),
+    headers: z.record(z.string()).optional(),
+    // Connect and tool call timeout in milliseconds
+    timeout: z.number().int().positive().optional()
+  })).default([])
+})
+
+export type GatewayConfig = z.input<typeof GatewayConfigSchema>
+
+// External server as reported by /health
+export interface GatewayUpstreamStatus {
+  name: string
+  url: string
+  prefix: string
+  status: MCPClientState['status']
+  transport: MCPClientState['transport'] | null
+  error: string | null
+  tools: number
+}
+
+interface Upstream {
+  name: string
+  prefix: string
+  client: MCPClient
+  retry: ReturnType<typeof setTimeout> | null
+}
+
+/**
+ * Tool name prefix of an external server: `ext_` plus its name in snake case
+ */
+export function getUpstreamPrefix(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+  return `${EXTERNAL_TOOL_PREFIX}${slug || 'server'}_`
+}
+
+/**
+ * Proxy for the tools of several external MCP servers
+ */
+export class MCPGateway implements PPTToolGateway {
+  private upstreams: Upstream[] = []
+  private listeners = new Set<() => void>()
+  private closed = false
+
+  /**
+   * @param config - Servers to connect; disabled ones are skipped
+   * @throws When the config is invalid, or one server's prefix starts with
+   * another's: `ext_data_x_foo` could then be `x_foo` on "data" or `foo` on "data x"
+   */
+  constructor(config: GatewayConfig) {
+    const { mcpClients } = GatewayConfigSchema.parse(config)
+    for (const { timeout, ...endpoint } of mcpClients) {
+      if (!endpoint.enabled) continue
+
+      const prefix = getUpstreamPrefix(endpoint.name)
+      const clash = this.upstreams.find(upstream => upstream.prefix.startsWith(prefix) || prefix.startsWith(upstream.prefix))
+      if (clash) {
+        throw new Error(`Gateway servers "${clash.name}" and "${endpoint.name}" have overlapping tool prefixes (${clash.prefix}*, ${prefix}*); rename one`)
+      }
+
+      const client = new MCPClient({ endpoint: { ...endpoint, id: endpoint.id ?? prefix } as MCPClientEndpoint, timeout })
+      const upstream: Upstream = { name: endpoint.name, prefix, client, retry: null }
+      client.addListener((state) => this.onStateChange(upstream, state))
+      this.upstreams.push(upstream)
+    }
+  }
+
+  /**
+   * Connect to every server
+   * Resolves once each has connected or failed; failed servers are retried.
+   */
+  async start(): Promise<void> {
+    await Promise.all(this.upstreams.map(upstream => this.connect(upstream)))
+  }
+
+  private async connect(upstream: Upstream): Promise<void> {
+    upstream.retry = null
+    if (this.closed) return
+    if (await upstream.client.connect()) {
+      console.error(`[Gateway] Connected to ${upstream.name}: ${upstream.client.getTools().length} tools as ${upstream.prefix}*`)
+    }
+  }
+
+  private onStateChange(upstream: Upstream, state: MCPClientState): void {
+    if (state.status === 'error' && !this.closed && !upstream.retry) {
+      console.error(`[Gateway] ${upstream.name} unavailable (${state.error}), retrying in ${RECONNECT_DELAY_MS / 1000}s`)
+      upstream.retry = setTimeout(() => this.connect(upstream), RECONNECT_DELAY_MS)
+      upstream.retry.unref?.()
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener()
+      } catch (e) {
+        console.error('[Gateway] Listener error:', e)
+      }
+    }
+  }
+
+  /**
+   * Tools of every connected server
+   * Tools another gateway republished are skipped, so gateways that point at
+   * each other (or at themselves) do not loop.
+   */
+  listTools(): PPTExternalTool[] {
+    return this.upstreams.flatMap(upstream => upstream.client.getTools()
+      .filter(tool => !tool.name.startsWith(EXTERNAL_TOOL_PREFIX))
+      .map(tool => ({
+        name: `${upstream.prefix}${tool.name}`,
+        title: `${upstream.name}: ${tool.title ?? tool.annotations?.title ?? tool.name}`,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        annotations: tool.annotations ?? {}
+      })))
+  }
+
+  async callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<CallToolResult> {
+    // Prefixes never overlap (see the constructor), so at most one matches
+    const upstream = this.upstreams.find(candidate => name.startsWith(candidate.prefix))
+    if (!upstream) {
+      throw new Error(`No gateway server for tool ${name}`)
+    }
+
+    const state = upstream.client.getState()
+    if (state.status !== 'connected') {
+      throw new Error(`${upstream.name} is unavailable${state.error ? `: ${state.error}` : ''}`)
+    }
+
+    try {
+      return await upstream.client.callToolResult(name.slice(upstream.prefix.length), args, signal)
+    } catch (e) {
+      throw new Error(`${upstream.name}: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * Connection state of every server
+   */
+  getStatus(): GatewayUpstreamStatus[] {
+    return this.upstreams.map(upstream => {
+      const state = upstream.client.getState()
+      return {
+        name: upstream.name,
+        url: upstream.client.getEndpoint().url,
+        prefix: upstream.prefix,
+        status: state.status,
+        transport: state.transport ?? null,
+        error: state.error ?? null,
+        tools: state.tools.length
+      }
+    })
+  }
+
+  /**
+   * Disconnect from every server and stop retrying
+   */
+  async close(): Promise<void> {
+    this.closed = true
+    for (const upstream of this.upstreams) {
+      if (upstream.retry) clearTimeout(upstream.retry)
+      upstream.retry = null
+      await upstream.client.disconnect()
+    }
+  }
+}
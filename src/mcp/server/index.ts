@@ -1,618 +1,314 @@
 /**
  * PPT-KIT MCP Server
  * 
- * Exposes PowerPoint operations as MCP tools for AI assistants.
+ * Exposes PowerPoint operations as MCP tools, resources and prompts for AI assistants.
  * Follows MCP best practices with Zod validation and proper tool annotations.
  * 
  * @module ppt-kit-mcp-server
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import {
-  CreateSlideInputSchema,
-  AddContentInputSchema,
-  GetPresentationInfoInputSchema,
-  MarkdownToSlidesInputSchema,
-  AddCodeBlockInputSchema,
-  AddMermaidDiagramInputSchema,
-  ListSlidesInputSchema,
-  DeleteSlideInputSchema,
-  ResponseFormat,
-  type CreateSlideInput,
-  type AddContentInput,
-  type GetPresentationInfoInput,
-  type MarkdownToSlidesInput,
-  type AddCodeBlockInput,
-  type AddMermaidDiagramInput,
-  type ListSlidesInput,
-  type DeleteSlideInput
-} from '../schemas'
-
-// Character limit for responses
-const CHARACTER_LIMIT = 25000
+import { McpServer, type RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { z as z4 } from 'zod/v4'
+import type {
+  PPTOperations,
+  PPTDocumentRegistry,
+  PPTProgress,
+  PPTBackendCapabilities,
+  PPTExternalTool,
+  PPTToolGateway
+} from './types'
+import { registerPresentationResources } from './resources'
+import { registerPresentationPrompts } from './prompts'
+import { PPT_TOOLS, executeTool, errorResponse, type ToolResult } from './tools'
+import type { ToolGuard } from './policy'
+
+export type {
+  PPTOperations,
+  PPTSlideSummary,
+  PPTPresentationSummary,
+  PPTShapeSummary,
+  PPTShapeQueryOptions,
+  PPTShapeUpdate,
+  PPTShapeZOrder,
+  PPTSlideRef,
+  PPTParagraph,
+  PPTGeneratedSlide,
+  PPTBatchStep,
+  PPTBatchStepResult,
+  PPTBatchResult,
+  PPTHistoryEntry,
+  PPTProgress,
+  PPTOperationOptions,
+  PPTDocumentSummary,
+  PPTDocumentRegistry,
+  PPTBackendCapabilities,
+  PPTExternalTool,
+  PPTToolGateway
+} from './types'
+
+export {
+  PPT_TOOLS,
+  listToolDefinitions,
+  EXTERNAL_TOOL_PREFIX,
+  type ToolDefinition,
+  type ToolContext,
+  type ToolListing
+} from './tools'
+
+export {
+  ToolGuard,
+  isToolPermitted,
+  validateToolPolicy,
+  mergeToolPolicies,
+  type ToolPolicy
+} from './policy'
+
+export {
+  notifyPresentationChanged,
+  PRESENTATION_RESOURCE_URI,
+  type PresentationChange
+} from './resources'
+
+// Default backend used by servers created without an explicit one
+let defaultOperations: PPTOperations | null = null
 
 /**
- * Format response based on requested format
+ * Set the default PPT operations backend
+ * Servers created without an explicit backend pick this up on every tool call.
  */
-function formatResponse<T>(
-  data: T,
-  format: ResponseFormat,
-  markdownFormatter: (data: T) => string
-): { text: string; structured: T } {
-  const text = format === ResponseFormat.MARKDOWN 
-    ? markdownFormatter(data)
-    : JSON.stringify(data, null, 2)
-  
-  return { text, structured: data }
+export function setPPTOperations(operations: PPTOperations | null): void {
+  defaultOperations = operations
+}
+
+/**
+ * Get the default PPT operations backend
+ */
+export function getPPTOperations(): PPTOperations | null {
+  return defaultOperations
+}
+
+// Connected documents, set by servers that bridge several add-ins
+let documentRegistry: PPTDocumentRegistry | null = null
+
+/**
+ * Set the document registry used to route `document_id` requests
+ */
+export function setPPTDocumentRegistry(registry: PPTDocumentRegistry | null): void {
+  documentRegistry = registry
+}
+
+// Completed tool call, reported to PPTServerOptions.onToolCall
+export interface PPTToolCall {
+  tool: string
+  arguments: Record<string, unknown>
+  result: ToolResult
+  startedAt: Date
+  durationMs: number
+}
+
+// Options for createPPTKitMCPServer
+export interface PPTServerOptions {
+  // Client policy: hides forbidden tools and rate-limits calls
+  guard?: ToolGuard
+  // Called after every tool call, including failed and rate-limited ones
+  onToolCall?: (call: PPTToolCall) => void
+  // Methods the backend supports: tools needing others are hidden
+  capabilities?: PPTBackendCapabilities
+  // External MCP servers whose tools are offered too
+  gateway?: PPTToolGateway
+}
+
+/**
+ * Result of an external tool as reported to onToolCall
+ * Content other than text (images, resources) is replaced by its type.
+ */
+function toReportedResult(result: CallToolResult): ToolResult {
+  return {
+    content: result.content.map(item => ({ type: 'text' as const, text: item.type === 'text' ? item.text : `[${item.type}]` })),
+    ...(result.structuredContent ? { structuredContent: result.structuredContent } : {}),
+    ...(result.isError ? { isError: true } : {})
+  }
 }
 
 /**
  * Create and configure the MCP server with all PPT tools
+ *
+ * @param operations - Backend used to execute tools. Defaults to the one set via setPPTOperations().
+ * @param options - Per-client options such as a tool policy
  */
-export function createPPTKitMCPServer(): McpServer {
+export function createPPTKitMCPServer(operations?: PPTOperations, options: PPTServerOptions = {}): McpServer {
+  const { guard, onToolCall, capabilities, gateway } = options
   const server = new McpServer({
     name: 'ppt-kit-mcp-server',
     version: '1.0.0'
   })
 
-  // Tool: ppt_create_slide
-  server.registerTool(
-    'ppt_create_slide',
-    {
-      title: 'Create PPT Slide',
-      description: `Create a new slide in the current PowerPoint presentation.
-
-Args:
-  - title (string, required): Title text for the new slide (1-200 characters)
-  - layout (string, optional): Layout type - 'title', 'content', 'two-column', 'comparison', 'image-focus', 'code-focus'. Default: 'content'
-  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
-
-Returns:
-  For JSON format:
-  {
-    "slide_id": string,      // Unique identifier of the created slide
-    "title": string,         // Title text that was set
-    "layout": string,        // Layout type applied
-    "success": boolean       // Whether creation succeeded
-  }
-
-Examples:
-  - Create title slide: { "title": "Introduction", "layout": "title" }
-  - Create content slide: { "title": "Key Features" }
-  - Create code-focused slide: { "title": "Code Example", "layout": "code-focus" }
-
-Error Handling:
-  - Returns error if PowerPoint is not available
-  - Returns error if title exceeds 200 characters`,
-      inputSchema: CreateSlideInputSchema,
-      annotations: {
-        readOnlyHint: false,
-        destructiveHint: false,
-        idempotentHint: false,
-        openWorldHint: true
-      }
-    },
-    async (params: CreateSlideInput) => {
-      // In browser context, this would call Office.js API
-      // For standalone server, we simulate the response
-      const slideId = `slide-${Date.now()}`
-      
-      const output = {
-        slide_id: slideId,
-        title: params.title,
-        layout: params.layout || 'content',
-        success: true
+  // Resolve the backend lazily so bridge servers can swap it at runtime
+  const resolveOperations = (documentId?: string): PPTOperations => {
+    if (documentId) {
+      if (operations || !documentRegistry) {
+        throw new Error('This server has a single document; omit document_id.')
       }
+      return documentRegistry.getOperations(documentId)
+    }
 
-      const { text, structured } = formatResponse(
-        output,
-        params.response_format || ResponseFormat.JSON,
-        (data) => `# Slide Created\n\n- **ID**: ${data.slide_id}\n- **Title**: ${data.title}\n- **Layout**: ${data.layout}`
-      )
-
-      return {
-        content: [{ type: 'text', text }],
-        structuredContent: structured
-      }
+    const ops = operations ?? defaultOperations
+    if (!ops) {
+      throw new Error('PowerPoint backend not available. Please open the Office Add-in.')
     }
-  )
-
-  // Tool: ppt_add_content
-  server.registerTool(
-    'ppt_add_content',
-    {
-      title: 'Add Content to Slide',
-      description: `Add content to an existing slide in the PowerPoint presentation.
-
-Args:
-  - slide_id (string, required): The ID of the slide to add content to
-  - content (string, required): The content to add (text, code, or base64 image data)
-  - content_type (string, required): Type of content - 'text', 'code', 'image'
-  - position (object, optional): Position and size { x, y, width, height } in points
-  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
-
-Returns:
-  For JSON format:
-  {
-    "slide_id": string,      // ID of the modified slide
-    "content_type": string,  // Type of content added
-    "success": boolean,      // Whether addition succeeded
-    "message": string        // Status message
+    return ops
   }
 
-Examples:
-  - Add text: { "slide_id": "slide-1", "content": "Hello World", "content_type": "text" }
-  - Add code: { "slide_id": "slide-1", "content": "console.log('hi')", "content_type": "code" }
-  - Add with position: { "slide_id": "slide-1", "content": "Text", "content_type": "text", "position": { "x": 100, "y": 100, "width": 400, "height": 200 } }
-
-Error Handling:
-  - Returns error if slide_id is not found
-  - Returns error if content is empty`,
-      inputSchema: AddContentInputSchema,
-      annotations: {
-        readOnlyHint: false,
-        destructiveHint: false,
-        idempotentHint: false,
-        openWorldHint: true
-      }
-    },
-    async (params: AddContentInput) => {
-      const output = {
-        slide_id: params.slide_id,
-        content_type: params.content_type,
-        success: true,
-        message: `${params.content_type} content added successfully`
-      }
+  const listDocuments = () => operations || !documentRegistry ? [] : documentRegistry.listDocuments()
 
-      const { text, structured } = formatResponse(
-        output,
-        params.response_format || ResponseFormat.JSON,
-        (data) => `# Content Added\n\n- **Slide**: ${data.slide_id}\n- **Type**: ${data.content_type}\n- **Status**: ${data.message}`
-      )
-
-      return {
-        content: [{ type: 'text', text }],
-        structuredContent: structured
-      }
+  const reportToolCall = (tool: string, args: Record<string, unknown>, result: ToolResult, startedAt: Date) => {
+    try {
+      onToolCall?.({ tool, arguments: args, result, startedAt, durationMs: Date.now() - startedAt.getTime() })
+    } catch (e) {
+      console.error('[MCP] Tool call listener failed:', e)
     }
-  )
-
-  // Tool: ppt_get_info
-  server.registerTool(
-    'ppt_get_info',
-    {
-      title: 'Get Presentation Info',
-      description: `Get information about the current PowerPoint presentation.
-
-Args:
-  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
-
-Returns:
-  For JSON format:
-  {
-    "slide_count": number,         // Total number of slides
-    "current_slide_index": number, // Index of currently selected slide (0-based)
-    "title": string,               // Presentation title (if available)
-    "author": string               // Author name (if available)
   }
 
-Examples:
-  - Get info: {}
-  - Get as markdown: { "response_format": "markdown" }
-
-Error Handling:
-  - Returns error if PowerPoint is not available
-  - Returns error if no presentation is open`,
-      inputSchema: GetPresentationInfoInputSchema,
-      annotations: {
-        readOnlyHint: true,
-        destructiveHint: false,
-        idempotentHint: true,
-        openWorldHint: true
-      }
-    },
-    async (params: GetPresentationInfoInput) => {
-      // Simulated response - in real context would use Office.js
-      const output = {
-        slide_count: 0,
-        current_slide_index: 0,
-        title: 'Untitled Presentation',
-        author: ''
-      }
-
-      const { text, structured } = formatResponse(
-        output,
-        params.response_format || ResponseFormat.JSON,
-        (data) => `# Presentation Info\n\n- **Slides**: ${data.slide_count}\n- **Current Slide**: ${data.current_slide_index + 1}\n- **Title**: ${data.title || 'Untitled'}`
-      )
-
-      return {
-        content: [{ type: 'text', text }],
-        structuredContent: structured
-      }
+  // Run a cleanup when the client disconnects
+  const onServerClose = (cleanup: () => void) => {
+    const onclose = server.server.onclose
+    server.server.onclose = () => {
+      cleanup()
+      onclose?.()
     }
-  )
-
-  // Tool: ppt_from_markdown
-  server.registerTool(
-    'ppt_from_markdown',
-    {
-      title: 'Generate Slides from Markdown',
-      description: `Generate PowerPoint slides from Markdown content. Automatically parses the markdown structure and creates slides.
-
-Args:
-  - markdown (string, required): Markdown content to convert (max 100000 characters)
-    - Use # or ## headings to create new slides
-    - Use code blocks with language for syntax highlighting
-    - Use \`\`\`mermaid for diagrams
-    - Use lists for bullet points
-  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
-
-Returns:
-  For JSON format:
-  {
-    "slide_count": number,     // Number of slides created
-    "slides": [
-      {
-        "id": string,          // Slide ID
-        "title": string,       // Slide title
-        "layout": string,      // Applied layout
-        "block_count": number  // Number of content blocks
-      }
-    ],
-    "success": boolean
   }
 
-Examples:
-  - Simple slides: { "markdown": "# Title\\n\\nContent here\\n\\n## Slide 2\\n- Point 1\\n- Point 2" }
-  - With code: { "markdown": "# Code Demo\\n\\n\`\`\`javascript\\nconsole.log('hello');\\n\`\`\`" }
-
-Error Handling:
-  - Returns error if markdown is empty
-  - Returns error if markdown exceeds 100000 characters`,
-      inputSchema: MarkdownToSlidesInputSchema,
-      annotations: {
-        readOnlyHint: false,
-        destructiveHint: false,
-        idempotentHint: false,
-        openWorldHint: true
-      }
-    },
-    async (params: MarkdownToSlidesInput) => {
-      // Parse markdown into slides (simplified parsing)
-      const headingRegex = /^#{1,2}\s+(.+)$/gm
-      const slides: Array<{ id: string; title: string; layout: string; block_count: number }> = []
-      let match
-      let index = 0
-
-      while ((match = headingRegex.exec(params.markdown)) !== null) {
-        slides.push({
-          id: `slide-${index++}`,
-          title: match[1],
-          layout: 'content',
-          block_count: 1
-        })
-      }
+  // Tools: one per registry entry (see tools.ts) the client's policy permits
+  const registered: Array<{ handle: RegisteredTool; methods: ReadonlyArray<string> }> = []
+  for (const tool of PPT_TOOLS) {
+    if (guard && !guard.permits(tool)) continue
 
-      // If no headings found, create a single slide
-      if (slides.length === 0) {
-        slides.push({
-          id: 'slide-0',
-          title: 'Untitled',
-          layout: 'content',
-          block_count: 1
-        })
-      }
-
-      const output = {
-        slide_count: slides.length,
-        slides,
-        success: true
-      }
-
-      let text = JSON.stringify(output, null, 2)
-      if (text.length > CHARACTER_LIMIT) {
-        // Truncate slides list
-        const truncatedSlides = slides.slice(0, Math.ceil(slides.length / 2))
-        const truncatedOutput = {
-          ...output,
-          slides: truncatedSlides,
-          truncated: true,
-          truncation_message: `Response truncated from ${slides.length} to ${truncatedSlides.length} slides.`
-        }
-        text = JSON.stringify(truncatedOutput, null, 2)
-      }
+    const handle = server.registerTool(
+      tool.name,
+      {
+        title: tool.title,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        outputSchema: tool.outputSchema,
+        annotations: tool.annotations
+      },
+      async (params, extra) => {
+        const startedAt = new Date()
+        const run = async (): Promise<ToolResult> => {
+          try {
+            guard?.take()
+          } catch (error) {
+            return errorResponse(error)
+          }
 
-      const { text: formattedText, structured } = formatResponse(
-        output,
-        params.response_format || ResponseFormat.JSON,
-        (data) => {
-          const lines = [`# Slides Generated\n`, `Created ${data.slide_count} slides:\n`]
-          for (const slide of data.slides) {
-            lines.push(`## ${slide.title}`)
-            lines.push(`- ID: ${slide.id}`)
-            lines.push(`- Layout: ${slide.layout}`)
-            lines.push('')
+          // Forward progress when the client asked for it
+          const progressToken = extra._meta?.progressToken
+          const onProgress = progressToken === undefined ? undefined : (progress: PPTProgress) => {
+            extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, ...progress }
+            }).catch((e) => console.error('[MCP] Failed to send progress:', e))
           }
-          return lines.join('\n')
+
+          return executeTool(tool, params, {
+            resolveOperations,
+            listDocuments,
+            onProgress,
+            signal: extra.signal
+          })
         }
-      )
 
-      return {
-        content: [{ type: 'text', text: formattedText }],
-        structuredContent: structured
+        const result = await run()
+        reportToolCall(tool.name, params, result, startedAt)
+        return result
       }
-    }
-  )
-
-  // Tool: ppt_add_code_block
-  server.registerTool(
-    'ppt_add_code_block',
-    {
-      title: 'Add Code Block to Slide',
-      description: `Add a syntax-highlighted code block to a slide.
-
-Args:
-  - slide_id (string, required): The ID of the slide
-  - code (string, required): The source code to display (max 50000 characters)
-  - language (string, required): Programming language for syntax highlighting
-  - position (object, optional): Position { x, y, width, height } in points
-  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
-
-Returns:
-  For JSON format:
-  {
-    "slide_id": string,
-    "language": string,
-    "line_count": number,
-    "success": boolean
+    )
+    registered.push({ handle, methods: tool.methods })
   }
 
-Supported Languages:
-  javascript, typescript, python, java, c, cpp, csharp, go, rust, ruby, php, swift, kotlin, sql, html, css, json, yaml, bash, powershell, and more.
-
-Examples:
-  - Add JS code: { "slide_id": "slide-1", "code": "console.log('Hello');", "language": "javascript" }
-  - Add Python: { "slide_id": "slide-1", "code": "print('Hello')", "language": "python" }
-
-Error Handling:
-  - Returns error if slide_id is not found
-  - Returns error if code is empty`,
-      inputSchema: AddCodeBlockInputSchema,
-      annotations: {
-        readOnlyHint: false,
-        destructiveHint: false,
-        idempotentHint: false,
-        openWorldHint: true
-      }
-    },
-    async (params: AddCodeBlockInput) => {
-      const lineCount = params.code.split('\n').length
-
-      const output = {
-        slide_id: params.slide_id,
-        language: params.language,
-        line_count: lineCount,
-        success: true
-      }
-
-      const { text, structured } = formatResponse(
-        output,
-        params.response_format || ResponseFormat.JSON,
-        (data) => `# Code Block Added\n\n- **Slide**: ${data.slide_id}\n- **Language**: ${data.language}\n- **Lines**: ${data.line_count}`
-      )
-
-      return {
-        content: [{ type: 'text', text }],
-        structuredContent: structured
+  // Hide tools the connected add-ins cannot run; enabling or disabling sends list_changed
+  if (capabilities) {
+    const syncTools = () => {
+      const methods = capabilities.getMethods()
+      for (const { handle, methods: needed } of registered) {
+        const available = !methods || needed.every(method => methods.has(method))
+        if (available !== handle.enabled) {
+          if (available) handle.enable()
+          else handle.disable()
+        }
       }
     }
-  )
-
-  // Tool: ppt_add_mermaid_diagram
-  server.registerTool(
-    'ppt_add_mermaid_diagram',
-    {
-      title: 'Add Mermaid Diagram to Slide',
-      description: `Add a Mermaid diagram to a slide. The diagram is rendered as an image.
-
-Args:
-  - slide_id (string, required): The ID of the slide
-  - mermaid_code (string, required): Mermaid diagram syntax (max 20000 characters)
-  - position (object, optional): Position { x, y, width, height } in points
-  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
-
-Returns:
-  For JSON format:
-  {
-    "slide_id": string,
-    "diagram_type": string,  // Detected diagram type (flowchart, sequence, etc.)
-    "success": boolean
+    syncTools()
+    onServerClose(capabilities.onChange(syncTools))
   }
 
-Supported Diagram Types:
-  flowchart, sequence, gantt, class, state, er, journey, pie, quadrant, requirement, gitgraph, mindmap, timeline
-
-Examples:
-  - Flowchart: { "slide_id": "slide-1", "mermaid_code": "flowchart LR\\n  A --> B --> C" }
-  - Sequence: { "slide_id": "slide-1", "mermaid_code": "sequenceDiagram\\n  Alice->>Bob: Hello" }
-
-Error Handling:
-  - Returns error if slide_id is not found
-  - Returns error if mermaid syntax is invalid`,
-      inputSchema: AddMermaidDiagramInputSchema,
-      annotations: {
-        readOnlyHint: false,
-        destructiveHint: false,
-        idempotentHint: false,
-        openWorldHint: true
-      }
-    },
-    async (params: AddMermaidDiagramInput) => {
-      // Detect diagram type from mermaid code
-      const typeMatch = params.mermaid_code.match(/^(flowchart|graph|sequenceDiagram|gantt|classDiagram|stateDiagram|erDiagram|journey|pie|quadrantChart|requirementDiagram|gitGraph|mindmap|timeline)/m)
-      const diagramType = typeMatch ? typeMatch[1] : 'unknown'
-
-      const output = {
-        slide_id: params.slide_id,
-        diagram_type: diagramType,
-        success: true
-      }
-
-      const { text, structured } = formatResponse(
-        output,
-        params.response_format || ResponseFormat.JSON,
-        (data) => `# Mermaid Diagram Added\n\n- **Slide**: ${data.slide_id}\n- **Type**: ${data.diagram_type}`
-      )
-
-      return {
-        content: [{ type: 'text', text }],
-        structuredContent: structured
-      }
-    }
-  )
-
-  // Tool: ppt_list_slides
-  server.registerTool(
-    'ppt_list_slides',
-    {
-      title: 'List Slides',
-      description: `List all slides in the current presentation with pagination support.
-
-Args:
-  - limit (number, optional): Maximum slides to return (1-100). Default: 20
-  - offset (number, optional): Number of slides to skip. Default: 0
-  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
-
-Returns:
-  For JSON format:
-  {
-    "total": number,           // Total number of slides
-    "count": number,           // Number of slides in this response
-    "offset": number,          // Current offset
-    "slides": [
+  // External tools: registered and removed as their servers connect, change or drop
+  if (gateway) {
+    const registerExternalTool = (tool: PPTExternalTool): RegisteredTool => server.registerTool(
+      tool.name,
       {
-        "id": string,
-        "index": number,
-        "title": string,
-        "layout": string
-      }
-    ],
-    "has_more": boolean,       // Whether more slides are available
-    "next_offset": number      // Offset for next page (if has_more)
-  }
-
-Examples:
-  - List all: {}
-  - Paginate: { "limit": 10, "offset": 10 }
-
-Error Handling:
-  - Returns empty list if no presentation is open`,
-      inputSchema: ListSlidesInputSchema,
-      annotations: {
-        readOnlyHint: true,
-        destructiveHint: false,
-        idempotentHint: true,
-        openWorldHint: true
+        title: tool.title,
+        description: tool.description,
+        // Lists the external server's JSON Schema and passes any arguments on; that server validates them
+        inputSchema: z4.looseObject({}).meta(tool.inputSchema),
+        annotations: tool.annotations
+      },
+      async (params, extra) => {
+        const startedAt = new Date()
+        let result: CallToolResult
+        try {
+          guard?.take()
+          result = await gateway.callTool(tool.name, params, extra.signal)
+        } catch (error) {
+          result = errorResponse(error)
+        }
+        reportToolCall(tool.name, params, toReportedResult(result), startedAt)
+        return result
       }
-    },
-    async (params: ListSlidesInput) => {
-      // Simulated response
-      const allSlides: Array<{ id: string; index: number; title: string; layout: string }> = []
-      const total = allSlides.length
-      const offset = params.offset || 0
-      const limit = params.limit || 20
-      const paginatedSlides = allSlides.slice(offset, offset + limit)
-
-      const output = {
-        total,
-        count: paginatedSlides.length,
-        offset,
-        slides: paginatedSlides,
-        has_more: total > offset + paginatedSlides.length,
-        ...(total > offset + paginatedSlides.length ? { next_offset: offset + paginatedSlides.length } : {})
+    )
+
+    // Registered external tools with the definition they were registered with
+    const external = new Map<string, { handle: RegisteredTool; definition: string }>()
+    const syncExternalTools = () => {
+      const tools = gateway.listTools().filter(tool => !guard || guard.permits(tool))
+      const names = new Set(tools.map(tool => tool.name))
+      for (const [name, { handle }] of external) {
+        if (names.has(name)) continue
+        handle.remove()
+        external.delete(name)
       }
-
-      const { text, structured } = formatResponse(
-        output,
-        params.response_format || ResponseFormat.JSON,
-        (data) => {
-          if (data.slides.length === 0) {
-            return '# Slides\n\nNo slides found in the presentation.'
-          }
-          const lines = [`# Slides (${data.count} of ${data.total})\n`]
-          for (const slide of data.slides) {
-            lines.push(`## ${slide.index + 1}. ${slide.title || 'Untitled'}`)
-            lines.push(`- ID: ${slide.id}`)
-            lines.push(`- Layout: ${slide.layout}`)
-            lines.push('')
-          }
-          if (data.has_more) {
-            lines.push(`*More slides available. Use offset=${data.next_offset} to see next page.*`)
-          }
-          return lines.join('\n')
+      // A name can only be registered once: keep the first tool and log the rest
+      const seen = new Set<string>()
+      for (const tool of tools) {
+        if (seen.has(tool.name)) {
+          console.error(`[MCP] Skipping duplicate gateway tool ${tool.name}`)
+          continue
+        }
+        seen.add(tool.name)
+
+        const definition = JSON.stringify(tool)
+        const current = external.get(tool.name)
+        if (current?.definition === definition) continue
+        current?.handle.remove()
+        external.delete(tool.name)
+        try {
+          external.set(tool.name, { handle: registerExternalTool(tool), definition })
+        } catch (e) {
+          // e.g. the name of a built-in tool
+          console.error(`[MCP] Skipping gateway tool ${tool.name}: ${e instanceof Error ? e.message : e}`)
         }
-      )
-
-      return {
-        content: [{ type: 'text', text }],
-        structuredContent: structured
       }
     }
-  )
-
-  // Tool: ppt_delete_slide
-  server.registerTool(
-    'ppt_delete_slide',
-    {
-      title: 'Delete Slide',
-      description: `Delete a slide from the presentation.
-
-Args:
-  - slide_id (string, required): The ID of the slide to delete
-  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
-
-Returns:
-  For JSON format:
-  {
-    "slide_id": string,
-    "success": boolean,
-    "message": string
+    syncExternalTools()
+    onServerClose(gateway.onChange(syncExternalTools))
   }
 
-Examples:
-  - Delete: { "slide_id": "slide-1" }
-
-Error Handling:
-  - Returns error if slide_id is not found
-  - Returns error if trying to delete the only slide`,
-      inputSchema: DeleteSlideInputSchema,
-      annotations: {
-        readOnlyHint: false,
-        destructiveHint: true,
-        idempotentHint: true,
-        openWorldHint: true
-      }
-    },
-    async (params: DeleteSlideInput) => {
-      const output = {
-        slide_id: params.slide_id,
-        success: true,
-        message: 'Slide deleted successfully'
-      }
-
-      const { text, structured } = formatResponse(
-        output,
-        params.response_format || ResponseFormat.JSON,
-        (data) => `# Slide Deleted\n\n- **ID**: ${data.slide_id}\n- **Status**: ${data.message}`
-      )
+  // Resources: ppt://presentation, ppt://slides/{slideId}, ppt://slides/{slideId}/shapes
+  registerPresentationResources(server, resolveOperations)
 
-      return {
-        content: [{ type: 'text', text }],
-        structuredContent: structured
-      }
-    }
-  )
+  // Prompts: ppt_outline_to_deck, ppt_code_walkthrough, ppt_speaker_notes, ppt_document_to_talk
+  registerPresentationPrompts(server, resolveOperations)
 
   return server
 }
@@ -0,0 +1,22 @@
+/**
+ * In-Memory Presentation Backend
+ *
+ * Offline deck mode: builds slides without PowerPoint and saves them as .pptx.
+ */
+
+export {
+  InMemoryPresentation,
+  detectImageFormat,
+  MEMORY_SLIDE_WIDTH,
+  MEMORY_SLIDE_HEIGHT,
+  type InMemoryPresentationOptions,
+  type MemorySlide,
+  type MemoryShape,
+  type MemoryTextShape,
+  type MemoryRectShape,
+  type MemoryImageShape,
+  type MemoryTableShape,
+  type MemoryImageFormat
+} from './presentation.js'
+export { createInMemoryOperations, type InMemoryOperationsOptions } from './operations.js'
+export { writePptx, savePptx } from './pptx-writer.js'
@@ -0,0 +1,488 @@
+/**
+ * In-Memory PPT Operations
+ *
+ * PPTOperations backend that builds slides in an InMemoryPresentation
+ * and saves them as .pptx. Used by stdio/offline mode where no
+ * PowerPoint instance is connected.
+ */
+
+import { isAbsolute, relative, resolve, sep } from 'path'
+import type {
+  PPTOperations,
+  PPTOperationOptions,
+  PPTSaveOptions,
+  PPTGeneratedSlide,
+  PPTBatchStep,
+  PPTBatchStepResult,
+  PPTShapeQueryOptions,
+  PPTShapeSummary,
+  PPTShapeUpdate,
+  PPTShapeZOrder,
+  PPTSlideRef
+} from '../types.js'
+import type { Position } from '../../schemas/index.js'
+import type { ContentBlock } from '../../../types/index.js'
+import { parseMarkdown } from '../../../modules/markdown/parser.js'
+import { calculateLayout } from '../../../modules/layout/engine.js'
+import { findSlideByRef, PPTKIT_ID_TAG } from '../../../modules/ppt-bridge/operations/references.js'
+import { InMemoryPresentation, MEMORY_SLIDE_WIDTH, type MemoryShape } from './presentation.js'
+import { savePptx } from './pptx-writer.js'
+
+export interface InMemoryOperationsOptions {
+  // Directory savePresentation writes into (default: working directory)
+  outputDir?: string
+}
+
+const MERMAID_TYPE_REGEX = /^(flowchart|graph|sequenceDiagram|gantt|classDiagram|stateDiagram|erDiagram|journey|pie|quadrantChart|requirementDiagram|gitGraph|mindmap|timeline)/m
+
+// Office.js ShapeType reported for each in-memory shape kind
+const SHAPE_TYPES: Record<MemoryShape['kind'], string> = {
+  text: 'TextBox',
+  rect: 'GeometricShape',
+  image: 'Image',
+  table: 'Table'
+}
+
+/**
+ * Get title rectangle based on layout type (mirrors ppt-bridge getTitleRect)
+ */
+function getTitleRect(layout: string): Position {
+  switch (layout) {
+    case 'title':
+      return { x: 40, y: 200, width: MEMORY_SLIDE_WIDTH - 80, height: 120 }
+    case 'code-focus':
+      return { x: 40, y: 20, width: MEMORY_SLIDE_WIDTH - 80, height: 60 }
+    default:
+      return { x: 40, y: 40, width: MEMORY_SLIDE_WIDTH - 80, height: 80 }
+  }
+}
+
+/**
+ * Add a parsed content block to a slide (mirrors ppt-bridge generator)
+ */
+function addBlock(presentation: InMemoryPresentation, slideId: string, block: ContentBlock, rect: Position): void {
+  switch (block.type) {
+    case 'text':
+      presentation.addTextBox(slideId, block.content, rect, {
+        fontSize: block.style?.fontSize ?? 18,
+        bold: block.style?.fontWeight === 'bold',
+        fillColor: block.style?.backgroundColor
+      })
+      break
+
+    case 'list': {
+      const bulletText = block.content
+        .split('\n')
+        .map(item => `• ${item.trim()}`)
+        .join('\n')
+      presentation.addTextBox(slideId, bulletText, rect, { fontSize: 16 })
+      break
+    }
+
+    case 'code':
+      addCodeBlock(presentation, slideId, block.content, rect, 12, 5)
+      break
+
+    case 'mermaid':
+      presentation.addTextBox(slideId, `[Mermaid Diagram]\n${block.content.substring(0, 200)}...`, rect, {
+        fontSize: 12,
+        fontName: 'Consolas',
+        fillColor: '#F5F5F5'
+      })
+      break
+
+    case 'image':
+      presentation.addTextBox(slideId, '[Image Placeholder]', rect, {
+        fillColor: '#E8E8E8',
+        verticalAlignment: 'middle',
+        alignment: 'center'
+      })
+      break
+  }
+}
+
+/**
+ * Add a code block (dark background + monospace text)
+ */
+function addCodeBlock(
+  presentation: InMemoryPresentation,
+  slideId: string,
+  code: string,
+  rect: Position,
+  fontSize: number,
+  padding: number
+): string {
+  presentation.addRectangle(slideId, {
+    x: Math.max(0, rect.x - padding),
+    y: Math.max(0, rect.y - padding),
+    width: rect.width + padding * 2,
+    height: rect.height + padding * 2
+  }, '#1E1E1E', 'CodeBackground')
+
+  return presentation.addTextBox(slideId, code, rect, {
+    name: 'CodeBlock',
+    fontSize,
+    fontName: 'Consolas',
+    color: '#D4D4D4'
+  }).id
+}
+
+/**
+ * Describe an in-memory shape the way the Office.js backend does
+ */
+function toShapeSummary(shape: MemoryShape, options: PPTShapeQueryOptions): PPTShapeSummary {
+  const summary: PPTShapeSummary = {
+    id: shape.id,
+    name: shape.name,
+    type: SHAPE_TYPES[shape.kind],
+    left: shape.x,
+    top: shape.y,
+    width: shape.width,
+    height: shape.height,
+    text: shape.kind === 'text' ? shape.text : undefined,
+    isTitle: shape.kind === 'text' && shape.name === 'Title' ? true : undefined
+  }
+  if (!options.includeFormatting) return summary
+
+  summary.tags = {}
+  if (shape.kind === 'text') {
+    const font = { name: shape.fontName || 'Calibri', size: shape.fontSize, bold: shape.bold ?? false, color: shape.color || '#000000' }
+    summary.paragraphs = shape.text.split('\n').map(text => ({
+      text,
+      horizontalAlignment: shape.alignment ? shape.alignment.charAt(0).toUpperCase() + shape.alignment.slice(1) : 'Left',
+      runs: text ? [{ text, font }] : []
+    }))
+    summary.fill = shape.fillColor ? { type: 'Solid', foregroundColor: shape.fillColor, transparency: 0 } : { type: 'NoFill' }
+    summary.line = { visible: false }
+  } else if (shape.kind === 'rect') {
+    summary.fill = { type: 'Solid', foregroundColor: shape.fillColor, transparency: 0 }
+    summary.line = { visible: shape.lineVisible }
+  }
+  return summary
+}
+
+/**
+ * Apply a shape update to an in-memory shape
+ *
+ * Validates every field before changing anything, so an unsupported
+ * field leaves the shape untouched.
+ */
+function applyShapeUpdate(shape: MemoryShape, update: PPTShapeUpdate): void {
+  const textChanges = update.text !== undefined || update.font || update.horizontalAlignment || update.verticalAlignment
+  if (textChanges && shape.kind !== 'text') {
+    throw new Error(`Shape ${shape.id} is a ${SHAPE_TYPES[shape.kind]} and has no text`)
+  }
+  if (update.fillColor !== undefined && shape.kind !== 'text' && shape.kind !== 'rect') {
+    throw new Error(`Shape ${shape.id} is a ${SHAPE_TYPES[shape.kind]} and has no fill`)
+  }
+  if (update.fillColor === null && shape.kind === 'rect') {
+    throw new Error('Removing the fill of a rectangle is not supported by the in-memory backend')
+  }
+  if (update.font?.italic !== undefined || update.font?.underline !== undefined) {
+    throw new Error('Italic and underline are not supported by the in-memory backend')
+  }
+  if (update.horizontalAlignment === 'justify') {
+    throw new Error('Justified text is not supported by the in-memory backend')
+  }
+  if (update.verticalAlignment === 'bottom') {
+    throw new Error('Bottom-aligned text is not supported by the in-memory backend')
+  }
+
+  if (update.name !== undefined) shape.name = update.name
+  if (update.left !== undefined) shape.x = update.left
+  if (update.top !== undefined) shape.y = update.top
+  if (update.width !== undefined) shape.width = update.width
+  if (update.height !== undefined) shape.height = update.height
+
+  if (shape.kind === 'rect' && update.fillColor) {
+    shape.fillColor = update.fillColor
+  }
+  if (shape.kind !== 'text') return
+
+  if (update.fillColor !== undefined) shape.fillColor = update.fillColor ?? undefined
+  if (update.text !== undefined) shape.text = update.text
+  if (update.font?.name !== undefined) shape.fontName = update.font.name
+  if (update.font?.size !== undefined) shape.fontSize = update.font.size
+  if (update.font?.bold !== undefined) shape.bold = update.font.bold
+  if (update.font?.color !== undefined) shape.color = update.font.color
+  if (update.horizontalAlignment) shape.alignment = update.horizontalAlignment
+  if (update.verticalAlignment) shape.verticalAlignment = update.verticalAlignment
+}
+
+/**
+ * Resolve a batch slide ID or `$<step index>` reference (mirrors ppt-bridge batch)
+ */
+function resolveBatchSlideRef(ref: string, createdSlides: Map<number, string>): string {
+  const match = ref.match(/^\$(\d+)$/)
+  if (!match) return ref
+
+  const slideId = createdSlides.get(parseInt(match[1], 10))
+  if (!slideId) {
+    throw new Error(`Slide reference ${ref} does not point to a slide created by an earlier step`)
+  }
+  return slideId
+}
+
+/**
+ * Create PPT operations backed by an in-memory presentation
+ */
+export function createInMemoryOperations(
+  presentation: InMemoryPresentation = new InMemoryPresentation(),
+  options: InMemoryOperationsOptions = {}
+): PPTOperations {
+  const outputDir = resolve(options.outputDir ?? process.cwd())
+
+  const summarize = (index: number) => {
+    const slide = presentation.slides[index]
+    return { id: slide.id, index, title: slide.title, layout: slide.layout }
+  }
+
+  const operations: PPTOperations = {
+    async getPresentationInfo() {
+      return {
+        slideCount: presentation.slides.length,
+        currentSlideIndex: presentation.currentSlideIndex,
+        title: presentation.title,
+        author: presentation.author,
+        slides: presentation.slides.map((_, i) => summarize(i))
+      }
+    },
+
+    async createSlide(title: string, layout = 'content', index?: number) {
+      const slide = presentation.addSlide(title, layout, index)
+      if (title) {
+        presentation.addTextBox(slide.id, title, getTitleRect(layout), {
+          name: 'Title',
+          fontSize: layout === 'title' ? 44 : 32,
+          bold: true,
+          verticalAlignment: 'middle',
+          alignment: 'center'
+        })
+      }
+      return { slideId: slide.id, index: presentation.indexOf(slide.id) }
+    },
+
+    async deleteSlide(slideId: string) {
+      presentation.deleteSlide(slideId)
+    },
+
+    async deleteSlideRange(startIndex: number, count: number) {
+      const total = presentation.slides.length
+      if (count < 1 || startIndex < 0 || startIndex + count > total) {
+        throw new Error(`Slide range ${startIndex}-${startIndex + count - 1} out of range (0-${total - 1})`)
+      }
+      const slideIds = presentation.slides.slice(startIndex, startIndex + count).map(slide => slide.id)
+      slideIds.forEach(slideId => presentation.deleteSlide(slideId))
+      return { slideIds }
+    },
+
+    async duplicateSlide(slideId: string, index?: number) {
+      const copy = presentation.duplicateSlide(slideId, index)
+      return { slideId: copy.id, index: presentation.indexOf(copy.id) }
+    },
+
+    async moveSlide(slideId: string, index: number) {
+      const fromIndex = presentation.indexOf(slideId)
+      presentation.moveSlide(slideId, index)
+      return { fromIndex, index }
+    },
+
+    async resolveSlide(ref: PPTSlideRef) {
+      const index = findSlideByRef(ref, presentation.slides)
+      return { slideId: presentation.slides[index].id, index }
+    },
+
+    async addText(slideId: string, content: string, position?: Position) {
+      presentation.addTextBox(slideId, content, position || { x: 40, y: 140, width: 880, height: 360 }, {
+        fontSize: 18,
+        fontName: 'Segoe UI'
+      })
+    },
+
+    async addCode(slideId: string, code: string, _language: string, position?: Position) {
+      addCodeBlock(presentation, slideId, code, position || { x: 40, y: 140, width: 880, height: 380 }, 14, 10)
+      return { lineCount: code.split('\n').length }
+    },
+
+    async addMermaid(slideId: string, mermaidCode: string, position?: Position) {
+      // Mermaid rendering needs a browser, so keep the source as a styled placeholder
+      const typeMatch = mermaidCode.match(MERMAID_TYPE_REGEX)
+      const diagramType = typeMatch ? typeMatch[1] : 'unknown'
+      presentation.addTextBox(slideId, `[Mermaid Diagram: ${diagramType}]\n${mermaidCode}`, position || { x: 100, y: 140, width: 760, height: 360 }, {
+        name: `MermaidDiagram_${diagramType}`,
+        fontSize: 12,
+        fontName: 'Consolas',
+        fillColor: '#F5F5F5'
+      })
+      return { diagramType }
+    },
+
+    async addImage(slideId: string, imageData: string, position?: Position) {
+      presentation.addImage(slideId, imageData, position || { x: 100, y: 100, width: 760, height: 400 })
+    },
+
+    async addTable(slideId: string, headers: string[], rows: string[][], position?: Position) {
+      presentation.addTable(slideId, headers, rows, position || { x: 40, y: 140, width: 880, height: 360 })
+    },
+
+    async getSlideShapes(slideId: string, options: PPTShapeQueryOptions = {}) {
+      return presentation.getSlide(slideId).shapes.map(shape => toShapeSummary(shape, options))
+    },
+
+    async updateShape(slideId: string, shapeId: string, update: PPTShapeUpdate) {
+      applyShapeUpdate(presentation.getShape(slideId, shapeId), update)
+    },
+
+    async deleteShape(slideId: string, shapeId: string) {
+      presentation.deleteShape(slideId, shapeId)
+    },
+
+    async reorderShape(slideId: string, shapeId: string, position: PPTShapeZOrder) {
+      return { zOrderPosition: presentation.reorderShape(slideId, shapeId, position) }
+    },
+
+    async listSlides(limit: number, offset: number) {
+      const endIndex = Math.min(offset + limit, presentation.slides.length)
+      const slides = []
+      for (let i = offset; i < endIndex; i++) {
+        slides.push(summarize(i))
+      }
+      return {
+        total: presentation.slides.length,
+        slides,
+        hasMore: endIndex < presentation.slides.length
+      }
+    },
+
+    async generateFromMarkdown(markdown: string, options: PPTOperationOptions = {}) {
+      const parsed = await parseMarkdown(markdown)
+      const created: PPTGeneratedSlide[] = []
+      for (const slideContent of parsed) {
+        if (options.signal?.aborted) {
+          throw new Error(`Generation cancelled after ${created.length} of ${parsed.length} slides`)
+        }
+
+        const slide = presentation.addSlide(slideContent.title, slideContent.layout)
+        slide.tags = { [PPTKIT_ID_TAG]: slideContent.id }
+        const layout = calculateLayout(slideContent)
+
+        if (slideContent.title) {
+          presentation.addTextBox(slide.id, slideContent.title, layout.title, {
+            name: 'Title',
+            fontSize: 32,
+            bold: true,
+            verticalAlignment: 'middle',
+            alignment: 'center'
+          })
+        }
+
+        slideContent.blocks.forEach((block, i) => {
+          const rect = layout.blocks[i]
+          if (rect) addBlock(presentation, slide.id, block, rect)
+        })
+
+        created.push({
+          id: slide.id,
+          title: slideContent.title,
+          layout: slideContent.layout,
+          blockCount: slideContent.blocks.length
+        })
+        options.onProgress?.({
+          progress: created.length,
+          total: parsed.length,
+          message: `Generated slide ${created.length}/${parsed.length}: ${slideContent.title || 'Untitled'}`
+        })
+      }
+
+      return { slideCount: created.length, slides: created }
+    },
+
+    async savePresentation(filePath: string, { overwrite = false }: PPTSaveOptions = {}) {
+      const absolutePath = resolve(outputDir, filePath)
+      const inOutputDir = relative(outputDir, absolutePath)
+      if (!inOutputDir || inOutputDir === '..' || inOutputDir.startsWith(`..${sep}`) || isAbsolute(inOutputDir)) {
+        throw new Error(`File path must be inside the output directory ${outputDir}`)
+      }
+
+      let bytes: number
+      try {
+        bytes = await savePptx(presentation, absolutePath, overwrite)
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'EEXIST') {
+          throw new Error(`File already exists: ${inOutputDir}. Pass overwrite: true to replace it.`)
+        }
+        throw e
+      }
+      return { filePath: absolutePath, slideCount: presentation.slides.length, bytes }
+    },
+
+    async runBatch(steps: PPTBatchStep[]) {
+      const results: PPTBatchStepResult[] = steps.map((step, index) => ({ index, op: step.op, status: 'skipped' }))
+      const createdSlides = new Map<number, string>()
+      const createdShapes: Array<{ slideId: string; shapeId: string }> = []
+      let failure: string | undefined
+
+      for (let i = 0; i < steps.length; i++) {
+        const step = steps[i]
+        try {
+          if (step.op === 'createSlide') {
+            const { slideId } = await operations.createSlide(step.title, step.layout)
+            createdSlides.set(i, slideId)
+            const shapeIds = presentation.getSlide(slideId).shapes.map(shape => shape.id)
+            results[i] = { index: i, op: step.op, status: 'ok', slideId, shapeIds }
+            continue
+          }
+
+          const slideId = resolveBatchSlideRef(step.slideId, createdSlides)
+          const before = presentation.getSlide(slideId).shapes.length
+          switch (step.op) {
+            case 'addText':
+              await operations.addText(slideId, step.content, step.position)
+              break
+            case 'addCode':
+              await operations.addCode(slideId, step.code, step.language, step.position)
+              break
+            case 'addMermaid':
+              await operations.addMermaid(slideId, step.mermaidCode, step.position)
+              break
+            case 'addImage':
+              await operations.addImage(slideId, step.imageData, step.position)
+              break
+          }
+
+          const shapeIds = presentation.getSlide(slideId).shapes.slice(before).map(shape => shape.id)
+          if (![...createdSlides.values()].includes(slideId)) {
+            shapeIds.forEach(shapeId => createdShapes.push({ slideId, shapeId }))
+          }
+          results[i] = { index: i, op: step.op, status: 'ok', slideId, shapeIds }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error'
+          results[i] = { index: i, op: step.op, status: 'failed', error: message }
+          failure = `Step ${i} failed: ${message}`
+          break
+        }
+      }
+
+      if (!failure) {
+        return { success: true, steps: results, rolledBack: false }
+      }
+
+      // Roll back: shapes on existing slides first, then the created slides
+      for (const { slideId, shapeId } of createdShapes.reverse()) {
+        presentation.deleteShape(slideId, shapeId)
+      }
+      for (const slideId of createdSlides.values()) {
+        presentation.deleteSlide(slideId)
+      }
+
+      return {
+        success: false,
+        steps: results.map(result => result.status === 'ok' ? { ...result, status: 'rolled_back' as const } : result),
+        rolledBack: true,
+        error: failure
+      }
+    }
+  }
+
+  return operations
+}
@@ -0,0 +1,295 @@
+/**
+ * PPTX Writer
+ *
+ * Serializes an InMemoryPresentation to an Office Open XML (.pptx) package.
+ * Emits a single master/layout/theme and one part per slide.
+ * @see https://learn.microsoft.com/en-us/office/open-xml/presentation/structure-of-a-presentationml-document
+ */
+
+import { writeFile } from 'fs/promises'
+import { createZip, type ZipEntry } from './zip.js'
+import {
+  MEMORY_SLIDE_WIDTH,
+  MEMORY_SLIDE_HEIGHT,
+  type InMemoryPresentation,
+  type MemoryShape,
+  type MemorySlide,
+  type MemoryTextShape,
+  type MemoryImageFormat
+} from './presentation.js'
+
+// 1 point = 12700 EMU
+const EMU_PER_POINT = 12700
+
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main'
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const NS_P = 'http://schemas.openxmlformats.org/presentationml/2006/main'
+const REL_BASE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const XML_DECL = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+const IMAGE_CONTENT_TYPES: Record<MemoryImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif'
+}
+
+/**
+ * Escape text for XML content and attributes
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Strip control characters not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+function emu(points: number): number {
+  return Math.round(points * EMU_PER_POINT)
+}
+
+function hex(color: string): string {
+  return color.replace('#', '').toUpperCase()
+}
+
+function xfrm(shape: MemoryShape): string {
+  return `<a:xfrm><a:off x="${emu(shape.x)}" y="${emu(shape.y)}"/><a:ext cx="${emu(shape.width)}" cy="${emu(shape.height)}"/></a:xfrm>`
+}
+
+function relationships(rels: Array<{ id: string; type: string; target: string }>): string {
+  const items = rels
+    .map(rel => `<Relationship Id="${rel.id}" Type="${REL_BASE}/${rel.type}" Target="${rel.target}"/>`)
+    .join('')
+  return `${XML_DECL}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${items}</Relationships>`
+}
+
+/**
+ * Build text paragraphs for a text body
+ */
+function paragraphs(text: string, style: Pick<MemoryTextShape, 'fontSize' | 'fontName' | 'bold' | 'color' | 'alignment'>): string {
+  const algn = style.alignment === 'center' ? 'ctr' : style.alignment === 'right' ? 'r' : 'l'
+  const runProps = [
+    `lang="en-US"`,
+    `sz="${Math.round(style.fontSize * 100)}"`,
+    style.bold ? 'b="1"' : '',
+    'dirty="0"'
+  ].filter(Boolean).join(' ')
+  const runChildren = [
+    style.color ? `<a:solidFill><a:srgbClr val="${hex(style.color)}"/></a:solidFill>` : '',
+    style.fontName ? `<a:latin typeface="${escapeXml(style.fontName)}"/><a:cs typeface="${escapeXml(style.fontName)}"/>` : ''
+  ].join('')
+
+  return text.split('\n').map(line => {
+    if (!line) {
+      return `<a:p><a:pPr algn="${algn}"/><a:endParaRPr ${runProps}/></a:p>`
+    }
+    return `<a:p><a:pPr algn="${algn}"/><a:r><a:rPr ${runProps}>${runChildren}</a:rPr><a:t>${escapeXml(line)}</a:t></a:r></a:p>`
+  }).join('')
+}
+
+function textShapeXml(shape: MemoryTextShape): string {
+  const fill = shape.fillColor
+    ? `<a:solidFill><a:srgbClr val="${hex(shape.fillColor)}"/></a:solidFill>`
+    : '<a:noFill/>'
+  const anchor = shape.verticalAlignment === 'middle' ? 'ctr' : 't'
+
+  return `<p:sp><p:nvSpPr><p:cNvPr id="${shape.id}" name="${escapeXml(shape.name)}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+    `<p:spPr>${xfrm(shape)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>${fill}</p:spPr>` +
+    `<p:txBody><a:bodyPr wrap="square" rtlCol="0" anchor="${anchor}"><a:normAutofit/></a:bodyPr><a:lstStyle/>${paragraphs(shape.text, shape)}</p:txBody></p:sp>`
+}
+
+function shapeXml(shape: MemoryShape, imageRelIds: Map<string, string>): string {
+  switch (shape.kind) {
+    case 'text':
+      return textShapeXml(shape)
+
+    case 'rect':
+      return `<p:sp><p:nvSpPr><p:cNvPr id="${shape.id}" name="${escapeXml(shape.name)}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>` +
+        `<p:spPr>${xfrm(shape)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:solidFill><a:srgbClr val="${hex(shape.fillColor)}"/></a:solidFill>` +
+        `${shape.lineVisible ? '' : '<a:ln><a:noFill/></a:ln>'}</p:spPr></p:sp>`
+
+    case 'image':
+      return `<p:pic><p:nvPicPr><p:cNvPr id="${shape.id}" name="${escapeXml(shape.name)}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>` +
+        `<p:blipFill><a:blip r:embed="${imageRelIds.get(shape.id)}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+        `<p:spPr>${xfrm(shape)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`
+
+    case 'table': {
+      const columnWidth = emu(shape.width / shape.headers.length)
+      const rowHeight = emu(shape.height / (shape.rows.length + 1))
+      const cell = (text: string, bold: boolean) =>
+        `<a:tc><a:txBody><a:bodyPr/><a:lstStyle/>${paragraphs(text, { fontSize: 14, bold })}</a:txBody><a:tcPr/></a:tc>`
+      const rows = [shape.headers, ...shape.rows]
+        .map((row, i) => `<a:tr h="${rowHeight}">${row.map(text => cell(text, i === 0)).join('')}</a:tr>`)
+        .join('')
+
+      return `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${shape.id}" name="${escapeXml(shape.name)}"/><p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr>` +
+        `<p:xfrm><a:off x="${emu(shape.x)}" y="${emu(shape.y)}"/><a:ext cx="${emu(shape.width)}" cy="${emu(shape.height)}"/></p:xfrm>` +
+        `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl><a:tblPr firstRow="1" bandRow="1"/>` +
+        `<a:tblGrid>${shape.headers.map(() => `<a:gridCol w="${columnWidth}"/>`).join('')}</a:tblGrid>${rows}</a:tbl></a:graphicData></a:graphic></p:graphicFrame>`
+    }
+  }
+}
+
+function slideXml(slide: MemorySlide, imageRelIds: Map<string, string>): string {
+  return `${XML_DECL}<p:sld xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:cSld><p:spTree>` +
+    '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+    '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>' +
+    `${slide.shapes.map(shape => shapeXml(shape, imageRelIds)).join('')}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`
+}
+
+function presentationXml(slideCount: number): string {
+  const slideIds = Array.from({ length: slideCount }, (_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 2}"/>`).join('')
+  return `${XML_DECL}<p:presentation xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}" saveSubsetFonts="1">` +
+    '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+    `${slideCount > 0 ? `<p:sldIdLst>${slideIds}</p:sldIdLst>` : ''}` +
+    `<p:sldSz cx="${emu(MEMORY_SLIDE_WIDTH)}" cy="${emu(MEMORY_SLIDE_HEIGHT)}"/><p:notesSz cx="6858000" cy="9144000"/>` +
+    '<p:defaultTextStyle><a:defPPr><a:defRPr lang="en-US"/></a:defPPr></p:defaultTextStyle></p:presentation>'
+}
+
+const SLIDE_MASTER_XML = `${XML_DECL}<p:sldMaster xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>` +
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr></p:spTree></p:cSld>' +
+  '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+  '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>' +
+  '<p:txStyles><p:titleStyle><a:lvl1pPr><a:defRPr sz="4400"/></a:lvl1pPr></p:titleStyle><p:bodyStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:bodyStyle><p:otherStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:otherStyle></p:txStyles></p:sldMaster>'
+
+const SLIDE_LAYOUT_XML = `${XML_DECL}<p:sldLayout xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}" type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>` +
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr></p:spTree></p:cSld>' +
+  '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>'
+
+function solidStyle(count: number): string {
+  return Array.from({ length: count }, () => '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>').join('')
+}
+
+const THEME_XML = `${XML_DECL}<a:theme xmlns:a="${NS_A}" name="PPT-Kit"><a:themeElements>` +
+  '<a:clrScheme name="PPT-Kit"><a:dk1><a:srgbClr val="000000"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1>' +
+  '<a:dk2><a:srgbClr val="323130"/></a:dk2><a:lt2><a:srgbClr val="F3F2F1"/></a:lt2>' +
+  '<a:accent1><a:srgbClr val="0078D4"/></a:accent1><a:accent2><a:srgbClr val="D83B01"/></a:accent2>' +
+  '<a:accent3><a:srgbClr val="107C10"/></a:accent3><a:accent4><a:srgbClr val="5C2D91"/></a:accent4>' +
+  '<a:accent5><a:srgbClr val="008272"/></a:accent5><a:accent6><a:srgbClr val="FFB900"/></a:accent6>' +
+  '<a:hlink><a:srgbClr val="0563C1"/></a:hlink><a:folHlink><a:srgbClr val="954F72"/></a:folHlink></a:clrScheme>' +
+  '<a:fontScheme name="PPT-Kit"><a:majorFont><a:latin typeface="Segoe UI"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>' +
+  '<a:minorFont><a:latin typeface="Segoe UI"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme>' +
+  `<a:fmtScheme name="PPT-Kit"><a:fillStyleLst>${solidStyle(3)}</a:fillStyleLst>` +
+  '<a:lnStyleLst><a:ln w="6350"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln><a:ln w="12700"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln><a:ln w="19050"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln></a:lnStyleLst>' +
+  '<a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst>' +
+  `<a:bgFillStyleLst>${solidStyle(3)}</a:bgFillStyleLst></a:fmtScheme></a:themeElements></a:theme>`
+
+function contentTypesXml(slideCount: number, imageFormats: Set<MemoryImageFormat>): string {
+  const defaults = Array.from(imageFormats)
+    .map(format => `<Default Extension="${format}" ContentType="${IMAGE_CONTENT_TYPES[format]}"/>`)
+    .join('')
+  const slides = Array.from({ length: slideCount }, (_, i) =>
+    `<Override PartName="/ppt/slides/slide${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>`
+  ).join('')
+
+  return `${XML_DECL}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    `<Default Extension="xml" ContentType="application/xml"/>${defaults}` +
+    '<Override PartName="/ppt/presentation.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/>' +
+    '<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml"/>' +
+    '<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml"/>' +
+    '<Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/>' +
+    '<Override PartName="/ppt/presProps.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presProps+xml"/>' +
+    '<Override PartName="/ppt/viewProps.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.viewProps+xml"/>' +
+    '<Override PartName="/ppt/tableStyles.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.tableStyles+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    `<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>${slides}</Types>`
+}
+
+function corePropsXml(presentation: InMemoryPresentation, modified: Date): string {
+  const timestamp = modified.toISOString().replace(/\.\d{3}Z$/, 'Z')
+  return `${XML_DECL}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">` +
+    `<dc:title>${escapeXml(presentation.title)}</dc:title><dc:creator>${escapeXml(presentation.author)}</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:modified></cp:coreProperties>`
+}
+
+function appPropsXml(slideCount: number): string {
+  return `${XML_DECL}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>PPT-Kit</Application><Slides>${slideCount}</Slides></Properties>`
+}
+
+const text = (value: string): Uint8Array => Buffer.from(value, 'utf8')
+
+/**
+ * Serialize a presentation to .pptx bytes
+ */
+export function writePptx(presentation: InMemoryPresentation, modified: Date = new Date()): Buffer {
+  const { slides } = presentation
+  const imageFormats = new Set<MemoryImageFormat>()
+  const entries: ZipEntry[] = []
+  let imageCount = 0
+
+  slides.forEach((slide, i) => {
+    const rels = [{ id: 'rId1', type: 'slideLayout', target: '../slideLayouts/slideLayout1.xml' }]
+    const imageRelIds = new Map<string, string>()
+
+    for (const shape of slide.shapes) {
+      if (shape.kind !== 'image') continue
+      const mediaName = `image${++imageCount}.${shape.format}`
+      const relId = `rId${rels.length + 1}`
+      rels.push({ id: relId, type: 'image', target: `../media/${mediaName}` })
+      imageRelIds.set(shape.id, relId)
+      imageFormats.add(shape.format)
+      entries.push({ path: `ppt/media/${mediaName}`, data: Buffer.from(shape.base64, 'base64') })
+    }
+
+    entries.push({ path: `ppt/slides/slide${i + 1}.xml`, data: text(slideXml(slide, imageRelIds)) })
+    entries.push({ path: `ppt/slides/_rels/slide${i + 1}.xml.rels`, data: text(relationships(rels)) })
+  })
+
+  const presentationRels = [
+    { id: 'rId1', type: 'slideMaster', target: 'slideMasters/slideMaster1.xml' },
+    ...slides.map((_, i) => ({ id: `rId${i + 2}`, type: 'slide', target: `slides/slide${i + 1}.xml` })),
+    { id: `rId${slides.length + 2}`, type: 'presProps', target: 'presProps.xml' },
+    { id: `rId${slides.length + 3}`, type: 'viewProps', target: 'viewProps.xml' },
+    { id: `rId${slides.length + 4}`, type: 'theme', target: 'theme/theme1.xml' },
+    { id: `rId${slides.length + 5}`, type: 'tableStyles', target: 'tableStyles.xml' }
+  ]
+
+  const packageEntries: ZipEntry[] = [
+    { path: '[Content_Types].xml', data: text(contentTypesXml(slides.length, imageFormats)) },
+    {
+      path: '_rels/.rels',
+      data: text(`${XML_DECL}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${REL_BASE}/officeDocument" Target="ppt/presentation.xml"/>` +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+        `<Relationship Id="rId3" Type="${REL_BASE}/extended-properties" Target="docProps/app.xml"/></Relationships>`)
+    },
+    { path: 'docProps/core.xml', data: text(corePropsXml(presentation, modified)) },
+    { path: 'docProps/app.xml', data: text(appPropsXml(slides.length)) },
+    { path: 'ppt/presentation.xml', data: text(presentationXml(slides.length)) },
+    { path: 'ppt/_rels/presentation.xml.rels', data: text(relationships(presentationRels)) },
+    { path: 'ppt/presProps.xml', data: text(`${XML_DECL}<p:presentationPr xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"/>`) },
+    { path: 'ppt/viewProps.xml', data: text(`${XML_DECL}<p:viewPr xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"/>`) },
+    { path: 'ppt/tableStyles.xml', data: text(`${XML_DECL}<a:tblStyleLst xmlns:a="${NS_A}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`) },
+    { path: 'ppt/slideMasters/slideMaster1.xml', data: text(SLIDE_MASTER_XML) },
+    {
+      path: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: text(relationships([
+        { id: 'rId1', type: 'slideLayout', target: '../slideLayouts/slideLayout1.xml' },
+        { id: 'rId2', type: 'theme', target: '../theme/theme1.xml' }
+      ]))
+    },
+    { path: 'ppt/slideLayouts/slideLayout1.xml', data: text(SLIDE_LAYOUT_XML) },
+    {
+      path: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+      data: text(relationships([{ id: 'rId1', type: 'slideMaster', target: '../slideMasters/slideMaster1.xml' }]))
+    },
+    { path: 'ppt/theme/theme1.xml', data: text(THEME_XML) }
+  ]
+
+  return createZip([...packageEntries, ...entries], modified)
+}
+
+/**
+ * Save a presentation to a .pptx file
+ */
+export async function savePptx(presentation: InMemoryPresentation, filePath: string, overwrite = false): Promise<number> {
+  const data = writePptx(presentation)
+  // `wx` fails with EEXIST instead of replacing the file
+  await writeFile(filePath, data, { flag: overwrite ? 'w' : 'wx' })
+  return data.length
+}
@@ -0,0 +1,304 @@
+/**
+ * In-Memory Presentation
+ *
+ * A lightweight presentation model used when no PowerPoint instance is
+ * available (CI pipelines, headless agents). Mirrors the shapes created by
+ * the Office.js operations so decks look the same once saved to .pptx.
+ */
+
+import type { Position } from '../../schemas/index.js'
+import type { PPTShapeZOrder } from '../types.js'
+
+// Slide dimensions (in points), matching ppt-bridge operations
+export const MEMORY_SLIDE_WIDTH = 960
+export const MEMORY_SLIDE_HEIGHT = 540
+
+// Supported embedded image formats
+export type MemoryImageFormat = 'png' | 'jpeg' | 'gif'
+
+interface MemoryShapeBase {
+  id: string
+  name: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface MemoryTextShape extends MemoryShapeBase {
+  kind: 'text'
+  text: string
+  fontSize: number
+  fontName?: string
+  bold?: boolean
+  color?: string
+  fillColor?: string
+  verticalAlignment?: 'top' | 'middle'
+  alignment?: 'left' | 'center' | 'right'
+}
+
+export interface MemoryRectShape extends MemoryShapeBase {
+  kind: 'rect'
+  fillColor: string
+  lineVisible: boolean
+}
+
+export interface MemoryImageShape extends MemoryShapeBase {
+  kind: 'image'
+  format: MemoryImageFormat
+  base64: string
+}
+
+export interface MemoryTableShape extends MemoryShapeBase {
+  kind: 'table'
+  headers: string[]
+  rows: string[][]
+}
+
+export type MemoryShape = MemoryTextShape | MemoryRectShape | MemoryImageShape | MemoryTableShape
+
+export interface MemorySlide {
+  id: string
+  title: string
+  layout: string
+  notes?: string
+  // Slide tags by upper-case key (like PowerPoint slide tags)
+  tags?: Record<string, string>
+  shapes: MemoryShape[]
+}
+
+export interface InMemoryPresentationOptions {
+  title?: string
+  author?: string
+}
+
+/**
+ * Detect image format from base64 data (magic bytes)
+ */
+export function detectImageFormat(base64: string): MemoryImageFormat | null {
+  if (base64.startsWith('iVBORw0KGgo')) return 'png'
+  if (base64.startsWith('/9j/')) return 'jpeg'
+  if (base64.startsWith('R0lGOD')) return 'gif'
+  return null
+}
+
+/**
+ * In-memory presentation model
+ */
+export class InMemoryPresentation {
+  title: string
+  author: string
+  readonly slides: MemorySlide[] = []
+  currentSlideIndex = 0
+  private nextSlideId = 256
+  private nextShapeId = 2
+
+  constructor(options: InMemoryPresentationOptions = {}) {
+    this.title = options.title || 'Untitled Presentation'
+    this.author = options.author || 'PPT-Kit'
+  }
+
+  /**
+   * Add a new empty slide
+   *
+   * @param index - 0-based position of the slide; appends when omitted
+   */
+  addSlide(title = '', layout = 'content', index = this.slides.length): MemorySlide {
+    this.checkSlideIndex(index, this.slides.length)
+    const slide: MemorySlide = {
+      id: `${this.nextSlideId++}`,
+      title,
+      layout,
+      shapes: []
+    }
+    this.slides.splice(index, 0, slide)
+    this.currentSlideIndex = index
+    return slide
+  }
+
+  /**
+   * Copy a slide with its shapes (shapes get new IDs)
+   *
+   * @param index - 0-based position of the copy; defaults to right after the original
+   */
+  duplicateSlide(slideId: string, index = this.indexOf(slideId) + 1): MemorySlide {
+    const source = this.getSlide(slideId)
+    const copy = this.addSlide(source.title, source.layout, index)
+    copy.notes = source.notes
+    copy.tags = source.tags && { ...source.tags }
+    copy.shapes = source.shapes.map(shape => ({ ...structuredClone(shape), id: this.allocateShapeId() }))
+    return copy
+  }
+
+  /**
+   * Move a slide to a new 0-based index
+   */
+  moveSlide(slideId: string, index: number): void {
+    this.checkSlideIndex(index, this.slides.length - 1)
+    const slide = this.getSlide(slideId)
+    this.slides.splice(this.slides.indexOf(slide), 1)
+    this.slides.splice(index, 0, slide)
+  }
+
+  /**
+   * Get a slide by ID
+   */
+  getSlide(slideId: string): MemorySlide {
+    const slide = this.slides.find(s => s.id === slideId)
+    if (!slide) {
+      throw new Error(`Slide not found: ${slideId}`)
+    }
+    return slide
+  }
+
+  /**
+   * Get the index of a slide by ID
+   */
+  indexOf(slideId: string): number {
+    return this.slides.indexOf(this.getSlide(slideId))
+  }
+
+  /**
+   * Delete a slide by ID
+   */
+  deleteSlide(slideId: string): void {
+    const index = this.indexOf(slideId)
+    this.slides.splice(index, 1)
+    this.currentSlideIndex = Math.min(this.currentSlideIndex, Math.max(0, this.slides.length - 1))
+  }
+
+  /**
+   * Add a text box to a slide
+   */
+  addTextBox(
+    slideId: string,
+    text: string,
+    rect: Position,
+    style: Partial<Omit<MemoryTextShape, 'kind' | 'id' | 'text' | 'x' | 'y' | 'width' | 'height'>> = {}
+  ): MemoryTextShape {
+    const shape: MemoryTextShape = {
+      kind: 'text',
+      id: this.allocateShapeId(),
+      name: style.name || 'TextBox',
+      text,
+      fontSize: style.fontSize ?? 18,
+      ...style,
+      ...rect
+    }
+    this.getSlide(slideId).shapes.push(shape)
+    return shape
+  }
+
+  /**
+   * Add a filled rectangle to a slide
+   */
+  addRectangle(slideId: string, rect: Position, fillColor: string, name = 'Rectangle'): MemoryRectShape {
+    const shape: MemoryRectShape = {
+      kind: 'rect',
+      id: this.allocateShapeId(),
+      name,
+      fillColor,
+      lineVisible: false,
+      ...rect
+    }
+    this.getSlide(slideId).shapes.push(shape)
+    return shape
+  }
+
+  /**
+   * Add an image to a slide from base64 data (data URL prefix allowed)
+   */
+  addImage(slideId: string, imageData: string, rect: Position, name = 'Image'): MemoryImageShape {
+    const base64 = imageData.startsWith('data:') ? imageData.split(',')[1] : imageData
+    const format = detectImageFormat(base64)
+    if (!format) {
+      throw new Error('Unsupported image data: expected base64-encoded PNG, JPEG or GIF')
+    }
+
+    const shape: MemoryImageShape = {
+      kind: 'image',
+      id: this.allocateShapeId(),
+      name,
+      format,
+      base64,
+      ...rect
+    }
+    this.getSlide(slideId).shapes.push(shape)
+    return shape
+  }
+
+  /**
+   * Add a table to a slide
+   */
+  addTable(slideId: string, headers: string[], rows: string[][], rect: Position): MemoryTableShape {
+    if (headers.length === 0) {
+      throw new Error('Table requires at least one column')
+    }
+
+    const shape: MemoryTableShape = {
+      kind: 'table',
+      id: this.allocateShapeId(),
+      name: 'Table',
+      headers,
+      rows: rows.map(row => headers.map((_, i) => row[i] ?? '')),
+      ...rect
+    }
+    this.getSlide(slideId).shapes.push(shape)
+    return shape
+  }
+
+  /**
+   * Get a shape on a slide by ID
+   */
+  getShape(slideId: string, shapeId: string): MemoryShape {
+    const shape = this.getSlide(slideId).shapes.find(s => s.id === shapeId)
+    if (!shape) {
+      throw new Error(`Shape not found: ${shapeId}`)
+    }
+    return shape
+  }
+
+  /**
+   * Delete a shape from a slide
+   */
+  deleteShape(slideId: string, shapeId: string): void {
+    const slide = this.getSlide(slideId)
+    slide.shapes.splice(slide.shapes.indexOf(this.getShape(slideId, shapeId)), 1)
+  }
+
+  /**
+   * Move a shape in the z-order (shapes later in the list are drawn on top)
+   *
+   * @returns The shape's new 1-based z-order position
+   */
+  reorderShape(slideId: string, shapeId: string, position: PPTShapeZOrder): number {
+    const slide = this.getSlide(slideId)
+    const shape = this.getShape(slideId, shapeId)
+    const index = slide.shapes.indexOf(shape)
+    const target = {
+      bringToFront: slide.shapes.length - 1,
+      bringForward: Math.min(index + 1, slide.shapes.length - 1),
+      sendBackward: Math.max(index - 1, 0),
+      sendToBack: 0
+    }[position]
+    slide.shapes.splice(index, 1)
+    slide.shapes.splice(target, 0, shape)
+    return target + 1
+  }
+
+  /**
+   * Throw unless a 0-based slide index is within [0, max]
+   */
+  private checkSlideIndex(index: number, max: number): void {
+    if (!Number.isInteger(index) || index < 0 || index > max) {
+      throw new Error(`Slide index ${index} out of range (0-${max})`)
+    }
+  }
+
+  /**
+   * Allocate a shape ID unique within the presentation
+   */
+  private allocateShapeId(): string {
+    return `${this.nextShapeId++}`
+  }
+}
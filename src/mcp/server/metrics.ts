@@ -0,0 +1,287 @@
+/**
+ * PPT-KIT MCP Server - Metrics
+ *
+ * Per-tool call statistics shared by the browser server and the bridge
+ * server, latency and size histograms, and a writer for the Prometheus text
+ * exposition format served by the bridge server's /metrics endpoint.
+ */
+
+// Latency buckets in seconds, from a quick read to a long Markdown generation
+export const DURATION_BUCKETS_SECONDS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+
+// Message size buckets in bytes, from a ping to a slide image
+export const PAYLOAD_BUCKETS_BYTES = [64, 256, 1024, 4096, 16384, 65536, 262144, 1048576, 4194304]
+
+type Labels = Record<string, string>
+
+/**
+ * Cumulative histogram with fixed upper bounds
+ */
+export class Histogram {
+  // Observations per bucket (not cumulative); the last one is +Inf
+  private counts: number[]
+  sum = 0
+  count = 0
+
+  constructor(readonly buckets: number[]) {
+    this.counts = new Array(buckets.length + 1).fill(0)
+  }
+
+  observe(value: number): void {
+    const index = this.buckets.findIndex(bound => value <= bound)
+    this.counts[index === -1 ? this.buckets.length : index]++
+    this.sum += value
+    this.count++
+  }
+
+  /**
+   * Cumulative counts per upper bound, ending with +Inf
+   */
+  cumulative(): Array<{ le: string; count: number }> {
+    let total = 0
+    return this.counts.map((count, i) => {
+      total += count
+      return { le: i < this.buckets.length ? String(this.buckets[i]) : '+Inf', count: total }
+    })
+  }
+}
+
+// Calls of one tool
+export interface ToolStat {
+  name: string
+  calls: number
+  errors: number
+  lastCalled?: Date
+  // Sum of call durations, for the average
+  totalMs: number
+  duration: Histogram
+}
+
+/**
+ * Per-tool call counts, error counts and latencies
+ */
+export class ToolStats {
+  private stats = new Map<string, ToolStat>()
+
+  /**
+   * @param tools - Tools listed with zero calls before their first call
+   */
+  constructor(tools: string[] = []) {
+    tools.forEach(name => this.get(name))
+  }
+
+  get(name: string): ToolStat {
+    let stat = this.stats.get(name)
+    if (!stat) {
+      stat = { name, calls: 0, errors: 0, totalMs: 0, duration: new Histogram(DURATION_BUCKETS_SECONDS) }
+      this.stats.set(name, stat)
+    }
+    return stat
+  }
+
+  record(name: string, durationMs: number, isError: boolean): void {
+    const stat = this.get(name)
+    stat.calls++
+    if (isError) stat.errors++
+    stat.lastCalled = new Date()
+    stat.totalMs += durationMs
+    stat.duration.observe(durationMs / 1000)
+  }
+
+  list(): ToolStat[] {
+    return [...this.stats.values()]
+  }
+}
+
+/**
+ * Escape a label value for the Prometheus text format
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+  return pairs.length ? `{${pairs.join(',')}}` : ''
+}
+
+/**
+ * Builds a response in the Prometheus text exposition format
+ */
+export class PrometheusWriter {
+  private lines: string[] = []
+
+  counter(name: string, help: string, samples: Array<{ labels?: Labels; value: number }>): this {
+    return this.family(name, help, 'counter', samples)
+  }
+
+  gauge(name: string, help: string, samples: Array<{ labels?: Labels; value: number }>): this {
+    return this.family(name, help, 'gauge', samples)
+  }
+
+  histogram(name: string, help: string, samples: Array<{ labels?: Labels; histogram: Histogram }>): this {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} histogram`)
+    for (const { labels = {}, histogram } of samples) {
+      for (const { le, count } of histogram.cumulative()) {
+        this.lines.push(`${name}_bucket${formatLabels({ ...labels, le })} ${count}`)
+      }
+      this.lines.push(`${name}_sum${formatLabels(labels)} ${histogram.sum}`)
+      this.lines.push(`${name}_count${formatLabels(labels)} ${histogram.count}`)
+    }
+    return this
+  }
+
+  private family(name: string, help: string, type: string, samples: Array<{ labels?: Labels; value: number }>): this {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`)
+    for (const { labels = {}, value } of samples) {
+      this.lines.push(`${name}${formatLabels(labels)} ${value}`)
+    }
+    return this
+  }
+
+  toString(): string {
+    return `${this.lines.join('\n')}\n`
+  }
+}
+
+// Outcome of a request the bridge server sent to an add-in
+export type BridgeRequestStatus = 'queued' | 'pending' | 'ok' | 'error' | 'timeout' | 'cancelled'
+
+// One request in the bridge traffic log (/debug/requests)
+export interface BridgeTrafficEntry {
+  id: string
+  documentId: string
+  method: string
+  status: BridgeRequestStatus
+  startedAt: Date
+  // Last time the request went over the socket (it is resent after a resume)
+  sentAt?: Date
+  requestBytes: number
+  responseBytes?: number
+  // Send to response, as seen by the server
+  roundTripMs?: number
+  // Time the add-in spent running the method in Office
+  officeMs?: number
+  // Time the add-in held the request for approval or behind other changes
+  waitMs?: number
+  error?: string
+}
+
+// Point-in-time values the bridge server reads when /metrics is scraped
+export interface BridgeGauges {
+  pendingRequests: number
+  connectedAddins: number
+  reconnectingAddins: number
+  queues: Array<{ document: string; running: number; queued: number }>
+}
+
+// Requests and latencies of one bridge method
+interface MethodStat {
+  statuses: Partial<Record<BridgeRequestStatus, number>>
+  roundTrip: Histogram
+  office: Histogram
+}
+
+/**
+ * Metrics of the bridge server: tool calls, bridge requests, connections and payloads
+ */
+export class BridgeMetrics {
+  readonly tools: ToolStats
+  connections = 0
+  reconnects = { resumed: 0, newSession: 0 }
+  staleConnections = 0
+  readonly payloadBytes = { sent: new Histogram(PAYLOAD_BUCKETS_BYTES), received: new Histogram(PAYLOAD_BUCKETS_BYTES) }
+  private methods = new Map<string, MethodStat>()
+  private traffic: BridgeTrafficEntry[] = []
+
+  /**
+   * @param tools - Tool names, listed with zero calls before their first call
+   * @param maxTraffic - Requests kept for /debug/requests
+   */
+  constructor(tools: string[], private readonly maxTraffic = 200) {
+    this.tools = new ToolStats(tools)
+  }
+
+  private method(name: string): MethodStat {
+    let stat = this.methods.get(name)
+    if (!stat) {
+      stat = { statuses: {}, roundTrip: new Histogram(DURATION_BUCKETS_SECONDS), office: new Histogram(DURATION_BUCKETS_SECONDS) }
+      this.methods.set(name, stat)
+    }
+    return stat
+  }
+
+  /**
+   * Log a new request; it stays `queued` until it is sent
+   */
+  startRequest(id: string, documentId: string, method: string, requestBytes: number): BridgeTrafficEntry {
+    const entry: BridgeTrafficEntry = { id, documentId, method, status: 'queued', startedAt: new Date(), requestBytes }
+    this.traffic.push(entry)
+    if (this.traffic.length > this.maxTraffic) this.traffic.shift()
+    return entry
+  }
+
+  markSent(entry: BridgeTrafficEntry): void {
+    entry.status = 'pending'
+    entry.sentAt = new Date()
+    this.payloadBytes.sent.observe(entry.requestBytes)
+  }
+
+  finishRequest(
+    entry: BridgeTrafficEntry,
+    status: Exclude<BridgeRequestStatus, 'queued' | 'pending'>,
+    details: Pick<BridgeTrafficEntry, 'responseBytes' | 'officeMs' | 'waitMs' | 'error'> = {}
+  ): void {
+    if (entry.status !== 'queued' && entry.status !== 'pending') return
+    Object.assign(entry, details)
+    const stat = this.method(entry.method)
+    stat.statuses[status] = (stat.statuses[status] ?? 0) + 1
+    if (entry.sentAt && (status === 'ok' || status === 'error')) {
+      entry.roundTripMs = Date.now() - entry.sentAt.getTime()
+      stat.roundTrip.observe(entry.roundTripMs / 1000)
+    }
+    if (details.officeMs !== undefined) stat.office.observe(details.officeMs / 1000)
+    entry.status = status
+  }
+
+  /**
+   * Logged requests, newest first
+   */
+  recentTraffic(): BridgeTrafficEntry[] {
+    return this.traffic.slice().reverse()
+  }
+
+  toPrometheus(gauges: BridgeGauges): string {
+    const tools = this.tools.list()
+    const methods = [...this.methods.entries()]
+    return new PrometheusWriter()
+      .counter('ppt_kit_tool_calls_total', 'MCP tool calls', tools.map(t => ({ labels: { tool: t.name }, value: t.calls })))
+      .counter('ppt_kit_tool_errors_total', 'MCP tool calls that returned an error', tools.map(t => ({ labels: { tool: t.name }, value: t.errors })))
+      .histogram('ppt_kit_tool_duration_seconds', 'MCP tool call latency, end to end', tools.map(t => ({ labels: { tool: t.name }, histogram: t.duration })))
+      .counter('ppt_kit_bridge_requests_total', 'Requests sent to add-ins by outcome', methods.flatMap(([method, stat]) =>
+        Object.entries(stat.statuses).map(([status, value]) => ({ labels: { method, status }, value: value ?? 0 }))
+      ))
+      .histogram('ppt_kit_bridge_round_trip_seconds', 'Time from sending a request to the add-in until its response', methods.map(([method, stat]) => ({ labels: { method }, histogram: stat.roundTrip })))
+      .histogram('ppt_kit_office_duration_seconds', 'Time the add-in spent running a request in Office', methods.map(([method, stat]) => ({ labels: { method }, histogram: stat.office })))
+      .gauge('ppt_kit_bridge_pending_requests', 'Requests waiting for an add-in response', [{ value: gauges.pendingRequests }])
+      .gauge('ppt_kit_bridge_addins', 'Add-ins by connection state', [
+        { labels: { state: 'connected' }, value: gauges.connectedAddins },
+        { labels: { state: 'reconnecting' }, value: gauges.reconnectingAddins }
+      ])
+      .gauge('ppt_kit_addin_queue_depth', 'Requests running and queued in each add-in', gauges.queues.flatMap(queue => [
+        { labels: { document: queue.document, state: 'running' }, value: queue.running },
+        { labels: { document: queue.document, state: 'queued' }, value: queue.queued }
+      ]))
+      .counter('ppt_kit_bridge_connections_total', 'WebSocket connections from add-ins', [{ value: this.connections }])
+      .counter('ppt_kit_bridge_reconnects_total', 'Add-ins that came back after a disconnect', [
+        { labels: { kind: 'resumed' }, value: this.reconnects.resumed },
+        { labels: { kind: 'new_session' }, value: this.reconnects.newSession }
+      ])
+      .counter('ppt_kit_bridge_stale_connections_total', 'Connections closed after a missed heartbeat', [{ value: this.staleConnections }])
+      .histogram('ppt_kit_bridge_payload_bytes', 'Sizes of requests sent to add-ins and messages received from them', [
+        { labels: { direction: 'sent' }, histogram: this.payloadBytes.sent },
+        { labels: { direction: 'received' }, histogram: this.payloadBytes.received }
+      ])
+      .toString()
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * PPT-KIT MCP Server - Client Tool Policies
+ *
+ * Limits what an MCP client may do: which tools it sees (allowlist,
+ * denylist, read-only) and how many tool calls a session may make.
+ * Tools a policy forbids are left out of tools/list, so clients never
+ * see them; calls over the rate limit fail before reaching the backend.
+ */
+
+import { PPT_TOOLS, EXTERNAL_TOOL_PREFIX, type AnyToolDefinition } from './tools'
+
+export interface ToolPolicy {
+  // Only tools with `readOnlyHint`
+  readOnly?: boolean
+  // When set, only these tools
+  allowTools?: string[]
+  // Never these tools (wins over allowTools)
+  denyTools?: string[]
+  // At most `requests` tool calls per session every `windowSeconds`
+  rateLimit?: { requests: number; windowSeconds: number }
+}
+
+/**
+ * Whether a policy lets clients see and call a tool
+ */
+export function isToolPermitted(policy: ToolPolicy, tool: Pick<AnyToolDefinition, 'name' | 'annotations'>): boolean {
+  if (policy.readOnly && !tool.annotations.readOnlyHint) return false
+  if (policy.allowTools && !policy.allowTools.includes(tool.name)) return false
+  return !policy.denyTools?.includes(tool.name)
+}
+
+/**
+ * Check a policy for unknown tool names and invalid rate limits
+ * Gateway tools (`ext_...`) come and go with their servers, so they are not checked.
+ *
+ * @param source - Where the policy came from, used in error messages
+ */
+export function validateToolPolicy(policy: ToolPolicy, source: string): void {
+  const known = new Set(PPT_TOOLS.map(tool => tool.name))
+  for (const name of [...(policy.allowTools ?? []), ...(policy.denyTools ?? [])]) {
+    if (!known.has(name) && !name.startsWith(EXTERNAL_TOOL_PREFIX)) {
+      throw new Error(`Unknown tool "${name}" in ${source}. Available tools: ${[...known].join(', ')}`)
+    }
+  }
+
+  const { rateLimit } = policy
+  if (rateLimit && !(rateLimit.requests > 0 && rateLimit.windowSeconds > 0)) {
+    throw new Error(`Invalid rateLimit in ${source}: requests and windowSeconds must be positive numbers`)
+  }
+}
+
+/**
+ * Combine a client's policy with the server default
+ * Client fields replace the default's; read-only applies when either sets it.
+ */
+export function mergeToolPolicies(base: ToolPolicy, override: ToolPolicy): ToolPolicy {
+  return {
+    ...base,
+    ...override,
+    readOnly: Boolean(base.readOnly || override.readOnly)
+  }
+}
+
+/**
+ * Policy enforcement for one MCP session
+ */
+export class ToolGuard {
+  // Start times of the calls in the current rate-limit window
+  private calls: number[] = []
+
+  constructor(readonly policy: ToolPolicy) {}
+
+  permits(tool: Pick<AnyToolDefinition, 'name' | 'annotations'>): boolean {
+    return isToolPermitted(this.policy, tool)
+  }
+
+  /**
+   * Count a tool call against the rate limit
+   * Throws when the session has used up its calls for the current window.
+   */
+  take(now = Date.now()): void {
+    const { rateLimit } = this.policy
+    if (!rateLimit) return
+
+    const windowMs = rateLimit.windowSeconds * 1000
+    this.calls = this.calls.filter(time => now - time < windowMs)
+    if (this.calls.length >= rateLimit.requests) {
+      const retryIn = Math.ceil((this.calls[0] + windowMs - now) / 1000)
+      throw new Error(
+        `Rate limit exceeded: at most ${rateLimit.requests} tool calls every ${rateLimit.windowSeconds}s for this session. Retry in ${retryIn}s.`
+      )
+    }
+    this.calls.push(now)
+  }
+}
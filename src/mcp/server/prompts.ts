@@ -0,0 +1,229 @@
+/**
+ * PPT-KIT MCP Server - Prompts
+ *
+ * Reusable prompt templates that encode ppt-kit conventions (heading levels,
+ * ```mermaid fences, layouts) so any MCP client can discover them:
+ * - ppt_outline_to_deck   - Turn an outline into a deck
+ * - ppt_code_walkthrough  - Add a code walkthrough for a snippet
+ * - ppt_speaker_notes     - Summarize a slide into speaker notes
+ * - ppt_document_to_talk  - Convert a document into a timed talk
+ *
+ * Each prompt embeds the current presentation state from getPresentationInfo.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js'
+import {
+  OutlineToDeckPromptSchema,
+  CodeWalkthroughPromptSchema,
+  SpeakerNotesPromptSchema,
+  DocumentToTalkPromptSchema,
+  type OutlineToDeckPromptArgs,
+  type CodeWalkthroughPromptArgs,
+  type SpeakerNotesPromptArgs,
+  type DocumentToTalkPromptArgs
+} from '../schemas'
+import { toSlideRef } from './tools'
+import type { PPTOperations, PPTPresentationSummary } from './types'
+
+// Maximum number of existing slides listed in prompt context
+const MAX_LISTED_SLIDES = 50
+
+// Default talk length for ppt_document_to_talk
+const DEFAULT_TALK_MINUTES = 10
+
+// Markdown conventions understood by ppt_from_markdown
+const MARKDOWN_CONVENTIONS = `ppt-kit Markdown conventions (used by ppt_from_markdown):
+- Each \`#\` or \`##\` heading starts a new slide; the heading text becomes the slide title.
+- \`###\` and deeper headings become bold sub-headings inside a slide.
+- A heading with nothing below it becomes a title slide.
+- Fenced code blocks with a language (e.g. \`\`\`typescript) become code blocks; a slide with code and at most one other block uses the code-focus layout.
+- \`\`\`mermaid fences become diagrams (flowchart, sequenceDiagram, classDiagram, gantt, ...).
+- Bullet lists become bullet points; keep them to about 6 short items per slide.
+- Slides with 4 or more blocks use the two-column layout, so split dense content across slides.`
+
+/**
+ * Describe the current presentation for prompt context
+ */
+function describePresentation(info: PPTPresentationSummary): string {
+  if (info.slideCount === 0) {
+    return `Current presentation: "${info.title || 'Untitled'}" is empty.`
+  }
+
+  const lines = [
+    `Current presentation: "${info.title || 'Untitled'}" with ${info.slideCount} slide(s); slide ${info.currentSlideIndex + 1} is selected.`,
+    'Existing slides:'
+  ]
+  for (const slide of info.slides.slice(0, MAX_LISTED_SLIDES)) {
+    lines.push(`${slide.index + 1}. ${slide.title || '(untitled)'} [${slide.layout}] (id: ${slide.id})`)
+  }
+  if (info.slides.length > MAX_LISTED_SLIDES) {
+    lines.push(`... and ${info.slides.length - MAX_LISTED_SLIDES} more`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Build a single user-message prompt result
+ */
+function userPrompt(description: string, text: string) {
+  return {
+    description,
+    messages: [{
+      role: 'user' as const,
+      content: { type: 'text' as const, text }
+    }]
+  }
+}
+
+/**
+ * Register ppt-kit prompts on a server
+ *
+ * @param server - MCP server to register prompts on
+ * @param resolveOperations - Returns the backend used to read the presentation
+ */
+export function registerPresentationPrompts(
+  server: McpServer,
+  resolveOperations: () => PPTOperations
+): void {
+  // Presentation context; prompts stay usable when no backend is connected
+  const presentationContext = async (): Promise<string> => {
+    try {
+      return describePresentation(await resolveOperations().getPresentationInfo())
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return `Current presentation: unavailable (${message}).`
+    }
+  }
+
+  // Prompt: ppt_outline_to_deck
+  server.registerPrompt(
+    'ppt_outline_to_deck',
+    {
+      title: 'Turn Outline into Deck',
+      description: 'Expand an outline into a complete slide deck using ppt-kit Markdown conventions',
+      argsSchema: OutlineToDeckPromptSchema.shape
+    },
+    async (args: OutlineToDeckPromptArgs) => userPrompt(
+      'Turn an outline into a slide deck',
+      `Turn the outline below into a slide deck${args.audience ? ` for ${args.audience}` : ''}.
+
+${await presentationContext()}
+
+${MARKDOWN_CONVENTIONS}
+
+Steps:
+1. Start with a title slide, then one slide per main point of the outline.
+2. Expand each point into concise bullets; use a \`\`\`mermaid diagram where a process or structure is easier to show than describe.
+3. End with a summary slide.
+4. Call ppt_from_markdown with the complete Markdown. New slides are appended after the existing ones.
+
+Outline:
+${args.outline}`
+    )
+  )
+
+  // Prompt: ppt_code_walkthrough
+  server.registerPrompt(
+    'ppt_code_walkthrough',
+    {
+      title: 'Add Code Walkthrough',
+      description: 'Create slides that walk through a code snippet step by step',
+      argsSchema: CodeWalkthroughPromptSchema.shape
+    },
+    async (args: CodeWalkthroughPromptArgs) => {
+      const language = args.language || 'plaintext'
+      return userPrompt(
+        'Add a code walkthrough for a snippet',
+        `Add a code walkthrough for the ${language} snippet below.
+
+${await presentationContext()}
+
+${MARKDOWN_CONVENTIONS}
+
+Steps:
+1. Add a \`##\` slide that states what the code does in one or two bullets.
+2. Split the code into logical chunks of at most 15 lines. Give each chunk its own \`##\` slide with a \`\`\`${language} fence and at most one short paragraph explaining it, so the slide keeps the code-focus layout.
+3. If the control flow is non-trivial, add one slide with a \`\`\`mermaid flowchart of it.
+4. Call ppt_from_markdown with the complete Markdown.
+
+Code:
+\`\`\`${language}
+${args.code}
+\`\`\``
+      )
+    }
+  )
+
+  // Prompt: ppt_speaker_notes
+  server.registerPrompt(
+    'ppt_speaker_notes',
+    {
+      title: 'Summarize Slide into Speaker Notes',
+      description: 'Summarize the content of a slide into speaker notes',
+      argsSchema: SpeakerNotesPromptSchema.shape
+    },
+    async (args: SpeakerNotesPromptArgs) => {
+      const ops = resolveOperations()
+      // Prompt arguments are always strings, so a bare whole number is a slide number
+      const ref = toSlideRef(/^\d+$/.test(args.slide_id) ? Number(args.slide_id) : args.slide_id)
+      let slideId: string
+      try {
+        ({ slideId } = await ops.resolveSlide(ref))
+      } catch (e) {
+        throw new McpError(ErrorCode.InvalidParams, e instanceof Error ? e.message : String(e))
+      }
+
+      const info = await ops.getPresentationInfo()
+      const slide = info.slides.find(s => s.id === slideId)!
+
+      const shapes = await ops.getSlideShapes(slide.id)
+      const slideText = shapes
+        .filter(shape => shape.text?.trim())
+        .map(shape => `[${shape.name}]\n${shape.text}`)
+        .join('\n\n')
+
+      return userPrompt(
+        `Summarize slide ${slide.index + 1} into speaker notes`,
+        `Summarize slide ${slide.index + 1} of ${info.slideCount}${slide.title ? ` ("${slide.title}")` : ''} into speaker notes.
+
+${describePresentation(info)}
+
+Slide content:
+${slideText || '(no text on this slide)'}
+
+Write 3-5 conversational sentences the presenter can say in about a minute. Explain the point of the slide rather than reading it aloud, and mention how it leads into the next slide if one follows.`
+      )
+    }
+  )
+
+  // Prompt: ppt_document_to_talk
+  server.registerPrompt(
+    'ppt_document_to_talk',
+    {
+      title: 'Convert Document into Talk',
+      description: `Convert a document into a talk deck sized for its length (default ${DEFAULT_TALK_MINUTES} minutes)`,
+      argsSchema: DocumentToTalkPromptSchema.shape
+    },
+    async (args: DocumentToTalkPromptArgs) => {
+      const minutes = args.minutes ? parseInt(args.minutes, 10) : DEFAULT_TALK_MINUTES
+      return userPrompt(
+        `Convert a document into a ${minutes}-minute talk`,
+        `Convert the document below into a ${minutes}-minute talk.
+
+${await presentationContext()}
+
+${MARKDOWN_CONVENTIONS}
+
+Steps:
+1. Pick the key messages that fit in ${minutes} minutes; leave out detail that does not support them.
+2. Plan roughly one content slide per minute (about ${minutes} slides), plus a title slide and a closing summary slide.
+3. Keep each slide to one idea. Prefer \`\`\`mermaid diagrams and short code excerpts over long prose.
+4. Call ppt_from_markdown with the complete Markdown, then list the slide titles with a suggested time for each.
+
+Document:
+${args.document}`
+      )
+    }
+  )
+}
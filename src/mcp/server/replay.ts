@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+/**
+ * PPT-KIT MCP Server - Audit Log Replay
+ *
+ * Re-executes the tool calls recorded in a bridge server audit log, in order,
+ * against a chosen backend.
+ *
+ * Usage:
+ *   npx tsx src/mcp/server/replay.ts <audit.jsonl> [options]
+ *
+ * Options:
+ *   --session <id>     Only replay calls from this MCP session
+ *   --backend memory   Replay into a new in-memory presentation (default)
+ *   --backend <url>    Replay through a running bridge server, e.g. http://localhost:3100/sse
+ *                      (sends MCP_AUTH_TOKEN as bearer token when set)
+ *   --out <file.pptx>  Save the in-memory presentation after the replay
+ *   --skip-reads       Leave out tools with readOnlyHint
+ */
+
+import { basename, dirname, resolve } from 'path'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { createPPTKitMCPServer, PPT_TOOLS, type PPTOperations } from './index.js'
+import { InMemoryPresentation, createInMemoryOperations } from './memory/index.js'
+import { readAuditLog, replayAuditLog, type AuditEntry, type ReplayStep } from './audit.js'
+
+interface ReplayArgs {
+  file: string
+  session?: string
+  backend: string
+  out?: string
+  skipReads: boolean
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(argv: string[]): ReplayArgs {
+  const args: ReplayArgs = { file: '', backend: 'memory', skipReads: false }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--session') args.session = argv[++i]
+    else if (arg === '--backend') args.backend = argv[++i]
+    else if (arg === '--out') args.out = argv[++i]
+    else if (arg === '--skip-reads') args.skipReads = true
+    else if (!arg.startsWith('--') && !args.file) args.file = arg
+    else throw new Error(`Unknown option: ${arg}`)
+  }
+  if (!args.file) {
+    throw new Error('Usage: replay.ts <audit.jsonl> [--session <id>] [--backend memory|<url>] [--out <file.pptx>] [--skip-reads]')
+  }
+  if (args.out && args.backend !== 'memory') {
+    throw new Error('--out only works with --backend memory')
+  }
+  return args
+}
+
+/**
+ * Connect an MCP client to the chosen backend
+ */
+async function connectBackend(backend: string, out?: string): Promise<{ client: Client; operations?: PPTOperations }> {
+  const client = new Client({ name: 'ppt-kit-replay', version: '1.0.0' })
+
+  if (backend === 'memory') {
+    // Saves made by the replayed calls land next to --out
+    const outputDir = out ? dirname(resolve(out)) : undefined
+    const operations = createInMemoryOperations(new InMemoryPresentation(), { outputDir })
+    const server = createPPTKitMCPServer(operations)
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+    return { client, operations }
+  }
+
+  const token = process.env.MCP_AUTH_TOKEN
+  const headers = token ? { Authorization: `Bearer ${token}` } : undefined
+  await client.connect(new SSEClientTransport(new URL(backend), { requestInit: { headers } }))
+  return { client }
+}
+
+/**
+ * Print one replayed call
+ */
+function printStep(step: ReplayStep, entry: AuditEntry): void {
+  const mark = step.status === 'ok' ? '✓' : '✗'
+  const notes = [
+    step.placeholders ? 'redacted images replaced by a placeholder' : '',
+    step.recordedError !== (step.status === 'error') ? `recorded: ${entry.isError ? 'error' : 'ok'}` : ''
+  ].filter(Boolean)
+  console.log(`${mark} #${step.index + 1} ${step.tool}${notes.length ? ` (${notes.join('; ')})` : ''}`)
+  if (step.error) console.log(`    ${step.error}`)
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2))
+  const entries = readAuditLog(args.file).filter(entry => !args.session || entry.session === args.session)
+  if (entries.length === 0) {
+    throw new Error(`No tool calls to replay in ${args.file}${args.session ? ` for session ${args.session}` : ''}`)
+  }
+
+  const readOnlyTools = new Set(PPT_TOOLS.filter(tool => tool.annotations.readOnlyHint).map(tool => tool.name))
+  const { client, operations } = await connectBackend(args.backend, args.out)
+  console.log(`Replaying ${entries.length} tool call(s) from ${args.file} against ${args.backend}`)
+
+  const steps = await replayAuditLog(entries, client, {
+    skip: args.skipReads ? entry => readOnlyTools.has(entry.tool) : undefined,
+    onStep: step => printStep(step, entries[step.index])
+  })
+
+  const failed = steps.filter(step => step.status === 'error').length
+  console.log(`Replayed ${steps.length} call(s): ${steps.length - failed} succeeded, ${failed} failed`)
+
+  if (args.out && operations?.savePresentation) {
+    const saved = await operations.savePresentation(basename(args.out), { overwrite: true })
+    console.log(`Saved ${saved.slideCount} slide(s) to ${saved.filePath}`)
+  }
+  await client.close()
+}
+
+main().catch((error) => {
+  console.error(`Replay failed: ${error instanceof Error ? error.message : error}`)
+  process.exit(1)
+})
@@ -0,0 +1,215 @@
+/**
+ * PPT-KIT MCP Server - Resources
+ *
+ * Exposes the presentation as read-only MCP resources:
+ * - ppt://presentation              - Presentation summary and slide list
+ * - ppt://slides/{slideId}          - Slide summary with its shapes
+ * - ppt://slides/{slideId}/shapes   - Shapes on a slide
+ *
+ * Subscribed clients receive `notifications/resources/updated` when the
+ * presentation changes (reported by tools or the add-in's sync module).
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import type { PPTOperations } from './types'
+
+export const PRESENTATION_RESOURCE_URI = 'ppt://presentation'
+
+const JSON_MIME_TYPE = 'application/json'
+
+/**
+ * Presentation change reported to subscribed MCP clients
+ * - selection: current slide changed
+ * - slide:     content of a single slide changed
+ * - structure: slides were added, removed or regenerated
+ */
+export type PresentationChange =
+  | { kind: 'selection' }
+  | { kind: 'slide'; slideId: string }
+  | { kind: 'structure' }
+
+type PresentationChangeListener = (change: PresentationChange) => void
+
+// Listeners registered by every live MCP server instance
+const changeListeners: PresentationChangeListener[] = []
+
+/**
+ * Notify all MCP servers that the presentation changed
+ */
+export function notifyPresentationChanged(change: PresentationChange): void {
+  for (const listener of changeListeners) {
+    try {
+      listener(change)
+    } catch (e) {
+      console.error('[Resources] Change listener error:', e)
+    }
+  }
+}
+
+/**
+ * Get the URI of a slide resource
+ */
+export function slideResourceUri(slideId: string): string {
+  return `ppt://slides/${encodeURIComponent(slideId)}`
+}
+
+/**
+ * Get the URI of a slide shapes resource
+ */
+export function slideShapesResourceUri(slideId: string): string {
+  return `${slideResourceUri(slideId)}/shapes`
+}
+
+/**
+ * Build a JSON resource result
+ */
+function jsonContents(uri: URL, data: unknown) {
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: JSON_MIME_TYPE,
+      text: JSON.stringify(data, null, 2)
+    }]
+  }
+}
+
+/**
+ * Register presentation resources and change subscriptions on a server
+ *
+ * @param server - MCP server to register resources on (must not be connected yet)
+ * @param resolveOperations - Returns the backend used to read the presentation
+ */
+export function registerPresentationResources(
+  server: McpServer,
+  resolveOperations: () => PPTOperations
+): void {
+  // Resolve a template variable to a slide summary
+  const findSlide = async (slideId: string) => {
+    const info = await resolveOperations().getPresentationInfo()
+    const slide = info.slides.find(s => s.id === slideId)
+    if (!slide) {
+      throw new Error(`Slide not found: ${slideId}`)
+    }
+    return slide
+  }
+
+  // List callback shared by the slide templates
+  const listSlides = (suffix: string, label: string) => async () => {
+    const info = await resolveOperations().getPresentationInfo()
+    return {
+      resources: info.slides.map(slide => ({
+        uri: `${slideResourceUri(slide.id)}${suffix}`,
+        name: `${label} ${slide.index + 1}${slide.title ? `: ${slide.title}` : ''}`,
+        mimeType: JSON_MIME_TYPE
+      }))
+    }
+  }
+
+  server.registerResource(
+    'presentation',
+    PRESENTATION_RESOURCE_URI,
+    {
+      title: 'Presentation',
+      description: 'Presentation summary: slide count, current slide, title, author and slide list',
+      mimeType: JSON_MIME_TYPE
+    },
+    async (uri) => {
+      const info = await resolveOperations().getPresentationInfo()
+      return jsonContents(uri, {
+        slide_count: info.slideCount,
+        current_slide_index: info.currentSlideIndex,
+        title: info.title,
+        author: info.author,
+        slides: info.slides.map(slide => ({
+          ...slide,
+          uri: slideResourceUri(slide.id)
+        }))
+      })
+    }
+  )
+
+  server.registerResource(
+    'slide',
+    new ResourceTemplate('ppt://slides/{slideId}', { list: listSlides('', 'Slide') }),
+    {
+      title: 'Slide',
+      description: 'Slide summary (index, title, layout) with the shapes it contains',
+      mimeType: JSON_MIME_TYPE
+    },
+    async (uri, variables) => {
+      const slideId = decodeURIComponent(String(variables.slideId))
+      const slide = await findSlide(slideId)
+      const shapes = await resolveOperations().getSlideShapes(slideId)
+      return jsonContents(uri, { ...slide, shapes })
+    }
+  )
+
+  server.registerResource(
+    'slide-shapes',
+    new ResourceTemplate('ppt://slides/{slideId}/shapes', { list: listSlides('/shapes', 'Shapes on slide') }),
+    {
+      title: 'Slide Shapes',
+      description: 'Shapes on a slide with type, position, size (in points) and text',
+      mimeType: JSON_MIME_TYPE
+    },
+    async (uri, variables) => {
+      const slideId = decodeURIComponent(String(variables.slideId))
+      const shapes = await resolveOperations().getSlideShapes(slideId)
+      return jsonContents(uri, { slide_id: slideId, shapes })
+    }
+  )
+
+  // Subscriptions
+  const subscriptions = new Set<string>()
+
+  server.server.registerCapabilities({
+    resources: { subscribe: true, listChanged: true }
+  })
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri)
+    return {}
+  })
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri)
+    return {}
+  })
+
+  const onChange: PresentationChangeListener = (change) => {
+    if (!server.isConnected()) return
+
+    let uris: string[]
+    switch (change.kind) {
+      case 'selection':
+        uris = [PRESENTATION_RESOURCE_URI]
+        break
+      case 'slide':
+        uris = [PRESENTATION_RESOURCE_URI, slideResourceUri(change.slideId), slideShapesResourceUri(change.slideId)]
+        break
+      case 'structure':
+        uris = [...subscriptions]
+        server.sendResourceListChanged()
+        break
+    }
+
+    for (const uri of uris) {
+      if (subscriptions.has(uri)) {
+        server.server.sendResourceUpdated({ uri }).catch((e) => {
+          console.error('[Resources] Failed to send resource update:', e)
+        })
+      }
+    }
+  }
+
+  changeListeners.push(onChange)
+
+  // Stop listening once the client goes away
+  const previousOnClose = server.server.onclose
+  server.server.onclose = () => {
+    const index = changeListeners.indexOf(onChange)
+    if (index >= 0) changeListeners.splice(index, 1)
+    previousOnClose?.()
+  }
+}
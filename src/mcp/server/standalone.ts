@@ -4,25 +4,37 @@
  * 
  * Runs the MCP server as a standalone process.
  * Supports both stdio and HTTP transports.
+ * Slides are built in an in-memory presentation and saved with ppt_save_presentation.
  * 
  * Usage:
  *   stdio mode (default): npx tsx src/mcp/server/standalone.ts
  *   HTTP mode: TRANSPORT=http PORT=3100 npx tsx src/mcp/server/standalone.ts
+ *
+ * Environment:
+ *   HOST                 - HTTP listen address (default: 127.0.0.1)
+ *   MCP_AUTH_TOKEN       - Required bearer token (generated per run when HOST is not loopback)
+ *   MCP_OUTPUT_DIR       - Directory ppt_save_presentation writes into (default: working directory)
  */
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
 import express from 'express'
 import { createPPTKitMCPServer } from './index.js'
+import { InMemoryPresentation, createInMemoryOperations } from './memory/index.js'
+import { createAuthMiddleware, generateAuthToken, isLoopbackHost, type BridgeAuthConfig } from './auth.js'
 
 const TRANSPORT = process.env.TRANSPORT || 'stdio'
 const PORT = parseInt(process.env.PORT || '3100', 10)
+const HOST = process.env.HOST || '127.0.0.1'
+
+// Offline deck shared by all sessions of this process
+const operations = createInMemoryOperations(new InMemoryPresentation(), { outputDir: process.env.MCP_OUTPUT_DIR })
 
 /**
  * Run server with stdio transport (for local integrations)
  */
 async function runStdio(): Promise<void> {
-  const server = createPPTKitMCPServer()
+  const server = createPPTKitMCPServer(operations)
   const transport = new StdioServerTransport()
   
   await server.connect(transport)
@@ -36,14 +48,23 @@ async function runHTTP(): Promise<void> {
   const app = express()
   app.use(express.json())
 
+  // Never expose an unauthenticated server beyond localhost; no browser origins are allowed
+  const auth: BridgeAuthConfig = { token: process.env.MCP_AUTH_TOKEN || null, allowedOrigins: [] }
+  if (!auth.token && !isLoopbackHost(HOST)) {
+    auth.token = generateAuthToken()
+    console.error(`HOST=${HOST} is reachable from the network and MCP_AUTH_TOKEN is not set`)
+    console.error(`Generated auth token for this run: ${auth.token}`)
+  }
+  const requireAuth = createAuthMiddleware(auth)
+
   // Health check endpoint
   app.get('/health', (_req, res) => {
     res.json({ status: 'ok', server: 'ppt-kit-mcp-server', version: '1.0.0' })
   })
 
   // MCP endpoint
-  app.post('/mcp', async (req, res) => {
-    const server = createPPTKitMCPServer()
+  app.post('/mcp', requireAuth, async (req, res) => {
+    const server = createPPTKitMCPServer(operations)
     
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: undefined,
@@ -56,9 +77,9 @@ async function runHTTP(): Promise<void> {
     await transport.handleRequest(req, res, req.body)
   })
 
-  app.listen(PORT, () => {
-    console.error(`PPT-KIT MCP Server running on http://localhost:${PORT}/mcp`)
-    console.error(`Health check: http://localhost:${PORT}/health`)
+  app.listen(PORT, HOST, () => {
+    console.error(`PPT-KIT MCP Server running on http://${HOST}:${PORT}/mcp`)
+    console.error(`Health check: http://${HOST}:${PORT}/health`)
   })
 }
 
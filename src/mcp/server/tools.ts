@@ -0,0 +1,2236 @@
+/**
+ * PPT-KIT MCP Server - Tool Registry
+ *
+ * Single definition of every PPT tool: name, Zod input/output schemas,
+ * annotations, handler and markdown formatter. The SDK server (index.ts),
+ * the in-browser server (browser.ts) and the bridge `/tools` endpoint all
+ * read from this registry, so adding a tool means adding one entry here.
+ */
+
+import type { z } from 'zod'
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+import { toJsonSchemaCompat } from '@modelcontextprotocol/sdk/server/zod-json-schema-compat.js'
+import {
+  CreateSlideInputSchema,
+  AddContentInputSchema,
+  GetPresentationInfoInputSchema,
+  MarkdownToSlidesInputSchema,
+  AddCodeBlockInputSchema,
+  AddMermaidDiagramInputSchema,
+  AddTableInputSchema,
+  ListSlidesInputSchema,
+  GetSlideInputSchema,
+  DeleteSlideInputSchema,
+  DeleteSlidesInputSchema,
+  DuplicateSlideInputSchema,
+  MoveSlideInputSchema,
+  UpdateShapeInputSchema,
+  DeleteShapeInputSchema,
+  ReorderShapeInputSchema,
+  GroupShapesInputSchema,
+  SavePresentationInputSchema,
+  ListDocumentsInputSchema,
+  BatchInputSchema,
+  UndoInputSchema,
+  HistoryInputSchema,
+  CreateSlideOutputSchema,
+  AddContentOutputSchema,
+  PresentationInfoOutputSchema,
+  MarkdownToSlidesOutputSchema,
+  AddCodeBlockOutputSchema,
+  AddMermaidDiagramOutputSchema,
+  AddTableOutputSchema,
+  ListSlidesOutputSchema,
+  GetSlideOutputSchema,
+  DeleteSlideOutputSchema,
+  DeleteSlidesOutputSchema,
+  DuplicateSlideOutputSchema,
+  MoveSlideOutputSchema,
+  UpdateShapeOutputSchema,
+  DeleteShapeOutputSchema,
+  ReorderShapeOutputSchema,
+  GroupShapesOutputSchema,
+  SavePresentationOutputSchema,
+  ListDocumentsOutputSchema,
+  BatchOutputSchema,
+  UndoOutputSchema,
+  HistoryOutputSchema,
+  ResponseFormat,
+  type BatchStepInput,
+  type ChangeSet,
+  type PlannedChange,
+  type MarkdownToSlidesOutput,
+  type ReorderShapeInput,
+  type SlideShapeOutput
+} from '../schemas'
+import type { PPTOperations, PPTOperationOptions, PPTDocumentSummary, PPTBatchStep, PPTProgress, PPTShapeSummary, PPTShapeZOrder, PPTSlideRef } from './types'
+import { notifyPresentationChanged } from './resources'
+import { PPTKIT_ID_TAG } from '../../modules/ppt-bridge/operations/references'
+import {
+  placeholderId,
+  isPlaceholderId,
+  detectMermaidType,
+  planSlideTitle,
+  planText,
+  planCode,
+  planDiagram,
+  planImage,
+  planTable,
+  planMarkdown
+} from './change-set'
+
+// Character limit for responses
+const CHARACTER_LIMIT = 25000
+
+/**
+ * Per-call context supplied by the transport running a tool
+ */
+export interface ToolContext {
+  // Backend for the requested document; throws when none is available
+  resolveOperations(documentId?: string): PPTOperations
+  // Documents that can be targeted with `document_id`
+  listDocuments(): PPTDocumentSummary[]
+  // Set when the client asked for progress notifications
+  onProgress?: (progress: PPTProgress) => void
+  // Aborted when the client cancels the request
+  signal?: AbortSignal
+}
+
+// Context a handler or preview runs with
+export interface ToolCallContext extends ToolContext {
+  // Options to pass to every operation the call makes
+  options: PPTOperationOptions
+}
+
+// Parameters every tool input accepts
+interface ToolInput {
+  document_id?: string
+  response_format?: ResponseFormat
+  // Mutating tools only: return the change set instead of applying it
+  dry_run?: boolean
+}
+
+/**
+ * Tool definition shared by all MCP transports
+ */
+export interface ToolDefinition<TInput extends ToolInput, TOutput extends Record<string, unknown>> {
+  name: string
+  title: string
+  description: string
+  inputSchema: z.ZodType<TInput, z.ZodTypeDef, unknown>
+  // Shape of structuredContent on success
+  outputSchema: z.ZodType<TOutput, z.ZodTypeDef, unknown>
+  annotations: ToolAnnotations
+  // Backend methods the handler and preview call; hidden when the connected add-in lacks one
+  methods: ReadonlyArray<keyof PPTOperations>
+  handler(params: TInput, context: ToolCallContext): Promise<TOutput>
+  // Mutating tools: the output the handler would return, with `dry_run` and
+  // `change_set` set. May read the presentation but never changes it
+  preview?(params: TInput, context: ToolCallContext): Promise<TOutput>
+  // Text returned for response_format=markdown
+  formatMarkdown(output: TOutput): string
+  // Marks a completed call as failed without discarding its output (e.g. a rolled-back batch)
+  isError?(output: TOutput): boolean
+}
+
+// Registry entry, typed with what every tool's input and output have in common
+export type AnyToolDefinition = ToolDefinition<
+  ToolInput & Record<string, unknown>,
+  Record<string, unknown> & { change_set?: ChangeSet }
+>
+
+// Prefix of the tools the gateway republishes from external MCP servers (gateway.ts)
+export const EXTERNAL_TOOL_PREFIX = 'ext_'
+
+/**
+ * Tool as advertised by tools/list (JSON Schema instead of Zod)
+ */
+export interface ToolListing {
+  name: string
+  title: string
+  description: string
+  inputSchema: Record<string, unknown>
+  outputSchema: Record<string, unknown>
+  annotations: ToolAnnotations
+}
+
+// MCP tools/call result
+export type ToolResult = {
+  content: Array<{ type: 'text'; text: string }>
+  structuredContent?: Record<string, unknown>
+  isError?: boolean
+}
+
+/**
+ * Define a tool, inferring handler types from its schemas
+ */
+function defineTool<TInput extends ToolInput, TOutput extends Record<string, unknown>>(
+  tool: ToolDefinition<TInput, TOutput>
+): ToolDefinition<TInput, TOutput> {
+  return tool
+}
+
+/**
+ * Format response based on requested format
+ */
+function formatResponse<T>(
+  data: T,
+  format: ResponseFormat,
+  markdownFormatter: (data: T) => string
+): { text: string; structured: T } {
+  const text = format === ResponseFormat.MARKDOWN
+    ? markdownFormatter(data)
+    : JSON.stringify(data, null, 2)
+
+  return { text, structured: data }
+}
+
+/**
+ * Build an MCP error result from a thrown error
+ */
+export function errorResponse(error: unknown): ToolResult & { isError: true } {
+  const message = error instanceof Error ? error.message : 'Unknown error'
+  return {
+    content: [{ type: 'text', text: `Error: ${message}` }],
+    isError: true
+  }
+}
+
+// Batch op names: tool input (snake_case) -> backend (camelCase)
+const BATCH_OPS = {
+  create_slide: 'createSlide',
+  add_text: 'addText',
+  add_code: 'addCode',
+  add_mermaid: 'addMermaid',
+  add_image: 'addImage'
+} as const
+
+/**
+ * Parse a slide_id argument into a slide reference
+ * Numbers (and "#<n>") are 1-based slide numbers; "title:", "tag:" and "id:"
+ * prefixes select the match type; anything else is a slide ID.
+ */
+export function toSlideRef(value: string | number): PPTSlideRef {
+  if (typeof value === 'number') return { type: 'number', number: value }
+
+  const numbered = value.match(/^#(\d+)$/)
+  if (numbered) return { type: 'number', number: Number(numbered[1]) }
+
+  const prefixed = value.match(/^(id|title|tag):(.+)$/i)
+  if (!prefixed) return { type: 'id', id: value }
+
+  const [, kind, rest] = prefixed
+  switch (kind.toLowerCase()) {
+    case 'title':
+      return { type: 'title', title: rest }
+    case 'tag': {
+      const separator = rest.indexOf('=')
+      return separator > 0
+        ? { type: 'tag', key: rest.slice(0, separator).trim(), value: rest.slice(separator + 1) }
+        : { type: 'tag', key: PPTKIT_ID_TAG, value: rest }
+    }
+    default:
+      return { type: 'id', id: rest }
+  }
+}
+
+/**
+ * Resolve a slide_id argument to the Office slide ID it points to
+ */
+async function resolveSlideId(ops: PPTOperations, value: string | number, options?: PPTOperationOptions): Promise<string> {
+  const { slideId } = await ops.resolveSlide(toSlideRef(value), options)
+  return slideId
+}
+
+/**
+ * Resolve a ppt_batch slide reference; `$<n>` targets are left for the
+ * backend, since that slide does not exist yet
+ */
+async function resolveBatchSlideId(ops: PPTOperations, value: string | number, options?: PPTOperationOptions): Promise<string> {
+  return typeof value === 'string' && isPlaceholderId(value) ? value : resolveSlideId(ops, value, options)
+}
+
+/**
+ * Throw unless a 0-based slide index is within [0, max] (mirrors the backends' check for dry runs)
+ */
+function checkSlideIndex(index: number, max: number): void {
+  if (index > max) {
+    throw new Error(`Slide index ${index} out of range (0-${max})`)
+  }
+}
+
+/**
+ * Find a shape on a slide for a dry run
+ * @returns Its 0-based z-order index and the number of shapes on the slide
+ */
+async function findShape(
+  ops: PPTOperations,
+  slideId: string,
+  shapeId: string,
+  options?: PPTOperationOptions
+): Promise<{ index: number; count: number }> {
+  const shapes = await ops.getSlideShapes(slideId, options)
+  const index = shapes.findIndex(shape => shape.id === shapeId)
+  if (index < 0) {
+    throw new Error(`Shape not found: ${shapeId}`)
+  }
+  return { index, count: shapes.length }
+}
+
+/**
+ * Dry-run fields of a tool output
+ * @param overrides - Arguments pinned in the change set, e.g. slide references resolved to slide IDs
+ */
+function dryRun(
+  tool: string,
+  params: ToolInput,
+  changes: PlannedChange[],
+  overrides: Record<string, unknown> = {}
+): { dry_run: true; change_set: ChangeSet } {
+  const args: Record<string, unknown> = { ...params, ...overrides }
+  delete args.dry_run
+  return { dry_run: true, change_set: { tool, arguments: args, changes } }
+}
+
+/**
+ * Describe one planned change for response_format=markdown
+ */
+function formatChangeMarkdown(change: PlannedChange): string {
+  switch (change.action) {
+    case 'create_slide':
+      return `Create slide ${change.slide_id} "${change.title}" (${change.layout})${change.index !== undefined ? ` at index ${change.index}` : ''}`
+    case 'duplicate_slide':
+      return `Copy slide ${change.source_slide_id} to ${change.slide_id} at index ${change.index}`
+    case 'delete_slide':
+      return `Delete slide ${change.slide_id} (index ${change.index})`
+    case 'move_slide':
+      return `Move slide ${change.slide_id} from index ${change.from_index} to ${change.index}`
+    case 'create_shape':
+      return `Add ${change.type} "${change.name}" to slide ${change.slide_id} at ${change.left},${change.top} ${change.width}×${change.height}`
+    case 'update_shape':
+      return `Update ${change.fields.join(', ')} of shape ${change.shape_id} on slide ${change.slide_id}`
+    case 'delete_shape':
+      return `Delete shape ${change.shape_id} from slide ${change.slide_id}`
+    case 'reorder_shape':
+      return `Move shape ${change.shape_id} on slide ${change.slide_id} to z-order position ${change.z_order_position}`
+    case 'group_shapes':
+      return `Group shapes ${change.shape_ids.join(', ')} on slide ${change.slide_id} as ${change.group_id}`
+    case 'revert_change':
+      return `Revert change ${change.entry_id}: ${change.summary}`
+  }
+}
+
+/**
+ * Format a dry-run change set for response_format=markdown
+ */
+function formatChangeSetMarkdown(changeSet: ChangeSet): string {
+  return [
+    `# Dry Run: ${changeSet.tool}\n`,
+    `Nothing was changed. Call ${changeSet.tool} with the change set's arguments to apply:\n`,
+    ...changeSet.changes.map(change => `- ${formatChangeMarkdown(change)}`)
+  ].join('\n')
+}
+
+/**
+ * Convert a ppt_batch step to a backend batch step, resolving its slide reference
+ */
+async function toBatchStep(step: BatchStepInput, ops: PPTOperations, options?: PPTOperationOptions): Promise<PPTBatchStep> {
+  if (step.op === 'create_slide') {
+    return { op: 'createSlide', title: step.title, layout: step.layout }
+  }
+
+  const slideId = await resolveBatchSlideId(ops, step.slide_id, options)
+  switch (step.op) {
+    case 'add_text':
+      return { op: 'addText', slideId, content: step.content, position: step.position }
+    case 'add_code':
+      return { op: 'addCode', slideId, code: step.code, language: step.language, position: step.position }
+    case 'add_mermaid':
+      return { op: 'addMermaid', slideId, mermaidCode: step.mermaid_code, position: step.position }
+    case 'add_image':
+      return { op: 'addImage', slideId, imageData: step.image_data, position: step.position }
+  }
+}
+
+/**
+ * Convert a backend shape (and its group members) to ppt_get_slide output
+ */
+function toShapeOutput(shape: PPTShapeSummary): SlideShapeOutput {
+  return {
+    id: shape.id,
+    name: shape.name,
+    type: shape.type,
+    left: shape.left,
+    top: shape.top,
+    width: shape.width,
+    height: shape.height,
+    text: shape.text,
+    is_title: shape.isTitle,
+    placeholder_type: shape.placeholderType,
+    paragraphs: shape.paragraphs?.map(paragraph => ({
+      text: paragraph.text,
+      horizontal_alignment: paragraph.horizontalAlignment,
+      indent_level: paragraph.indentLevel,
+      bulleted: paragraph.bulleted,
+      runs: paragraph.runs
+    })),
+    fill: shape.fill && {
+      type: shape.fill.type,
+      foreground_color: shape.fill.foregroundColor,
+      transparency: shape.fill.transparency
+    },
+    line: shape.line && {
+      visible: shape.line.visible,
+      color: shape.line.color,
+      weight: shape.line.weight,
+      dash_style: shape.line.dashStyle
+    },
+    tags: shape.tags,
+    shapes: shape.shapes?.map(toShapeOutput)
+  }
+}
+
+/**
+ * Render a shape (and its group members) as an indented markdown list item
+ */
+function formatShapeMarkdown(shape: SlideShapeOutput, depth = 0): string[] {
+  const indent = '  '.repeat(depth)
+  const geometry = `${Math.round(shape.left)},${Math.round(shape.top)} ${Math.round(shape.width)}×${Math.round(shape.height)}`
+  const lines = [`${indent}- **${shape.name}** (${shape.type}, ID ${shape.id}) at ${geometry}${shape.is_title ? ' (title)' : ''}`]
+  if (shape.text) {
+    lines.push(...shape.text.split(/\r\n|\r|\n/).map(line => `${indent}  > ${line}`))
+  }
+  for (const member of shape.shapes || []) {
+    lines.push(...formatShapeMarkdown(member, depth + 1))
+  }
+  return lines
+}
+
+// Tool: ppt_create_slide
+const createSlideTool = defineTool({
+  name: 'ppt_create_slide',
+  title: 'Create PPT Slide',
+  description: `Create a new slide in the current PowerPoint presentation.
+
+Args:
+  - title (string, required): Title text for the new slide (1-200 characters)
+  - layout (string, optional): Layout type - 'title', 'content', 'two-column', 'comparison', 'image-focus', 'code-focus'. Default: 'content'
+  - index (number, optional): 0-based position of the new slide. Default: after the last slide (other positions need PowerPointApi 1.8 in the Office Add-in)
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_id": string,      // Unique identifier of the created slide
+    "title": string,         // Title text that was set
+    "layout": string,        // Layout type applied
+    "index": number,         // 0-based position of the slide
+    "success": boolean       // Whether creation succeeded
+  }
+
+Examples:
+  - Create title slide: { "title": "Introduction", "layout": "title" }
+  - Create content slide: { "title": "Key Features" }
+  - Create code-focused slide: { "title": "Code Example", "layout": "code-focus" }
+  - Insert as second slide: { "title": "Agenda", "index": 1 }
+
+Error Handling:
+  - Returns error if PowerPoint is not available
+  - Returns error if title exceeds 200 characters
+  - Returns error if index is past the end of the presentation`,
+  inputSchema: CreateSlideInputSchema,
+  outputSchema: CreateSlideOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  methods: ['createSlide', 'listSlides'],
+  async handler(params, { resolveOperations, options }) {
+    const layout = params.layout || 'content'
+    const result = await resolveOperations(params.document_id).createSlide(params.title, layout, params.index, options)
+    notifyPresentationChanged({ kind: 'structure' })
+
+    return {
+      slide_id: result.slideId,
+      title: params.title,
+      layout,
+      index: result.index,
+      success: true
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const layout = params.layout || 'content'
+    const { total } = await resolveOperations(params.document_id).listSlides(1, 0, options)
+    const index = params.index ?? total
+    checkSlideIndex(index, total)
+    const slideId = placeholderId(0)
+
+    return {
+      slide_id: slideId,
+      title: params.title,
+      layout,
+      index,
+      success: true,
+      ...dryRun('ppt_create_slide', params, [
+        { action: 'create_slide', slide_id: slideId, title: params.title, layout, index },
+        ...planSlideTitle(slideId, params.title, layout)
+      ])
+    }
+  },
+  formatMarkdown: (data) => `# Slide Created\n\n- **ID**: ${data.slide_id}\n- **Title**: ${data.title}\n- **Layout**: ${data.layout}\n- **Index**: ${data.index}`
+})
+
+// Tool: ppt_add_content
+const addContentTool = defineTool({
+  name: 'ppt_add_content',
+  title: 'Add Content to Slide',
+  description: `Add content to an existing slide in the PowerPoint presentation.
+
+Args:
+  - slide_id (string | number, required): The slide to add content to (slide ID, 1-based slide number, "title:<text>" or "tag:<value>")
+  - content (string, required): The content to add (text, code, or base64 image data)
+  - content_type (string, required): Type of content - 'text', 'code', 'image'
+  - position (object, optional): Position and size { x, y, width, height } in points
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_id": string,      // ID of the modified slide
+    "content_type": string,  // Type of content added
+    "success": boolean,      // Whether addition succeeded
+    "message": string        // Status message
+  }
+
+Examples:
+  - Add text: { "slide_id": "slide-1", "content": "Hello World", "content_type": "text" }
+  - Add code: { "slide_id": "slide-1", "content": "console.log('hi')", "content_type": "code" }
+  - Add with position: { "slide_id": "slide-1", "content": "Text", "content_type": "text", "position": { "x": 100, "y": 100, "width": 400, "height": 200 } }
+
+Error Handling:
+  - Returns error if slide_id matches no slide, or several slides (ambiguous title or tag)
+  - Returns error if content is empty`,
+  inputSchema: AddContentInputSchema,
+  outputSchema: AddContentOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  methods: ['resolveSlide', 'addText', 'addCode', 'addImage'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+
+    switch (params.content_type) {
+      case 'text':
+        await ops.addText(slideId, params.content, params.position, options)
+        break
+      case 'code':
+        await ops.addCode(slideId, params.content, 'plaintext', params.position, options)
+        break
+      case 'image':
+        await ops.addImage(slideId, params.content, params.position, options)
+        break
+    }
+    notifyPresentationChanged({ kind: 'slide', slideId })
+
+    return {
+      slide_id: slideId,
+      content_type: params.content_type,
+      success: true,
+      message: `${params.content_type} content added successfully`
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const slideId = await resolveSlideId(resolveOperations(params.document_id), params.slide_id, options)
+    const changes = {
+      text: () => planText(slideId, params.content, params.position),
+      code: () => planCode(slideId, params.content, params.position),
+      image: () => planImage(slideId, params.position)
+    }[params.content_type]()
+
+    return {
+      slide_id: slideId,
+      content_type: params.content_type,
+      success: true,
+      message: `${params.content_type} content would be added`,
+      ...dryRun('ppt_add_content', params, changes, { slide_id: slideId })
+    }
+  },
+  formatMarkdown: (data) => `# Content Added\n\n- **Slide**: ${data.slide_id}\n- **Type**: ${data.content_type}\n- **Status**: ${data.message}`
+})
+
+// Tool: ppt_get_info
+const getInfoTool = defineTool({
+  name: 'ppt_get_info',
+  title: 'Get Presentation Info',
+  description: `Get information about the current PowerPoint presentation.
+
+Args:
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_count": number,         // Total number of slides
+    "current_slide_index": number, // Index of currently selected slide (0-based)
+    "title": string,               // Presentation title (if available)
+    "author": string               // Author name (if available)
+  }
+
+Examples:
+  - Get info: {}
+  - Get as markdown: { "response_format": "markdown" }
+
+Error Handling:
+  - Returns error if PowerPoint is not available
+  - Returns error if no presentation is open`,
+  inputSchema: GetPresentationInfoInputSchema,
+  outputSchema: PresentationInfoOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true
+  },
+  methods: ['getPresentationInfo'],
+  async handler(params, { resolveOperations, options }) {
+    const info = await resolveOperations(params.document_id).getPresentationInfo(options)
+
+    return {
+      slide_count: info.slideCount,
+      current_slide_index: info.currentSlideIndex,
+      title: info.title,
+      author: info.author
+    }
+  },
+  formatMarkdown: (data) => `# Presentation Info\n\n- **Slides**: ${data.slide_count}\n- **Current Slide**: ${data.current_slide_index + 1}\n- **Title**: ${data.title || 'Untitled'}`
+})
+
+// Tool: ppt_from_markdown
+const fromMarkdownTool = defineTool({
+  name: 'ppt_from_markdown',
+  title: 'Generate Slides from Markdown',
+  description: `Generate PowerPoint slides from Markdown content. Automatically parses the markdown structure and creates slides.
+
+Long documents report progress per generated slide when the request carries a progressToken, and generation stops when the request is cancelled.
+
+Args:
+  - markdown (string, required): Markdown content to convert (max 100000 characters)
+    - Use # or ## headings to create new slides
+    - Use code blocks with language for syntax highlighting
+    - Use \`\`\`mermaid for diagrams
+    - Use lists for bullet points
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_count": number,     // Number of slides created
+    "slides": [
+      {
+        "id": string,          // Slide ID
+        "title": string,       // Slide title
+        "layout": string,      // Applied layout
+        "block_count": number  // Number of content blocks
+      }
+    ],
+    "success": boolean
+  }
+
+Examples:
+  - Simple slides: { "markdown": "# Title\\n\\nContent here\\n\\n## Slide 2\\n- Point 1\\n- Point 2" }
+  - With code: { "markdown": "# Code Demo\\n\\n\`\`\`javascript\\nconsole.log('hello');\\n\`\`\`" }
+
+Error Handling:
+  - Returns error if markdown is empty
+  - Returns error if markdown exceeds 100000 characters`,
+  inputSchema: MarkdownToSlidesInputSchema,
+  outputSchema: MarkdownToSlidesOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  methods: ['generateFromMarkdown'],
+  async handler(params, { resolveOperations, onProgress, options }) {
+    const result = await resolveOperations(params.document_id).generateFromMarkdown(params.markdown, {
+      ...options,
+      onProgress
+    })
+    notifyPresentationChanged({ kind: 'structure' })
+    const slides = result.slides.map(slide => ({
+      id: slide.id,
+      title: slide.title,
+      layout: slide.layout,
+      block_count: slide.blockCount
+    }))
+
+    let output: MarkdownToSlidesOutput = {
+      slide_count: result.slideCount,
+      slides,
+      success: true
+    }
+
+    if (JSON.stringify(output, null, 2).length > CHARACTER_LIMIT) {
+      // Truncate slides list
+      const truncatedSlides = slides.slice(0, Math.ceil(slides.length / 2))
+      output = {
+        ...output,
+        slides: truncatedSlides,
+        truncated: true,
+        truncation_message: `Response truncated from ${slides.length} to ${truncatedSlides.length} slides.`
+      }
+    }
+
+    return output
+  },
+  async preview(params) {
+    const { slides, changes } = await planMarkdown(params.markdown)
+
+    return {
+      slide_count: slides.length,
+      slides: slides.map((slide, i) => ({
+        id: placeholderId(i),
+        title: slide.title,
+        layout: slide.layout,
+        block_count: slide.blocks.length
+      })),
+      success: true,
+      ...dryRun('ppt_from_markdown', params, changes)
+    }
+  },
+  formatMarkdown: (data) => {
+    const lines = [`# Slides Generated\n`, `Created ${data.slide_count} slides:\n`]
+    for (const slide of data.slides) {
+      lines.push(`## ${slide.title}`)
+      lines.push(`- ID: ${slide.id}`)
+      lines.push(`- Layout: ${slide.layout}`)
+      lines.push('')
+    }
+    if (data.truncation_message) {
+      lines.push(`*${data.truncation_message}*`)
+    }
+    return lines.join('\n')
+  }
+})
+
+// Tool: ppt_add_code_block
+const addCodeBlockTool = defineTool({
+  name: 'ppt_add_code_block',
+  title: 'Add Code Block to Slide',
+  description: `Add a syntax-highlighted code block to a slide.
+
+Args:
+  - slide_id (string | number, required): The slide to add the code block to (slide ID, 1-based slide number, "title:<text>" or "tag:<value>")
+  - code (string, required): The source code to display (max 50000 characters)
+  - language (string, required): Programming language for syntax highlighting
+  - position (object, optional): Position { x, y, width, height } in points
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_id": string,
+    "language": string,
+    "line_count": number,
+    "success": boolean
+  }
+
+Supported Languages:
+  javascript, typescript, python, java, c, cpp, csharp, go, rust, ruby, php, swift, kotlin, sql, html, css, json, yaml, bash, powershell, and more.
+
+Examples:
+  - Add JS code: { "slide_id": "slide-1", "code": "console.log('Hello');", "language": "javascript" }
+  - Add Python: { "slide_id": "slide-1", "code": "print('Hello')", "language": "python" }
+
+Error Handling:
+  - Returns error if slide_id matches no slide, or several slides (ambiguous title or tag)
+  - Returns error if code is empty`,
+  inputSchema: AddCodeBlockInputSchema,
+  outputSchema: AddCodeBlockOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  methods: ['resolveSlide', 'addCode'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    const result = await ops.addCode(
+      slideId,
+      params.code,
+      params.language,
+      params.position,
+      options
+    )
+    notifyPresentationChanged({ kind: 'slide', slideId })
+
+    return {
+      slide_id: slideId,
+      language: params.language,
+      line_count: result.lineCount,
+      success: true
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const slideId = await resolveSlideId(resolveOperations(params.document_id), params.slide_id, options)
+
+    return {
+      slide_id: slideId,
+      language: params.language,
+      line_count: params.code.split('\n').length,
+      success: true,
+      ...dryRun('ppt_add_code_block', params, planCode(slideId, params.code, params.position), { slide_id: slideId })
+    }
+  },
+  formatMarkdown: (data) => `# Code Block Added\n\n- **Slide**: ${data.slide_id}\n- **Language**: ${data.language}\n- **Lines**: ${data.line_count}`
+})
+
+// Tool: ppt_add_mermaid_diagram
+const addMermaidDiagramTool = defineTool({
+  name: 'ppt_add_mermaid_diagram',
+  title: 'Add Mermaid Diagram to Slide',
+  description: `Add a Mermaid diagram to a slide. The diagram is rendered as an image.
+
+Args:
+  - slide_id (string | number, required): The slide to add the diagram to (slide ID, 1-based slide number, "title:<text>" or "tag:<value>")
+  - mermaid_code (string, required): Mermaid diagram syntax (max 20000 characters)
+  - position (object, optional): Position { x, y, width, height } in points
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_id": string,
+    "diagram_type": string,  // Detected diagram type (flowchart, sequence, etc.)
+    "success": boolean
+  }
+
+Supported Diagram Types:
+  flowchart, sequence, gantt, class, state, er, journey, pie, quadrant, requirement, gitgraph, mindmap, timeline
+
+Examples:
+  - Flowchart: { "slide_id": "slide-1", "mermaid_code": "flowchart LR\\n  A --> B --> C" }
+  - Sequence: { "slide_id": "slide-1", "mermaid_code": "sequenceDiagram\\n  Alice->>Bob: Hello" }
+
+Error Handling:
+  - Returns error if slide_id matches no slide, or several slides (ambiguous title or tag)
+  - Returns error if mermaid syntax is invalid`,
+  inputSchema: AddMermaidDiagramInputSchema,
+  outputSchema: AddMermaidDiagramOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  methods: ['resolveSlide', 'addMermaid'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    const result = await ops.addMermaid(
+      slideId,
+      params.mermaid_code,
+      params.position,
+      options
+    )
+    notifyPresentationChanged({ kind: 'slide', slideId })
+
+    return {
+      slide_id: slideId,
+      diagram_type: result.diagramType,
+      success: true
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const slideId = await resolveSlideId(resolveOperations(params.document_id), params.slide_id, options)
+
+    return {
+      slide_id: slideId,
+      diagram_type: detectMermaidType(params.mermaid_code),
+      success: true,
+      ...dryRun('ppt_add_mermaid_diagram', params, planDiagram(slideId, params.mermaid_code, params.position), { slide_id: slideId })
+    }
+  },
+  formatMarkdown: (data) => `# Mermaid Diagram Added\n\n- **Slide**: ${data.slide_id}\n- **Type**: ${data.diagram_type}`
+})
+
+/**
+ * Check that no table row has more cells than there are headers
+ */
+function checkTableRows(headers: string[], rows: string[][]): void {
+  const index = rows.findIndex(row => row.length > headers.length)
+  if (index >= 0) {
+    throw new Error(`Row ${index + 1} has ${rows[index].length} cells but the table has ${headers.length} columns`)
+  }
+}
+
+// Tool: ppt_add_table
+const addTableTool = defineTool({
+  name: 'ppt_add_table',
+  title: 'Add Table to Slide',
+  description: `Add a table to a slide. The first row holds the column headers.
+
+Args:
+  - slide_id (string | number, required): The slide to add the table to (slide ID, 1-based slide number, "title:<text>" or "tag:<value>")
+  - headers (string[], required): Column headers (1-20)
+  - rows (string[][], optional): Data rows (max 100); missing cells are left empty. Default: []
+  - position (object, optional): Position { x, y, width, height } in points
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_id": string,
+    "column_count": number,
+    "row_count": number,     // Data rows, not counting the header row
+    "success": boolean
+  }
+
+Examples:
+  - Comparison: { "slide_id": 2, "headers": ["Plan", "Price"], "rows": [["Free", "$0"], ["Pro", "$10"]] }
+
+Error Handling:
+  - Returns error if slide_id matches no slide, or several slides (ambiguous title or tag)
+  - Returns error if a row has more cells than there are headers`,
+  inputSchema: AddTableInputSchema,
+  outputSchema: AddTableOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false
+  },
+  methods: ['resolveSlide', 'addTable'],
+  async handler(params, { resolveOperations, options }) {
+    checkTableRows(params.headers, params.rows)
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    await ops.addTable(slideId, params.headers, params.rows, params.position, options)
+    notifyPresentationChanged({ kind: 'slide', slideId })
+
+    return {
+      slide_id: slideId,
+      column_count: params.headers.length,
+      row_count: params.rows.length,
+      success: true
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    checkTableRows(params.headers, params.rows)
+    const slideId = await resolveSlideId(resolveOperations(params.document_id), params.slide_id, options)
+
+    return {
+      slide_id: slideId,
+      column_count: params.headers.length,
+      row_count: params.rows.length,
+      success: true,
+      ...dryRun('ppt_add_table', params, planTable(slideId, params.position), { slide_id: slideId })
+    }
+  },
+  formatMarkdown: (data) => `# Table Added\n\n- **Slide**: ${data.slide_id}\n- **Size**: ${data.column_count} columns × ${data.row_count} rows`
+})
+
+// Tool: ppt_list_slides
+const listSlidesTool = defineTool({
+  name: 'ppt_list_slides',
+  title: 'List Slides',
+  description: `List all slides in the current presentation with pagination support.
+
+Args:
+  - limit (number, optional): Maximum slides to return (1-100). Default: 20
+  - offset (number, optional): Number of slides to skip. Default: 0
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "total": number,           // Total number of slides
+    "count": number,           // Number of slides in this response
+    "offset": number,          // Current offset
+    "slides": [
+      {
+        "id": string,
+        "index": number,
+        "title": string,
+        "layout": string
+      }
+    ],
+    "has_more": boolean,       // Whether more slides are available
+    "next_offset": number      // Offset for next page (if has_more)
+  }
+
+Examples:
+  - List all: {}
+  - Paginate: { "limit": 10, "offset": 10 }
+
+Error Handling:
+  - Returns empty list if no presentation is open`,
+  inputSchema: ListSlidesInputSchema,
+  outputSchema: ListSlidesOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true
+  },
+  methods: ['listSlides'],
+  async handler(params, { resolveOperations, options }) {
+    const offset = params.offset || 0
+    const limit = params.limit || 20
+    const result = await resolveOperations(params.document_id).listSlides(limit, offset, options)
+    const paginatedSlides = result.slides.map(slide => ({
+      id: slide.id,
+      index: slide.index,
+      title: slide.title,
+      layout: slide.layout
+    }))
+
+    return {
+      total: result.total,
+      count: paginatedSlides.length,
+      offset,
+      slides: paginatedSlides,
+      has_more: result.hasMore,
+      ...(result.hasMore ? { next_offset: offset + paginatedSlides.length } : {})
+    }
+  },
+  formatMarkdown: (data) => {
+    if (data.slides.length === 0) {
+      return '# Slides\n\nNo slides found in the presentation.'
+    }
+    const lines = [`# Slides (${data.count} of ${data.total})\n`]
+    for (const slide of data.slides) {
+      lines.push(`## ${slide.index + 1}. ${slide.title || 'Untitled'}`)
+      lines.push(`- ID: ${slide.id}`)
+      lines.push(`- Layout: ${slide.layout}`)
+      lines.push('')
+    }
+    if (data.has_more) {
+      lines.push(`*More slides available. Use offset=${data.next_offset} to see next page.*`)
+    }
+    return lines.join('\n')
+  }
+})
+
+// Tool: ppt_get_slide
+const getSlideTool = defineTool({
+  name: 'ppt_get_slide',
+  title: 'Get Slide',
+  description: `Read a slide's full shape tree: every shape with its geometry, text and formatting.
+
+Args:
+  - slide_id (string | number, required): The slide to read (slide ID, 1-based slide number, "title:<text>" or "tag:<value>")
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_id": string,
+    "title": string,           // Text of the detected title shape
+    "shape_count": number,
+    "shapes": [
+      {
+        "id": string,
+        "name": string,
+        "type": string,        // TextBox, GeometricShape, Placeholder, Group, ...
+        "left": number, "top": number, "width": number, "height": number,
+        "text": string,
+        "is_title": boolean,
+        "placeholder_type": string,
+        "paragraphs": [{ "text": string, "horizontal_alignment": string, "bulleted": boolean,
+                         "runs": [{ "text": string, "font": { "name", "size", "bold", "italic", "underline", "color" } }] }],
+        "fill": { "type": string, "foreground_color": string, "transparency": number },
+        "line": { "visible": boolean, "color": string, "weight": number, "dash_style": string },
+        "tags": { [key]: string },
+        "shapes": [...]        // Members of a group
+      }
+    ]
+  }
+
+Examples:
+  - Read a slide before editing it: { "slide_id": "256#" }
+  - Read the third slide: { "slide_id": 3 }
+  - Read a slide by title: { "slide_id": "title:Roadmap" }
+
+Error Handling:
+  - Returns error if slide_id matches no slide, or several slides (ambiguous title or tag)`,
+  inputSchema: GetSlideInputSchema,
+  outputSchema: GetSlideOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true
+  },
+  methods: ['resolveSlide', 'getSlideShapes'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    const shapes = await ops.getSlideShapes(slideId, { ...options, includeFormatting: true })
+    const title = shapes.find(shape => shape.isTitle)?.text
+
+    return {
+      slide_id: slideId,
+      title: title?.replace(/\s+/g, ' ').trim() || '',
+      shape_count: shapes.length,
+      shapes: shapes.map(toShapeOutput)
+    }
+  },
+  formatMarkdown: (data) => {
+    const lines = [`# ${data.title || 'Untitled'}\n`, `- **ID**: ${data.slide_id}`, `- **Shapes**: ${data.shape_count}`, '']
+    for (const shape of data.shapes) {
+      lines.push(...formatShapeMarkdown(shape))
+    }
+    return lines.join('\n')
+  }
+})
+
+// Tool: ppt_delete_slide
+const deleteSlideTool = defineTool({
+  name: 'ppt_delete_slide',
+  title: 'Delete Slide',
+  description: `Delete a slide from the presentation.
+
+Args:
+  - slide_id (string | number, required): The slide to delete (slide ID, 1-based slide number, "title:<text>" or "tag:<value>")
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_id": string,
+    "success": boolean,
+    "message": string
+  }
+
+Examples:
+  - Delete: { "slide_id": "slide-1" }
+
+Error Handling:
+  - Returns error if slide_id matches no slide, or several slides (ambiguous title or tag)
+  - Returns error if trying to delete the only slide`,
+  inputSchema: DeleteSlideInputSchema,
+  outputSchema: DeleteSlideOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  },
+  methods: ['resolveSlide', 'deleteSlide'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    await ops.deleteSlide(slideId, options)
+    notifyPresentationChanged({ kind: 'structure' })
+
+    return {
+      slide_id: slideId,
+      success: true,
+      message: 'Slide deleted successfully'
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const { slideId, index } = await resolveOperations(params.document_id).resolveSlide(toSlideRef(params.slide_id), options)
+
+    return {
+      slide_id: slideId,
+      success: true,
+      message: 'Slide would be deleted',
+      ...dryRun('ppt_delete_slide', params, [{ action: 'delete_slide', slide_id: slideId, index }], { slide_id: slideId })
+    }
+  },
+  formatMarkdown: (data) => `# Slide Deleted\n\n- **ID**: ${data.slide_id}\n- **Status**: ${data.message}`
+})
+
+// Tool: ppt_delete_slides
+const deleteSlidesTool = defineTool({
+  name: 'ppt_delete_slides',
+  title: 'Delete Slides',
+  description: `Delete a range of consecutive slides.
+
+Args:
+  - start_index (number, required): 0-based index of the first slide to delete
+  - count (number, required): Number of slides to delete
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_ids": string[],   // IDs of the deleted slides
+    "count": number,
+    "success": boolean,
+    "message": string
+  }
+
+Examples:
+  - Delete slides 3 to 5: { "start_index": 2, "count": 3 }
+
+Error Handling:
+  - Returns error if the range extends past the last slide
+  - Returns error if the range covers every slide (Office Add-in)`,
+  inputSchema: DeleteSlidesInputSchema,
+  outputSchema: DeleteSlidesOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  methods: ['listSlides', 'deleteSlideRange'],
+  async handler(params, { resolveOperations, options }) {
+    const { slideIds } = await resolveOperations(params.document_id).deleteSlideRange(params.start_index, params.count, options)
+    notifyPresentationChanged({ kind: 'structure' })
+
+    return {
+      slide_ids: slideIds,
+      count: slideIds.length,
+      success: true,
+      message: `Deleted ${slideIds.length} slide(s)`
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const { total, slides } = await resolveOperations(params.document_id).listSlides(params.count, params.start_index, options)
+    const end = params.start_index + params.count - 1
+    if (end >= total) {
+      throw new Error(`Slide range ${params.start_index}-${end} out of range (0-${total - 1})`)
+    }
+    if (params.count >= total) {
+      throw new Error('Cannot delete every slide')
+    }
+
+    return {
+      slide_ids: slides.map(slide => slide.id),
+      count: slides.length,
+      success: true,
+      message: `${slides.length} slide(s) would be deleted`,
+      ...dryRun('ppt_delete_slides', params, slides.map(slide => ({ action: 'delete_slide' as const, slide_id: slide.id, index: slide.index })))
+    }
+  },
+  formatMarkdown: (data) => `# Slides Deleted\n\n- **IDs**: ${data.slide_ids.join(', ')}\n- **Status**: ${data.message}`
+})
+
+// Tool: ppt_duplicate_slide
+const duplicateSlideTool = defineTool({
+  name: 'ppt_duplicate_slide',
+  title: 'Duplicate Slide',
+  description: `Copy a slide with all of its shapes. The copy gets a new slide ID.
+
+Requires PowerPointApi 1.8 when connected to the Office Add-in.
+
+Args:
+  - slide_id (string | number, required): The slide to copy (slide ID, 1-based slide number, "title:<text>" or "tag:<value>")
+  - index (number, optional): 0-based position of the copy. Default: right after the original
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "source_slide_id": string,
+    "slide_id": string,      // ID of the copy
+    "index": number,         // 0-based position of the copy
+    "success": boolean
+  }
+
+Examples:
+  - Copy in place: { "slide_id": "256" }
+  - Copy to the end of a 10-slide deck: { "slide_id": "256", "index": 10 }
+
+Error Handling:
+  - Returns error if slide_id matches no slide, or several slides (ambiguous title or tag)
+  - Returns error if index is past the end of the presentation
+  - Returns error if the PowerPoint host does not support PowerPointApi 1.8`,
+  inputSchema: DuplicateSlideInputSchema,
+  outputSchema: DuplicateSlideOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  methods: ['resolveSlide', 'listSlides', 'duplicateSlide'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    const result = await ops.duplicateSlide(slideId, params.index, options)
+    notifyPresentationChanged({ kind: 'structure' })
+
+    return {
+      source_slide_id: slideId,
+      slide_id: result.slideId,
+      index: result.index,
+      success: true
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const source = await ops.resolveSlide(toSlideRef(params.slide_id), options)
+    const { total } = await ops.listSlides(1, 0, options)
+    const index = params.index ?? source.index + 1
+    checkSlideIndex(index, total)
+    const slideId = placeholderId(0)
+
+    return {
+      source_slide_id: source.slideId,
+      slide_id: slideId,
+      index,
+      success: true,
+      ...dryRun('ppt_duplicate_slide', params, [
+        { action: 'duplicate_slide', slide_id: slideId, source_slide_id: source.slideId, index }
+      ], { slide_id: source.slideId })
+    }
+  },
+  formatMarkdown: (data) => `# Slide Duplicated\n\n- **Source**: ${data.source_slide_id}\n- **Copy**: ${data.slide_id}\n- **Index**: ${data.index}`
+})
+
+// Tool: ppt_move_slide
+const moveSlideTool = defineTool({
+  name: 'ppt_move_slide',
+  title: 'Move Slide',
+  description: `Move a slide to a new position in the presentation.
+
+Requires PowerPointApi 1.8 when connected to the Office Add-in.
+
+Args:
+  - slide_id (string | number, required): The slide to move (slide ID, 1-based slide number, "title:<text>" or "tag:<value>")
+  - index (number, required): 0-based position of the slide after the move
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_id": string,
+    "from_index": number,    // 0-based position before the move
+    "index": number,         // 0-based position after the move
+    "success": boolean
+  }
+
+Examples:
+  - Make a slide the first one: { "slide_id": "260", "index": 0 }
+  - Move the last of 10 slides to the front: { "slide_id": 10, "index": 0 }
+
+Error Handling:
+  - Returns error if slide_id matches no slide, or several slides (ambiguous title or tag)
+  - Returns error if index is past the last slide
+  - Returns error if the PowerPoint host does not support PowerPointApi 1.8`,
+  inputSchema: MoveSlideInputSchema,
+  outputSchema: MoveSlideOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true
+  },
+  methods: ['resolveSlide', 'listSlides', 'moveSlide'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    const result = await ops.moveSlide(slideId, params.index, options)
+    notifyPresentationChanged({ kind: 'structure' })
+
+    return {
+      slide_id: slideId,
+      from_index: result.fromIndex,
+      index: result.index,
+      success: true
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const { slideId, index: fromIndex } = await ops.resolveSlide(toSlideRef(params.slide_id), options)
+    const { total } = await ops.listSlides(1, 0, options)
+    checkSlideIndex(params.index, total - 1)
+
+    return {
+      slide_id: slideId,
+      from_index: fromIndex,
+      index: params.index,
+      success: true,
+      ...dryRun('ppt_move_slide', params, [
+        { action: 'move_slide', slide_id: slideId, from_index: fromIndex, index: params.index }
+      ], { slide_id: slideId })
+    }
+  },
+  formatMarkdown: (data) => `# Slide Moved\n\n- **ID**: ${data.slide_id}\n- **From index**: ${data.from_index}\n- **To index**: ${data.index}`
+})
+
+// Input fields of ppt_update_shape that change the shape
+const SHAPE_UPDATE_FIELDS = [
+  'text',
+  'name',
+  'position',
+  'fill_color',
+  'font',
+  'horizontal_alignment',
+  'vertical_alignment'
+] as const
+
+// Backend z-order moves by tool position value
+const Z_ORDER_MOVES: Record<ReorderShapeInput['position'], PPTShapeZOrder> = {
+  bring_to_front: 'bringToFront',
+  bring_forward: 'bringForward',
+  send_backward: 'sendBackward',
+  send_to_back: 'sendToBack'
+}
+
+// Tool: ppt_update_shape
+const updateShapeTool = defineTool({
+  name: 'ppt_update_shape',
+  title: 'Update Shape',
+  description: `Change an existing shape: its text, position and size, fill, font or alignment. Only the given fields change.
+
+Use ppt_get_slide to find shape IDs and current values.
+
+Args:
+  - slide_id (string | number, required): The slide holding the shape (slide ID, 1-based slide number, "title:<text>" or "tag:<value>")
+  - shape_id (string, required): The ID of the shape
+  - text (string, optional): New text; replaces all text in the shape
+  - name (string, optional): New shape name
+  - position (object, optional): { x?, y?, width?, height? } in points; omitted fields are kept
+  - fill_color (string, optional): Hex color like '#FFF2CC', or 'none' to remove the fill
+  - font (object, optional): { name?, size?, bold?, italic?, underline?, color? } applied to all text
+  - horizontal_alignment (string, optional): 'left', 'center', 'right' or 'justify'
+  - vertical_alignment (string, optional): 'top', 'middle' or 'bottom'
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_id": string,
+    "shape_id": string,
+    "updated": string[],   // Input fields that were applied
+    "success": boolean
+  }
+
+Examples:
+  - Fix a typo: { "slide_id": "256", "shape_id": "3", "text": "Quarterly Review" }
+  - Move and highlight: { "slide_id": "256", "shape_id": "3", "position": { "y": 200 }, "fill_color": "#FFF2CC" }
+  - Restyle: { "slide_id": "256", "shape_id": "3", "font": { "size": 24, "bold": true }, "horizontal_alignment": "center" }
+
+Error Handling:
+  - Returns error if no field to change is given
+  - Returns error if slide_id matches no slide or several slides, or shape_id is not found
+  - Returns error if text, font or alignment is changed on a shape without text (lines, images, groups)`,
+  inputSchema: UpdateShapeInputSchema,
+  outputSchema: UpdateShapeOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  },
+  methods: ['resolveSlide', 'getSlideShapes', 'updateShape'],
+  async handler(params, { resolveOperations, options }) {
+    const updated = SHAPE_UPDATE_FIELDS.filter(field => params[field] !== undefined)
+    if (updated.length === 0) {
+      throw new Error(`Nothing to update: pass at least one of ${SHAPE_UPDATE_FIELDS.join(', ')}`)
+    }
+
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+
+    const { position, font } = params
+    await ops.updateShape(slideId, params.shape_id, {
+      text: params.text,
+      name: params.name,
+      left: position?.x,
+      top: position?.y,
+      width: position?.width,
+      height: position?.height,
+      fillColor: params.fill_color === 'none' ? null : params.fill_color,
+      font: font && {
+        ...font,
+        underline: font.underline === undefined ? undefined : font.underline ? 'Single' : 'None'
+      },
+      horizontalAlignment: params.horizontal_alignment,
+      verticalAlignment: params.vertical_alignment
+    }, options)
+    notifyPresentationChanged({ kind: 'slide', slideId })
+
+    return {
+      slide_id: slideId,
+      shape_id: params.shape_id,
+      updated: [...updated],
+      success: true
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const updated = SHAPE_UPDATE_FIELDS.filter(field => params[field] !== undefined)
+    if (updated.length === 0) {
+      throw new Error(`Nothing to update: pass at least one of ${SHAPE_UPDATE_FIELDS.join(', ')}`)
+    }
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    await findShape(ops, slideId, params.shape_id, options)
+
+    return {
+      slide_id: slideId,
+      shape_id: params.shape_id,
+      updated: [...updated],
+      success: true,
+      ...dryRun('ppt_update_shape', params, [
+        { action: 'update_shape', slide_id: slideId, shape_id: params.shape_id, fields: [...updated] }
+      ], { slide_id: slideId })
+    }
+  },
+  formatMarkdown: (data) => `# Shape Updated\n\n- **Slide**: ${data.slide_id}\n- **Shape**: ${data.shape_id}\n- **Changed**: ${data.updated.join(', ')}`
+})
+
+// Tool: ppt_delete_shape
+const deleteShapeTool = defineTool({
+  name: 'ppt_delete_shape',
+  title: 'Delete Shape',
+  description: `Delete a shape from a slide. Deleting a group deletes its members.
+
+Args:
+  - slide_id (string | number, required): The slide holding the shape (slide ID, 1-based slide number, "title:<text>" or "tag:<value>")
+  - shape_id (string, required): The ID of the shape to delete
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_id": string,
+    "shape_id": string,
+    "success": boolean,
+    "message": string
+  }
+
+Examples:
+  - Delete: { "slide_id": "256", "shape_id": "5" }
+
+Error Handling:
+  - Returns error if slide_id matches no slide or several slides, or shape_id is not found`,
+  inputSchema: DeleteShapeInputSchema,
+  outputSchema: DeleteShapeOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  methods: ['resolveSlide', 'getSlideShapes', 'deleteShape'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    await ops.deleteShape(slideId, params.shape_id, options)
+    notifyPresentationChanged({ kind: 'slide', slideId })
+
+    return {
+      slide_id: slideId,
+      shape_id: params.shape_id,
+      success: true,
+      message: 'Shape deleted successfully'
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    await findShape(ops, slideId, params.shape_id, options)
+
+    return {
+      slide_id: slideId,
+      shape_id: params.shape_id,
+      success: true,
+      message: 'Shape would be deleted',
+      ...dryRun('ppt_delete_shape', params, [
+        { action: 'delete_shape', slide_id: slideId, shape_id: params.shape_id }
+      ], { slide_id: slideId })
+    }
+  },
+  formatMarkdown: (data) => `# Shape Deleted\n\n- **Slide**: ${data.slide_id}\n- **Shape**: ${data.shape_id}\n- **Status**: ${data.message}`
+})
+
+// Tool: ppt_reorder_shape
+const reorderShapeTool = defineTool({
+  name: 'ppt_reorder_shape',
+  title: 'Reorder Shape',
+  description: `Move a shape in the z-order of its slide, e.g. to put text in front of a background rectangle.
+
+Requires PowerPointApi 1.8 when connected to the Office Add-in.
+
+Args:
+  - slide_id (string | number, required): The slide holding the shape (slide ID, 1-based slide number, "title:<text>" or "tag:<value>")
+  - shape_id (string, required): The ID of the shape
+  - position (string, required): 'bring_to_front', 'bring_forward', 'send_backward' or 'send_to_back'
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_id": string,
+    "shape_id": string,
+    "z_order_position": number,   // 1 = backmost
+    "success": boolean
+  }
+
+Examples:
+  - Send a background to the back: { "slide_id": "256", "shape_id": "4", "position": "send_to_back" }
+
+Error Handling:
+  - Returns error if slide_id matches no slide or several slides, or shape_id is not found
+  - Returns error if the PowerPoint host does not support PowerPointApi 1.8`,
+  inputSchema: ReorderShapeInputSchema,
+  outputSchema: ReorderShapeOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  methods: ['resolveSlide', 'getSlideShapes', 'reorderShape'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    const { zOrderPosition } = await ops.reorderShape(slideId, params.shape_id, Z_ORDER_MOVES[params.position], options)
+    notifyPresentationChanged({ kind: 'slide', slideId })
+
+    return {
+      slide_id: slideId,
+      shape_id: params.shape_id,
+      z_order_position: zOrderPosition,
+      success: true
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    const { index, count } = await findShape(ops, slideId, params.shape_id, options)
+    // Shapes are listed back to front, so the z-order position is index + 1
+    const zOrderPosition = {
+      bringToFront: count,
+      bringForward: Math.min(index + 2, count),
+      sendBackward: Math.max(index, 1),
+      sendToBack: 1
+    }[Z_ORDER_MOVES[params.position]]
+
+    return {
+      slide_id: slideId,
+      shape_id: params.shape_id,
+      z_order_position: zOrderPosition,
+      success: true,
+      ...dryRun('ppt_reorder_shape', params, [
+        { action: 'reorder_shape', slide_id: slideId, shape_id: params.shape_id, z_order_position: zOrderPosition }
+      ], { slide_id: slideId })
+    }
+  },
+  formatMarkdown: (data) => `# Shape Reordered\n\n- **Slide**: ${data.slide_id}\n- **Shape**: ${data.shape_id}\n- **Z-order position**: ${data.z_order_position}`
+})
+
+// Tool: ppt_group_shapes
+const groupShapesTool = defineTool({
+  name: 'ppt_group_shapes',
+  title: 'Group Shapes',
+  description: `Group shapes on a slide so they move and resize together. The grouped shapes keep their IDs.
+
+Only available when connected to the Office Add-in (requires PowerPointApi 1.8).
+
+Args:
+  - slide_id (string | number, required): The slide holding the shapes (slide ID, 1-based slide number, "title:<text>" or "tag:<value>")
+  - shape_ids (string[], required): IDs of at least two shapes to group
+  - name (string, optional): Name of the group shape
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "slide_id": string,
+    "group_id": string,      // ID of the new group shape
+    "shape_ids": string[],
+    "success": boolean
+  }
+
+Examples:
+  - Group an icon with its label: { "slide_id": "256", "shape_ids": ["4", "5"], "name": "Step 1" }
+
+Error Handling:
+  - Returns error if slide_id or any shape_id is not found
+  - Returns error if fewer than two different shapes are given
+  - Returns error if the backend or PowerPoint host does not support groups`,
+  inputSchema: GroupShapesInputSchema,
+  outputSchema: GroupShapesOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  methods: ['resolveSlide', 'getSlideShapes', 'groupShapes'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    if (!ops.groupShapes) {
+      throw new Error('Grouping shapes is only available when connected to the Office Add-in.')
+    }
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    const { groupId } = await ops.groupShapes(slideId, params.shape_ids, params.name, options)
+    notifyPresentationChanged({ kind: 'slide', slideId })
+
+    return {
+      slide_id: slideId,
+      group_id: groupId,
+      shape_ids: params.shape_ids,
+      success: true
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    if (!ops.groupShapes) {
+      throw new Error('Grouping shapes is only available when connected to the Office Add-in.')
+    }
+    const slideId = await resolveSlideId(ops, params.slide_id, options)
+    for (const shapeId of params.shape_ids) {
+      await findShape(ops, slideId, shapeId)
+    }
+    const groupId = placeholderId(0)
+
+    return {
+      slide_id: slideId,
+      group_id: groupId,
+      shape_ids: params.shape_ids,
+      success: true,
+      ...dryRun('ppt_group_shapes', params, [
+        { action: 'group_shapes', slide_id: slideId, shape_ids: params.shape_ids, group_id: groupId }
+      ], { slide_id: slideId })
+    }
+  },
+  formatMarkdown: (data) => `# Shapes Grouped\n\n- **Slide**: ${data.slide_id}\n- **Group**: ${data.group_id}\n- **Members**: ${data.shape_ids.join(', ')}`
+})
+
+// Tool: ppt_batch
+const batchTool = defineTool({
+  name: 'ppt_batch',
+  title: 'Run Batch of Operations',
+  description: `Run an ordered list of slide operations as one transaction. Steps run in a single PowerPoint context; if any step fails, the slides and shapes created by earlier steps are deleted.
+
+Args:
+  - steps (array, required): 1-50 operations, each with an "op" field:
+    - { "op": "create_slide", "title": string, "layout"?: string }
+    - { "op": "add_text", "slide_id": string, "content": string, "position"?: object }
+    - { "op": "add_code", "slide_id": string, "code": string, "language": string, "position"?: object }
+    - { "op": "add_mermaid", "slide_id": string, "mermaid_code": string, "position"?: object }
+    - { "op": "add_image", "slide_id": string, "image_data": string, "position"?: object }
+    slide_id accepts the same references as the other tools; "$<n>" targets the slide created by step n (0-based)
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "success": boolean,        // Whether every step succeeded
+    "rolled_back": boolean,    // Whether changes were undone after a failure
+    "error": string,           // First failure (if any)
+    "rollback_error": string,  // Set when the rollback itself failed
+    "steps": [
+      {
+        "index": number,
+        "op": string,
+        "status": string,      // 'ok', 'failed', 'skipped' or 'rolled_back'
+        "slide_id": string,
+        "shape_ids": string[],
+        "error": string
+      }
+    ]
+  }
+
+Examples:
+  - Slide with code: { "steps": [{ "op": "create_slide", "title": "Demo" }, { "op": "add_code", "slide_id": "$0", "code": "print('hi')", "language": "python" }] }
+
+Error Handling:
+  - A failed step is reported in "steps"; later steps are skipped and earlier ones rolled back
+  - Returns error if PowerPoint is not available`,
+  inputSchema: BatchInputSchema,
+  outputSchema: BatchOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  methods: ['resolveSlide', 'runBatch'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const steps: PPTBatchStep[] = []
+    for (const step of params.steps) {
+      steps.push(await toBatchStep(step, ops, options))
+    }
+    const result = await ops.runBatch(steps, options)
+    if (result.success || !result.rolledBack) {
+      notifyPresentationChanged({ kind: 'structure' })
+    }
+
+    const opNames = Object.fromEntries(Object.entries(BATCH_OPS).map(([name, op]) => [op, name]))
+    return {
+      success: result.success,
+      rolled_back: result.rolledBack,
+      ...(result.error ? { error: result.error } : {}),
+      ...(result.rollbackError ? { rollback_error: result.rollbackError } : {}),
+      steps: result.steps.map(step => ({
+        index: step.index,
+        op: opNames[step.op],
+        status: step.status,
+        ...(step.slideId ? { slide_id: step.slideId } : {}),
+        ...(step.shapeIds ? { shape_ids: step.shapeIds } : {}),
+        ...(step.error ? { error: step.error } : {})
+      }))
+    }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    const steps: BatchStepInput[] = []
+    const changes: PlannedChange[] = []
+    for (const [index, step] of params.steps.entries()) {
+      if (step.op === 'create_slide') {
+        const slideId = placeholderId(index)
+        const layout = step.layout || 'content'
+        steps.push(step)
+        changes.push({ action: 'create_slide', slide_id: slideId, title: step.title, layout }, ...planSlideTitle(slideId, step.title, layout))
+        continue
+      }
+
+      const slideId = await resolveBatchSlideId(ops, step.slide_id, options)
+      steps.push({ ...step, slide_id: slideId })
+      switch (step.op) {
+        case 'add_text':
+          changes.push(...planText(slideId, step.content, step.position))
+          break
+        case 'add_code':
+          changes.push(...planCode(slideId, step.code, step.position))
+          break
+        case 'add_mermaid':
+          changes.push(...planDiagram(slideId, step.mermaid_code, step.position))
+          break
+        case 'add_image':
+          changes.push(...planImage(slideId, step.position))
+          break
+      }
+    }
+
+    return {
+      success: true,
+      rolled_back: false,
+      steps: steps.map((step, index) => ({
+        index,
+        op: step.op,
+        status: 'planned' as const,
+        slide_id: step.op === 'create_slide' ? placeholderId(index) : String(step.slide_id)
+      })),
+      ...dryRun('ppt_batch', params, changes, { steps })
+    }
+  },
+  formatMarkdown: (data) => {
+    const lines = [data.success ? '# Batch Completed' : '# Batch Failed', '']
+    if (data.error) {
+      lines.push(`**Error**: ${data.error}`)
+      lines.push(data.rolled_back ? 'Changes were rolled back.' : `Rollback failed: ${data.rollback_error}`)
+      lines.push('')
+    }
+    for (const step of data.steps) {
+      const target = step.slide_id ? ` (slide ${step.slide_id})` : ''
+      lines.push(`${step.index}. ${step.op}${target} - ${step.status}${step.error ? `: ${step.error}` : ''}`)
+    }
+    return lines.join('\n')
+  },
+  isError: (data) => !data.success
+})
+
+// Tool: ppt_history
+const historyTool = defineTool({
+  name: 'ppt_history',
+  title: 'Get Change History',
+  description: `List the changes AI clients made to the presentation, newest first. Each change can be reverted with ppt_undo.
+
+Only available when connected to the Office Add-in.
+
+Args:
+  - limit (number, optional): Maximum changes to return (1-100). Default: 20
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "count": number,
+    "entries": [
+      {
+        "id": string,          // Pass as entry_id to ppt_undo
+        "method": string,      // Operation that made the change
+        "summary": string,
+        "timestamp": string,
+        "reverted": boolean
+      }
+    ]
+  }
+
+Examples:
+  - Recent changes: {}
+  - Last 5 changes: { "limit": 5 }
+
+Error Handling:
+  - Returns error if the backend does not record changes`,
+  inputSchema: HistoryInputSchema,
+  outputSchema: HistoryOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false
+  },
+  methods: ['getHistory'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    if (!ops.getHistory) {
+      throw new Error('Change history is only available when connected to the Office Add-in.')
+    }
+    const entries = await ops.getHistory(params.limit || 20, options)
+
+    return { count: entries.length, entries }
+  },
+  formatMarkdown: (data) => {
+    if (data.count === 0) {
+      return '# Change History\n\nNo changes recorded.'
+    }
+    const lines = ['# Change History', '']
+    for (const entry of data.entries) {
+      lines.push(`- **${entry.id}** ${entry.summary} (${entry.timestamp})${entry.reverted ? ' - reverted' : ''}`)
+    }
+    return lines.join('\n')
+  }
+})
+
+// Tool: ppt_undo
+const undoTool = defineTool({
+  name: 'ppt_undo',
+  title: 'Undo Change',
+  description: `Revert a change made by an AI client: delete the slides and shapes it created, restore slides it deleted, move a moved slide back, or restore a slide as it was before its shapes were edited.
+
+Only available when connected to the Office Add-in.
+
+Args:
+  - entry_id (string, optional): ID of the change from ppt_history. Default: the most recent change that is not reverted
+  - dry_run (boolean, optional): Return the change set the call would make (slides, shapes and their rectangles) without changing the presentation. Apply it by calling this tool with change_set.arguments. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "id": string,
+    "method": string,
+    "summary": string,        // Description of the reverted change
+    "timestamp": string,
+    "reverted": boolean,
+    "success": boolean
+  }
+
+Examples:
+  - Undo last change: {}
+  - Undo a specific change: { "entry_id": "change-3" }
+
+Error Handling:
+  - Returns error if there is nothing to undo
+  - Returns error if the change was already reverted
+  - Returns error if the backend does not record changes`,
+  inputSchema: UndoInputSchema,
+  outputSchema: UndoOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  methods: ['getHistory', 'undo'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    if (!ops.undo) {
+      throw new Error('Undo is only available when connected to the Office Add-in.')
+    }
+    const entry = await ops.undo(params.entry_id, options)
+    notifyPresentationChanged({ kind: 'structure' })
+
+    return { ...entry, success: true }
+  },
+  async preview(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    if (!ops.undo || !ops.getHistory) {
+      throw new Error('Undo is only available when connected to the Office Add-in.')
+    }
+    // The journal keeps at most 100 entries
+    const entries = await ops.getHistory(100, options)
+    const entry = params.entry_id
+      ? entries.find(e => e.id === params.entry_id)
+      : entries.find(e => !e.reverted)
+    if (!entry) {
+      throw new Error(params.entry_id
+        ? `Change not found: ${params.entry_id}. Use ppt_history to see recorded changes.`
+        : 'Nothing to undo')
+    }
+    if (entry.reverted) {
+      throw new Error(`Change ${entry.id} was already reverted`)
+    }
+
+    return {
+      ...entry,
+      success: true,
+      ...dryRun('ppt_undo', params, [{ action: 'revert_change', entry_id: entry.id, summary: entry.summary }], { entry_id: entry.id })
+    }
+  },
+  formatMarkdown: (data) => `# Change Reverted\n\n- **ID**: ${data.id}\n- **Change**: ${data.summary}`
+})
+
+// Tool: ppt_save_presentation
+const savePresentationTool = defineTool({
+  name: 'ppt_save_presentation',
+  title: 'Save Presentation',
+  description: `Save the current presentation as a .pptx file on the server's disk.
+
+Only available in offline mode (in-memory presentation, e.g. stdio transport without PowerPoint).
+When connected to PowerPoint, save the document from PowerPoint itself.
+
+Args:
+  - file_path (string, required): Destination path ending with .pptx, relative to the server output directory (MCP_OUTPUT_DIR, default: working directory)
+  - overwrite (boolean, optional): Replace an existing file. Default: false
+  - document_id (string, optional): Target document from ppt_list_documents. Default: last-focused document
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "file_path": string,     // Absolute path of the saved file
+    "slide_count": number,   // Number of slides written
+    "bytes": number,         // File size in bytes
+    "success": boolean
+  }
+
+Examples:
+  - Save: { "file_path": "out/deck.pptx" }
+  - Replace an earlier save: { "file_path": "out/deck.pptx", "overwrite": true }
+
+Error Handling:
+  - Returns error if the backend does not support saving
+  - Returns error if the path resolves outside the output directory
+  - Returns error if the file exists and overwrite is not set
+  - Returns error if the file cannot be written`,
+  inputSchema: SavePresentationInputSchema,
+  outputSchema: SavePresentationOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: false
+  },
+  methods: ['savePresentation'],
+  async handler(params, { resolveOperations, options }) {
+    const ops = resolveOperations(params.document_id)
+    if (!ops.savePresentation) {
+      throw new Error('Saving is only supported in offline mode. Use PowerPoint to save the connected document.')
+    }
+    const result = await ops.savePresentation(params.file_path, { ...options, overwrite: params.overwrite })
+
+    return {
+      file_path: result.filePath,
+      slide_count: result.slideCount,
+      bytes: result.bytes,
+      success: true
+    }
+  },
+  formatMarkdown: (data) => `# Presentation Saved\n\n- **File**: ${data.file_path}\n- **Slides**: ${data.slide_count}\n- **Size**: ${data.bytes} bytes`
+})
+
+// Tool: ppt_list_documents
+const listDocumentsTool = defineTool({
+  name: 'ppt_list_documents',
+  title: 'List Documents',
+  description: `List the PowerPoint documents connected to the bridge (one per open Office Add-in).
+
+Args:
+  - response_format (string, optional): Output format - 'json' or 'markdown'. Default: 'json'
+
+Returns:
+  For JSON format:
+  {
+    "count": number,
+    "documents": [
+      {
+        "id": string,              // Pass as document_id to other tools
+        "title": string,
+        "url": string,
+        "active": boolean,         // Receives requests without a document_id
+        "connected_at": string,
+        "last_focused_at": string
+      }
+    ]
+  }
+
+Examples:
+  - List documents: {}
+
+Error Handling:
+  - Returns an empty list when no add-in is connected or the server has a single offline document`,
+  inputSchema: ListDocumentsInputSchema,
+  outputSchema: ListDocumentsOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false
+  },
+  methods: [],
+  async handler(_params, { listDocuments }) {
+    const documents = listDocuments()
+
+    return {
+      count: documents.length,
+      documents: documents.map(doc => ({
+        id: doc.id,
+        title: doc.title,
+        url: doc.url,
+        active: doc.active,
+        connected_at: doc.connectedAt,
+        last_focused_at: doc.lastFocusedAt
+      }))
+    }
+  },
+  formatMarkdown: (data) => {
+    if (data.count === 0) {
+      return '# Documents\n\nNo documents connected.'
+    }
+    const lines = ['# Documents', '']
+    for (const doc of data.documents) {
+      lines.push(`- **${doc.title || 'Untitled'}** (ID: ${doc.id})${doc.active ? ' - active' : ''}`)
+      if (doc.url) lines.push(`  - URL: ${doc.url}`)
+    }
+    return lines.join('\n')
+  }
+})
+
+/**
+ * All PPT tools, in tools/list order
+ */
+export const PPT_TOOLS: AnyToolDefinition[] = [
+  createSlideTool,
+  addContentTool,
+  getInfoTool,
+  fromMarkdownTool,
+  addCodeBlockTool,
+  addMermaidDiagramTool,
+  addTableTool,
+  listSlidesTool,
+  getSlideTool,
+  deleteSlideTool,
+  deleteSlidesTool,
+  duplicateSlideTool,
+  moveSlideTool,
+  updateShapeTool,
+  deleteShapeTool,
+  reorderShapeTool,
+  groupShapesTool,
+  batchTool,
+  historyTool,
+  undoTool,
+  savePresentationTool,
+  listDocumentsTool
+]
+
+/**
+ * Find a tool by name
+ */
+export function getTool(name: string): AnyToolDefinition | undefined {
+  return PPT_TOOLS.find(tool => tool.name === name)
+}
+
+/**
+ * Run a tool with already validated params and build the tools/call result
+ *
+ * Backend errors are returned as `isError` results rather than thrown.
+ * With `dry_run`, mutating tools return their change set instead.
+ */
+export async function executeTool(
+  tool: AnyToolDefinition,
+  params: ToolInput & Record<string, unknown>,
+  context: ToolContext
+): Promise<ToolResult> {
+  const previewing = Boolean(params.dry_run && tool.preview)
+  const options: PPTOperationOptions = { signal: context.signal, tool: tool.name }
+  // Reads a change makes first (e.g. resolving its slide) belong to that change
+  if (!previewing && !tool.annotations.readOnlyHint) options.mutation = true
+
+  try {
+    const output = previewing && tool.preview
+      ? await tool.preview(params, { ...context, options })
+      : await tool.handler(params, { ...context, options })
+
+    const { text, structured } = formatResponse(
+      output,
+      params.response_format || ResponseFormat.JSON,
+      (data) => data.change_set ? formatChangeSetMarkdown(data.change_set) : tool.formatMarkdown(data)
+    )
+
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: structured,
+      ...(tool.isError?.(output) ? { isError: true } : {})
+    }
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Describe the registered tools with JSON Schemas for tools/list
+ *
+ * Uses the SDK's converter and options so every transport advertises
+ * the same schemas as McpServer.
+ *
+ * @param filter - Only list tools it returns true for (e.g. a client's policy)
+ */
+export function listToolDefinitions(filter?: (tool: AnyToolDefinition) => boolean): ToolListing[] {
+  return PPT_TOOLS.filter(tool => !filter || filter(tool)).map(tool => ({
+    name: tool.name,
+    title: tool.title,
+    description: tool.description,
+    inputSchema: toJsonSchemaCompat(tool.inputSchema as z.AnyZodObject, { strictUnions: true, pipeStrategy: 'input' }),
+    outputSchema: toJsonSchemaCompat(tool.outputSchema as z.AnyZodObject, { strictUnions: true, pipeStrategy: 'output' }),
+    annotations: tool.annotations
+  }))
+}
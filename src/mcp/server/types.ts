@@ -0,0 +1,264 @@
+/**
+ * PPT-KIT MCP Server - Type Definitions
+ *
+ * Backend contract used by the MCP server to execute PPT operations.
+ * Implementations include Office.js (browser), WebSocket bridge and mock backends.
+ */
+
+import type { CallToolResult, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+import type { Position } from '../schemas'
+
+// Options for PPTOperations.savePresentation
+export interface PPTSaveOptions extends PPTOperationOptions {
+  // Replace an existing file instead of failing
+  overwrite?: boolean
+}
+
+// Slide summary returned by backends
+export interface PPTSlideSummary {
+  id: string
+  index: number
+  title: string
+  layout: string
+}
+
+// Presentation summary returned by backends
+export interface PPTPresentationSummary {
+  slideCount: number
+  currentSlideIndex: number
+  title: string
+  author: string
+  slides: PPTSlideSummary[]
+}
+
+// Paragraph of a shape's text, split into runs sharing one font
+export interface PPTParagraph {
+  text: string
+  horizontalAlignment?: string
+  indentLevel?: number
+  bulleted?: boolean
+  runs: Array<{
+    text: string
+    font: { name?: string; size?: number; bold?: boolean; italic?: boolean; underline?: string; color?: string }
+  }>
+}
+
+// Shape summary returned by backends (position and size in points)
+export interface PPTShapeSummary {
+  id: string
+  name: string
+  type: string
+  left: number
+  top: number
+  width: number
+  height: number
+  text?: string
+  // Whether this shape holds the slide title
+  isTitle?: boolean
+  placeholderType?: string
+  // Formatting, only returned with `includeFormatting`
+  paragraphs?: PPTParagraph[]
+  fill?: { type: string; foregroundColor?: string; transparency?: number }
+  line?: { visible: boolean; color?: string; weight?: number; dashStyle?: string }
+  tags?: Record<string, string>
+  // Members of a group shape
+  shapes?: PPTShapeSummary[]
+}
+
+// Options for reading a slide's shapes
+export interface PPTShapeQueryOptions extends PPTOperationOptions {
+  // Also return paragraphs, runs, fill, outline and tags
+  includeFormatting?: boolean
+}
+
+// Reference to a slide (mirrors ppt-bridge SlideRef)
+// - id: Office slide ID; falls back to the PPTKIT_ID tag set on generated slides
+// - number: 1-based position
+// - title: slide title, case-insensitive; exact matches win over partial ones
+// - tag: slide tag value
+export type PPTSlideRef =
+  | { type: 'id'; id: string }
+  | { type: 'number'; number: number }
+  | { type: 'title'; title: string }
+  | { type: 'tag'; key: string; value: string }
+
+// Changes to an existing shape; omitted fields are left unchanged
+export interface PPTShapeUpdate {
+  text?: string
+  name?: string
+  left?: number
+  top?: number
+  width?: number
+  height?: number
+  // Solid fill color, or null to remove the fill
+  fillColor?: string | null
+  font?: { name?: string; size?: number; bold?: boolean; italic?: boolean; underline?: string; color?: string }
+  horizontalAlignment?: 'left' | 'center' | 'right' | 'justify'
+  verticalAlignment?: 'top' | 'middle' | 'bottom'
+}
+
+// Z-order move of a shape
+export type PPTShapeZOrder = 'bringToFront' | 'bringForward' | 'sendBackward' | 'sendToBack'
+
+// Slide generated from markdown
+export interface PPTGeneratedSlide {
+  id: string
+  title: string
+  layout: string
+  blockCount: number
+}
+
+// Step of a batch; `slideId` may be `$<index>` to target a slide created by an earlier step
+export type PPTBatchStep =
+  | { op: 'createSlide'; title: string; layout?: string }
+  | { op: 'addText'; slideId: string; content: string; position?: Position }
+  | { op: 'addCode'; slideId: string; code: string; language: string; position?: Position }
+  | { op: 'addMermaid'; slideId: string; mermaidCode: string; position?: Position }
+  | { op: 'addImage'; slideId: string; imageData: string; position?: Position }
+
+// Per-step outcome of a batch
+export interface PPTBatchStepResult {
+  index: number
+  op: PPTBatchStep['op']
+  status: 'ok' | 'failed' | 'skipped' | 'rolled_back'
+  slideId?: string
+  shapeIds?: string[]
+  error?: string
+}
+
+// Batch outcome; on failure the created slides and shapes are rolled back
+export interface PPTBatchResult {
+  success: boolean
+  steps: PPTBatchStepResult[]
+  rolledBack: boolean
+  error?: string
+  rollbackError?: string
+}
+
+// Recorded AI change that can be reverted
+export interface PPTHistoryEntry {
+  id: string
+  method: string
+  summary: string
+  timestamp: string
+  reverted: boolean
+}
+
+// Progress of a long-running operation (MCP progress notification fields)
+export interface PPTProgress {
+  progress: number
+  total?: number
+  message?: string
+}
+
+// Per-call options, accepted by every operation
+export interface PPTOperationOptions {
+  // Reported by long-running operations (generateFromMarkdown)
+  onProgress?: (progress: PPTProgress) => void
+  // Aborted when the MCP client cancels the request
+  signal?: AbortSignal
+  // Set for calls made by a tool that changes the presentation, including
+  // its reads: a dropped add-in answers them once it is back
+  mutation?: boolean
+  // Tool that made the call, sent along so the add-in's approval policy can decide on it
+  tool?: string
+}
+
+/**
+ * Pluggable PPT operations backend
+ *
+ * Every MCP tool is routed through this interface. Implementations
+ * should throw an Error when an operation fails, and may stop early
+ * when `options.signal` is aborted.
+ */
+export interface PPTOperations {
+  getPresentationInfo(options?: PPTOperationOptions): Promise<PPTPresentationSummary>
+  // `index` is the 0-based position of the new slide; appends when omitted
+  createSlide(title: string, layout?: string, index?: number, options?: PPTOperationOptions): Promise<{ slideId: string; index: number }>
+  deleteSlide(slideId: string, options?: PPTOperationOptions): Promise<void>
+  // Deletes `count` consecutive slides; resolves with their IDs
+  deleteSlideRange(startIndex: number, count: number, options?: PPTOperationOptions): Promise<{ slideIds: string[] }>
+  // Copies a slide with its shapes; the copy goes right after the original unless `index` is given
+  duplicateSlide(slideId: string, index?: number, options?: PPTOperationOptions): Promise<{ slideId: string; index: number }>
+  moveSlide(slideId: string, index: number, options?: PPTOperationOptions): Promise<{ fromIndex: number; index: number }>
+  addText(slideId: string, content: string, position?: Position, options?: PPTOperationOptions): Promise<void>
+  addCode(slideId: string, code: string, language: string, position?: Position, options?: PPTOperationOptions): Promise<{ lineCount: number }>
+  addMermaid(slideId: string, mermaidCode: string, position?: Position, options?: PPTOperationOptions): Promise<{ diagramType: string }>
+  addImage(slideId: string, imageData: string, position?: Position, options?: PPTOperationOptions): Promise<void>
+  // `rows` hold at most one cell per header; shorter rows are padded with empty cells
+  addTable(slideId: string, headers: string[], rows: string[][], position?: Position, options?: PPTOperationOptions): Promise<void>
+  // Throws a "not found" or "ambiguous" error unless exactly one slide matches
+  resolveSlide(ref: PPTSlideRef, options?: PPTOperationOptions): Promise<{ slideId: string; index: number }>
+  getSlideShapes(slideId: string, options?: PPTShapeQueryOptions): Promise<PPTShapeSummary[]>
+  updateShape(slideId: string, shapeId: string, update: PPTShapeUpdate, options?: PPTOperationOptions): Promise<void>
+  deleteShape(slideId: string, shapeId: string, options?: PPTOperationOptions): Promise<void>
+  // Resolves with the shape's new 1-based position in the z-order
+  reorderShape(slideId: string, shapeId: string, position: PPTShapeZOrder, options?: PPTOperationOptions): Promise<{ zOrderPosition: number }>
+  // Optional: only backends with group shapes (the Office Add-in bridge) support grouping
+  groupShapes?(slideId: string, shapeIds: string[], name?: string, options?: PPTOperationOptions): Promise<{ groupId: string }>
+  listSlides(limit: number, offset: number, options?: PPTOperationOptions): Promise<{ total: number; slides: PPTSlideSummary[]; hasMore: boolean }>
+  generateFromMarkdown(markdown: string, options?: PPTOperationOptions): Promise<{ slideCount: number; slides: PPTGeneratedSlide[] }>
+  // Resolves with per-step results; step failures are reported, not thrown
+  runBatch(steps: PPTBatchStep[], options?: PPTOperationOptions): Promise<PPTBatchResult>
+  // Optional: only backends that own the document (e.g. in-memory) can save it
+  savePresentation?(filePath: string, options?: PPTSaveOptions): Promise<{ filePath: string; slideCount: number; bytes: number }>
+  // Optional: only backends that journal changes (the Office Add-in bridge) support undo
+  getHistory?(limit: number, options?: PPTOperationOptions): Promise<PPTHistoryEntry[]>
+  // Reverts the given change, or the latest one that is not reverted yet
+  undo?(entryId?: string, options?: PPTOperationOptions): Promise<PPTHistoryEntry>
+}
+
+// Connected document (one per Office Add-in)
+export interface PPTDocumentSummary {
+  id: string
+  title: string
+  url: string
+  // Whether requests without a document_id are routed here
+  active: boolean
+  connectedAt: string
+  lastFocusedAt: string
+}
+
+/**
+ * Registry of connected documents
+ *
+ * Lets tools route a request to a specific document via `document_id`.
+ */
+export interface PPTDocumentRegistry {
+  listDocuments(): PPTDocumentSummary[]
+  // Throws when the document is not connected
+  getOperations(documentId: string): PPTOperations
+}
+
+/**
+ * Backend methods the connected add-ins can run
+ *
+ * Tools that need a method outside this set are hidden from tools/list.
+ */
+export interface PPTBackendCapabilities {
+  // null when every method is available (e.g. no add-in has connected yet)
+  getMethods(): ReadonlySet<string> | null
+  // Returns a function that removes the listener
+  onChange(listener: () => void): () => void
+}
+
+// Tool of an external MCP server, republished under a prefixed name
+export interface PPTExternalTool {
+  name: string
+  title?: string
+  description: string
+  // JSON Schema of the arguments, as the external server lists it
+  inputSchema: Record<string, unknown>
+  annotations: ToolAnnotations
+}
+
+/**
+ * Tools of external MCP servers, offered next to the PPT tools (see gateway.ts)
+ */
+export interface PPTToolGateway {
+  listTools(): PPTExternalTool[]
+  // Throws when the tool's server is unreachable, fails or times out
+  callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<CallToolResult>
+  // Called when tools appear, change or disappear; returns a function that removes the listener
+  onChange(listener: () => void): () => void
+}
@@ -0,0 +1,346 @@
+/**
+ * Undo Journal
+ *
+ * Records an inverse action for every change an AI client makes through the
+ * bridge, so each change can be reverted on its own (ppt_undo or the add-in's
+ * AI activity list).
+ */
+
+import * as pptOps from '../modules/ppt-bridge/operations'
+
+// Maximum number of entries kept; older entries can no longer be reverted
+const MAX_ENTRIES = 100
+
+/**
+ * Inverse of a change
+ * - deleteShapes: remove shapes that were added to an existing slide
+ * - deleteSlides: remove slides that were created
+ * - restoreSlide: re-insert a deleted slide from its exported .pptx
+ * - replaceSlide: swap an edited slide for the copy exported before the edit
+ *   (the slide gets a new ID, and later edits to it are lost)
+ * - moveSlide: move a slide back to its previous index
+ * - updateShape: put back the properties a shape had before an edit
+ * - zOrderShape: move a shape back to its previous z-order position
+ */
+export type UndoAction =
+  | { type: 'deleteShapes'; slideId: string; shapeIds: string[] }
+  | { type: 'deleteSlides'; slideIds: string[] }
+  | { type: 'restoreSlide'; base64: string; afterSlideId: string | null }
+  | { type: 'replaceSlide'; slideId: string; base64: string }
+  | { type: 'moveSlide'; slideId: string; index: number }
+  | { type: 'updateShape'; slideId: string; shapeId: string; update: pptOps.ShapeUpdate }
+  | { type: 'zOrderShape'; slideId: string; shapeId: string; zOrderPosition: number }
+
+export interface JournalEntry {
+  id: string
+  // Bridge method that made the change
+  method: string
+  summary: string
+  timestamp: Date
+  // Applied in reverse order on revert
+  actions: UndoAction[]
+  reverted: boolean
+}
+
+type JournalListener = (entries: JournalEntry[]) => void
+
+const HORIZONTAL_ALIGNMENTS: ReadonlyArray<pptOps.HorizontalAlignment> = ['left', 'center', 'right', 'justify']
+
+/**
+ * Inverse of a shape update that restores the changed properties in place
+ * Resolves to null when a changed property cannot be read back (vertical
+ * alignment, fills other than a solid color, text with mixed fonts or
+ * alignments); the caller then keeps a copy of the slide instead.
+ */
+export async function shapeUpdateUndo(
+  slideId: string,
+  shapeId: string,
+  update: pptOps.ShapeUpdate
+): Promise<UndoAction | null> {
+  const result = await pptOps.getSlideShapes(slideId, { includeFormatting: true })
+  const shape = result.data?.find(s => s.id === shapeId)
+  if (!shape || update.verticalAlignment) return null
+
+  const previous: pptOps.ShapeUpdate = {}
+  if (update.name !== undefined) previous.name = shape.name
+  if (update.left !== undefined) previous.left = shape.left
+  if (update.top !== undefined) previous.top = shape.top
+  if (update.width !== undefined) previous.width = shape.width
+  if (update.height !== undefined) previous.height = shape.height
+
+  if (update.fillColor !== undefined) {
+    const fill = shape.fill
+    if (fill?.type === 'NoFill') {
+      previous.fillColor = null
+    } else if (fill?.type === 'Solid' && fill.foregroundColor && !fill.transparency) {
+      previous.fillColor = fill.foregroundColor
+    } else {
+      return null
+    }
+  }
+
+  const paragraphs = shape.paragraphs ?? []
+  if (update.text !== undefined || update.font) {
+    // Setting text or a font applies it to every run, so mixed runs cannot be restored
+    const fonts = new Set(paragraphs.flatMap(paragraph => paragraph.runs.map(run => JSON.stringify(run.font))))
+    if (fonts.size > 1) return null
+  }
+  if (update.text !== undefined) previous.text = shape.text ?? ''
+  if (update.font) {
+    const font = paragraphs[0]?.runs[0]?.font
+    const keys = Object.keys(update.font) as Array<keyof pptOps.TextRunFont>
+    if (!font || keys.some(key => font[key] === undefined)) return null
+    previous.font = Object.fromEntries(keys.map(key => [key, font[key]]))
+  }
+  if (update.horizontalAlignment) {
+    const alignments = new Set(paragraphs.map(paragraph => paragraph.horizontalAlignment))
+    const [alignment] = alignments
+    const value = alignment && alignment.charAt(0).toLowerCase() + alignment.slice(1)
+    const known = HORIZONTAL_ALIGNMENTS.find(candidate => candidate === value)
+    if (alignments.size !== 1 || !known) return null
+    previous.horizontalAlignment = known
+  }
+
+  return { type: 'updateShape', slideId, shapeId, update: previous }
+}
+
+/**
+ * Inverse of a z-order change; null when the shape cannot be found
+ */
+export async function shapeZOrderUndo(slideId: string, shapeId: string): Promise<UndoAction | null> {
+  const result = await pptOps.getSlideShapes(slideId)
+  const index = result.data?.findIndex(shape => shape.id === shapeId) ?? -1
+  return index < 0 ? null : { type: 'zOrderShape', slideId, shapeId, zOrderPosition: index + 1 }
+}
+
+/**
+ * Slides whose content an action changes
+ */
+function touchedSlideIds(action: UndoAction): string[] {
+  switch (action.type) {
+    case 'deleteSlides':
+      return action.slideIds
+    case 'restoreSlide':
+      return []
+    default:
+      return [action.slideId]
+  }
+}
+
+/**
+ * Point an action at a slide's new ID
+ */
+function remapSlideId(action: UndoAction, from: string, to: string): void {
+  switch (action.type) {
+    case 'deleteSlides':
+      action.slideIds = action.slideIds.map(id => id === from ? to : id)
+      break
+    case 'restoreSlide':
+      if (action.afterSlideId === from) action.afterSlideId = to
+      break
+    default:
+      if (action.slideId === from) action.slideId = to
+  }
+}
+
+/**
+ * Apply a single inverse action
+ * @returns The new ID of a slide that was replaced by its copy
+ */
+async function applyUndoAction(action: UndoAction): Promise<{ from: string; to: string } | void> {
+  switch (action.type) {
+    case 'deleteShapes': {
+      const result = await pptOps.deleteShapesById(action.slideId, action.shapeIds)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete shapes')
+      }
+      break
+    }
+
+    case 'deleteSlides': {
+      const result = await pptOps.deleteSlidesById(action.slideIds)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete slides')
+      }
+      break
+    }
+
+    case 'restoreSlide': {
+      const result = await pptOps.insertSlidesFromBase64(action.base64, action.afterSlideId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to restore slide')
+      }
+      break
+    }
+
+    case 'replaceSlide': {
+      const inserted = await pptOps.insertSlidesFromBase64(action.base64, action.slideId)
+      if (!inserted.success) {
+        throw new Error(inserted.error || 'Failed to restore slide')
+      }
+      const deleted = await pptOps.deleteSlideById(action.slideId)
+      if (!deleted.success) {
+        throw new Error(deleted.error || 'Failed to remove edited slide')
+      }
+      const [copyId] = inserted.data?.slideIds ?? []
+      return copyId ? { from: action.slideId, to: copyId } : undefined
+    }
+
+    case 'moveSlide': {
+      const result = await pptOps.moveSlide(action.slideId, action.index)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to move slide back')
+      }
+      break
+    }
+
+    case 'updateShape': {
+      const result = await pptOps.updateShape(action.slideId, action.shapeId, action.update)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to restore shape')
+      }
+      break
+    }
+
+    case 'zOrderShape': {
+      const result = await pptOps.setShapeZOrderPosition(action.slideId, action.shapeId, action.zOrderPosition)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to move shape back')
+      }
+      break
+    }
+  }
+}
+
+/**
+ * Journal of AI-made changes
+ */
+export class UndoJournal {
+  private entries: JournalEntry[] = []
+  private nextId = 1
+  private listeners: JournalListener[] = []
+
+  /**
+   * Record a change; changes without inverse actions are not recorded
+   */
+  record(method: string, summary: string, actions: UndoAction[]): JournalEntry | null {
+    const effective = actions.filter(action => {
+      switch (action.type) {
+        case 'deleteShapes':
+          return action.shapeIds.length > 0
+        case 'deleteSlides':
+          return action.slideIds.length > 0
+        default:
+          return true
+      }
+    })
+    if (effective.length === 0) return null
+
+    const entry: JournalEntry = {
+      id: `change-${this.nextId++}`,
+      method,
+      summary,
+      timestamp: new Date(),
+      actions: effective,
+      reverted: false
+    }
+    this.entries.push(entry)
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES)
+    }
+    this.emit()
+    return entry
+  }
+
+  /**
+   * Get entries, newest first
+   */
+  list(limit = MAX_ENTRIES): JournalEntry[] {
+    return this.entries.slice().reverse().slice(0, limit)
+  }
+
+  /**
+   * Revert an entry by ID
+   * Entries that put back a copy of a slide are refused while later changes
+   * to that slide are in place, since the copy would discard them.
+   */
+  async revert(entryId: string): Promise<JournalEntry> {
+    const index = this.entries.findIndex(e => e.id === entryId)
+    const entry = this.entries[index]
+    if (!entry) {
+      throw new Error(`Change not found: ${entryId}. Use ppt_history to see recorded changes.`)
+    }
+    if (entry.reverted) {
+      throw new Error(`Change ${entryId} was already reverted`)
+    }
+
+    const replaced = entry.actions.flatMap(action => action.type === 'replaceSlide' ? [action.slideId] : [])
+    const later = this.entries.slice(index + 1).filter(e =>
+      !e.reverted && e.actions.some(action => touchedSlideIds(action).some(id => replaced.includes(id))))
+    if (later.length > 0) {
+      throw new Error(
+        `Change ${entryId} restores a copy of slide ${replaced.join(', ')}, which would discard later changes to it. Revert ${later.map(e => e.id).join(', ')} first.`
+      )
+    }
+
+    for (const action of entry.actions.slice().reverse()) {
+      const replacement = await applyUndoAction(action)
+      // Keep the other entries pointing at the slide
+      if (replacement) {
+        for (const other of this.entries) {
+          other.actions.forEach(a => remapSlideId(a, replacement.from, replacement.to))
+        }
+      }
+    }
+
+    entry.reverted = true
+    this.emit()
+    return entry
+  }
+
+  /**
+   * Revert the most recent change that has not been reverted
+   */
+  async undoLast(): Promise<JournalEntry> {
+    const entry = this.list().find(e => !e.reverted)
+    if (!entry) {
+      throw new Error('Nothing to undo')
+    }
+    return this.revert(entry.id)
+  }
+
+  /**
+   * Listen for journal changes
+   */
+  addListener(listener: JournalListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index >= 0) this.listeners.splice(index, 1)
+    }
+  }
+
+  private emit(): void {
+    const entries = this.list()
+    for (const listener of this.listeners) {
+      try {
+        listener(entries)
+      } catch (e) {
+        console.error('[UndoJournal] Listener error:', e)
+      }
+    }
+  }
+}
+
+// Singleton instance
+let journalInstance: UndoJournal | null = null
+
+/**
+ * Get the undo journal shared by the bridge client and the add-in UI
+ */
+export function getUndoJournal(): UndoJournal {
+  if (!journalInstance) {
+    journalInstance = new UndoJournal()
+  }
+  return journalInstance
+}
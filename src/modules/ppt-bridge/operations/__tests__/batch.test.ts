@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { runBatch } from '../batch'
+import { installPowerPointEmulator } from '../../../../test/powerpoint-emulator'
+
+describe('runBatch', () => {
+  it('runs steps in order and resolves references to created slides', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+
+    const result = await runBatch([
+      { op: 'createSlide', title: 'Agenda' },
+      { op: 'addText', slideId: '$0', content: 'Goals' }
+    ])
+
+    expect(result.success).toBe(true)
+    expect(emulator.document.slides).toHaveLength(2)
+    expect(emulator.getSlide(1).shapes.map(shape => shape.text)).toEqual(['Agenda', 'Goals'])
+  })
+
+  it('rolls back shapes a failed step created before its sync failed', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+    const slideId = emulator.getSlide(0).id
+
+    // The image rectangle is added before the empty image data fails the sync
+    const result = await runBatch([
+      { op: 'createSlide', title: 'Agenda' },
+      { op: 'addText', slideId, content: 'Kept until the failure' },
+      { op: 'addImage', slideId, imageData: '' }
+    ])
+
+    expect(result.success).toBe(false)
+    expect(result.data).toMatchObject({
+      rolledBack: true,
+      steps: [{ status: 'rolled_back' }, { status: 'rolled_back' }, { status: 'failed' }]
+    })
+    expect(emulator.document.slides).toHaveLength(1)
+    expect(emulator.getSlide(0).shapes).toEqual([])
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { addCodeToSlide } from '../code'
+import { installPowerPointEmulator, uninstallPowerPointEmulator } from '../../../../test/powerpoint-emulator'
+
+const SNIPPET = 'const a = 1\nconst b = 2\nconsole.log(a + b)'
+
+describe('addCodeToSlide', () => {
+  it('fails when PowerPoint is not available', async () => {
+    uninstallPowerPointEmulator()
+
+    const result = await addCodeToSlide(0, SNIPPET, 'javascript')
+
+    expect(result).toEqual({ success: false, error: 'PowerPoint is not available' })
+  })
+
+  it('returns the code box id and line count', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+
+    const result = await addCodeToSlide(0, SNIPPET, 'javascript')
+
+    const codeBox = emulator.getSlide(0).shapes.find(shape => shape.name === 'CodeBlock')
+    expect(result).toEqual({ success: true, data: { shapeId: codeBox?.id, lineCount: 3 } })
+  })
+
+  it('draws a dark background behind a monospace code box', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+    const position = { x: 100, y: 120, width: 600, height: 300 }
+
+    await addCodeToSlide(0, SNIPPET, 'typescript', position)
+
+    const [background, codeBox] = emulator.getSlide(0).shapes
+    expect(background).toMatchObject({
+      type: 'GeometricShape',
+      geometricShapeType: 'Rectangle',
+      name: 'CodeBackground',
+      left: 90,
+      top: 110,
+      width: 620,
+      height: 320
+    })
+    expect(background.fill).toMatchObject({ type: 'Solid', foregroundColor: '#1E1E1E' })
+    expect(background.lineFormat.visible).toBe(false)
+
+    expect(codeBox).toMatchObject({ type: 'TextBox', text: SNIPPET, left: 100, top: 120, width: 600, height: 300 })
+    expect(codeBox.font).toMatchObject({ name: 'Consolas', size: 14, color: '#D4D4D4' })
+  })
+
+  it('uses the default code area without a position', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+
+    await addCodeToSlide(0, SNIPPET, 'javascript')
+
+    const codeBox = emulator.getSlide(0).shapes[1]
+    expect(codeBox).toMatchObject({ left: 40, top: 140, width: 880, height: 400 })
+  })
+
+  it('targets the slide at the given index', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 3 })
+
+    await addCodeToSlide(1, SNIPPET, 'javascript')
+
+    expect(emulator.document.slides.map(slide => slide.shapes.length)).toEqual([0, 2, 0])
+  })
+
+  it('reports a missing slide', async () => {
+    installPowerPointEmulator({ slideCount: 1 })
+
+    const result = await addCodeToSlide(5, SNIPPET, 'javascript')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('The requested resource doesn\'t exist.')
+  })
+})
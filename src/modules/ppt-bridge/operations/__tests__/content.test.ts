@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { addTextToSlide, deleteShape, groupShapes, reorderShape, updateShape } from '../content'
+import { installPowerPointEmulator, uninstallPowerPointEmulator } from '../../../../test/powerpoint-emulator'
+
+async function addText(text: string) {
+  const result = await addTextToSlide(0, text)
+  return result.data!.shapeId
+}
+
+describe('updateShape', () => {
+  it('fails when PowerPoint is not available', async () => {
+    uninstallPowerPointEmulator()
+
+    const result = await updateShape('256#', '2', { text: 'Hi' })
+
+    expect(result).toEqual({ success: false, error: 'PowerPoint is not available' })
+  })
+
+  it('patches text, geometry, fill, font and alignment', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+    const shapeId = await addText('Helo')
+
+    const result = await updateShape(emulator.getSlide(0).id, shapeId, {
+      text: 'Hello',
+      left: 100,
+      width: 300,
+      fillColor: '#FFEEAA',
+      font: { bold: true, color: '#C00000', underline: 'Single' },
+      horizontalAlignment: 'center',
+      verticalAlignment: 'middleCentered'
+    })
+
+    expect(result).toEqual({
+      success: true,
+      data: { updated: ['text', 'left', 'width', 'fillColor', 'font', 'horizontalAlignment', 'verticalAlignment'] }
+    })
+    const shape = emulator.findShape(shapeId)!
+    expect(shape).toMatchObject({ text: 'Hello', left: 100, top: 140, width: 300, verticalAlignment: 'MiddleCentered' })
+    expect(shape.fill).toMatchObject({ type: 'Solid', foregroundColor: '#FFEEAA' })
+    expect(shape.font).toMatchObject({ name: 'Segoe UI', size: 18, bold: true, color: '#C00000', underline: 'Single' })
+    expect(shape.paragraphFormat.horizontalAlignment).toBe('Center')
+  })
+
+  it('clears the fill with null', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+    const shapeId = await addText('Note')
+
+    await updateShape(emulator.getSlide(0).id, shapeId, { fillColor: null })
+
+    expect(emulator.findShape(shapeId)!.fill.type).toBe('NoFill')
+  })
+
+  it('rejects text changes on shapes without text', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+    const slide = emulator.getSlide(0)
+    const line = emulator.createShape(slide, { type: 'Line' })
+    slide.shapes.push(line)
+
+    const result = await updateShape(slide.id, line.id, { text: 'Nope', top: 10 })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('has no text')
+    expect(line.top).toBe(0)
+  })
+
+  it('names the missing slide or shape', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+
+    expect(await updateShape('missing', '2', { top: 0 })).toEqual({ success: false, error: 'Slide not found: missing' })
+    expect(await updateShape(emulator.getSlide(0).id, '99', { top: 0 })).toEqual({ success: false, error: 'Shape not found: 99' })
+    expect(await updateShape(emulator.getSlide(0).id, '99', {})).toEqual({ success: false, error: 'No changes given' })
+  })
+})
+
+describe('deleteShape', () => {
+  it('deletes the shape and fails for unknown IDs', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+    const slideId = emulator.getSlide(0).id
+    const shapeId = await addText('Stray')
+
+    expect(await deleteShape(slideId, shapeId)).toEqual({ success: true })
+    expect(emulator.getSlide(0).shapes).toHaveLength(0)
+    expect(await deleteShape(slideId, shapeId)).toEqual({ success: false, error: `Shape not found: ${shapeId}` })
+  })
+})
+
+describe('reorderShape', () => {
+  it('moves a shape in the z-order', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+    const first = await addText('Back')
+    const second = await addText('Front')
+
+    const result = await reorderShape(emulator.getSlide(0).id, second, 'sendToBack')
+
+    expect(result).toEqual({ success: true, data: { zOrderPosition: 1 } })
+    expect(emulator.getSlide(0).shapes.map(shape => shape.id)).toEqual([second, first])
+  })
+
+  it('requires PowerPointApi 1.8', async () => {
+    installPowerPointEmulator({ slideCount: 1, apiVersion: '1.5' })
+
+    const result = await reorderShape('256#', '2', 'bringToFront')
+
+    expect(result).toEqual({ success: false, error: 'Reordering shapes requires PowerPointApi 1.8' })
+  })
+})
+
+describe('groupShapes', () => {
+  it('groups shapes that keep their IDs', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+    const slide = emulator.getSlide(0)
+    const first = await addText('A')
+    const second = await addText('B')
+
+    const result = await groupShapes(slide.id, [first, second], 'Pair')
+
+    expect(result.success).toBe(true)
+    expect(slide.shapes).toHaveLength(1)
+    expect(slide.shapes[0]).toMatchObject({ id: result.data!.groupId, type: 'Group', name: 'Pair' })
+    expect(slide.shapes[0].shapes!.map(shape => shape.id)).toEqual([first, second])
+  })
+
+  it('needs two different shapes', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+    const shapeId = await addText('Alone')
+
+    const result = await groupShapes(emulator.getSlide(0).id, [shapeId, shapeId])
+
+    expect(result).toEqual({ success: false, error: 'A group needs at least two different shapes' })
+  })
+})
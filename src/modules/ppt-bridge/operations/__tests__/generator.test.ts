@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from 'vitest'
+import { generateSlides } from '../generator'
+import type { SlideContent } from '../../../../types'
+import { installPowerPointEmulator, uninstallPowerPointEmulator } from '../../../../test/powerpoint-emulator'
+
+function slide(title: string, blocks: SlideContent['blocks'] = []): SlideContent {
+  return { id: title, title, blocks, layout: 'content' }
+}
+
+const DECK: SlideContent[] = [
+  slide('Intro', [{ type: 'text', content: 'Welcome' }]),
+  slide('Agenda', [{ type: 'list', content: 'One\nTwo' }]),
+  slide('Code', [{ type: 'code', content: 'print(1)', language: 'python' }])
+]
+
+describe('generateSlides', () => {
+  it('fails when PowerPoint is not available', async () => {
+    uninstallPowerPointEmulator()
+
+    const result = await generateSlides(DECK)
+
+    expect(result).toEqual({ success: false, error: 'PowerPoint is not available' })
+  })
+
+  it('appends one slide per entry and returns their ids in order', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+
+    const result = await generateSlides(DECK)
+
+    const created = emulator.document.slides.slice(1)
+    expect(result).toEqual({
+      success: true,
+      data: { createdCount: 3, slideIds: created.map(s => s.id) }
+    })
+    expect(emulator.runCount).toBe(1)
+  })
+
+  it('adds a bold title to each slide', async () => {
+    const emulator = installPowerPointEmulator()
+
+    await generateSlides(DECK)
+
+    for (const [i, created] of emulator.document.slides.entries()) {
+      const title = created.shapes[0]
+      expect(title.text).toBe(DECK[i].title)
+      expect(title.font).toMatchObject({ size: 32, bold: true })
+      expect(title.verticalAlignment).toBe('MiddleCentered')
+    }
+  })
+
+  it('tags each slide with its Markdown slide ID', async () => {
+    const emulator = installPowerPointEmulator()
+
+    await generateSlides(DECK)
+
+    expect(emulator.document.slides.map(created => created.tags.get('PPTKIT_ID'))).toEqual(['Intro', 'Agenda', 'Code'])
+  })
+
+  it('renders text, list and code blocks', async () => {
+    const emulator = installPowerPointEmulator()
+
+    await generateSlides(DECK)
+
+    const [intro, agenda, code] = emulator.document.slides
+    expect(intro.shapes[1]).toMatchObject({ type: 'TextBox', text: 'Welcome' })
+    expect(intro.shapes[1].font.size).toBe(18)
+
+    expect(agenda.shapes[1].text).toBe('• One\n• Two')
+    expect(agenda.shapes[1].font.size).toBe(16)
+
+    const [, background, codeBox] = code.shapes
+    expect(background.fill).toMatchObject({ type: 'Solid', foregroundColor: '#1E1E1E' })
+    expect(codeBox).toMatchObject({ type: 'TextBox', text: 'print(1)' })
+    expect(codeBox.font).toMatchObject({ name: 'Consolas', size: 12 })
+  })
+
+  it('reports progress after each slide', async () => {
+    const emulator = installPowerPointEmulator()
+    const onProgress = vi.fn()
+
+    await generateSlides(DECK, { onProgress })
+
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual(
+      emulator.document.slides.map((created, i) => ({
+        current: i + 1,
+        total: 3,
+        slideId: created.id,
+        title: DECK[i].title
+      }))
+    )
+  })
+
+  it('stops between slides when cancelled and keeps the partial result', async () => {
+    const emulator = installPowerPointEmulator()
+    const controller = new AbortController()
+
+    const result = await generateSlides(DECK, {
+      signal: controller.signal,
+      onProgress: ({ current }) => {
+        if (current === 1) controller.abort()
+      }
+    })
+
+    expect(emulator.document.slides).toHaveLength(1)
+    expect(result).toEqual({
+      success: false,
+      error: 'Generation cancelled after 1 of 3 slides',
+      data: { createdCount: 1, slideIds: [emulator.getSlide(0).id] }
+    })
+  })
+
+  it('creates nothing when already cancelled', async () => {
+    const emulator = installPowerPointEmulator()
+    const controller = new AbortController()
+    controller.abort()
+
+    const result = await generateSlides(DECK, { signal: controller.signal })
+
+    expect(emulator.document.slides).toHaveLength(0)
+    expect(result.error).toBe('Generation cancelled after 0 of 3 slides')
+  })
+
+  it('returns the slides created before a failure', async () => {
+    // Shape insertion needs PowerPointApi 1.4, so the first title box fails
+    const emulator = installPowerPointEmulator({ apiVersion: '1.3' })
+
+    const result = await generateSlides(DECK)
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('not supported')
+    expect(result.data).toEqual({ createdCount: 1, slideIds: [emulator.getSlide(0).id] })
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { addImagesWithLayout } from '../images'
+import { SLIDE_WIDTH } from '../utils'
+import { installPowerPointEmulator, uninstallPowerPointEmulator } from '../../../../test/powerpoint-emulator'
+
+const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+
+describe('addImagesWithLayout', () => {
+  it('fails when PowerPoint is not available', async () => {
+    uninstallPowerPointEmulator()
+
+    const result = await addImagesWithLayout(0, [PNG], 'single')
+
+    expect(result).toEqual({ success: false, error: 'PowerPoint is not available' })
+  })
+
+  it('rejects an empty image list', async () => {
+    installPowerPointEmulator({ slideCount: 1 })
+
+    const result = await addImagesWithLayout(0, [], 'grid-2x2')
+
+    expect(result).toEqual({ success: false, error: 'No images provided' })
+  })
+
+  it('centers a single image', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+
+    const result = await addImagesWithLayout(0, [PNG], 'single')
+
+    const [image] = emulator.getSlide(0).shapes
+    expect(result).toEqual({ success: true, data: { shapeIds: [image.id] } })
+    expect(image).toMatchObject({ type: 'Image', image: PNG })
+    expect(image.left + image.width / 2).toBeCloseTo(SLIDE_WIDTH / 2)
+  })
+
+  it('lays out a 2x2 grid of non-overlapping images', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+
+    const result = await addImagesWithLayout(0, [PNG, PNG, PNG, PNG], 'grid-2x2')
+
+    const shapes = emulator.getSlide(0).shapes
+    expect(result.data?.shapeIds).toEqual(shapes.map(shape => shape.id))
+    expect(new Set(shapes.map(shape => shape.left)).size).toBe(2)
+    expect(new Set(shapes.map(shape => shape.top)).size).toBe(2)
+    expect(shapes[1].left).toBeGreaterThanOrEqual(shapes[0].left + shapes[0].width)
+    expect(shapes[2].top).toBeGreaterThanOrEqual(shapes[0].top + shapes[0].height)
+  })
+
+  it('ignores images beyond the layout capacity', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+
+    const result = await addImagesWithLayout(0, [PNG, PNG, PNG, PNG, PNG, PNG], 'grid-2x2')
+
+    expect(result.data?.shapeIds).toHaveLength(4)
+    expect(emulator.getSlide(0).shapes).toHaveLength(4)
+  })
+
+  it('strips data URL prefixes', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+
+    await addImagesWithLayout(0, [`data:image/png;base64,${PNG}`], 'single')
+
+    expect(emulator.getSlide(0).shapes[0].image).toBe(PNG)
+  })
+
+  it('falls back to image-filled rectangles when addImage is unsupported', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1, supportsAddImage: false })
+
+    const result = await addImagesWithLayout(0, [PNG, PNG], 'side-by-side')
+
+    const shapes = emulator.getSlide(0).shapes
+    expect(result.data?.shapeIds).toEqual(shapes.map(shape => shape.id))
+    for (const shape of shapes) {
+      expect(shape).toMatchObject({ type: 'GeometricShape', name: 'Image' })
+      expect(shape.fill).toMatchObject({ type: 'PictureAndTexture', image: PNG })
+      expect(shape.lineFormat.visible).toBe(false)
+    }
+  })
+
+  it('skips images that fail to insert', async () => {
+    installPowerPointEmulator({ slideCount: 1 })
+
+    const result = await addImagesWithLayout(3, [PNG, PNG], 'side-by-side')
+
+    expect(result).toEqual({ success: true, data: { shapeIds: [] } })
+  })
+})
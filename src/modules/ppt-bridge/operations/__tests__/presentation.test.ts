@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest'
+import { getPresentationInfo, getSlideShapes, listSlides, resolveSlideRef } from '../presentation'
+import { createSlide } from '../slides'
+import { installPowerPointEmulator, uninstallPowerPointEmulator } from '../../../../test/powerpoint-emulator'
+
+describe('getSlideShapes', () => {
+  it('fails when PowerPoint is not available', async () => {
+    uninstallPowerPointEmulator()
+
+    const result = await getSlideShapes('256#')
+
+    expect(result).toEqual({ success: false, error: 'PowerPoint is not available' })
+  })
+
+  it('fails for an unknown slide', async () => {
+    installPowerPointEmulator({ slideCount: 1 })
+
+    const result = await getSlideShapes('missing')
+
+    expect(result.success).toBe(false)
+  })
+
+  it('returns geometry and text and marks the title', async () => {
+    installPowerPointEmulator()
+    const { data } = await createSlide('Agenda', 'content')
+
+    const result = await getSlideShapes(data!.slideId)
+
+    expect(result.data).toEqual([{
+      id: expect.any(String),
+      name: 'Title',
+      type: 'TextBox',
+      left: 40,
+      top: 40,
+      width: 880,
+      height: 80,
+      text: 'Agenda',
+      isTitle: true
+    }])
+  })
+
+  it('reads paragraphs, runs, fill, outline and tags with includeFormatting', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+    const slide = emulator.getSlide(0)
+    const text = 'Plan\rShip it now'
+    slide.shapes.push(emulator.createShape(slide, {
+      type: 'TextBox',
+      name: 'Body',
+      top: 300,
+      text,
+      paragraphFormat: { horizontalAlignment: 'Center', indentLevel: 1, bulletVisible: false },
+      textStyles: [
+        { start: 5, length: 11, paragraphFormat: { bulletVisible: true } },
+        { start: 10, length: 2, font: { bold: true, color: '#FF0000' } }
+      ],
+      fill: { type: 'NoFill', foregroundColor: '#FFFFFF', transparency: 0 },
+      lineFormat: { visible: true, color: '#000000', weight: 2, dashStyle: 'Dash' },
+      tags: new Map([['PPTKIT_ROLE', 'body']])
+    }))
+
+    const result = await getSlideShapes(slide.id, { includeFormatting: true })
+
+    const font = { name: 'Calibri', size: 18, bold: false, italic: false, underline: 'None', color: '#000000' }
+    const [shape] = result.data!
+    expect(shape.paragraphs).toEqual([
+      { text: 'Plan', horizontalAlignment: 'Center', bulleted: false, runs: [{ text: 'Plan', font }] },
+      {
+        text: 'Ship it now',
+        horizontalAlignment: 'Center',
+        bulleted: true,
+        runs: [
+          { text: 'Ship ', font },
+          { text: 'it', font: { ...font, bold: true, color: '#FF0000' } },
+          { text: ' now', font }
+        ]
+      }
+    ])
+    expect(shape.fill).toEqual({ type: 'NoFill' })
+    expect(shape.line).toEqual({ visible: true, color: '#000000', weight: 2, dashStyle: 'Dash' })
+    expect(shape.tags).toEqual({ PPTKIT_ROLE: 'body' })
+  })
+
+  it('nests group members and prefers a title placeholder', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+    const slide = emulator.getSlide(0)
+    const caption = emulator.createShape(slide, { type: 'TextBox', text: 'Caption', top: 20 })
+    const inner = emulator.createShape(slide, { type: 'Group', shapes: [caption] })
+    slide.shapes.push(
+      emulator.createShape(slide, { type: 'Group', name: 'Diagram', shapes: [inner] }),
+      emulator.createShape(slide, { type: 'Placeholder', placeholderType: 'Title', text: 'Quarterly\vReview', top: 60 })
+    )
+
+    const { data } = await getSlideShapes(slide.id)
+
+    expect(data![0].shapes![0].shapes![0]).toMatchObject({ id: caption.id, text: 'Caption' })
+    expect(data![1]).toMatchObject({ placeholderType: 'Title', isTitle: true })
+    expect(data![0].isTitle).toBeUndefined()
+  })
+
+  it('skips groups and placeholder types on hosts before PowerPointApi 1.8', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1, apiVersion: '1.5' })
+    const slide = emulator.getSlide(0)
+    slide.shapes.push(
+      emulator.createShape(slide, { type: 'Group', shapes: [emulator.createShape(slide, { type: 'TextBox' })] }),
+      emulator.createShape(slide, { type: 'Placeholder', name: 'Title 1', placeholderType: 'Title', text: 'Hi', top: 300 })
+    )
+
+    const { data } = await getSlideShapes(slide.id)
+
+    expect(data![0].shapes).toBeUndefined()
+    expect(data![1].placeholderType).toBeUndefined()
+    expect(data![1].isTitle).toBe(true)
+  })
+})
+
+describe('slide titles', () => {
+  it('fills in titles when listing slides', async () => {
+    const emulator = installPowerPointEmulator()
+    await createSlide('Welcome', 'title')
+    await createSlide('Agenda', 'content')
+    emulator.document.slides.push(emulator.createSlide())
+
+    const list = await listSlides(20, 1)
+    const info = await getPresentationInfo()
+
+    expect(list.data?.slides.map(slide => slide.title)).toEqual(['Agenda', ''])
+    expect(info.data?.slides.map(slide => slide.title)).toEqual(['Welcome', 'Agenda', ''])
+  })
+
+  it('falls back to the topmost text in the upper half of the slide', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+    const slide = emulator.getSlide(0)
+    slide.shapes.push(
+      emulator.createShape(slide, { type: 'TextBox', text: 'Footer', top: 500 }),
+      emulator.createShape(slide, { type: 'TextBox', text: 'Body text', top: 150 }),
+      emulator.createShape(slide, { type: 'TextBox', text: ' Roadmap\r2025 ', top: 30 })
+    )
+
+    const result = await listSlides()
+
+    expect(result.data?.slides[0]).toMatchObject({ title: 'Roadmap 2025', shapeCount: 3 })
+  })
+})
+
+describe('resolveSlideRef', () => {
+  it('fails when PowerPoint is not available', async () => {
+    uninstallPowerPointEmulator()
+
+    const result = await resolveSlideRef({ type: 'number', number: 1 })
+
+    expect(result).toEqual({ success: false, error: 'PowerPoint is not available' })
+  })
+
+  it('resolves IDs and 1-based slide numbers in decks of any size', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 150 })
+    const last = emulator.getSlide(149)
+
+    expect(await resolveSlideRef({ type: 'id', id: last.id })).toEqual({ success: true, data: { slideId: last.id, index: 149 } })
+    expect(await resolveSlideRef({ type: 'number', number: 150 })).toEqual({ success: true, data: { slideId: last.id, index: 149 } })
+    expect(await resolveSlideRef({ type: 'number', number: 151 })).toEqual({
+      success: false,
+      error: 'Slide not found: slide number 151 (the presentation has 150 slides)'
+    })
+  })
+
+  it('prefers exact title matches over partial ones', async () => {
+    installPowerPointEmulator()
+    await createSlide('Roadmap', 'content')
+    await createSlide('Roadmap 2025', 'content')
+
+    const exact = await resolveSlideRef({ type: 'title', title: '  roadmap ' })
+    const partial = await resolveSlideRef({ type: 'title', title: '2025' })
+
+    expect(exact.data?.index).toBe(0)
+    expect(partial.data?.index).toBe(1)
+  })
+
+  it('reports ambiguous and unknown titles', async () => {
+    const emulator = installPowerPointEmulator()
+    await createSlide('Q1 Results', 'content')
+    await createSlide('Q2 Results', 'content')
+    const [q1, q2] = emulator.document.slides
+
+    expect(await resolveSlideRef({ type: 'title', title: 'results' })).toEqual({
+      success: false,
+      error: `Ambiguous slide reference title "results": matches slides 1 (ID ${q1.id}), 2 (ID ${q2.id}). Use a slide ID or number instead.`
+    })
+    expect(await resolveSlideRef({ type: 'title', title: 'Q3' })).toEqual({ success: false, error: 'Slide not found: title "Q3"' })
+  })
+
+  it('matches slide tags, and ppt-kit IDs when no Office ID matches', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 3 })
+    emulator.getSlide(1).tags.set('SECTION', 'appendix')
+    emulator.getSlide(2).tags.set('PPTKIT_ID', 'slide-3')
+
+    const byTag = await resolveSlideRef({ type: 'tag', key: 'section', value: 'appendix' })
+    const byPptKitId = await resolveSlideRef({ type: 'id', id: 'slide-3' })
+
+    expect(byTag.data).toEqual({ slideId: emulator.getSlide(1).id, index: 1 })
+    expect(byPptKitId.data).toEqual({ slideId: emulator.getSlide(2).id, index: 2 })
+    expect(await resolveSlideRef({ type: 'id', id: 'missing' })).toEqual({ success: false, error: 'Slide not found: missing' })
+  })
+})
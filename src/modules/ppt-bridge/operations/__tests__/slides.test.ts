@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest'
+import { createSlide, deleteSlideRange, duplicateSlide, moveSlide } from '../slides'
+import { getPowerPointEmulator, installPowerPointEmulator, uninstallPowerPointEmulator } from '../../../../test/powerpoint-emulator'
+
+describe('createSlide', () => {
+  it('fails when PowerPoint is not available', async () => {
+    uninstallPowerPointEmulator()
+
+    const result = await createSlide('Hello')
+
+    expect(result).toEqual({ success: false, error: 'PowerPoint is not available' })
+  })
+
+  it('appends a slide and returns its id and index', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 2 })
+
+    const result = await createSlide('Agenda')
+
+    expect(result.success).toBe(true)
+    expect(emulator.document.slides).toHaveLength(3)
+    expect(result.data).toEqual({ slideId: emulator.getSlide(2).id, index: 2 })
+  })
+
+  it('adds a styled title box for content slides', async () => {
+    const emulator = getPowerPointEmulator()
+
+    await createSlide('Agenda', 'content')
+
+    const [title] = emulator.getSlide(0).shapes
+    expect(title).toMatchObject({
+      type: 'TextBox',
+      name: 'Title',
+      text: 'Agenda',
+      left: 40,
+      top: 40,
+      height: 80,
+      verticalAlignment: 'MiddleCentered'
+    })
+    expect(title.font).toMatchObject({ size: 32, bold: true })
+  })
+
+  it('uses a larger, lower title on title slides', async () => {
+    const emulator = getPowerPointEmulator()
+
+    await createSlide('Welcome', 'title')
+
+    const [title] = emulator.getSlide(0).shapes
+    expect(title).toMatchObject({ top: 200, height: 120 })
+    expect(title.font.size).toBe(44)
+  })
+
+  it('leaves the slide empty without a title', async () => {
+    const emulator = getPowerPointEmulator()
+
+    const result = await createSlide('')
+
+    expect(result.success).toBe(true)
+    expect(emulator.getSlide(0).shapes).toHaveLength(0)
+  })
+
+  it('runs in a single batch', async () => {
+    const emulator = getPowerPointEmulator()
+
+    await createSlide('Agenda')
+
+    expect(emulator.runCount).toBe(1)
+  })
+})
+
+describe('createSlide at an index', () => {
+  it('moves the new slide into place', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 2 })
+
+    const result = await createSlide('Intro', 'content', 0)
+
+    expect(result.data).toEqual({ slideId: emulator.getSlide(0).id, index: 0 })
+    expect(emulator.getSlide(0).shapes[0].text).toBe('Intro')
+  })
+
+  it('rejects indexes past the end and hosts before PowerPointApi 1.8', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 2 })
+
+    expect(await createSlide('Late', 'content', 3)).toEqual({ success: false, error: 'Slide index 3 out of range (0-2)' })
+    expect(emulator.document.slides).toHaveLength(2)
+
+    installPowerPointEmulator({ slideCount: 2, apiVersion: '1.5' })
+    expect(await createSlide('Intro', 'content', 0)).toEqual({
+      success: false,
+      error: 'Inserting a slide at a position requires PowerPointApi 1.8'
+    })
+  })
+})
+
+describe('duplicateSlide', () => {
+  it('inserts a copy with the same shapes after the original', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 2 })
+    const source = emulator.getSlide(0)
+    source.shapes.push(emulator.createShape(source, { type: 'TextBox', text: 'Keep me' }))
+
+    const result = await duplicateSlide(source.id)
+
+    const copy = emulator.getSlide(1)
+    expect(result).toEqual({ success: true, data: { slideId: copy.id, index: 1 } })
+    expect(copy.id).not.toBe(source.id)
+    expect(copy.shapes.map(shape => shape.text)).toEqual(['Keep me'])
+    expect(emulator.document.slides).toHaveLength(3)
+  })
+
+  it('places the copy at the requested index', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 3 })
+    const source = emulator.getSlide(1)
+
+    const first = await duplicateSlide(source.id, 0)
+    const last = await duplicateSlide(source.id, 4)
+
+    expect(first.data?.index).toBe(0)
+    expect(last.data?.index).toBe(4)
+    expect(emulator.document.slides.map(slide => slide.id).indexOf(source.id)).toBe(2)
+  })
+
+  it('requires PowerPointApi 1.8', async () => {
+    installPowerPointEmulator({ slideCount: 1, apiVersion: '1.5' })
+
+    const result = await duplicateSlide('256#')
+
+    expect(result).toEqual({ success: false, error: 'Duplicating slides requires PowerPointApi 1.8' })
+  })
+})
+
+describe('moveSlide', () => {
+  it('moves a slide and reports where it came from', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 3 })
+    const ids = emulator.document.slides.map(slide => slide.id)
+
+    const result = await moveSlide(ids[0], 2)
+
+    expect(result).toEqual({ success: true, data: { fromIndex: 0, index: 2 } })
+    expect(emulator.document.slides.map(slide => slide.id)).toEqual([ids[1], ids[2], ids[0]])
+  })
+
+  it('fails for unknown slides and out-of-range indexes', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 2 })
+
+    expect(await moveSlide('missing', 0)).toEqual({ success: false, error: 'Slide not found: missing' })
+    expect(await moveSlide(emulator.getSlide(0).id, 2)).toEqual({ success: false, error: 'Slide index 2 out of range (0-1)' })
+  })
+})
+
+describe('deleteSlideRange', () => {
+  it('deletes consecutive slides', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 4 })
+    const ids = emulator.document.slides.map(slide => slide.id)
+
+    const result = await deleteSlideRange(1, 2)
+
+    expect(result).toEqual({ success: true, data: { slideIds: [ids[1], ids[2]] } })
+    expect(emulator.document.slides.map(slide => slide.id)).toEqual([ids[0], ids[3]])
+  })
+
+  it('refuses ranges past the end or covering every slide', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 2 })
+
+    expect(await deleteSlideRange(1, 2)).toEqual({ success: false, error: 'Slide range 1-2 out of range (0-1)' })
+    expect(await deleteSlideRange(0, 2)).toEqual({ success: false, error: 'Cannot delete every slide' })
+    expect(emulator.document.slides).toHaveLength(2)
+  })
+})
@@ -0,0 +1,191 @@
+/**
+ * PPT Bridge Operations - Batch
+ *
+ * Runs an ordered list of operations inside a single PowerPoint.run context.
+ * If a step fails, the slides and shapes created by it and earlier steps are deleted.
+ * Based on official Office.js PowerPoint API.
+ */
+
+import type {
+  OperationResult,
+  BatchOptions,
+  BatchStep,
+  BatchStepResult,
+  BatchResult
+} from './types'
+import { isOfficeAvailable } from './utils'
+import { insertSlideTitle } from './slides'
+import { insertTextBox } from './content'
+import { insertCodeBlock } from './code'
+import { insertImage } from './media'
+import { insertDiagram, renderMermaidToBase64, detectDiagramType } from './diagrams'
+
+// Reference to a slide created earlier in the batch, e.g. "$0"
+const SLIDE_REF_REGEX = /^\$(\d+)$/
+
+/**
+ * Resolve a slide ID or `$<step index>` reference
+ */
+function resolveSlideRef(ref: string, createdSlides: Map<number, string>): string {
+  const match = ref.match(SLIDE_REF_REGEX)
+  if (!match) return ref
+
+  const slideId = createdSlides.get(parseInt(match[1], 10))
+  if (!slideId) {
+    throw new Error(`Slide reference ${ref} does not point to a slide created by an earlier step`)
+  }
+  return slideId
+}
+
+/**
+ * Add the shapes for a content step (caller syncs)
+ */
+async function insertStepShapes(
+  shapes: PowerPoint.ShapeCollection,
+  step: Exclude<BatchStep, { op: 'createSlide' }>
+): Promise<PowerPoint.Shape[]> {
+  switch (step.op) {
+    case 'addText':
+      return [insertTextBox(shapes, step.content, step.position)]
+
+    case 'addCode': {
+      const { background, codeBox } = insertCodeBlock(shapes, step.code, step.position)
+      return [background, codeBox]
+    }
+
+    case 'addMermaid': {
+      const base64Png = await renderMermaidToBase64(step.mermaidCode)
+      return [insertDiagram(shapes, base64Png, detectDiagramType(step.mermaidCode), step.position)]
+    }
+
+    case 'addImage':
+      return [insertImage(shapes, step.imageData, step.position)]
+  }
+}
+
+/**
+ * Run batch steps in order, rolling back created slides and shapes on failure
+ * A cancellation via `options.signal` counts as a failure of the next step.
+ */
+export async function runBatch(steps: BatchStep[], options: BatchOptions = {}): Promise<OperationResult<BatchResult>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+
+  let results: BatchStepResult[] = steps.map((step, index) => ({ index, op: step.op, status: 'skipped' }))
+  // Step index -> ID of the slide it created
+  const createdSlides = new Map<number, string>()
+  // Shapes added to slides that existed before the batch
+  const createdShapes: Array<{ slideId: string; shapeId: string }> = []
+  // Step index -> shape IDs of the existing slide it adds to, taken before the step;
+  // a step whose sync fails may already have created some of its shapes
+  const shapeSnapshots = new Map<number, { slideId: string; shapeIds: Set<string> }>()
+  let failure: string | null = null
+
+  try {
+    await PowerPoint.run(async (context) => {
+      const slides = context.presentation.slides
+
+      for (let i = 0; i < steps.length; i++) {
+        const step = steps[i]
+        if (options.signal?.aborted) {
+          failure = `Batch cancelled before step ${i}`
+          return
+        }
+
+        try {
+          if (step.op === 'createSlide') {
+            slides.add()
+            slides.load('items')
+            await context.sync()
+
+            const slide = slides.getItemAt(slides.items.length - 1)
+            slide.load('id')
+            await context.sync()
+            createdSlides.set(i, slide.id)
+
+            const shapeIds: string[] = []
+            if (step.title) {
+              const titleShape = insertSlideTitle(slide.shapes, step.title, step.layout || 'content')
+              titleShape.load('id')
+              await context.sync()
+              shapeIds.push(titleShape.id)
+            }
+
+            results[i] = { index: i, op: step.op, status: 'ok', slideId: slide.id, shapeIds }
+          } else {
+            const slideId = resolveSlideRef(step.slideId, createdSlides)
+            const slideShapes = slides.getItem(slideId).shapes
+            // Shapes on slides created by this batch go away with the slide
+            const existingSlide = ![...createdSlides.values()].includes(slideId)
+            if (existingSlide) {
+              slideShapes.load('items')
+              await context.sync()
+              shapeSnapshots.set(i, { slideId, shapeIds: new Set(slideShapes.items.map(shape => shape.id)) })
+            }
+
+            const shapes = await insertStepShapes(slideShapes, step)
+            shapes.forEach(shape => shape.load('id'))
+            await context.sync()
+            shapeSnapshots.delete(i)
+
+            const shapeIds = shapes.map(shape => shape.id)
+            if (existingSlide) {
+              shapeIds.forEach(shapeId => createdShapes.push({ slideId, shapeId }))
+            }
+
+            results[i] = { index: i, op: step.op, status: 'ok', slideId, shapeIds }
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error'
+          results[i] = { index: i, op: step.op, status: 'failed', error: message }
+          failure = `Step ${i} failed: ${message}`
+          return
+        }
+      }
+    })
+  } catch (error) {
+    failure = failure || (error instanceof Error ? error.message : 'Unknown error')
+  }
+
+  if (!failure) {
+    return { success: true, data: { success: true, steps: results, rolledBack: false } }
+  }
+
+  // Roll back in a fresh context; the failed one may be unusable
+  let rollbackError: string | undefined
+  try {
+    await PowerPoint.run(async (context) => {
+      const slides = context.presentation.slides
+      // Shapes of the failed step, found by comparing with the snapshot
+      for (const { slideId, shapeIds } of shapeSnapshots.values()) {
+        const shapes = slides.getItem(slideId).shapes
+        shapes.load('items')
+        await context.sync()
+        shapes.items.filter(shape => !shapeIds.has(shape.id)).forEach(shape => shape.delete())
+      }
+      for (const { slideId, shapeId } of [...createdShapes].reverse()) {
+        slides.getItem(slideId).shapes.getItem(shapeId).delete()
+      }
+      for (const slideId of createdSlides.values()) {
+        slides.getItem(slideId).delete()
+      }
+      await context.sync()
+    })
+    results = results.map(result => result.status === 'ok' ? { ...result, status: 'rolled_back' } : result)
+  } catch (error) {
+    rollbackError = error instanceof Error ? error.message : 'Unknown error'
+  }
+
+  return {
+    success: false,
+    error: failure,
+    data: {
+      success: false,
+      steps: results,
+      rolledBack: !rollbackError,
+      error: failure,
+      rollbackError
+    }
+  }
+}
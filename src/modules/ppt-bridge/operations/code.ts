@@ -9,6 +9,46 @@ import type { OperationResult, Position } from './types'
 import { isOfficeAvailable, toShapeAddOptions } from './utils'
 import { highlightCode } from '../../highlighter'
 
+/**
+ * Add a code block (dark background + monospace text) to a slide's shapes (caller syncs)
+ */
+export function insertCodeBlock(
+  shapes: PowerPoint.ShapeCollection,
+  code: string,
+  position?: Position
+): { background: PowerPoint.Shape; codeBox: PowerPoint.Shape } {
+  const rect = position || { x: 40, y: 140, width: 880, height: 400 }
+  
+  // Create a background shape for the code block using official API
+  const background = shapes.addGeometricShape(
+    PowerPoint.GeometricShapeType.rectangle,
+    {
+      left: rect.x - 10,
+      top: rect.y - 10,
+      width: rect.width + 20,
+      height: rect.height + 20
+    }
+  )
+  background.fill.setSolidColor('#1E1E1E')
+  background.lineFormat.visible = false
+  background.name = 'CodeBackground'
+  
+  // Add code as text box using official addTextBox API
+  const codeBox = shapes.addTextBox(code, toShapeAddOptions(rect))
+  codeBox.left = rect.x
+  codeBox.top = rect.y
+  codeBox.width = rect.width
+  codeBox.height = rect.height
+  
+  // Style as code using official TextFrame API
+  codeBox.textFrame.textRange.font.name = 'Consolas'
+  codeBox.textFrame.textRange.font.size = 14
+  codeBox.textFrame.textRange.font.color = '#D4D4D4'
+  codeBox.name = 'CodeBlock'
+
+  return { background, codeBox }
+}
+
 /**
  * Add code block to a slide with syntax highlighting
  */
@@ -30,35 +70,7 @@ export async function addCodeToSlide(
 
     await PowerPoint.run(async (context) => {
       const shapes = context.presentation.slides.getItemAt(slideIndex).shapes
-      
-      const rect = position || { x: 40, y: 140, width: 880, height: 400 }
-      
-      // Create a background shape for the code block using official API
-      const bgShape = shapes.addGeometricShape(
-        PowerPoint.GeometricShapeType.rectangle,
-        {
-          left: rect.x - 10,
-          top: rect.y - 10,
-          width: rect.width + 20,
-          height: rect.height + 20
-        }
-      )
-      bgShape.fill.setSolidColor('#1E1E1E')
-      bgShape.lineFormat.visible = false
-      bgShape.name = 'CodeBackground'
-      
-      // Add code as text box using official addTextBox API
-      const codeBox = shapes.addTextBox(code, toShapeAddOptions(rect))
-      codeBox.left = rect.x
-      codeBox.top = rect.y
-      codeBox.width = rect.width
-      codeBox.height = rect.height
-      
-      // Style as code using official TextFrame API
-      codeBox.textFrame.textRange.font.name = 'Consolas'
-      codeBox.textFrame.textRange.font.size = 14
-      codeBox.textFrame.textRange.font.color = '#D4D4D4'
-      codeBox.name = 'CodeBlock'
+      const { codeBox } = insertCodeBlock(shapes, code, position)
       
       codeBox.load('id')
       await context.sync()
@@ -1,7 +1,8 @@
 /**
  * PPT Bridge Operations - Content
  * 
- * Operations for adding content to slides (text, lists, shapes).
+ * Operations for adding content to slides (text, lists, shapes) and for
+ * editing, reordering, grouping and deleting existing shapes by ID.
  * Based on official Office.js PowerPoint API.
  * @see https://learn.microsoft.com/en-us/office/dev/add-ins/powerpoint/shapes
  */
@@ -9,10 +10,44 @@
 import type { 
   OperationResult, 
   Position,
-  GeometricShapeType
+  GeometricShapeType,
+  ShapeUpdate,
+  ShapeZOrder
 } from './types'
 import type { ContentBlock } from '../../../types'
-import { isOfficeAvailable, toShapeAddOptions } from './utils'
+import { isOfficeAvailable, isPowerPointApiSupported, toShapeAddOptions, toOfficeEnumValue, TEXT_SHAPE_TYPES } from './utils'
+
+/**
+ * Add a styled text box to a slide's shapes (caller syncs)
+ */
+export function insertTextBox(
+  shapes: PowerPoint.ShapeCollection,
+  text: string,
+  position?: Position
+): PowerPoint.Shape {
+  // Use official addTextBox API
+  const textbox = shapes.addTextBox(text, position ? toShapeAddOptions(position) : undefined)
+  
+  // Set position and size if provided
+  if (position) {
+    textbox.left = position.x
+    textbox.top = position.y
+    textbox.width = position.width
+    textbox.height = position.height
+  } else {
+    // Default position
+    textbox.left = 40
+    textbox.top = 140
+    textbox.width = 880
+    textbox.height = 360
+  }
+  
+  // Style the text
+  textbox.textFrame.textRange.font.size = 18
+  textbox.textFrame.textRange.font.name = 'Segoe UI'
+
+  return textbox
+}
 
 /**
  * Add text box to a slide
@@ -32,27 +67,7 @@ export async function addTextToSlide(
 
     await PowerPoint.run(async (context) => {
       const shapes = context.presentation.slides.getItemAt(slideIndex).shapes
-      
-      // Use official addTextBox API
-      const textbox = shapes.addTextBox(text, position ? toShapeAddOptions(position) : undefined)
-      
-      // Set position and size if provided
-      if (position) {
-        textbox.left = position.x
-        textbox.top = position.y
-        textbox.width = position.width
-        textbox.height = position.height
-      } else {
-        // Default position
-        textbox.left = 40
-        textbox.top = 140
-        textbox.width = 880
-        textbox.height = 360
-      }
-      
-      // Style the text
-      textbox.textFrame.textRange.font.size = 18
-      textbox.textFrame.textRange.font.name = 'Segoe UI'
+      const textbox = insertTextBox(shapes, text, position)
       
       textbox.load('id')
       await context.sync()
@@ -328,3 +343,293 @@ export async function addContentBlockToSlide(
     }
   }
 }
+
+/**
+ * Delete shapes from a slide by ID
+ * Shapes (or the slide) that no longer exist are skipped.
+ */
+export async function deleteShapesById(
+  slideId: string,
+  shapeIds: string[]
+): Promise<OperationResult<{ deletedCount: number }>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+
+  try {
+    let deletedCount = 0
+
+    await PowerPoint.run(async (context) => {
+      const slide = context.presentation.slides.getItemOrNullObject(slideId)
+      await context.sync()
+      if (slide.isNullObject) return
+
+      const shapes = shapeIds.map(id => slide.shapes.getItemOrNullObject(id))
+      await context.sync()
+
+      for (const shape of shapes) {
+        if (!shape.isNullObject) {
+          shape.delete()
+          deletedCount++
+        }
+      }
+      await context.sync()
+    })
+
+    return { success: true, data: { deletedCount } }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
+
+/**
+ * Get a slide and shapes on it by ID, with the shapes' types loaded.
+ * Fails naming the slide or the first shape that doesn't exist.
+ */
+async function loadShapesById(
+  context: PowerPoint.RequestContext,
+  slideId: string,
+  shapeIds: string[]
+): Promise<{ slide: PowerPoint.Slide; shapes: PowerPoint.Shape[] }> {
+  const slide = context.presentation.slides.getItemOrNullObject(slideId)
+  await context.sync()
+  if (slide.isNullObject) {
+    throw new Error(`Slide not found: ${slideId}`)
+  }
+
+  const shapes = shapeIds.map(id => slide.shapes.getItemOrNullObject(id).load('id,type'))
+  await context.sync()
+
+  const missing = shapeIds.find((_, i) => shapes[i].isNullObject)
+  if (missing) {
+    throw new Error(`Shape not found: ${missing}`)
+  }
+  return { slide, shapes }
+}
+
+/**
+ * Update an existing shape's text, name, position and size, fill, font or alignment
+ * @returns The names of the fields that were changed
+ * @see https://learn.microsoft.com/en-us/javascript/api/powerpoint/powerpoint.shape
+ */
+export async function updateShape(
+  slideId: string,
+  shapeId: string,
+  update: ShapeUpdate
+): Promise<OperationResult<{ updated: string[] }>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+
+  const updated = (Object.keys(update) as Array<keyof ShapeUpdate>).filter(key => update[key] !== undefined)
+  if (updated.length === 0) {
+    return { success: false, error: 'No changes given' }
+  }
+
+  try {
+    await PowerPoint.run(async (context) => {
+      const { shapes: [shape] } = await loadShapesById(context, slideId, [shapeId])
+
+      const textChanges = updated.filter(key => ['text', 'font', 'horizontalAlignment', 'verticalAlignment'].includes(key))
+      if (textChanges.length > 0 && !TEXT_SHAPE_TYPES.includes(shape.type)) {
+        throw new Error(`Shape ${shapeId} is a ${shape.type} and has no text (cannot change ${textChanges.join(', ')})`)
+      }
+
+      if (update.name !== undefined) shape.name = update.name
+      if (update.left !== undefined) shape.left = update.left
+      if (update.top !== undefined) shape.top = update.top
+      if (update.width !== undefined) shape.width = update.width
+      if (update.height !== undefined) shape.height = update.height
+
+      if (update.fillColor === null) {
+        shape.fill.clear()
+      } else if (update.fillColor !== undefined) {
+        shape.fill.setSolidColor(update.fillColor)
+      }
+
+      if (textChanges.length > 0) {
+        const textRange = shape.textFrame.textRange
+        if (update.text !== undefined) textRange.text = update.text
+
+        const font = update.font || {}
+        if (font.name !== undefined) textRange.font.name = font.name
+        if (font.size !== undefined) textRange.font.size = font.size
+        if (font.bold !== undefined) textRange.font.bold = font.bold
+        if (font.italic !== undefined) textRange.font.italic = font.italic
+        if (font.underline !== undefined) textRange.font.underline = font.underline as PowerPoint.ShapeFontUnderlineStyle
+        if (font.color !== undefined) textRange.font.color = font.color
+
+        if (update.horizontalAlignment) {
+          textRange.paragraphFormat.horizontalAlignment =
+            toOfficeEnumValue(update.horizontalAlignment) as PowerPoint.ParagraphHorizontalAlignment
+        }
+        if (update.verticalAlignment) {
+          shape.textFrame.verticalAlignment = toOfficeEnumValue(update.verticalAlignment) as PowerPoint.TextVerticalAlignment
+        }
+      }
+
+      await context.sync()
+    })
+
+    return { success: true, data: { updated } }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
+
+/**
+ * Delete a single shape; unlike deleteShapesById, a missing shape is an error
+ */
+export async function deleteShape(slideId: string, shapeId: string): Promise<OperationResult<void>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+
+  try {
+    await PowerPoint.run(async (context) => {
+      const { shapes: [shape] } = await loadShapesById(context, slideId, [shapeId])
+      shape.delete()
+      await context.sync()
+    })
+
+    return { success: true }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
+
+/**
+ * Move a shape forward or backward in the slide's z-order
+ * @returns The shape's new 1-based z-order position
+ * @see https://learn.microsoft.com/en-us/javascript/api/powerpoint/powerpoint.shape#powerpoint-powerpoint-shape-setzorder-member(1)
+ */
+export async function reorderShape(
+  slideId: string,
+  shapeId: string,
+  position: ShapeZOrder
+): Promise<OperationResult<{ zOrderPosition: number }>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+  if (!isPowerPointApiSupported('1.8')) {
+    return { success: false, error: 'Reordering shapes requires PowerPointApi 1.8' }
+  }
+
+  try {
+    let zOrderPosition = 0
+
+    await PowerPoint.run(async (context) => {
+      const { shapes: [shape] } = await loadShapesById(context, slideId, [shapeId])
+      shape.setZOrder(toOfficeEnumValue(position) as PowerPoint.ShapeZOrder)
+      shape.load('zOrderPosition')
+      await context.sync()
+
+      zOrderPosition = shape.zOrderPosition
+    })
+
+    return { success: true, data: { zOrderPosition } }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
+
+/**
+ * Move a shape to a 1-based z-order position, one step at a time
+ * Used to put a reordered shape back where it was.
+ */
+export async function setShapeZOrderPosition(
+  slideId: string,
+  shapeId: string,
+  zOrderPosition: number
+): Promise<OperationResult<{ zOrderPosition: number }>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+  if (!isPowerPointApiSupported('1.8')) {
+    return { success: false, error: 'Reordering shapes requires PowerPointApi 1.8' }
+  }
+
+  try {
+    let current = 0
+
+    await PowerPoint.run(async (context) => {
+      const { slide, shapes: [shape] } = await loadShapesById(context, slideId, [shapeId])
+      slide.shapes.load('items')
+      shape.load('zOrderPosition')
+      await context.sync()
+
+      const target = Math.min(Math.max(zOrderPosition, 1), slide.shapes.items.length)
+      current = shape.zOrderPosition
+      while (current !== target) {
+        const previous = current
+        shape.setZOrder(toOfficeEnumValue(current < target ? 'bringForward' : 'sendBackward') as PowerPoint.ShapeZOrder)
+        shape.load('zOrderPosition')
+        await context.sync()
+        current = shape.zOrderPosition
+        if (current === previous) break
+      }
+    })
+
+    return { success: true, data: { zOrderPosition: current } }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
+
+/**
+ * Group shapes on a slide; the members keep their IDs
+ * @see https://learn.microsoft.com/en-us/javascript/api/powerpoint/powerpoint.shapecollection#powerpoint-powerpoint-shapecollection-addgroup-member(1)
+ */
+export async function groupShapes(
+  slideId: string,
+  shapeIds: string[],
+  name?: string
+): Promise<OperationResult<{ groupId: string }>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+  if (new Set(shapeIds).size < 2) {
+    return { success: false, error: 'A group needs at least two different shapes' }
+  }
+  if (!isPowerPointApiSupported('1.8')) {
+    return { success: false, error: 'Grouping shapes requires PowerPointApi 1.8' }
+  }
+
+  try {
+    let groupId = ''
+
+    await PowerPoint.run(async (context) => {
+      const { slide } = await loadShapesById(context, slideId, shapeIds)
+      const group = slide.shapes.addGroup([...new Set(shapeIds)])
+      if (name) {
+        group.name = name
+      }
+      group.load('id')
+      await context.sync()
+
+      groupId = group.id
+    })
+
+    return { success: true, data: { groupId } }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
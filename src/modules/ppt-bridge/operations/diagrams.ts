@@ -30,6 +30,46 @@ export function detectDiagramType(mermaidCode: string): MermaidDiagramType | 'un
   return typeMatch ? (typeMatch[1] as MermaidDiagramType) : 'unknown'
 }
 
+/**
+ * Render Mermaid code to Base64 PNG data
+ */
+export async function renderMermaidToBase64(mermaidCode: string): Promise<string> {
+  const renderResult = await renderMermaid(mermaidCode)
+  const pngDataUrl = await svgToPng(renderResult.svg)
+  return pngDataUrl.split(',')[1]
+}
+
+/**
+ * Add a rendered diagram image to a slide's shapes (caller syncs)
+ */
+export function insertDiagram(
+  shapes: PowerPoint.ShapeCollection,
+  base64Png: string,
+  diagramType: string,
+  position?: Position
+): PowerPoint.Shape {
+  const rect = position || { x: 100, y: 140, width: 760, height: 400 }
+  
+  // Create a rectangle shape and fill with the rendered diagram image
+  // Using official addGeometricShape and setImage APIs
+  const diagramShape = shapes.addGeometricShape(
+    PowerPoint.GeometricShapeType.rectangle,
+    toShapeAddOptions(rect)
+  )
+  
+  diagramShape.left = rect.x
+  diagramShape.top = rect.y
+  diagramShape.width = rect.width
+  diagramShape.height = rect.height
+  
+  // Fill with rendered PNG using official setImage API
+  diagramShape.fill.setImage(base64Png)
+  diagramShape.lineFormat.visible = false
+  diagramShape.name = `MermaidDiagram_${diagramType}`
+
+  return diagramShape
+}
+
 /**
  * Add Mermaid diagram to a slide
  * Renders the diagram to PNG and inserts as image using official setImage API
@@ -45,9 +85,7 @@ export async function addMermaidToSlide(
 
   try {
     // Render mermaid to SVG then PNG
-    const renderResult = await renderMermaid(mermaidCode)
-    const pngDataUrl = await svgToPng(renderResult.svg)
-    const base64Data = pngDataUrl.split(',')[1]
+    const base64Data = await renderMermaidToBase64(mermaidCode)
 
     // Detect diagram type
     const diagramType = detectDiagramType(mermaidCode)
@@ -56,25 +94,7 @@ export async function addMermaidToSlide(
 
     await PowerPoint.run(async (context) => {
       const shapes = context.presentation.slides.getItemAt(slideIndex).shapes
-      
-      const rect = position || { x: 100, y: 140, width: 760, height: 400 }
-      
-      // Create a rectangle shape and fill with the rendered diagram image
-      // Using official addGeometricShape and setImage APIs
-      const diagramShape = shapes.addGeometricShape(
-        PowerPoint.GeometricShapeType.rectangle,
-        toShapeAddOptions(rect)
-      )
-      
-      diagramShape.left = rect.x
-      diagramShape.top = rect.y
-      diagramShape.width = rect.width
-      diagramShape.height = rect.height
-      
-      // Fill with rendered PNG using official setImage API
-      diagramShape.fill.setImage(base64Data)
-      diagramShape.lineFormat.visible = false
-      diagramShape.name = `MermaidDiagram_${diagramType}`
+      const diagramShape = insertDiagram(shapes, base64Data, diagramType, position)
       
       diagramShape.load('id')
       await context.sync()
@@ -176,6 +196,7 @@ export async function addTableToSlide(
         const columnCount = headers.length
         
         const table = shapes.addTable(rowCount, columnCount, {
+          values: [headers, ...rows.map(row => headers.map((_, i) => row[i] ?? ''))],
           left: rect.x,
           top: rect.y,
           width: rect.width,
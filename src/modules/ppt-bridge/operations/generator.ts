@@ -6,28 +6,40 @@
  */
 
 import type { SlideContent } from '../../../types'
-import type { OperationResult, Position } from './types'
+import type { OperationResult, Position, GenerateSlidesOptions } from './types'
 import { isOfficeAvailable } from './utils'
+import { PPTKIT_ID_TAG } from './references'
 import { calculateLayout } from '../../layout/engine'
 
 /**
  * Generate multiple slides from parsed content
  * Uses official PowerPoint API for slide and shape creation
+ *
+ * When cancelled via `options.signal`, the result is unsuccessful but still
+ * carries the IDs of the slides generated before the cancellation.
  */
 export async function generateSlides(
-  slides: SlideContent[]
+  slides: SlideContent[],
+  options: GenerateSlidesOptions = {}
 ): Promise<OperationResult<{ createdCount: number; slideIds: string[] }>> {
   if (!isOfficeAvailable()) {
     return { success: false, error: 'PowerPoint is not available' }
   }
 
+  const slideIds: string[] = []
+
   try {
-    const slideIds: string[] = []
+    let cancelled = false
 
     await PowerPoint.run(async (context) => {
       const presentation = context.presentation
 
       for (const slideContent of slides) {
+        if (options.signal?.aborted) {
+          cancelled = true
+          break
+        }
+
         // Add new slide using official API
         presentation.slides.add()
         presentation.slides.load('items')
@@ -40,6 +52,9 @@ export async function generateSlides(
         await context.sync()
         
         slideIds.push(newSlide.id)
+
+        // Tag the slide with the parser's ID so it can be referenced by it
+        newSlide.tags.add(PPTKIT_ID_TAG, slideContent.id)
         
         const layout = calculateLayout(slideContent)
         const shapes = newSlide.shapes
@@ -67,9 +82,24 @@ export async function generateSlides(
         }
 
         await context.sync()
+
+        options.onProgress?.({
+          current: slideIds.length,
+          total: slides.length,
+          slideId: newSlide.id,
+          title: slideContent.title
+        })
       }
     })
 
+    if (cancelled) {
+      return {
+        success: false,
+        error: `Generation cancelled after ${slideIds.length} of ${slides.length} slides`,
+        data: { createdCount: slideIds.length, slideIds }
+      }
+    }
+
     return { 
       success: true, 
       data: { createdCount: slideIds.length, slideIds } 
@@ -77,7 +107,8 @@ export async function generateSlides(
   } catch (error) {
     return { 
       success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
+      error: error instanceof Error ? error.message : 'Unknown error',
+      data: { createdCount: slideIds.length, slideIds }
     }
   }
 }
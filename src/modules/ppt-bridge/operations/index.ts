@@ -8,35 +8,58 @@
  * - types.ts        - Type definitions based on official API
  * - utils.ts        - Shared utility functions
  * - presentation.ts - Presentation-level operations
- * - slides.ts       - Slide management (create, delete)
+ * - references.ts   - Slide references (ID, number, title, tag)
+ * - slides.ts       - Slide management (create, move, duplicate, delete)
  * - content.ts      - Content operations (text, lists, shapes)
  * - code.ts         - Code block operations with syntax highlighting
  * - media.ts        - Image and media operations (using setImage API)
  * - diagrams.ts     - Mermaid diagrams, charts, and tables
  * - generator.ts    - Batch slide generation
+ * - batch.ts        - Transactional batches with rollback
  */
 
 // Types
 export type {
   SlideInfo,
   PresentationInfo,
+  ShapeInfo,
+  ShapeQueryOptions,
+  SlideRef,
+  ResolvedSlide,
+  ParagraphInfo,
+  TextRunInfo,
+  TextRunFont,
+  ShapeFillInfo,
+  ShapeLineInfo,
   OperationResult,
+  BatchStep,
+  BatchOptions,
+  BatchStepResult,
+  BatchResult,
+  GenerationProgress,
+  GenerateSlidesOptions,
   Position,
   ShapeAddOptions,
   LayoutType,
   GeometricShapeType,
   ConnectorType,
-  TextVerticalAlignment
+  TextVerticalAlignment,
+  ShapeZOrder,
+  HorizontalAlignment,
+  ShapeUpdate
 } from './types'
 
 // Utils
 export {
   isOfficeAvailable,
   isOfficeEnvironment,
+  isPowerPointApiSupported,
+  getPowerPointApiVersion,
   getTitleRect,
   errorResult,
   successResult,
   toShapeAddOptions,
+  toOfficeEnumValue,
   SLIDE_WIDTH,
   SLIDE_HEIGHT
 } from './utils'
@@ -46,15 +69,31 @@ export {
   getPresentationInfo,
   goToSlide,
   listSlides,
-  getSelectedSlideIndex
+  getSelectedSlideIndex,
+  getSlideShapes,
+  resolveSlideRef
 } from './presentation'
 
+// Slide references
+export {
+  PPTKIT_ID_TAG,
+  describeSlideRef,
+  findSlideByRef,
+  type SlideRefCandidate
+} from './references'
+
 // Slide operations
 export {
   createSlide,
   createSlideWithMatchingLayout,
   deleteSlide,
   deleteSlideById,
+  deleteSlidesById,
+  deleteSlideRange,
+  moveSlide,
+  duplicateSlide,
+  exportSlideById,
+  insertSlidesFromBase64,
   getSlideCount
 } from './slides'
 
@@ -64,7 +103,13 @@ export {
   addListToSlide,
   addShapeToSlide,
   addLineToSlide,
-  addContentBlockToSlide
+  addContentBlockToSlide,
+  deleteShapesById,
+  updateShape,
+  deleteShape,
+  reorderShape,
+  setShapeZOrderPosition,
+  groupShapes
 } from './content'
 
 // Code operations
@@ -101,6 +146,9 @@ export {
   type SlideTemplateId
 } from './generator'
 
+// Batch operations
+export { runBatch } from './batch'
+
 // Notification operations
 export {
   showNotification,
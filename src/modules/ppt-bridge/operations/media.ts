@@ -9,6 +9,38 @@
 import type { OperationResult, Position } from './types'
 import { isOfficeAvailable, toShapeAddOptions } from './utils'
 
+/**
+ * Add an image-filled rectangle to a slide's shapes (caller syncs)
+ * Accepts Base64 data with or without a data URL prefix.
+ */
+export function insertImage(
+  shapes: PowerPoint.ShapeCollection,
+  base64ImageData: string,
+  position?: Position
+): PowerPoint.Shape {
+  // Remove data URL prefix if present
+  const base64 = base64ImageData.startsWith('data:') ? base64ImageData.split(',')[1] : base64ImageData
+  const rect = position || { x: 100, y: 100, width: 760, height: 400 }
+  
+  // Create a rectangle shape using official API
+  const imageShape = shapes.addGeometricShape(
+    PowerPoint.GeometricShapeType.rectangle,
+    toShapeAddOptions(rect)
+  )
+  
+  imageShape.left = rect.x
+  imageShape.top = rect.y
+  imageShape.width = rect.width
+  imageShape.height = rect.height
+  
+  // Fill shape with Base64-encoded image using official setImage API
+  imageShape.fill.setImage(base64)
+  imageShape.lineFormat.visible = false
+  imageShape.name = 'Image'
+
+  return imageShape
+}
+
 /**
  * Add image to a slide using Shape.fill.setImage()
  * @see https://learn.microsoft.com/en-us/office/dev/add-ins/powerpoint/bind-shapes-in-presentation
@@ -26,34 +58,11 @@ export async function addImageToSlide(
   }
 
   try {
-    // Remove data URL prefix if present
-    let base64 = base64ImageData
-    if (base64ImageData.startsWith('data:')) {
-      base64 = base64ImageData.split(',')[1]
-    }
-
     let shapeId = ''
 
     await PowerPoint.run(async (context) => {
       const shapes = context.presentation.slides.getItemAt(slideIndex).shapes
-      
-      const rect = position || { x: 100, y: 100, width: 760, height: 400 }
-      
-      // Create a rectangle shape using official API
-      const imageShape = shapes.addGeometricShape(
-        PowerPoint.GeometricShapeType.rectangle,
-        toShapeAddOptions(rect)
-      )
-      
-      imageShape.left = rect.x
-      imageShape.top = rect.y
-      imageShape.width = rect.width
-      imageShape.height = rect.height
-      
-      // Fill shape with Base64-encoded image using official setImage API
-      imageShape.fill.setImage(base64)
-      imageShape.lineFormat.visible = false
-      imageShape.name = 'Image'
+      const imageShape = insertImage(shapes, base64ImageData, position)
       
       imageShape.load('id')
       await context.sync()
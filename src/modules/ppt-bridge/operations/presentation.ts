@@ -1,7 +1,8 @@
 /**
  * PPT Bridge Operations - Presentation
  * 
- * Operations for presentation-level actions (info, navigation).
+ * Operations for presentation-level actions (info, navigation, slide
+ * references).
  * Based on official Office.js PowerPoint API.
  * @see https://learn.microsoft.com/en-us/javascript/api/powerpoint/powerpoint.presentation
  */
@@ -9,9 +10,17 @@
 import type { 
   OperationResult, 
   PresentationInfo, 
-  SlideInfo 
+  SlideInfo,
+  ShapeInfo,
+  ShapeQueryOptions,
+  ParagraphInfo,
+  TextRunFont,
+  TextRunInfo,
+  SlideRef,
+  ResolvedSlide
 } from './types'
-import { isOfficeAvailable } from './utils'
+import { isOfficeAvailable, isPowerPointApiSupported, SLIDE_HEIGHT, TEXT_SHAPE_TYPES } from './utils'
+import { findSlideByRef, slideRefTagKey, type SlideRefCandidate } from './references'
 
 /**
  * Get presentation information
@@ -43,16 +52,15 @@ export async function getPresentationInfo(): Promise<OperationResult<Presentatio
       // Load each slide's properties
       for (const slide of slides.items) {
         slide.load('id')
-        slide.shapes.load('items')
       }
-      await context.sync()
+      const shapes = await readShapes(context, slides.items.map(slide => slide.shapes))
 
       info.slides = slides.items.map((slide, index) => ({
         id: slide.id,
         index,
-        title: '',
+        title: slideTitle(shapes[index]),
         layout: 'content',
-        shapeCount: slide.shapes.items?.length || 0
+        shapeCount: shapes[index].length
       }))
 
       // Try to get selected slide index
@@ -148,21 +156,21 @@ export async function listSlides(
 
       result.total = slides.items.length
       
-      // Load each slide's properties
-      for (const slide of slides.items) {
+      const endIndex = Math.min(offset + limit, slides.items.length)
+      const page = slides.items.slice(offset, endIndex)
+
+      // Load the requested slides' properties
+      for (const slide of page) {
         slide.load('id')
-        slide.shapes.load('items')
       }
-      await context.sync()
+      const shapes = await readShapes(context, page.map(slide => slide.shapes))
 
-      const endIndex = Math.min(offset + limit, slides.items.length)
-      
-      result.slides = slides.items.slice(offset, endIndex).map((slide, i) => ({
+      result.slides = page.map((slide, i) => ({
         id: slide.id,
         index: offset + i,
-        title: '',
+        title: slideTitle(shapes[i]),
         layout: 'content',
-        shapeCount: slide.shapes.items?.length || 0
+        shapeCount: shapes[i].length
       }))
 
       result.hasMore = endIndex < slides.items.length
@@ -226,3 +234,318 @@ export async function getSelectedSlideIndex(): Promise<OperationResult<number>>
     }
   }
 }
+
+// Shape types whose fill and outline can be read
+const FILL_SHAPE_TYPES = ['GeometricShape', 'TextBox', 'Placeholder']
+const LINE_SHAPE_TYPES = [...FILL_SHAPE_TYPES, 'Line']
+
+// Placeholder types that hold the slide title
+const TITLE_PLACEHOLDER_TYPES = ['Title', 'CenterTitle', 'VerticalTitle']
+
+// Characters probed one at a time to split mixed-format paragraphs into runs
+const MAX_RUN_PROBE_CHARACTERS = 2000
+
+const SHAPE_PROPERTIES = ['items/id', 'items/name', 'items/type', 'items/left', 'items/top', 'items/width', 'items/height']
+const FONT_PROPERTIES = ['name', 'size', 'bold', 'italic', 'underline', 'color'] as const
+
+// Shape proxy with the members of a group and its text, once read
+interface LoadedShape {
+  shape: PowerPoint.Shape
+  members: LoadedShape[]
+  paragraphs?: ParagraphInfo[]
+}
+
+/**
+ * Resolve a slide reference (ID, 1-based number, title or tag) to a slide
+ * Reads only what the reference needs: titles for title references, one tag
+ * per slide for tag references, and works for decks of any size.
+ */
+export async function resolveSlideRef(ref: SlideRef): Promise<OperationResult<ResolvedSlide>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+
+  try {
+    const result: ResolvedSlide = { slideId: '', index: 0 }
+
+    await PowerPoint.run(async (context) => {
+      const slides = context.presentation.slides
+      slides.load('items/id')
+      await context.sync()
+
+      const candidates: SlideRefCandidate[] = slides.items.map(slide => ({ id: slide.id }))
+
+      if (ref.type === 'title') {
+        const shapes = await readShapes(context, slides.items.map(slide => slide.shapes))
+        candidates.forEach((candidate, i) => { candidate.title = slideTitle(shapes[i]) })
+      }
+
+      const tagKey = slideRefTagKey(ref, candidates.map(candidate => candidate.id))
+      if (tagKey) {
+        const tags = slides.items.map(slide => slide.tags.getItemOrNullObject(tagKey))
+        tags.forEach(tag => tag.load('value'))
+        await context.sync()
+        candidates.forEach((candidate, i) => {
+          candidate.tags = tags[i].isNullObject ? {} : { [tagKey]: tags[i].value }
+        })
+      }
+
+      result.index = findSlideByRef(ref, candidates)
+      result.slideId = candidates[result.index].id
+    })
+
+    return { success: true, data: result }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
+
+/**
+ * Get the shapes on a slide (position, size and text). With `includeFormatting`
+ * each shape also carries its paragraphs and font runs, fill, outline and tags.
+ * Group members are nested under `shapes` (PowerPointApi 1.8).
+ * @see https://learn.microsoft.com/en-us/javascript/api/powerpoint/powerpoint.shapecollection
+ */
+export async function getSlideShapes(
+  slideId: string,
+  options: ShapeQueryOptions = {}
+): Promise<OperationResult<ShapeInfo[]>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+
+  try {
+    let shapes: ShapeInfo[] = []
+
+    await PowerPoint.run(async (context) => {
+      const collection = context.presentation.slides.getItem(slideId).shapes
+      const [slideShapes] = await readShapes(context, [collection], options)
+      shapes = slideShapes
+    })
+
+    return { success: true, data: shapes }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
+
+/**
+ * Read the shapes of several slides. The number of syncs doesn't depend on
+ * how many slides or shapes there are, only on how deeply groups nest.
+ */
+async function readShapes(
+  context: PowerPoint.RequestContext,
+  collections: PowerPoint.ShapeCollection[],
+  options: ShapeQueryOptions = {}
+): Promise<ShapeInfo[][]> {
+  // Groups and placeholder types need PowerPointApi 1.8
+  const api18 = isPowerPointApiSupported('1.8')
+  const formatting = options.includeFormatting === true
+
+  for (const collection of collections) {
+    collection.load(SHAPE_PROPERTIES)
+  }
+  await context.sync()
+
+  const toLoaded = (shape: PowerPoint.Shape): LoadedShape => ({ shape, members: [] })
+  const slides = collections.map(collection => collection.items.map(toLoaded))
+
+  // Expand groups one nesting level per sync
+  let groups = api18 ? slides.flat().filter(({ shape }) => shape.type === 'Group') : []
+  while (groups.length > 0) {
+    const members = groups.map(({ shape }) => shape.group.shapes.load(SHAPE_PROPERTIES))
+    await context.sync()
+    groups.forEach((group, i) => { group.members = members[i].items.map(toLoaded) })
+    groups = groups.flatMap(group => group.members).filter(({ shape }) => shape.type === 'Group')
+  }
+
+  const all: LoadedShape[] = []
+  const collect = (shapes: LoadedShape[]) => shapes.forEach(loaded => {
+    all.push(loaded)
+    collect(loaded.members)
+  })
+  slides.forEach(collect)
+
+  // Loading text, fill or outline on shapes without them fails the whole batch
+  for (const { shape } of all) {
+    if (TEXT_SHAPE_TYPES.includes(shape.type)) shape.textFrame.textRange.load('text')
+    if (api18 && shape.type === 'Placeholder') shape.placeholderFormat.load('type')
+    if (!formatting) continue
+    shape.tags.load('items/key,items/value')
+    if (FILL_SHAPE_TYPES.includes(shape.type)) shape.fill.load('type,foregroundColor,transparency')
+    if (LINE_SHAPE_TYPES.includes(shape.type)) shape.lineFormat.load('visible,color,weight,dashStyle')
+  }
+  await context.sync()
+
+  if (formatting) {
+    const withText = all.filter(({ shape }) => TEXT_SHAPE_TYPES.includes(shape.type))
+    const paragraphs = await readParagraphs(context, withText.map(({ shape }) => shape.textFrame.textRange))
+    withText.forEach((loaded, i) => { loaded.paragraphs = paragraphs[i] })
+  }
+
+  return slides.map(items => {
+    const shapes = items.map(item => toShapeInfo(item, api18, formatting))
+    const title = findTitleShape(shapes)
+    if (title) title.isTitle = true
+    return shapes
+  })
+}
+
+/**
+ * Read paragraph formatting and font runs of loaded text ranges. Office.js has
+ * no paragraph or run collections, so paragraphs are substrings between breaks
+ * and a paragraph with mixed fonts is probed one character at a time.
+ */
+async function readParagraphs(
+  context: PowerPoint.RequestContext,
+  textRanges: PowerPoint.TextRange[]
+): Promise<ParagraphInfo[][]> {
+  // Indent levels need PowerPointApi 1.10
+  const indentLevels = isPowerPointApiSupported('1.10')
+  const fontPaths = FONT_PROPERTIES.map(property => `font/${property}`)
+  const paragraphPaths = [
+    'paragraphFormat/horizontalAlignment',
+    'paragraphFormat/bulletFormat/visible',
+    ...(indentLevels ? ['paragraphFormat/indentLevel'] : [])
+  ]
+
+  const pending = textRanges.map(textRange => splitParagraphs(textRange.text).map(({ text, start }) => ({
+    text,
+    range: text.length > 0 ? textRange.getSubstring(start, text.length).load([...fontPaths, ...paragraphPaths]) : null
+  })))
+  await context.sync()
+
+  let budget = MAX_RUN_PROBE_CHARACTERS
+  const probes = pending.map(paragraphs => paragraphs.map(({ text, range }) => {
+    if (!range || !FONT_PROPERTIES.some(property => range.font[property] === null) || text.length > budget) {
+      return null
+    }
+    budget -= text.length
+    return Array.from({ length: text.length }, (_, i) => range.getSubstring(i, 1).load(fontPaths))
+  }))
+  if (budget < MAX_RUN_PROBE_CHARACTERS) {
+    await context.sync()
+  }
+
+  return pending.map((paragraphs, i) => paragraphs.map(({ text, range }, j): ParagraphInfo => {
+    if (!range) return { text, runs: [] }
+    const format = range.paragraphFormat
+    const characters = probes[i][j]
+    return {
+      text,
+      horizontalAlignment: format.horizontalAlignment ?? undefined,
+      indentLevel: indentLevels ? format.indentLevel : undefined,
+      bulleted: format.bulletFormat.visible ?? undefined,
+      runs: characters
+        ? mergeRuns(text, characters.map(character => toRunFont(character.font)))
+        : [{ text, font: toRunFont(range.font) }]
+    }
+  }))
+}
+
+/**
+ * Split text into paragraphs with their offsets ('\v' is a line break inside a paragraph)
+ */
+function splitParagraphs(text: string): Array<{ text: string; start: number }> {
+  if (!text) return []
+  const paragraphs: Array<{ text: string; start: number }> = []
+  let start = 0
+  for (const match of text.matchAll(/\r\n|\r|\n/g)) {
+    paragraphs.push({ text: text.slice(start, match.index), start })
+    start = (match.index ?? 0) + match[0].length
+  }
+  paragraphs.push({ text: text.slice(start), start })
+  return paragraphs
+}
+
+/**
+ * Font properties that are uniform across a range (mixed ones are null and left out)
+ */
+function toRunFont(font: PowerPoint.ShapeFont): TextRunFont {
+  const result: Record<string, unknown> = {}
+  for (const property of FONT_PROPERTIES) {
+    if (font[property] !== null && font[property] !== undefined) result[property] = font[property]
+  }
+  return result as TextRunFont
+}
+
+/**
+ * Join consecutive characters with the same font into runs
+ */
+function mergeRuns(text: string, fonts: TextRunFont[]): TextRunInfo[] {
+  const runs: TextRunInfo[] = []
+  fonts.forEach((font, i) => {
+    const last = runs[runs.length - 1]
+    if (last && FONT_PROPERTIES.every(property => last.font[property] === font[property])) {
+      last.text += text[i]
+    } else {
+      runs.push({ text: text[i], font })
+    }
+  })
+  return runs
+}
+
+/**
+ * Convert a loaded shape (and its group members) to a ShapeInfo
+ */
+function toShapeInfo(loaded: LoadedShape, api18: boolean, formatting: boolean): ShapeInfo {
+  const { shape } = loaded
+  const info: ShapeInfo = {
+    id: shape.id,
+    name: shape.name,
+    type: shape.type,
+    left: shape.left,
+    top: shape.top,
+    width: shape.width,
+    height: shape.height
+  }
+
+  if (TEXT_SHAPE_TYPES.includes(shape.type)) info.text = shape.textFrame.textRange.text
+  if (api18 && shape.type === 'Placeholder') info.placeholderType = shape.placeholderFormat.type
+  if (api18 && shape.type === 'Group') info.shapes = loaded.members.map(member => toShapeInfo(member, api18, formatting))
+
+  if (formatting) {
+    if (loaded.paragraphs) info.paragraphs = loaded.paragraphs
+    if (FILL_SHAPE_TYPES.includes(shape.type)) {
+      const { type, foregroundColor, transparency } = shape.fill
+      info.fill = type === 'Solid' ? { type, foregroundColor, transparency } : { type }
+    }
+    if (LINE_SHAPE_TYPES.includes(shape.type)) {
+      const { visible, color, weight, dashStyle } = shape.lineFormat
+      info.line = visible ? { visible, color, weight, dashStyle } : { visible: false }
+    }
+    info.tags = Object.fromEntries(shape.tags.items.map(tag => [tag.key, tag.value]))
+  }
+
+  return info
+}
+
+/**
+ * Find the shape holding a slide's title: a title placeholder, else a shape
+ * named "Title" (as ppt-kit and PowerPoint name title boxes), else the
+ * topmost text in the upper half of the slide
+ */
+function findTitleShape(shapes: ShapeInfo[]): ShapeInfo | undefined {
+  const placeholder = shapes.find(shape => TITLE_PLACEHOLDER_TYPES.includes(shape.placeholderType || ''))
+  if (placeholder) return placeholder
+
+  const named = shapes.find(shape => shape.text !== undefined && /^title\b/i.test(shape.name))
+  if (named) return named
+
+  return shapes
+    .filter(shape => shape.text?.trim() && shape.top < SLIDE_HEIGHT / 2)
+    .sort((a, b) => a.top - b.top || a.left - b.left)[0]
+}
+
+/**
+ * Title of a slide on a single line ('' when it has none)
+ */
+function slideTitle(shapes: ShapeInfo[]): string {
+  return shapes.find(shape => shape.isTitle)?.text?.replace(/\s+/g, ' ').trim() || ''
+}
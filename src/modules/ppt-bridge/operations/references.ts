@@ -0,0 +1,105 @@
+/**
+ * PPT Bridge Operations - Slide References
+ *
+ * Matches the slide references accepted by every tool (Office slide ID,
+ * 1-based slide number, title or tag) against a deck. Pure functions, so the
+ * in-memory backend resolves references exactly like the Office.js one.
+ */
+
+import type { SlideRef } from './types'
+
+// Tag ppt-kit stamps on generated slides (value: the Markdown parser's slide ID)
+export const PPTKIT_ID_TAG = 'PPTKIT_ID'
+
+// Slide as seen by reference matching; only the fields the reference needs are required
+export interface SlideRefCandidate {
+  id: string
+  title?: string
+  // Tag values by upper-case key
+  tags?: Record<string, string>
+}
+
+/**
+ * Describe a slide reference for error messages
+ */
+export function describeSlideRef(ref: SlideRef): string {
+  switch (ref.type) {
+    case 'id':
+      return ref.id
+    case 'number':
+      return `slide number ${ref.number}`
+    case 'title':
+      return `title "${ref.title}"`
+    case 'tag':
+      return `tag ${ref.key.toUpperCase()}=${ref.value}`
+  }
+}
+
+/**
+ * Tag key a reference needs to be read from each slide, if any
+ * @param slideIds - IDs of the slides in the deck (ID references only need tags when none matches)
+ */
+export function slideRefTagKey(ref: SlideRef, slideIds: string[]): string | null {
+  if (ref.type === 'tag') return ref.key.toUpperCase()
+  if (ref.type === 'id' && !slideIds.includes(ref.id)) return PPTKIT_ID_TAG
+  return null
+}
+
+/**
+ * Normalize a title for matching
+ */
+function normalizeTitle(title: string): string {
+  return title.replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/**
+ * Indexes of the slides a reference matches (before ambiguity checks)
+ */
+function matchSlides(ref: SlideRef, slides: SlideRefCandidate[]): number[] {
+  const indexesWhere = (predicate: (slide: SlideRefCandidate) => boolean) =>
+    slides.flatMap((slide, index) => predicate(slide) ? [index] : [])
+
+  switch (ref.type) {
+    case 'id': {
+      const byId = indexesWhere(slide => slide.id === ref.id)
+      return byId.length > 0 ? byId : indexesWhere(slide => slide.tags?.[PPTKIT_ID_TAG] === ref.id)
+    }
+    case 'number':
+      return Number.isInteger(ref.number) && ref.number >= 1 && ref.number <= slides.length ? [ref.number - 1] : []
+    case 'title': {
+      const wanted = normalizeTitle(ref.title)
+      if (!wanted) return []
+      const exact = indexesWhere(slide => normalizeTitle(slide.title || '') === wanted)
+      return exact.length > 0 ? exact : indexesWhere(slide => normalizeTitle(slide.title || '').includes(wanted))
+    }
+    case 'tag': {
+      const key = ref.key.toUpperCase()
+      return indexesWhere(slide => slide.tags?.[key] === ref.value)
+    }
+  }
+}
+
+/**
+ * Find the 0-based index of the slide a reference points to
+ * Throws a "not found" error when nothing matches and an "ambiguous" error
+ * (listing the candidates) when several slides match.
+ */
+export function findSlideByRef(ref: SlideRef, slides: SlideRefCandidate[]): number {
+  const matches = matchSlides(ref, slides)
+
+  if (matches.length === 0) {
+    const hint = ref.type === 'number' ? ` (the presentation has ${slides.length} slides)` : ''
+    throw new Error(`Slide not found: ${describeSlideRef(ref)}${hint}`)
+  }
+  if (matches.length > 1) {
+    const candidates = matches
+      .slice(0, 5)
+      .map(index => `${index + 1} (ID ${slides[index].id})`)
+      .join(', ')
+    const more = matches.length > 5 ? ` and ${matches.length - 5} more` : ''
+    throw new Error(
+      `Ambiguous slide reference ${describeSlideRef(ref)}: matches slides ${candidates}${more}. Use a slide ID or number instead.`
+    )
+  }
+  return matches[0]
+}
@@ -1,7 +1,8 @@
 /**
  * PPT Bridge Operations - Slides
  * 
- * Operations for slide management (create, delete).
+ * Operations for slide management (create, move, duplicate, delete, export,
+ * insert from file).
  * Based on official Office.js PowerPoint API.
  * @see https://learn.microsoft.com/en-us/office/dev/add-ins/powerpoint/add-slides
  */
@@ -10,19 +11,60 @@ import type {
   OperationResult, 
   LayoutType
 } from './types'
-import { isOfficeAvailable, getTitleRect } from './utils'
+import { isOfficeAvailable, isPowerPointApiSupported, getTitleRect } from './utils'
+
+/**
+ * Add a styled title text box to a slide's shapes (caller syncs)
+ */
+export function insertSlideTitle(
+  shapes: PowerPoint.ShapeCollection,
+  title: string,
+  layout: LayoutType
+): PowerPoint.Shape {
+  const titleRect = getTitleRect(layout)
+
+  // Use official addTextBox API
+  const titleShape = shapes.addTextBox(title, {
+    left: titleRect.left,
+    top: titleRect.top,
+    width: titleRect.width,
+    height: titleRect.height
+  })
+
+  // Style the title using official TextFrame API
+  titleShape.textFrame.textRange.font.size = layout === 'title' ? 44 : 32
+  titleShape.textFrame.textRange.font.bold = true
+  titleShape.textFrame.verticalAlignment = PowerPoint.TextVerticalAlignment.middleCentered
+  titleShape.name = 'Title'
+
+  return titleShape
+}
+
+/**
+ * Throw unless a 0-based slide index is within [0, max]
+ */
+function checkSlideIndex(index: number, max: number): void {
+  if (!Number.isInteger(index) || index < 0 || index > max) {
+    throw new Error(`Slide index ${index} out of range (0-${max})`)
+  }
+}
 
 /**
  * Create a new slide
+ * @param index - 0-based position of the new slide; appends when omitted (moving it needs PowerPointApi 1.8)
  * @see https://learn.microsoft.com/en-us/javascript/api/powerpoint/powerpoint.slidecollection#powerpoint-powerpoint-slidecollection-add-member(1)
  */
 export async function createSlide(
   title: string,
-  layout: LayoutType = 'content'
+  layout: LayoutType = 'content',
+  index?: number
 ): Promise<OperationResult<{ slideId: string; index: number }>> {
   if (!isOfficeAvailable()) {
     return { success: false, error: 'PowerPoint is not available' }
   }
+  if (index !== undefined && !isPowerPointApiSupported('1.8')) {
+    return { success: false, error: 'Inserting a slide at a position requires PowerPointApi 1.8' }
+  }
 
   try {
     const result = { slideId: '', index: 0 }
@@ -30,6 +72,12 @@ export async function createSlide(
     await PowerPoint.run(async (context) => {
       const presentation = context.presentation
       const slides = presentation.slides
+
+      if (index !== undefined) {
+        slides.load('items')
+        await context.sync()
+        checkSlideIndex(index, slides.items.length)
+      }
       
       // Add new slide using official API
       // SlideCollection.add() adds to the end of presentation
@@ -47,26 +95,17 @@ export async function createSlide(
       result.slideId = newSlide.id
       result.index = newSlideIndex
 
+      // Move it into place using official Slide.moveTo() API (PowerPointApi 1.8)
+      if (index !== undefined && index < newSlideIndex) {
+        newSlide.moveTo(index)
+        result.index = index
+      }
+
       // Add title text box if provided
       if (title) {
-        const titleRect = getTitleRect(layout)
-        const shapes = newSlide.shapes
-        
-        // Use official addTextBox API
-        const titleShape = shapes.addTextBox(title, {
-          left: titleRect.left,
-          top: titleRect.top,
-          width: titleRect.width,
-          height: titleRect.height
-        })
-        
-        // Style the title using official TextFrame API
-        titleShape.textFrame.textRange.font.size = layout === 'title' ? 44 : 32
-        titleShape.textFrame.textRange.font.bold = true
-        titleShape.textFrame.verticalAlignment = PowerPoint.TextVerticalAlignment.middleCentered
-        
-        await context.sync()
+        insertSlideTitle(newSlide.shapes, title, layout)
       }
+      await context.sync()
     })
 
     return { success: true, data: result }
@@ -205,6 +244,155 @@ export async function deleteSlideById(slideId: string): Promise<OperationResult<
   }
 }
 
+/**
+ * Delete a range of slides by index
+ * @param startIndex - 0-based index of the first slide to delete
+ * @param count - Number of slides to delete
+ */
+export async function deleteSlideRange(
+  startIndex: number,
+  count: number
+): Promise<OperationResult<{ slideIds: string[] }>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+
+  try {
+    let slideIds: string[] = []
+
+    await PowerPoint.run(async (context) => {
+      const slides = context.presentation.slides
+      slides.load('items/id')
+      await context.sync()
+
+      const total = slides.items.length
+      if (count < 1 || startIndex < 0 || startIndex + count > total) {
+        throw new Error(`Slide range ${startIndex}-${startIndex + count - 1} out of range (0-${total - 1})`)
+      }
+      if (count === total) {
+        throw new Error('Cannot delete every slide')
+      }
+
+      const range = slides.items.slice(startIndex, startIndex + count)
+      slideIds = range.map(slide => slide.id)
+      range.forEach(slide => slide.delete())
+      await context.sync()
+    })
+
+    return { success: true, data: { slideIds } }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
+
+/**
+ * Move a slide to a new position
+ * @param index - 0-based position of the slide after the move
+ * @see https://learn.microsoft.com/en-us/javascript/api/powerpoint/powerpoint.slide#powerpoint-powerpoint-slide-moveto-member(1)
+ */
+export async function moveSlide(
+  slideId: string,
+  index: number
+): Promise<OperationResult<{ fromIndex: number; index: number }>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+  if (!isPowerPointApiSupported('1.8')) {
+    return { success: false, error: 'Moving slides requires PowerPointApi 1.8' }
+  }
+
+  try {
+    let fromIndex = 0
+
+    await PowerPoint.run(async (context) => {
+      const slides = context.presentation.slides
+      slides.load('items/id')
+      await context.sync()
+
+      fromIndex = slides.items.findIndex(slide => slide.id === slideId)
+      if (fromIndex < 0) {
+        throw new Error(`Slide not found: ${slideId}`)
+      }
+      checkSlideIndex(index, slides.items.length - 1)
+
+      // Use official Slide.moveTo() API (PowerPointApi 1.8)
+      slides.items[fromIndex].moveTo(index)
+      await context.sync()
+    })
+
+    return { success: true, data: { fromIndex, index } }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
+
+/**
+ * Duplicate a slide with all of its shapes
+ * Exports the slide and inserts the copy from the exported file (PowerPointApi 1.8).
+ * @param index - 0-based position of the copy; defaults to right after the original
+ */
+export async function duplicateSlide(
+  slideId: string,
+  index?: number
+): Promise<OperationResult<{ slideId: string; index: number }>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+  if (!isPowerPointApiSupported('1.8')) {
+    return { success: false, error: 'Duplicating slides requires PowerPointApi 1.8' }
+  }
+
+  try {
+    const result = { slideId: '', index: 0 }
+
+    await PowerPoint.run(async (context) => {
+      const slides = context.presentation.slides
+      slides.load('items/id')
+      await context.sync()
+
+      const sourceIndex = slides.items.findIndex(slide => slide.id === slideId)
+      if (sourceIndex < 0) {
+        throw new Error(`Slide not found: ${slideId}`)
+      }
+      const targetIndex = index ?? sourceIndex + 1
+      checkSlideIndex(targetIndex, slides.items.length)
+
+      const exported = slides.items[sourceIndex].exportAsBase64()
+      await context.sync()
+
+      // The copy goes right after the slide currently at targetIndex - 1
+      const existingIds = new Set(slides.items.map(slide => slide.id))
+      context.presentation.insertSlidesFromBase64(exported.value, {
+        formatting: PowerPoint.InsertSlideFormatting.keepSourceFormatting,
+        targetSlideId: targetIndex > 0 ? slides.items[targetIndex - 1].id : undefined
+      })
+      await context.sync()
+
+      slides.load('items/id')
+      await context.sync()
+      const copyIndex = slides.items.findIndex(slide => !existingIds.has(slide.id))
+      if (copyIndex < 0) {
+        throw new Error('The slide copy was not inserted')
+      }
+      result.slideId = slides.items[copyIndex].id
+      result.index = copyIndex
+    })
+
+    return { success: true, data: result }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
+
 /**
  * Get slide count
  */
@@ -231,3 +419,123 @@ export async function getSlideCount(): Promise<OperationResult<number>> {
     }
   }
 }
+
+/**
+ * Delete several slides by ID
+ * Slides that no longer exist are skipped.
+ */
+export async function deleteSlidesById(slideIds: string[]): Promise<OperationResult<{ deletedCount: number }>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+
+  try {
+    let deletedCount = 0
+
+    await PowerPoint.run(async (context) => {
+      const slides = slideIds.map(id => context.presentation.slides.getItemOrNullObject(id))
+      await context.sync()
+
+      for (const slide of slides) {
+        if (!slide.isNullObject) {
+          slide.delete()
+          deletedCount++
+        }
+      }
+      await context.sync()
+    })
+
+    return { success: true, data: { deletedCount } }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
+
+/**
+ * Export a single slide as a base64 .pptx file
+ * Also returns the ID of the slide before it, so it can be re-inserted in place.
+ * @see https://learn.microsoft.com/en-us/javascript/api/powerpoint/powerpoint.slide#powerpoint-powerpoint-slide-exportasbase64-member(1)
+ */
+export async function exportSlideById(
+  slideId: string
+): Promise<OperationResult<{ base64: string; previousSlideId: string | null }>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+
+  try {
+    const result = { base64: '', previousSlideId: null as string | null }
+
+    await PowerPoint.run(async (context) => {
+      const slides = context.presentation.slides
+      slides.load('items/id')
+      await context.sync()
+
+      const index = slides.items.findIndex(slide => slide.id === slideId)
+      if (index < 0) {
+        throw new Error(`Slide not found: ${slideId}`)
+      }
+
+      // Use official Slide.exportAsBase64() API (PowerPointApi 1.8)
+      const exported = slides.items[index].exportAsBase64()
+      await context.sync()
+
+      result.base64 = exported.value
+      result.previousSlideId = index > 0 ? slides.items[index - 1].id : null
+    })
+
+    return { success: true, data: result }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
+
+/**
+ * Insert slides from a base64 .pptx file
+ * @param afterSlideId - Insert after this slide; null inserts at the beginning
+ * @see https://learn.microsoft.com/en-us/javascript/api/powerpoint/powerpoint.presentation#powerpoint-powerpoint-presentation-insertslidesfrombase64-member(1)
+ */
+export async function insertSlidesFromBase64(
+  base64: string,
+  afterSlideId: string | null
+): Promise<OperationResult<{ slideIds: string[] }>> {
+  if (!isOfficeAvailable()) {
+    return { success: false, error: 'PowerPoint is not available' }
+  }
+
+  try {
+    let slideIds: string[] = []
+
+    await PowerPoint.run(async (context) => {
+      const slides = context.presentation.slides
+      slides.load('items/id')
+      await context.sync()
+      const existingIds = new Set(slides.items.map(slide => slide.id))
+
+      // Fall back to the beginning if the anchor slide was removed meanwhile
+      const targetSlideId = afterSlideId && existingIds.has(afterSlideId) ? afterSlideId : undefined
+      context.presentation.insertSlidesFromBase64(base64, {
+        formatting: PowerPoint.InsertSlideFormatting.keepSourceFormatting,
+        targetSlideId
+      })
+      await context.sync()
+
+      slides.load('items/id')
+      await context.sync()
+      slideIds = slides.items.map(slide => slide.id).filter(id => !existingIds.has(id))
+    })
+
+    return { success: true, data: { slideIds } }
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }
+  }
+}
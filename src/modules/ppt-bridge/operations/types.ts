@@ -25,6 +25,92 @@ export interface PresentationInfo {
   slides: SlideInfo[]
 }
 
+// Font of a text run (properties the host can't report are omitted)
+export interface TextRunFont {
+  name?: string
+  size?: number
+  bold?: boolean
+  italic?: boolean
+  underline?: string
+  color?: string
+}
+
+// Run of text sharing one font
+export interface TextRunInfo {
+  text: string
+  font: TextRunFont
+}
+
+// Paragraph of a shape's text
+export interface ParagraphInfo {
+  text: string
+  horizontalAlignment?: string
+  indentLevel?: number
+  bulleted?: boolean
+  runs: TextRunInfo[]
+}
+
+// Shape fill
+export interface ShapeFillInfo {
+  type: string
+  foregroundColor?: string
+  transparency?: number
+}
+
+// Shape outline
+export interface ShapeLineInfo {
+  visible: boolean
+  color?: string
+  weight?: number
+  dashStyle?: string
+}
+
+// Shape info type
+export interface ShapeInfo {
+  id: string
+  name: string
+  type: string
+  left: number
+  top: number
+  width: number
+  height: number
+  text?: string
+  // Whether this shape holds the slide title
+  isTitle?: boolean
+  placeholderType?: string
+  // Formatting, only read with `includeFormatting`
+  paragraphs?: ParagraphInfo[]
+  fill?: ShapeFillInfo
+  line?: ShapeLineInfo
+  tags?: Record<string, string>
+  // Members of a group shape
+  shapes?: ShapeInfo[]
+}
+
+// Options for reading shapes
+export interface ShapeQueryOptions {
+  // Also read paragraphs, runs, fill, outline and tags
+  includeFormatting?: boolean
+}
+
+// Reference to a slide
+// - id: Office slide ID; falls back to the PPTKIT_ID tag (set on generated slides)
+// - number: 1-based position, as shown in PowerPoint
+// - title: slide title, case-insensitive; exact matches win over partial ones
+// - tag: slide tag value (tag keys are case-insensitive)
+export type SlideRef =
+  | { type: 'id'; id: string }
+  | { type: 'number'; number: number }
+  | { type: 'title'; title: string }
+  | { type: 'tag'; key: string; value: string }
+
+// Slide a reference resolved to
+export interface ResolvedSlide {
+  slideId: string
+  // 0-based position
+  index: number
+}
+
 // Operation result type
 export interface OperationResult<T = unknown> {
   success: boolean
@@ -133,3 +219,83 @@ export type TextVerticalAlignment =
   | 'topCentered'
   | 'middleCentered'
   | 'bottomCentered'
+
+// Official PowerPoint ShapeZOrder enum values
+export type ShapeZOrder =
+  | 'bringToFront'
+  | 'bringForward'
+  | 'sendBackward'
+  | 'sendToBack'
+
+// Official PowerPoint ParagraphHorizontalAlignment enum values (common subset)
+export type HorizontalAlignment =
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'justify'
+
+// Changes to an existing shape; omitted fields are left as they are
+export interface ShapeUpdate {
+  text?: string
+  name?: string
+  left?: number
+  top?: number
+  width?: number
+  height?: number
+  // Solid fill color, or null to remove the fill
+  fillColor?: string | null
+  font?: TextRunFont
+  horizontalAlignment?: HorizontalAlignment
+  verticalAlignment?: TextVerticalAlignment
+}
+
+// Batch step; `slideId` may reference a slide created earlier in the batch as `$<step index>`
+export type BatchStep =
+  | { op: 'createSlide'; title: string; layout?: LayoutType }
+  | { op: 'addText'; slideId: string; content: string; position?: Position }
+  | { op: 'addCode'; slideId: string; code: string; language: string; position?: Position }
+  | { op: 'addMermaid'; slideId: string; mermaidCode: string; position?: Position }
+  | { op: 'addImage'; slideId: string; imageData: string; position?: Position }
+
+// Batch step outcome
+export type BatchStepStatus = 'ok' | 'failed' | 'skipped' | 'rolled_back'
+
+export interface BatchStepResult {
+  index: number
+  op: BatchStep['op']
+  status: BatchStepStatus
+  slideId?: string
+  shapeIds?: string[]
+  error?: string
+}
+
+// Batch result
+export interface BatchResult {
+  success: boolean
+  steps: BatchStepResult[]
+  rolledBack: boolean
+  error?: string
+  rollbackError?: string
+}
+
+// Progress reported after each generated slide
+export interface GenerationProgress {
+  // Number of slides generated so far
+  current: number
+  total: number
+  slideId: string
+  title: string
+}
+
+// Options for runBatch
+export interface BatchOptions {
+  // Remaining steps are skipped and earlier ones rolled back once aborted
+  signal?: AbortSignal
+}
+
+// Options for long-running slide generation
+export interface GenerateSlidesOptions {
+  onProgress?: (progress: GenerationProgress) => void
+  // Generation stops before the next slide once aborted
+  signal?: AbortSignal
+}
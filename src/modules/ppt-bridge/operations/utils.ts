@@ -12,6 +12,9 @@ import type { LayoutType } from './types'
 export const SLIDE_WIDTH = 960   // 13.33 inches
 export const SLIDE_HEIGHT = 540  // 7.5 inches
 
+// Shape types that expose a text frame
+export const TEXT_SHAPE_TYPES = ['GeometricShape', 'TextBox', 'Placeholder']
+
 // Check if Office.js PowerPoint API is available
 export function isOfficeAvailable(): boolean {
   return typeof PowerPoint !== 'undefined'
@@ -22,6 +25,20 @@ export function isOfficeEnvironment(): boolean {
   return typeof Office !== 'undefined'
 }
 
+// Check if the host supports a PowerPointApi requirement set, e.g. '1.8'
+export function isPowerPointApiSupported(version: string): boolean {
+  return isOfficeEnvironment() && Office.context?.requirements?.isSetSupported('PowerPointApi', version) === true
+}
+
+// PowerPointApi versions released so far, oldest first
+const POWERPOINT_API_VERSIONS = ['1.1', '1.2', '1.3', '1.4', '1.5', '1.6', '1.7', '1.8', '1.9', '1.10']
+
+// Highest PowerPointApi requirement set the host supports, or null outside PowerPoint
+export function getPowerPointApiVersion(): string | null {
+  const supported = POWERPOINT_API_VERSIONS.filter(isPowerPointApiSupported)
+  return supported.length > 0 ? supported[supported.length - 1] : null
+}
+
 /**
  * Get title rectangle based on layout type
  */
@@ -63,3 +80,10 @@ export function toShapeAddOptions(position: { x: number; y: number; width: numbe
     height: position.height
   }
 }
+
+/**
+ * Convert a camelCase option to its Office.js enum value ('middleCentered' → 'MiddleCentered')
+ */
+export function toOfficeEnumValue(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
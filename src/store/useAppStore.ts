@@ -78,7 +78,7 @@ export const useAppStore = create<AppStore>()(
       partialize: (state) => ({
         settings: state.settings,
         mcpServer: state.mcpServer,
-        mcpClients: state.mcpClients,
+        mcpClients: state.mcpClients.map(({ status, error, toolCount, ...endpoint }) => endpoint),
       }),
     }
   )
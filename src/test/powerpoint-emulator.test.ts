@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { installPowerPointEmulator } from './powerpoint-emulator'
+
+// ShapeCollection.addImage is missing from the published Office.js typings
+type ShapesWithAddImage = PowerPoint.ShapeCollection & { addImage(base64File: string): PowerPoint.Shape }
+
+describe('PowerPoint emulator', () => {
+  it('requires load + sync before reading properties', async () => {
+    installPowerPointEmulator({ slideCount: 1 })
+
+    await PowerPoint.run(async (context) => {
+      const slides = context.presentation.slides
+      expect(() => slides.items).toThrow(/'items' is not available/)
+
+      slides.load('items')
+      expect(() => slides.items).toThrow(/'items' is not available/)
+
+      await context.sync()
+      expect(slides.items).toHaveLength(1)
+
+      const shape = slides.items[0].shapes.addTextBox('Hi')
+      expect(() => shape.id).toThrow(/'id' is not available/)
+      shape.load('id')
+      await context.sync()
+      expect(shape.id).toBe('2')
+    })
+  })
+
+  it('surfaces errors on the next sync', async () => {
+    installPowerPointEmulator()
+
+    await expect(PowerPoint.run(async (context) => {
+      const slide = context.presentation.slides.getItemAt(3)
+      slide.shapes.addTextBox('Lost')
+      await Promise.resolve()
+    })).rejects.toMatchObject({ code: 'ItemNotFound' })
+  })
+
+  it('reports null objects after a sync', async () => {
+    installPowerPointEmulator()
+
+    await PowerPoint.run(async (context) => {
+      const slide = context.presentation.slides.getItemOrNullObject('999#')
+      slide.load('id')
+      expect(() => slide.isNullObject).toThrow()
+      await context.sync()
+      expect(slide.isNullObject).toBe(true)
+    })
+  })
+
+  it('fails to load text from shapes without a text frame', async () => {
+    installPowerPointEmulator({ slideCount: 1 })
+
+    await expect(PowerPoint.run(async (context) => {
+      const shapes = context.presentation.slides.getItemAt(0).shapes
+      const image = (shapes as ShapesWithAddImage).addImage('AAAA')
+      image.textFrame.textRange.load('text')
+      await context.sync()
+    })).rejects.toMatchObject({ code: 'InvalidArgument' })
+  })
+
+  it('formats substrings and reports mixed formatting as null', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 1 })
+
+    await PowerPoint.run(async (context) => {
+      const textRange = context.presentation.slides.getItemAt(0).shapes.addTextBox('Hello world').textFrame.textRange
+      textRange.getSubstring(6).font.bold = true
+      const whole = textRange.load('font/bold')
+      const word = textRange.getSubstring(6, 5).load(['text', 'start', 'font/bold'])
+      await context.sync()
+
+      expect(whole.font.bold).toBeNull()
+      expect(word).toMatchObject({ text: 'world', start: 6 })
+      expect(word.font.bold).toBe(true)
+
+      textRange.getSubstring(4, 20)
+      await expect(context.sync()).rejects.toMatchObject({ code: 'InvalidArgument' })
+    })
+
+    const [shape] = emulator.getSlide(0).shapes
+    expect(shape.textStyles).toEqual([{ start: 6, length: 5, font: { bold: true } }])
+  })
+
+  it('tracks selection and tags', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 3 })
+    emulator.select([emulator.getSlide(1).id])
+
+    await PowerPoint.run(async (context) => {
+      const selected = context.presentation.getSelectedSlides()
+      selected.load('items/id')
+      await context.sync()
+      expect(selected.items.map(slide => slide.id)).toEqual([emulator.getSlide(1).id])
+
+      selected.items[0].tags.add('ppt-kit-id', 'agenda')
+      await context.sync()
+    })
+
+    expect(emulator.getSlide(1).tags.get('PPT-KIT-ID')).toBe('agenda')
+  })
+
+  it('round-trips slides through exportAsBase64 / insertSlidesFromBase64', async () => {
+    const emulator = installPowerPointEmulator({ slideCount: 2 })
+
+    await PowerPoint.run(async (context) => {
+      const slides = context.presentation.slides
+      slides.getItemAt(0).shapes.addTextBox('Original')
+      const exported = slides.getItemAt(0).exportAsBase64()
+      await context.sync()
+
+      context.presentation.insertSlidesFromBase64(exported.value, { targetSlideId: emulator.getSlide(1).id })
+      await context.sync()
+    })
+
+    expect(emulator.document.slides).toHaveLength(3)
+    expect(emulator.getSlide(2).id).not.toBe(emulator.getSlide(0).id)
+    expect(emulator.getSlide(2).shapes.map(shape => shape.text)).toEqual(['Original'])
+  })
+})
@@ -0,0 +1,1602 @@
+/**
+ * PowerPoint JavaScript API Emulator
+ *
+ * In-memory fake of the Office.js PowerPoint API subset used by the
+ * ppt-bridge operations, so they can be unit-tested without an Office host.
+ * @see https://learn.microsoft.com/en-us/javascript/api/powerpoint
+ *
+ * Follows the Office.js proxy-object model:
+ * - Methods and property writes apply to the in-memory document immediately,
+ *   but their errors (missing items, unsupported APIs, invalid arguments)
+ *   only surface on the next `context.sync()`, failing the whole sync
+ * - Properties must be requested with `load()` and synced before they can be
+ *   read; reading them earlier throws `PropertyNotLoaded`
+ * - Collections expose `items` only after `load('items')` + `sync()`, and
+ *   `isNullObject` is only known after a sync
+ *
+ * Install it as the `PowerPoint` and `Office` globals with
+ * `installPowerPointEmulator()`, then inspect `emulator.document`.
+ */
+
+// Document model
+
+export interface FontData {
+  name: string
+  size: number
+  bold: boolean
+  italic: boolean
+  color: string
+  underline: string
+}
+
+export interface ParagraphFormatData {
+  horizontalAlignment: string
+  indentLevel: number
+  bulletVisible: boolean
+}
+
+/** Formatting of part of a shape's text, applied over the shape's own formatting */
+export interface TextStyleData {
+  start: number
+  length: number
+  font?: Partial<FontData>
+  paragraphFormat?: Partial<ParagraphFormatData>
+}
+
+export interface FillData {
+  type: string
+  foregroundColor: string
+  transparency: number
+  image?: string
+}
+
+export interface LineFormatData {
+  visible: boolean
+  color: string
+  weight: number
+  dashStyle: string
+}
+
+export interface TableData {
+  rowCount: number
+  columnCount: number
+  values: string[][]
+}
+
+export interface ShapeData {
+  id: string
+  name: string
+  type: string
+  geometricShapeType?: string
+  connectorType?: string
+  left: number
+  top: number
+  width: number
+  height: number
+  text: string
+  font: FontData
+  paragraphFormat: ParagraphFormatData
+  textStyles: TextStyleData[]
+  verticalAlignment: string
+  wordWrap: boolean
+  fill: FillData
+  lineFormat: LineFormatData
+  image?: string
+  table?: TableData
+  placeholderType?: string
+  /** Members of a group shape */
+  shapes?: ShapeData[]
+  tags: Map<string, string>
+}
+
+export interface SlideData {
+  id: string
+  layoutId: string
+  slideMasterId: string
+  shapes: ShapeData[]
+  tags: Map<string, string>
+  nextShapeId: number
+}
+
+export interface PresentationData {
+  title: string
+  slides: SlideData[]
+  selectedSlideIds: string[]
+  selectedShapeIds: string[]
+  tags: Map<string, string>
+}
+
+export interface PowerPointEmulatorOptions {
+  /** Number of blank slides the document starts with (default 0) */
+  slideCount?: number
+  /** Highest supported `PowerPointApi` requirement set (default '1.8') */
+  apiVersion?: string
+  /**
+   * Whether `ShapeCollection.addImage` exists (default true). Set to false
+   * to exercise the `fill.setImage` fallback used on older hosts.
+   */
+  supportsAddImage?: boolean
+}
+
+// Enums (string values match Office.js)
+
+const ShapeType = {
+  unsupported: 'Unsupported',
+  image: 'Image',
+  geometricShape: 'GeometricShape',
+  group: 'Group',
+  line: 'Line',
+  table: 'Table',
+  placeholder: 'Placeholder',
+  textBox: 'TextBox'
+} as const
+
+const GeometricShapeType = {
+  rectangle: 'Rectangle',
+  roundRectangle: 'RoundRectangle',
+  ellipse: 'Ellipse',
+  triangle: 'Triangle',
+  rightTriangle: 'RightTriangle',
+  diamond: 'Diamond',
+  parallelogram: 'Parallelogram',
+  trapezoid: 'Trapezoid',
+  pentagon: 'Pentagon',
+  hexagon: 'Hexagon',
+  octagon: 'Octagon',
+  star5: 'Star5',
+  heart: 'Heart',
+  cloud: 'Cloud',
+  rightArrow: 'RightArrow',
+  leftArrow: 'LeftArrow',
+  chevron: 'Chevron'
+} as const
+
+const ConnectorType = {
+  straight: 'Straight',
+  elbow: 'Elbow',
+  curve: 'Curve'
+} as const
+
+const TextVerticalAlignment = {
+  top: 'Top',
+  middle: 'Middle',
+  bottom: 'Bottom',
+  topCentered: 'TopCentered',
+  middleCentered: 'MiddleCentered',
+  bottomCentered: 'BottomCentered'
+} as const
+
+const InsertSlideFormatting = {
+  keepSourceFormatting: 'KeepSourceFormatting',
+  useDestinationTheme: 'UseDestinationTheme'
+} as const
+
+const ShapeFillType = {
+  noFill: 'NoFill',
+  solid: 'Solid',
+  pictureAndTexture: 'PictureAndTexture'
+} as const
+
+const ParagraphHorizontalAlignment = {
+  left: 'Left',
+  center: 'Center',
+  right: 'Right',
+  justify: 'Justify'
+} as const
+
+const PlaceholderType = {
+  title: 'Title',
+  body: 'Body',
+  centerTitle: 'CenterTitle',
+  subtitle: 'Subtitle',
+  verticalTitle: 'VerticalTitle',
+  content: 'Content'
+} as const
+
+const ShapeZOrder = {
+  bringForward: 'BringForward',
+  bringToFront: 'BringToFront',
+  sendBackward: 'SendBackward',
+  sendToBack: 'SendToBack'
+} as const
+
+/** Shape types that own a text frame */
+const TEXT_SHAPE_TYPES: string[] = [ShapeType.textBox, ShapeType.geometricShape, ShapeType.placeholder]
+
+const DEFAULT_LAYOUT_ID = 'layout-1'
+const DEFAULT_SLIDE_MASTER_ID = 'master-1'
+const EXPORT_FORMAT = 'ppt-kit-emulator'
+
+/**
+ * Error raised by the emulated API, shaped like `OfficeExtension.Error`
+ */
+export class EmulatorError extends Error {
+  readonly code: string
+
+  constructor(code: string, message: string) {
+    super(message)
+    this.name = 'RichApi.Error'
+    this.code = code
+  }
+}
+
+function propertyNotLoaded(property: string): EmulatorError {
+  return new EmulatorError(
+    'PropertyNotLoaded',
+    `The property '${property}' is not available. Before reading the property's value, call the load method on the containing object and call "context.sync()" on the associated request context.`
+  )
+}
+
+function itemNotFound(): EmulatorError {
+  return new EmulatorError('ItemNotFound', 'The requested resource doesn\'t exist.')
+}
+
+function invalidArgument(message: string): EmulatorError {
+  return new EmulatorError('InvalidArgument', message)
+}
+
+/**
+ * Normalize an enum argument ('rectangle' or 'Rectangle') to its Office.js value
+ */
+function toEnumValue(value: string | undefined, fallback: string): string {
+  if (!value) return fallback
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number)
+  const right = b.split('.').map(Number)
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+function parseLoadOption(option?: string | string[] | { select?: string | string[] }): string[] {
+  if (!option) return []
+  const select = typeof option === 'object' && !Array.isArray(option) ? option.select : option
+  if (!select) return []
+  const paths = Array.isArray(select) ? select : select.split(',')
+  return paths.map(path => path.trim()).filter(Boolean)
+}
+
+/**
+ * Group load paths by their first segment: ['items/id', 'items/name'] → items: ['id', 'name'].
+ * An empty list of sub-paths means "load all scalar properties".
+ */
+function groupLoadPaths(paths: string[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>()
+  for (const path of paths) {
+    const [head, ...rest] = path.split('/')
+    const group = groups.get(head) || []
+    if (rest.length > 0) group.push(rest.join('/'))
+    groups.set(head, group)
+  }
+  return groups
+}
+
+// Request context
+
+class ClientResult<T> {
+  private settled = false
+  private result: T | undefined
+
+  constructor(private readonly compute: () => T) {}
+
+  get value(): T {
+    if (!this.settled) throw propertyNotLoaded('value')
+    return this.result as T
+  }
+
+  settle(): void {
+    this.result = this.compute()
+    this.settled = true
+  }
+}
+
+export class EmulatedRequestContext {
+  readonly presentation: EmulatedPresentation
+  /** Number of completed `sync()` calls on this context */
+  generation = 0
+
+  private pendingLoads: Array<{ target: ClientObject; paths: string[] }> = []
+  private pendingResults: ClientResult<unknown>[] = []
+  private pendingError: EmulatorError | null = null
+
+  constructor(readonly emulator: PowerPointEmulator) {
+    this.presentation = new EmulatedPresentation(this)
+  }
+
+  queueLoad(target: ClientObject, paths: string[]): void {
+    this.pendingLoads.push({ target, paths })
+  }
+
+  queueResult<T>(compute: () => T): ClientResult<T> {
+    const result = new ClientResult(compute)
+    this.pendingResults.push(result as ClientResult<unknown>)
+    return result
+  }
+
+  /** Record an error to be thrown by the next sync (first error wins) */
+  fail(error: EmulatorError): void {
+    if (!this.pendingError) this.pendingError = error
+  }
+
+  async sync(): Promise<void> {
+    const error = this.pendingError
+    const loads = this.pendingLoads
+    const results = this.pendingResults
+    this.pendingError = null
+    this.pendingLoads = []
+    this.pendingResults = []
+    this.generation++
+    this.emulator.syncCount++
+
+    if (error) throw error
+    for (const { target, paths } of loads) target.applyLoad(paths)
+    for (const result of results) result.settle()
+  }
+}
+
+// Proxy objects
+
+abstract class ClientObject {
+  protected readonly values = new Map<string, unknown>()
+  private readonly createdAt: number
+
+  /**
+   * @param missing - Error for a proxy whose document object doesn't exist
+   * @param nullable - Whether the proxy came from a `get*OrNullObject` call, so
+   *   loading it is allowed and reports `isNullObject` instead of failing
+   */
+  constructor(
+    protected readonly context: EmulatedRequestContext,
+    protected readonly missing: EmulatorError | null = null,
+    private readonly nullable = false
+  ) {
+    this.createdAt = context.generation
+  }
+
+  get isNullObject(): boolean {
+    if (this.context.generation === this.createdAt) throw propertyNotLoaded('isNullObject')
+    return this.missing !== null
+  }
+
+  load(option?: string | string[] | { select?: string | string[] }): this {
+    if (this.missing && this.nullable) return this
+    if (!this.ensure()) return this
+    this.context.queueLoad(this, parseLoadOption(option))
+    return this
+  }
+
+  /** Current scalar property values of the underlying document object */
+  protected abstract scalars(): Record<string, unknown>
+
+  /** Navigation property reachable from a load path, e.g. `textFrame` */
+  protected child(_name: string): ClientObject | undefined {
+    return undefined
+  }
+
+  applyLoad(paths: string[]): void {
+    if (this.missing) return
+    const scalars = this.scalars()
+
+    if (paths.length === 0) {
+      for (const [key, value] of Object.entries(scalars)) this.values.set(key, value)
+      return
+    }
+
+    for (const [head, subPaths] of groupLoadPaths(paths)) {
+      if (head in scalars && subPaths.length === 0) {
+        this.values.set(head, scalars[head])
+        continue
+      }
+      const child = this.child(head)
+      if (!child) {
+        throw invalidArgument(`Cannot load unknown property '${head}'.`)
+      }
+      child.assertLoadable()
+      child.applyLoad(subPaths)
+    }
+  }
+
+  /** Throw when a navigation property cannot be loaded (e.g. a text frame on an image) */
+  protected assertLoadable(): void {
+    if (this.missing) throw this.missing
+  }
+
+  /** Read a loaded property */
+  protected read<T>(name: string): T {
+    if (!this.values.has(name)) throw propertyNotLoaded(name)
+    return this.values.get(name) as T
+  }
+
+  /** Write a property through to the document, keeping a loaded value in step */
+  protected write(name: string, value: unknown, apply: () => void): void {
+    if (!this.ensure()) return
+    apply()
+    if (this.values.has(name)) this.values.set(name, value)
+  }
+
+  /** Queue this object's error for the next sync; returns whether the object is usable */
+  protected ensure(): boolean {
+    if (this.missing) {
+      this.context.fail(this.missing)
+      return false
+    }
+    return true
+  }
+}
+
+abstract class ClientCollection<T extends ClientObject> extends ClientObject {
+  private loadedItems: T[] | null = null
+
+  get items(): T[] {
+    if (!this.loadedItems) throw propertyNotLoaded('items')
+    return this.loadedItems
+  }
+
+  /** Fresh proxies for the collection's current members */
+  protected abstract createItems(): T[]
+
+  getCount(): ClientResult<number> {
+    return this.context.queueResult(() => this.createItems().length)
+  }
+
+  applyLoad(paths: string[]): void {
+    if (this.missing) return
+    const groups = groupLoadPaths(paths)
+    if (paths.length === 0 || groups.has('items')) {
+      const items = this.createItems()
+      const subPaths = groups.get('items') || []
+      for (const item of items) item.applyLoad(subPaths)
+      this.loadedItems = items
+    }
+    groups.delete('items')
+    if (groups.size > 0) {
+      super.applyLoad(paths.filter(path => path.split('/')[0] !== 'items'))
+    }
+  }
+}
+
+// Tags
+
+export class EmulatedTag extends ClientObject {
+  constructor(
+    context: EmulatedRequestContext,
+    private readonly tags: Map<string, string> | null,
+    private readonly tagKey: string,
+    nullable = false
+  ) {
+    super(context, tags?.has(tagKey) ? null : itemNotFound(), nullable)
+  }
+
+  get key(): string { return this.read('key') }
+  get value(): string { return this.read('value') }
+  set value(value: string) { this.write('value', value, () => this.tags?.set(this.tagKey, value)) }
+
+  delete(): void {
+    if (this.ensure()) this.tags?.delete(this.tagKey)
+  }
+
+  protected scalars(): Record<string, unknown> {
+    return { key: this.tagKey, value: this.tags?.get(this.tagKey) }
+  }
+}
+
+export class EmulatedTagCollection extends ClientCollection<EmulatedTag> {
+  constructor(context: EmulatedRequestContext, private readonly tags: Map<string, string> | null, missing: EmulatorError | null = null) {
+    super(context, missing)
+  }
+
+  /** Tag keys are stored upper-case, as in PowerPoint */
+  add(key: string, value: string): void {
+    if (this.ensure()) this.tags?.set(key.toUpperCase(), value)
+  }
+
+  delete(key: string): void {
+    if (this.ensure()) this.tags?.delete(key.toUpperCase())
+  }
+
+  getItem(key: string): EmulatedTag {
+    return new EmulatedTag(this.context, this.tags, key.toUpperCase())
+  }
+
+  getItemOrNullObject(key: string): EmulatedTag {
+    return new EmulatedTag(this.context, this.tags, key.toUpperCase(), true)
+  }
+
+  protected createItems(): EmulatedTag[] {
+    return [...(this.tags?.keys() || [])].map(key => new EmulatedTag(this.context, this.tags, key))
+  }
+
+  protected scalars(): Record<string, unknown> {
+    return {}
+  }
+}
+
+// Text
+
+interface TextSpan {
+  start: number
+  length: number
+}
+
+const PARAGRAPH_BREAK = /[\r\n\v]/
+
+/** Font of the character at `index`: the shape's font with the styles covering it applied in order */
+function fontAt(shape: ShapeData, index: number): FontData {
+  const font = { ...shape.font }
+  for (const style of shape.textStyles) {
+    if (style.font && index >= style.start && index < style.start + style.length) Object.assign(font, style.font)
+  }
+  return font
+}
+
+function paragraphFormatAt(shape: ShapeData, index: number): ParagraphFormatData {
+  const format = { ...shape.paragraphFormat }
+  for (const style of shape.textStyles) {
+    if (style.paragraphFormat && index >= style.start && index < style.start + style.length) {
+      Object.assign(format, style.paragraphFormat)
+    }
+  }
+  return format
+}
+
+/**
+ * Value of a formatting property across a span, or null when it varies, as
+ * Office.js reports mixed formatting. An empty span reports the formatting at its start.
+ */
+function spanValue<T>(span: TextSpan, valueAt: (index: number) => T): T | null {
+  const count = Math.max(span.length, 1)
+  const first = valueAt(span.start)
+  for (let i = 1; i < count; i++) {
+    if (valueAt(span.start + i) !== first) return null
+  }
+  return first
+}
+
+/** Widen a span to whole paragraphs, since paragraph formatting can't apply to part of one */
+function paragraphSpan(text: string, span: TextSpan): TextSpan {
+  let start = span.start
+  let end = span.start + span.length
+  while (start > 0 && !PARAGRAPH_BREAK.test(text[start - 1])) start--
+  while (end < text.length && !PARAGRAPH_BREAK.test(text[end])) end++
+  return { start, length: end - start }
+}
+
+/** Format a span; formatting the whole text changes the shape's own formatting instead */
+function applyTextStyle(shape: ShapeData, span: TextSpan, style: Pick<TextStyleData, 'font' | 'paragraphFormat'>): void {
+  if (span.start > 0 || span.length < shape.text.length) {
+    shape.textStyles.push({ ...span, ...style })
+    return
+  }
+  Object.assign(shape.font, style.font)
+  Object.assign(shape.paragraphFormat, style.paragraphFormat)
+  for (const existing of shape.textStyles) {
+    for (const key of Object.keys(style.font || {})) delete (existing.font as Record<string, unknown> | undefined)?.[key]
+    for (const key of Object.keys(style.paragraphFormat || {})) {
+      delete (existing.paragraphFormat as Record<string, unknown> | undefined)?.[key]
+    }
+  }
+}
+
+/**
+ * Replace a span of text. Replacing all of it keeps the formatting of its
+ * first character; otherwise styles after the span move with the text and
+ * styles overlapping it are dropped.
+ */
+function replaceText(shape: ShapeData, span: TextSpan, value: string): void {
+  const end = span.start + span.length
+  if (span.start === 0 && end >= shape.text.length) {
+    shape.font = fontAt(shape, 0)
+    shape.paragraphFormat = paragraphFormatAt(shape, 0)
+    shape.textStyles = []
+  } else {
+    const shift = value.length - span.length
+    shape.textStyles = shape.textStyles
+      .filter(style => style.start + style.length <= span.start || style.start >= end)
+      .map(style => style.start >= end ? { ...style, start: style.start + shift } : style)
+  }
+  shape.text = shape.text.slice(0, span.start) + value + shape.text.slice(end)
+}
+
+const FONT_PROPERTIES = ['name', 'size', 'bold', 'italic', 'color', 'underline'] as const
+
+export class EmulatedShapeFont extends ClientObject {
+  constructor(
+    context: EmulatedRequestContext,
+    private readonly shape: ShapeData | null,
+    missing: EmulatorError | null,
+    private readonly span: () => TextSpan
+  ) {
+    super(context, missing)
+  }
+
+  get name(): string | null { return this.read('name') }
+  set name(value: string) { this.set('name', value) }
+  get size(): number | null { return this.read('size') }
+  set size(value: number) { this.set('size', value) }
+  get bold(): boolean | null { return this.read('bold') }
+  set bold(value: boolean) { this.set('bold', value) }
+  get italic(): boolean | null { return this.read('italic') }
+  set italic(value: boolean) { this.set('italic', value) }
+  get color(): string | null { return this.read('color') }
+  set color(value: string) { this.set('color', value) }
+  get underline(): string | null { return this.read('underline') }
+  set underline(value: string) { this.set('underline', value) }
+
+  protected scalars(): Record<string, unknown> {
+    const span = this.span()
+    return Object.fromEntries(FONT_PROPERTIES.map(key => [key, spanValue(span, index => fontAt(this.shape!, index)[key])]))
+  }
+
+  private set<K extends keyof FontData>(key: K, value: FontData[K]): void {
+    this.write(key, value, () => applyTextStyle(this.shape!, this.span(), { font: { [key]: value } }))
+  }
+}
+
+export class EmulatedBulletFormat extends ClientObject {
+  constructor(
+    context: EmulatedRequestContext,
+    private readonly shape: ShapeData | null,
+    missing: EmulatorError | null,
+    private readonly span: () => TextSpan
+  ) {
+    super(context, missing)
+  }
+
+  get visible(): boolean | null { return this.read('visible') }
+  set visible(value: boolean) {
+    this.write('visible', value, () => {
+      const span = paragraphSpan(this.shape!.text, this.span())
+      applyTextStyle(this.shape!, span, { paragraphFormat: { bulletVisible: value } })
+    })
+  }
+
+  protected scalars(): Record<string, unknown> {
+    return { visible: spanValue(this.span(), index => paragraphFormatAt(this.shape!, index).bulletVisible) }
+  }
+}
+
+export class EmulatedParagraphFormat extends ClientObject {
+  readonly bulletFormat: EmulatedBulletFormat
+
+  constructor(
+    context: EmulatedRequestContext,
+    private readonly shape: ShapeData | null,
+    missing: EmulatorError | null,
+    private readonly span: () => TextSpan
+  ) {
+    super(context, missing)
+    this.bulletFormat = new EmulatedBulletFormat(context, shape, missing, span)
+  }
+
+  get horizontalAlignment(): string | null { return this.read('horizontalAlignment') }
+  set horizontalAlignment(value: string) { this.set('horizontalAlignment', value) }
+  get indentLevel(): number | null { return this.read('indentLevel') }
+  set indentLevel(value: number) { this.set('indentLevel', value) }
+
+  protected scalars(): Record<string, unknown> {
+    const span = this.span()
+    return {
+      horizontalAlignment: spanValue(span, index => paragraphFormatAt(this.shape!, index).horizontalAlignment),
+      indentLevel: spanValue(span, index => paragraphFormatAt(this.shape!, index).indentLevel)
+    }
+  }
+
+  protected child(name: string): ClientObject | undefined {
+    return name === 'bulletFormat' ? this.bulletFormat : undefined
+  }
+
+  private set<K extends 'horizontalAlignment' | 'indentLevel'>(key: K, value: ParagraphFormatData[K]): void {
+    this.write(key, value, () => {
+      const span = paragraphSpan(this.shape!.text, this.span())
+      applyTextStyle(this.shape!, span, { paragraphFormat: { [key]: value } })
+    })
+  }
+}
+
+export class EmulatedTextRange extends ClientObject {
+  readonly font: EmulatedShapeFont
+  readonly paragraphFormat: EmulatedParagraphFormat
+
+  /**
+   * @param rangeStart - Offset of the range in the shape's text
+   * @param rangeLength - Length of the range; the rest of the text when omitted
+   */
+  constructor(
+    context: EmulatedRequestContext,
+    private readonly shape: ShapeData | null,
+    missing: EmulatorError | null,
+    private readonly rangeStart = 0,
+    private readonly rangeLength?: number
+  ) {
+    super(context, missing)
+    this.font = new EmulatedShapeFont(context, shape, missing, () => this.span())
+    this.paragraphFormat = new EmulatedParagraphFormat(context, shape, missing, () => this.span())
+  }
+
+  get text(): string { return this.read('text') }
+  set text(value: string) { this.write('text', value, () => replaceText(this.shape!, this.span(), value)) }
+  get start(): number { return this.read('start') }
+  get length(): number { return this.read('length') }
+
+  getSubstring(start: number, length?: number): EmulatedTextRange {
+    if (!this.ensure()) return new EmulatedTextRange(this.context, null, this.missing)
+    const span = this.span()
+    const substringLength = length ?? span.length - start
+    if (start < 0 || substringLength < 0 || start + substringLength > span.length) {
+      const error = invalidArgument('The substring is outside the text range.')
+      this.context.fail(error)
+      return new EmulatedTextRange(this.context, null, error)
+    }
+    return new EmulatedTextRange(this.context, this.shape, null, span.start + start, substringLength)
+  }
+
+  protected scalars(): Record<string, unknown> {
+    const span = this.span()
+    return { text: this.shape!.text.slice(span.start, span.start + span.length), ...span }
+  }
+
+  protected child(name: string): ClientObject | undefined {
+    return ({ font: this.font, paragraphFormat: this.paragraphFormat } as Record<string, ClientObject>)[name]
+  }
+
+  /** The range clamped to the shape's current text */
+  private span(): TextSpan {
+    const textLength = this.shape!.text.length
+    const start = Math.min(this.rangeStart, textLength)
+    const length = Math.min(this.rangeLength ?? textLength - start, textLength - start)
+    return { start, length }
+  }
+}
+
+export class EmulatedTextFrame extends ClientObject {
+  readonly textRange: EmulatedTextRange
+
+  constructor(context: EmulatedRequestContext, private readonly shape: ShapeData | null, missing: EmulatorError | null) {
+    super(context, missing)
+    this.textRange = new EmulatedTextRange(context, shape, missing)
+  }
+
+  get hasText(): boolean { return this.read('hasText') }
+  get verticalAlignment(): string { return this.read('verticalAlignment') }
+  set verticalAlignment(value: string) {
+    this.write('verticalAlignment', value, () => { this.shape!.verticalAlignment = value })
+  }
+  get wordWrap(): boolean { return this.read('wordWrap') }
+  set wordWrap(value: boolean) { this.write('wordWrap', value, () => { this.shape!.wordWrap = value }) }
+
+  protected scalars(): Record<string, unknown> {
+    return {
+      hasText: this.shape!.text.length > 0,
+      verticalAlignment: this.shape!.verticalAlignment,
+      wordWrap: this.shape!.wordWrap
+    }
+  }
+
+  protected child(name: string): ClientObject | undefined {
+    return name === 'textRange' ? this.textRange : undefined
+  }
+}
+
+// Fill and line
+
+export class EmulatedShapeFill extends ClientObject {
+  constructor(context: EmulatedRequestContext, private readonly shape: ShapeData | null, missing: EmulatorError | null) {
+    super(context, missing)
+  }
+
+  get type(): string { return this.read('type') }
+  get foregroundColor(): string { return this.read('foregroundColor') }
+  set foregroundColor(value: string) {
+    this.write('foregroundColor', value, () => { this.shape!.fill.foregroundColor = value })
+  }
+  get transparency(): number { return this.read('transparency') }
+  set transparency(value: number) {
+    this.write('transparency', value, () => { this.shape!.fill.transparency = value })
+  }
+
+  setSolidColor(color: string): void {
+    if (!this.ensure()) return
+    Object.assign(this.shape!.fill, { type: ShapeFillType.solid, foregroundColor: color, image: undefined })
+  }
+
+  setImage(base64File: string): void {
+    if (!this.ensure()) return
+    if (!base64File) {
+      this.context.fail(invalidArgument('The image data is empty.'))
+      return
+    }
+    Object.assign(this.shape!.fill, { type: ShapeFillType.pictureAndTexture, image: base64File })
+  }
+
+  clear(): void {
+    if (!this.ensure()) return
+    Object.assign(this.shape!.fill, { type: ShapeFillType.noFill, image: undefined })
+  }
+
+  protected scalars(): Record<string, unknown> {
+    const { type, foregroundColor, transparency } = this.shape!.fill
+    return { type, foregroundColor, transparency }
+  }
+}
+
+export class EmulatedShapeLineFormat extends ClientObject {
+  constructor(context: EmulatedRequestContext, private readonly shape: ShapeData | null, missing: EmulatorError | null) {
+    super(context, missing)
+  }
+
+  get visible(): boolean { return this.read('visible') }
+  set visible(value: boolean) { this.write('visible', value, () => { this.shape!.lineFormat.visible = value }) }
+  get color(): string { return this.read('color') }
+  set color(value: string) { this.write('color', value, () => { this.shape!.lineFormat.color = value }) }
+  get weight(): number { return this.read('weight') }
+  set weight(value: number) { this.write('weight', value, () => { this.shape!.lineFormat.weight = value }) }
+  get dashStyle(): string { return this.read('dashStyle') }
+  set dashStyle(value: string) { this.write('dashStyle', value, () => { this.shape!.lineFormat.dashStyle = value }) }
+
+  protected scalars(): Record<string, unknown> {
+    return { ...this.shape!.lineFormat }
+  }
+}
+
+// Shapes
+
+export class EmulatedPlaceholderFormat extends ClientObject {
+  constructor(context: EmulatedRequestContext, private readonly shape: ShapeData | null, missing: EmulatorError | null) {
+    super(context, missing)
+  }
+
+  get type(): string { return this.read('type') }
+  get containedType(): string | null { return this.read('containedType') }
+
+  protected scalars(): Record<string, unknown> {
+    return { type: this.shape!.placeholderType, containedType: null }
+  }
+}
+
+export class EmulatedShapeGroup extends ClientObject {
+  readonly shapes: EmulatedScopedCollection<EmulatedShape>
+
+  constructor(context: EmulatedRequestContext, private readonly shape: ShapeData | null, missing: EmulatorError | null) {
+    super(context, missing)
+    this.shapes = new EmulatedScopedCollection(context, () =>
+      (shape?.shapes || []).map(member => new EmulatedShape(context, shape!.shapes!, member))
+    )
+  }
+
+  get id(): string { return this.read('id') }
+
+  protected scalars(): Record<string, unknown> {
+    return { id: this.shape!.id }
+  }
+
+  protected child(name: string): ClientObject | undefined {
+    return name === 'shapes' ? this.shapes : undefined
+  }
+}
+
+export class EmulatedShape extends ClientObject {
+  readonly textFrame: EmulatedTextFrame
+  readonly fill: EmulatedShapeFill
+  readonly lineFormat: EmulatedShapeLineFormat
+  readonly tags: EmulatedTagCollection
+  readonly placeholderFormat: EmulatedPlaceholderFormat
+  readonly group: EmulatedShapeGroup
+
+  /**
+   * @param container - The shapes the shape belongs to: its slide's, or its group's members
+   */
+  constructor(
+    context: EmulatedRequestContext,
+    private readonly container: ShapeData[] | null,
+    private readonly shape: ShapeData | null,
+    missing: EmulatorError | null = null,
+    nullable = false
+  ) {
+    super(context, missing, nullable)
+    const noText = shape && !TEXT_SHAPE_TYPES.includes(shape.type)
+      ? invalidArgument('This shape doesn\'t support text.')
+      : null
+    const notPlaceholder = shape && shape.type !== ShapeType.placeholder
+      ? invalidArgument('This shape isn\'t a placeholder.')
+      : null
+    const notGroup = shape && shape.type !== ShapeType.group
+      ? invalidArgument('This shape isn\'t a group.')
+      : null
+    this.textFrame = new EmulatedTextFrame(context, shape, missing || noText)
+    this.fill = new EmulatedShapeFill(context, shape, missing)
+    this.lineFormat = new EmulatedShapeLineFormat(context, shape, missing)
+    this.tags = new EmulatedTagCollection(context, shape?.tags || null, missing)
+    this.placeholderFormat = new EmulatedPlaceholderFormat(context, shape, missing || notPlaceholder)
+    this.group = new EmulatedShapeGroup(context, shape, missing || notGroup)
+  }
+
+  /** The document shape behind this proxy (emulator only) */
+  get data(): ShapeData | null { return this.shape }
+
+  get id(): string { return this.read('id') }
+  get type(): string { return this.read('type') }
+  get zOrderPosition(): number { return this.read('zOrderPosition') }
+  get name(): string { return this.read('name') }
+  set name(value: string) { this.write('name', value, () => { this.shape!.name = value }) }
+  get left(): number { return this.read('left') }
+  set left(value: number) { this.write('left', value, () => { this.shape!.left = value }) }
+  get top(): number { return this.read('top') }
+  set top(value: number) { this.write('top', value, () => { this.shape!.top = value }) }
+  get width(): number { return this.read('width') }
+  set width(value: number) { this.write('width', value, () => { this.shape!.width = value }) }
+  get height(): number { return this.read('height') }
+  set height(value: number) { this.write('height', value, () => { this.shape!.height = value }) }
+
+  delete(): void {
+    if (!this.ensure()) return
+    const index = this.container!.indexOf(this.shape!)
+    if (index === -1) {
+      this.context.fail(itemNotFound())
+      return
+    }
+    this.container!.splice(index, 1)
+  }
+
+  setZOrder(position: string): void {
+    if (!this.ensure()) return
+    const shapes = this.container!
+    const index = shapes.indexOf(this.shape!)
+    const target = {
+      [ShapeZOrder.bringToFront]: shapes.length - 1,
+      [ShapeZOrder.sendToBack]: 0,
+      [ShapeZOrder.bringForward]: Math.min(index + 1, shapes.length - 1),
+      [ShapeZOrder.sendBackward]: Math.max(index - 1, 0)
+    }[position]
+    if (target === undefined) {
+      this.context.fail(invalidArgument(`Invalid z-order position '${position}'.`))
+      return
+    }
+    shapes.splice(index, 1)
+    shapes.splice(target, 0, this.shape!)
+  }
+
+  protected scalars(): Record<string, unknown> {
+    const shape = this.shape!
+    return {
+      id: shape.id,
+      name: shape.name,
+      type: shape.type,
+      left: shape.left,
+      top: shape.top,
+      width: shape.width,
+      height: shape.height,
+      zOrderPosition: this.container!.indexOf(shape) + 1
+    }
+  }
+
+  protected child(name: string): ClientObject | undefined {
+    return ({
+      textFrame: this.textFrame,
+      fill: this.fill,
+      lineFormat: this.lineFormat,
+      tags: this.tags,
+      placeholderFormat: this.placeholderFormat,
+      group: this.group
+    } as Record<string, ClientObject>)[name]
+  }
+}
+
+interface ShapeAddOptions {
+  left?: number
+  top?: number
+  width?: number
+  height?: number
+}
+
+export class EmulatedShapeCollection extends ClientCollection<EmulatedShape> {
+  constructor(context: EmulatedRequestContext, private readonly slide: SlideData | null, missing: EmulatorError | null) {
+    super(context, missing)
+  }
+
+  addTextBox(text: string, options?: ShapeAddOptions): EmulatedShape {
+    return this.addShape({
+      type: ShapeType.textBox,
+      name: 'TextBox',
+      text,
+      fill: { type: ShapeFillType.noFill, foregroundColor: '#FFFFFF', transparency: 0 },
+      lineFormat: { visible: false, color: '#000000', weight: 0.75, dashStyle: 'Solid' }
+    }, options)
+  }
+
+  addGeometricShape(geometricShapeType: string, options?: ShapeAddOptions): EmulatedShape {
+    return this.addShape({
+      type: ShapeType.geometricShape,
+      geometricShapeType: toEnumValue(geometricShapeType, GeometricShapeType.rectangle),
+      name: toEnumValue(geometricShapeType, GeometricShapeType.rectangle)
+    }, options)
+  }
+
+  addLine(connectorType?: string, options?: ShapeAddOptions): EmulatedShape {
+    return this.addShape({
+      type: ShapeType.line,
+      connectorType: toEnumValue(connectorType, ConnectorType.straight),
+      name: 'Line',
+      fill: { type: ShapeFillType.noFill, foregroundColor: '#FFFFFF', transparency: 0 }
+    }, options, '1.4')
+  }
+
+  addTable(rowCount: number, columnCount: number, options?: ShapeAddOptions & { values?: string[][] }): EmulatedShape {
+    if (rowCount < 1 || columnCount < 1) {
+      this.context.fail(invalidArgument('A table needs at least one row and one column.'))
+    }
+    const values = Array.from({ length: rowCount }, (_, row) =>
+      Array.from({ length: columnCount }, (_, column) => options?.values?.[row]?.[column] ?? '')
+    )
+    return this.addShape({
+      type: ShapeType.table,
+      name: 'Table',
+      table: { rowCount, columnCount, values }
+    }, options, '1.8')
+  }
+
+  /** Not part of the published API; only available when `supportsAddImage` is set */
+  addImage(base64File: string, options?: ShapeAddOptions): EmulatedShape {
+    if (!this.context.emulator.options.supportsAddImage) {
+      return this.unsupported('ShapeCollection.addImage')
+    }
+    if (!base64File) {
+      this.context.fail(invalidArgument('The image data is empty.'))
+    }
+    return this.addShape({
+      type: ShapeType.image,
+      name: 'Picture',
+      image: base64File,
+      fill: { type: ShapeFillType.noFill, foregroundColor: '#FFFFFF', transparency: 0 },
+      lineFormat: { visible: false, color: '#000000', weight: 0.75, dashStyle: 'Solid' }
+    }, options)
+  }
+
+  /**
+   * Group shapes (given as IDs or shape objects) into a new group that takes
+   * the z-order position of the topmost member
+   */
+  addGroup(values: Array<string | EmulatedShape>): EmulatedShape {
+    if (!this.ensure()) return new EmulatedShape(this.context, null, null, this.missing)
+    if (!this.context.emulator.isSetSupported('PowerPointApi', '1.8')) {
+      return this.unsupported('ShapeCollection.addGroup')
+    }
+    const slide = this.slide!
+    const members = values.map(value => slide.shapes.find(shape => shape.id === (typeof value === 'string' ? value : value.data?.id)))
+    if (members.some(member => !member)) {
+      const error = itemNotFound()
+      this.context.fail(error)
+      return new EmulatedShape(this.context, null, null, error)
+    }
+    if (new Set(members).size < 2) {
+      const error = invalidArgument('A group needs at least two shapes.')
+      this.context.fail(error)
+      return new EmulatedShape(this.context, null, null, error)
+    }
+
+    const ordered = slide.shapes.filter(shape => members.includes(shape))
+    const left = Math.min(...ordered.map(shape => shape.left))
+    const top = Math.min(...ordered.map(shape => shape.top))
+    const group = this.context.emulator.createShape(slide, {
+      type: ShapeType.group,
+      name: 'Group',
+      left,
+      top,
+      width: Math.max(...ordered.map(shape => shape.left + shape.width)) - left,
+      height: Math.max(...ordered.map(shape => shape.top + shape.height)) - top,
+      shapes: ordered
+    })
+    group.name = `${group.name} ${group.id}`
+    const position = slide.shapes.indexOf(ordered[ordered.length - 1]) - (ordered.length - 1)
+    for (const member of ordered) slide.shapes.splice(slide.shapes.indexOf(member), 1)
+    slide.shapes.splice(position, 0, group)
+    return new EmulatedShape(this.context, slide.shapes, group)
+  }
+
+  getItem(id: string): EmulatedShape {
+    const shape = this.slide?.shapes.find(s => s.id === id)
+    return new EmulatedShape(this.context, this.slide?.shapes || null, shape || null, this.missing || (shape ? null : itemNotFound()))
+  }
+
+  getItemOrNullObject(id: string): EmulatedShape {
+    const shape = this.slide?.shapes.find(s => s.id === id)
+    return new EmulatedShape(this.context, this.slide?.shapes || null, shape || null, this.missing || (shape ? null : itemNotFound()), true)
+  }
+
+  getItemAt(index: number): EmulatedShape {
+    const shape = this.slide?.shapes[index]
+    return new EmulatedShape(this.context, this.slide?.shapes || null, shape || null, this.missing || (shape ? null : itemNotFound()))
+  }
+
+  protected createItems(): EmulatedShape[] {
+    return (this.slide?.shapes || []).map(shape => new EmulatedShape(this.context, this.slide!.shapes, shape))
+  }
+
+  protected scalars(): Record<string, unknown> {
+    return {}
+  }
+
+  private addShape(init: Partial<ShapeData>, options: ShapeAddOptions | undefined, apiVersion = '1.4'): EmulatedShape {
+    if (!this.ensure()) return new EmulatedShape(this.context, null, null, this.missing)
+    if (!this.context.emulator.isSetSupported('PowerPointApi', apiVersion)) {
+      return this.unsupported(`ShapeCollection (PowerPointApi ${apiVersion})`)
+    }
+    const slide = this.slide!
+    const shape = this.context.emulator.createShape(slide, {
+      left: options?.left ?? 0,
+      top: options?.top ?? 0,
+      width: options?.width ?? 100,
+      height: options?.height ?? 100,
+      ...init
+    })
+    shape.name = `${shape.name} ${shape.id}`
+    slide.shapes.push(shape)
+    return new EmulatedShape(this.context, slide.shapes, shape)
+  }
+
+  private unsupported(api: string): EmulatedShape {
+    const error = new EmulatorError('ApiNotFound', `The API '${api}' is not supported by this host.`)
+    this.context.fail(error)
+    return new EmulatedShape(this.context, null, null, error)
+  }
+}
+
+// Slides
+
+class EmulatedSlideLayout extends ClientObject {
+  constructor(context: EmulatedRequestContext, private readonly layoutId: string, missing: EmulatorError | null) {
+    super(context, missing)
+  }
+
+  get id(): string { return this.read('id') }
+  get name(): string { return this.read('name') }
+
+  protected scalars(): Record<string, unknown> {
+    return { id: this.layoutId, name: this.layoutId === DEFAULT_LAYOUT_ID ? 'Title and Content' : this.layoutId }
+  }
+}
+
+export class EmulatedSlide extends ClientObject {
+  readonly shapes: EmulatedShapeCollection
+  readonly tags: EmulatedTagCollection
+  readonly layout: EmulatedSlideLayout
+  readonly slideMaster: EmulatedSlideLayout
+
+  constructor(
+    context: EmulatedRequestContext,
+    private readonly slide: SlideData | null,
+    missing: EmulatorError | null = null,
+    nullable = false
+  ) {
+    super(context, missing, nullable)
+    this.shapes = new EmulatedShapeCollection(context, slide, missing)
+    this.tags = new EmulatedTagCollection(context, slide?.tags || null, missing)
+    this.layout = new EmulatedSlideLayout(context, slide?.layoutId || '', missing)
+    this.slideMaster = new EmulatedSlideLayout(context, slide?.slideMasterId || '', missing)
+  }
+
+  get id(): string { return this.read('id') }
+  get index(): number { return this.read('index') }
+
+  delete(): void {
+    if (!this.ensure()) return
+    const document = this.context.emulator.document
+    const index = document.slides.indexOf(this.slide!)
+    if (index === -1) {
+      this.context.fail(itemNotFound())
+      return
+    }
+    document.slides.splice(index, 1)
+    document.selectedSlideIds = document.selectedSlideIds.filter(id => id !== this.slide!.id)
+  }
+
+  moveTo(slideIndex: number): void {
+    if (!this.ensure()) return
+    if (!this.context.emulator.isSetSupported('PowerPointApi', '1.8')) {
+      this.context.fail(new EmulatorError('ApiNotFound', 'The API \'Slide.moveTo\' is not supported by this host.'))
+      return
+    }
+    const slides = this.context.emulator.document.slides
+    if (slideIndex < 0 || slideIndex >= slides.length) {
+      this.context.fail(invalidArgument(`Slide index ${slideIndex} is out of range.`))
+      return
+    }
+    slides.splice(slides.indexOf(this.slide!), 1)
+    slides.splice(slideIndex, 0, this.slide!)
+  }
+
+  exportAsBase64(): ClientResult<string> {
+    if (this.ensure() && !this.context.emulator.isSetSupported('PowerPointApi', '1.8')) {
+      this.context.fail(new EmulatorError('ApiNotFound', 'The API \'Slide.exportAsBase64\' is not supported by this host.'))
+    }
+    return this.context.queueResult(() => exportSlides([this.slide!]))
+  }
+
+  setSelectedShapes(shapeIds: string[]): void {
+    if (!this.ensure()) return
+    const missing = shapeIds.find(id => !this.slide!.shapes.some(shape => shape.id === id))
+    if (missing) {
+      this.context.fail(itemNotFound())
+      return
+    }
+    this.context.emulator.document.selectedSlideIds = [this.slide!.id]
+    this.context.emulator.document.selectedShapeIds = [...shapeIds]
+  }
+
+  protected scalars(): Record<string, unknown> {
+    return {
+      id: this.slide!.id,
+      index: this.context.emulator.document.slides.indexOf(this.slide!)
+    }
+  }
+
+  protected child(name: string): ClientObject | undefined {
+    return ({ shapes: this.shapes, tags: this.tags, layout: this.layout, slideMaster: this.slideMaster } as Record<string, ClientObject>)[name]
+  }
+}
+
+export class EmulatedSlideCollection extends ClientCollection<EmulatedSlide> {
+  /** Appends a slide to the end of the presentation */
+  add(options?: { layoutId?: string; slideMasterId?: string }): void {
+    const emulator = this.context.emulator
+    emulator.document.slides.push(emulator.createSlide(options))
+  }
+
+  getItem(id: string): EmulatedSlide {
+    const slide = this.find(id)
+    return new EmulatedSlide(this.context, slide, slide ? null : itemNotFound())
+  }
+
+  getItemOrNullObject(id: string): EmulatedSlide {
+    const slide = this.find(id)
+    return new EmulatedSlide(this.context, slide, slide ? null : itemNotFound(), true)
+  }
+
+  getItemAt(index: number): EmulatedSlide {
+    const slide = this.context.emulator.document.slides[index] || null
+    return new EmulatedSlide(this.context, slide, slide ? null : itemNotFound())
+  }
+
+  protected createItems(): EmulatedSlide[] {
+    return this.context.emulator.document.slides.map(slide => new EmulatedSlide(this.context, slide))
+  }
+
+  protected scalars(): Record<string, unknown> {
+    return {}
+  }
+
+  private find(id: string): SlideData | null {
+    return this.context.emulator.document.slides.find(slide => slide.id === id) || null
+  }
+}
+
+/** Read-only view over a fixed set of items, e.g. the current selection */
+class EmulatedScopedCollection<T extends ClientObject> extends ClientCollection<T> {
+  constructor(context: EmulatedRequestContext, private readonly resolve: () => T[]) {
+    super(context)
+  }
+
+  getItemAt(index: number): T | undefined {
+    return this.resolve()[index]
+  }
+
+  protected createItems(): T[] {
+    return this.resolve()
+  }
+
+  protected scalars(): Record<string, unknown> {
+    return {}
+  }
+}
+
+export class EmulatedPresentation extends ClientObject {
+  readonly slides: EmulatedSlideCollection
+  readonly tags: EmulatedTagCollection
+
+  constructor(context: EmulatedRequestContext) {
+    super(context)
+    this.slides = new EmulatedSlideCollection(context)
+    this.tags = new EmulatedTagCollection(context, context.emulator.document.tags)
+  }
+
+  get id(): string { return this.read('id') }
+  get title(): string { return this.read('title') }
+
+  /**
+   * Selected slides in selection order. Like PowerPoint's normal view, the
+   * first slide counts as selected when nothing else is.
+   */
+  getSelectedSlides(): EmulatedScopedCollection<EmulatedSlide> {
+    return new EmulatedScopedCollection(this.context, () => {
+      const document = this.context.emulator.document
+      const ids = document.selectedSlideIds.length > 0
+        ? document.selectedSlideIds
+        : document.slides.slice(0, 1).map(slide => slide.id)
+      return ids
+        .map(id => document.slides.find(slide => slide.id === id))
+        .filter((slide): slide is SlideData => Boolean(slide))
+        .map(slide => new EmulatedSlide(this.context, slide))
+    })
+  }
+
+  getSelectedShapes(): EmulatedScopedCollection<EmulatedShape> {
+    return new EmulatedScopedCollection(this.context, () => {
+      const document = this.context.emulator.document
+      const slide = document.slides.find(s => s.id === document.selectedSlideIds[0])
+      if (!slide) return []
+      return document.selectedShapeIds
+        .map(id => slide.shapes.find(shape => shape.id === id))
+        .filter((shape): shape is ShapeData => Boolean(shape))
+        .map(shape => new EmulatedShape(this.context, slide.shapes, shape))
+    })
+  }
+
+  setSelectedSlides(slideIds: string[]): void {
+    const document = this.context.emulator.document
+    if (slideIds.some(id => !document.slides.some(slide => slide.id === id))) {
+      this.context.fail(itemNotFound())
+      return
+    }
+    document.selectedSlideIds = [...slideIds]
+    document.selectedShapeIds = []
+  }
+
+  /**
+   * Insert slides from a file produced by `Slide.exportAsBase64`. Without a
+   * `targetSlideId` the slides go to the beginning of the presentation.
+   */
+  insertSlidesFromBase64(
+    base64File: string,
+    options?: { targetSlideId?: string; sourceSlideIds?: string[]; formatting?: string }
+  ): void {
+    const emulator = this.context.emulator
+    const slides = emulator.document.slides
+
+    let insertAt = 0
+    if (options?.targetSlideId) {
+      const target = slides.findIndex(slide => slide.id === options.targetSlideId)
+      if (target === -1) {
+        this.context.fail(new EmulatorError('SlideNotFound', `Slide '${options.targetSlideId}' doesn't exist.`))
+        return
+      }
+      insertAt = target + 1
+    }
+
+    const source = importSlides(base64File)
+    if (!source) {
+      this.context.fail(invalidArgument('The file is not a valid presentation.'))
+      return
+    }
+
+    const selected = options?.sourceSlideIds
+      ? source.filter(slide => options.sourceSlideIds!.includes(slide.id))
+      : source
+    const copies = selected.map(slide => ({ ...slide, id: emulator.nextSlideId() }))
+    slides.splice(insertAt, 0, ...copies)
+  }
+
+  protected scalars(): Record<string, unknown> {
+    return { id: 'presentation', title: this.context.emulator.document.title }
+  }
+
+  protected child(name: string): ClientObject | undefined {
+    return ({ slides: this.slides, tags: this.tags } as Record<string, ClientObject>)[name]
+  }
+}
+
+// Export format
+
+interface SerializedShape extends Omit<ShapeData, 'tags' | 'shapes'> {
+  tags: Array<[string, string]>
+  shapes?: SerializedShape[]
+}
+
+interface SerializedSlide extends Omit<SlideData, 'shapes' | 'tags'> {
+  shapes: SerializedShape[]
+  tags: Array<[string, string]>
+}
+
+function serializeShape(shape: ShapeData): SerializedShape {
+  return { ...shape, tags: [...shape.tags], shapes: shape.shapes?.map(serializeShape) }
+}
+
+function deserializeShape(shape: SerializedShape): ShapeData {
+  return { ...shape, tags: new Map(shape.tags), shapes: shape.shapes?.map(deserializeShape) }
+}
+
+function exportSlides(slides: SlideData[]): string {
+  const serialized: SerializedSlide[] = slides.map(slide => ({
+    ...slide,
+    tags: [...slide.tags],
+    shapes: slide.shapes.map(serializeShape)
+  }))
+  return Buffer.from(JSON.stringify({ format: EXPORT_FORMAT, slides: serialized })).toString('base64')
+}
+
+function importSlides(base64File: string): SlideData[] | null {
+  try {
+    const file = JSON.parse(Buffer.from(base64File, 'base64').toString('utf8'))
+    if (file?.format !== EXPORT_FORMAT || !Array.isArray(file.slides)) return null
+    return (file.slides as SerializedSlide[]).map(slide => ({
+      ...slide,
+      tags: new Map(slide.tags),
+      shapes: slide.shapes.map(deserializeShape)
+    }))
+  } catch {
+    return null
+  }
+}
+
+// Emulator
+
+export class PowerPointEmulator {
+  readonly options: Required<PowerPointEmulatorOptions>
+  readonly document: PresentationData = {
+    title: 'Presentation1',
+    slides: [],
+    selectedSlideIds: [],
+    selectedShapeIds: [],
+    tags: new Map()
+  }
+  /** Total `context.sync()` calls across all `PowerPoint.run` batches */
+  syncCount = 0
+  /** Number of `PowerPoint.run` batches started */
+  runCount = 0
+
+  private slideCounter = 256
+
+  constructor(options: PowerPointEmulatorOptions = {}) {
+    this.options = {
+      slideCount: options.slideCount ?? 0,
+      apiVersion: options.apiVersion ?? '1.8',
+      supportsAddImage: options.supportsAddImage ?? true
+    }
+    for (let i = 0; i < this.options.slideCount; i++) {
+      this.document.slides.push(this.createSlide())
+    }
+  }
+
+  /** `PowerPoint.run`: flushes queued work with a final sync, like Office.js */
+  async run<T>(batch: (context: EmulatedRequestContext) => Promise<T>): Promise<T> {
+    this.runCount++
+    const context = new EmulatedRequestContext(this)
+    const result = await batch(context)
+    await context.sync()
+    return result
+  }
+
+  isSetSupported(name: string, version = '1.1'): boolean {
+    return name === 'PowerPointApi' && compareVersions(this.options.apiVersion, version) >= 0
+  }
+
+  nextSlideId(): string {
+    return `${this.slideCounter++}#`
+  }
+
+  createSlide(options: { layoutId?: string; slideMasterId?: string } = {}): SlideData {
+    return {
+      id: this.nextSlideId(),
+      layoutId: options.layoutId || DEFAULT_LAYOUT_ID,
+      slideMasterId: options.slideMasterId || DEFAULT_SLIDE_MASTER_ID,
+      shapes: [],
+      tags: new Map(),
+      nextShapeId: 2
+    }
+  }
+
+  /**
+   * Create a shape with default formatting, without adding it to the slide.
+   * Lets tests build shapes the API can't add, such as layout placeholders
+   * or groups (`shapes` holds the members).
+   */
+  createShape(slide: SlideData, init: Partial<ShapeData> = {}): ShapeData {
+    return {
+      id: String(slide.nextShapeId++),
+      name: 'Shape',
+      type: ShapeType.geometricShape,
+      left: 0,
+      top: 0,
+      width: 100,
+      height: 100,
+      text: '',
+      font: { name: 'Calibri', size: 18, bold: false, italic: false, color: '#000000', underline: 'None' },
+      paragraphFormat: { horizontalAlignment: 'Left', indentLevel: 1, bulletVisible: false },
+      textStyles: [],
+      verticalAlignment: TextVerticalAlignment.top,
+      wordWrap: true,
+      fill: { type: ShapeFillType.solid, foregroundColor: '#4472C4', transparency: 0 },
+      lineFormat: { visible: true, color: '#2F528F', weight: 1, dashStyle: 'Solid' },
+      tags: new Map(),
+      ...init
+    }
+  }
+
+  /** Slide at a 0-based index; throws when it doesn't exist */
+  getSlide(index: number): SlideData {
+    const slide = this.document.slides[index]
+    if (!slide) throw new Error(`No slide at index ${index}`)
+    return slide
+  }
+
+  /** Shape by ID on any slide */
+  findShape(shapeId: string, slideId?: string): ShapeData | undefined {
+    const slides = slideId
+      ? this.document.slides.filter(slide => slide.id === slideId)
+      : this.document.slides
+    for (const slide of slides) {
+      const shape = slide.shapes.find(s => s.id === shapeId)
+      if (shape) return shape
+    }
+    return undefined
+  }
+
+  /** Simulate the user selecting slides (and optionally shapes on the first one) */
+  select(slideIds: string[], shapeIds: string[] = []): void {
+    this.document.selectedSlideIds = [...slideIds]
+    this.document.selectedShapeIds = [...shapeIds]
+  }
+
+  /** The object installed as the `PowerPoint` global */
+  createNamespace() {
+    return {
+      run: <T>(batch: (context: EmulatedRequestContext) => Promise<T>) => this.run(batch),
+      ShapeType,
+      GeometricShapeType,
+      ConnectorType,
+      TextVerticalAlignment,
+      InsertSlideFormatting,
+      ShapeFillType,
+      ParagraphHorizontalAlignment,
+      PlaceholderType,
+      ShapeZOrder
+    }
+  }
+
+  /** The object installed as the `Office` global */
+  createOfficeNamespace() {
+    return {
+      HostType: { PowerPoint: 'PowerPoint' },
+      context: {
+        requirements: {
+          isSetSupported: (name: string, version?: string) => this.isSetSupported(name, version)
+        }
+      },
+      onReady: async () => ({ host: 'PowerPoint', platform: 'PC' })
+    }
+  }
+}
+
+const GLOBAL_NAMES = ['PowerPoint', 'Office', 'OfficeExtension'] as const
+
+let installed: PowerPointEmulator | null = null
+
+/**
+ * Create an emulator and install it as the `PowerPoint`, `Office` and
+ * `OfficeExtension` globals, replacing any previously installed one
+ */
+export function installPowerPointEmulator(options?: PowerPointEmulatorOptions): PowerPointEmulator {
+  const emulator = new PowerPointEmulator(options)
+  const globals = globalThis as Record<string, unknown>
+  globals.PowerPoint = emulator.createNamespace()
+  globals.Office = emulator.createOfficeNamespace()
+  globals.OfficeExtension = { Error: EmulatorError }
+  installed = emulator
+  return emulator
+}
+
+/** Remove the emulator globals so `isOfficeAvailable()` reports false again */
+export function uninstallPowerPointEmulator(): void {
+  const globals = globalThis as Record<string, unknown>
+  for (const name of GLOBAL_NAMES) delete globals[name]
+  installed = null
+}
+
+/** The currently installed emulator */
+export function getPowerPointEmulator(): PowerPointEmulator {
+  if (!installed) throw new Error('PowerPoint emulator is not installed')
+  return installed
+}
@@ -0,0 +1,18 @@
+/**
+ * Vitest setup
+ *
+ * Every test starts with a fresh PowerPoint emulator installed as the
+ * Office.js globals. Tests that need different host capabilities call
+ * `installPowerPointEmulator(options)` again to replace it.
+ */
+
+import { afterEach, beforeEach } from 'vitest'
+import { installPowerPointEmulator, uninstallPowerPointEmulator } from './powerpoint-emulator'
+
+beforeEach(() => {
+  installPowerPointEmulator()
+})
+
+afterEach(() => {
+  uninstallPowerPointEmulator()
+})
@@ -52,24 +52,60 @@ export interface AppSettings {
 }
 
 // MCP types
+export type ApprovalDecision = 'allow' | 'ask' | 'deny'
+
+// Annotation class of an MCP tool: readOnlyHint, destructiveHint, or any other change
+export type ToolClass = 'readOnly' | 'write' | 'destructive'
+
+// What the add-in does with AI requests; a tool override wins over its class
+export interface ApprovalPolicy {
+  classes: Record<ToolClass, ApprovalDecision>
+  // Keyed by tool name
+  tools: Record<string, ApprovalDecision>
+}
+
 export interface MCPServerConfig {
   enabled: boolean
   port: number
   authToken?: string
+  approvalPolicy?: ApprovalPolicy
 }
 
+// `auto` uses WebSocket for ws:// URLs, SSE for URLs ending in /sse, and
+// otherwise tries Streamable HTTP before falling back to SSE
+export type MCPClientTransport = 'auto' | 'streamable-http' | 'sse' | 'websocket'
+
+export type MCPClientStatus = 'disconnected' | 'connecting' | 'connected' | 'error'
+
 export interface MCPClientEndpoint {
   id: string
   name: string
   url: string
   enabled: boolean
+  transport?: MCPClientTransport
+  // Sent as `Authorization: Bearer <token>` (HTTP transports only)
+  authToken?: string
+  // Extra HTTP headers (HTTP transports only)
+  headers?: Record<string, string>
   lastConnected?: Date
+  // Live connection state, not persisted
+  status?: MCPClientStatus
+  error?: string
+  toolCount?: number
 }
 
 export interface MCPToolDefinition {
   name: string
+  title?: string
   description: string
   inputSchema: Record<string, unknown>
+  annotations?: {
+    title?: string
+    readOnlyHint?: boolean
+    destructiveHint?: boolean
+    idempotentHint?: boolean
+    openWorldHint?: boolean
+  }
 }
 
 export interface MCPToolResult {